@@ -0,0 +1,122 @@
+"use server";
+
+import { z } from "zod";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { requirePermission } from "@/lib/auth/permissions";
+import { logAuditAction } from "@/lib/audit/audit-logger";
+import { BrandKitSchema, type BrandKitSettings } from "@/lib/email-builder/theme";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+
+async function getOrgMember(userId: string) {
+  return prisma.organizationMember.findFirst({
+    where: { userId },
+    include: { organization: true },
+  });
+}
+
+function permissionError(error: unknown): string | null {
+  if (error instanceof Error && error.message.includes("Permission denied")) {
+    return error.message;
+  }
+  return null;
+}
+
+/**
+ * Get the organization's brand kit. Returns null when none has been saved.
+ */
+export async function getBrandKit() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    const brandKit = await prisma.brandKit.findUnique({
+      where: { organizationId: orgMember.organization.id },
+    });
+    if (!brandKit) {
+      return { success: true, brandKit: null };
+    }
+
+    // Stored JSON is validated so malformed values never reach the builder
+    const parsed = BrandKitSchema.safeParse({
+      logoUrl: brandKit.logoUrl,
+      colors: brandKit.colors,
+      fonts: brandKit.fonts,
+      socialLinks: brandKit.socialLinks,
+      companyInfo: brandKit.companyInfo,
+    });
+
+    return { success: true, brandKit: parsed.success ? parsed.data : null };
+  } catch (error) {
+    console.error("Get brand kit error:", error);
+    return { error: "Failed to get brand kit" };
+  }
+}
+
+/**
+ * Create or update the organization's brand kit
+ */
+export async function saveBrandKit(data: BrandKitSettings) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "settings.edit");
+
+    const validated = BrandKitSchema.parse(data);
+    const values = {
+      logoUrl: validated.logoUrl?.trim() || null,
+      colors: validated.colors ?? undefined,
+      fonts: validated.fonts ?? undefined,
+      socialLinks: validated.socialLinks?.filter((link) => link.url.trim()) ?? undefined,
+      companyInfo: validated.companyInfo ?? undefined,
+    };
+
+    const brandKit = await prisma.brandKit.upsert({
+      where: { organizationId: orgMember.organization.id },
+      create: { organizationId: orgMember.organization.id, ...values },
+      update: values,
+    });
+
+    const headersList = await headers();
+    await logAuditAction({
+      userId: user.id,
+      organizationId: orgMember.organization.id,
+      action: "UPDATE",
+      resource: "BRAND_KIT",
+      resourceId: brandKit.id,
+      details: { colors: values.colors, fonts: values.fonts },
+      ipAddress:
+        headersList.get("x-forwarded-for") ||
+        headersList.get("x-real-ip") ||
+        undefined,
+      userAgent: headersList.get("user-agent") || undefined,
+    });
+
+    revalidatePath("/dashboard/settings/brand-kit");
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.errors.map((e) => e.message).join(", ") };
+    }
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Save brand kit error:", error);
+    return { error: "Failed to save brand kit" };
+  }
+}
@@ -5,6 +5,8 @@ import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
 import { revalidatePath } from "next/cache";
 import type { CampaignStatus } from "@prisma/client";
+import { buildVariableContract } from "@/lib/campaigns/campaign-service";
+import { toVariablePolicy } from "@/lib/campaigns/variable-contract";
 
 /**
  * Campaign creation schema
@@ -13,6 +15,7 @@ const createCampaignSchema = z.object({
   name: z.string().min(1, "Name is required").max(255),
   templateId: z.string().min(1, "Template ID is required"),
   subject: z.string().min(1, "Subject is required").max(255),
+  preheader: z.string().max(255).optional(),
   smtpProfileId: z.string().optional(),
   scheduledAt: z.string().datetime().optional(),
 });
@@ -23,6 +26,7 @@ const createCampaignSchema = z.object({
 const updateCampaignSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   subject: z.string().min(1).max(255).optional(),
+  preheader: z.string().max(255).optional().nullable(),
   smtpProfileId: z.string().optional(),
   scheduledAt: z.string().datetime().optional().nullable(),
 });
@@ -238,6 +242,7 @@ export async function createCampaign(data: z.infer<typeof createCampaignSchema>)
         templateId: validated.templateId,
         name: validated.name,
         subject: validated.subject,
+        preheader: validated.preheader?.trim() || null,
         smtpProfileId: smtpProfileId || null,
         scheduledAt: validated.scheduledAt ? new Date(validated.scheduledAt) : null,
         status: validated.scheduledAt ? "SCHEDULED" : "DRAFT",
@@ -457,6 +462,8 @@ export async function updateCampaign(
 
     if (validated.name !== undefined) updateData.name = validated.name;
     if (validated.subject !== undefined) updateData.subject = validated.subject;
+    if (validated.preheader !== undefined)
+      updateData.preheader = validated.preheader?.trim() || null;
     if (validated.smtpProfileId !== undefined)
       updateData.smtpProfileId = validated.smtpProfileId || null;
     if (validated.scheduledAt !== undefined) {
@@ -602,6 +609,7 @@ export async function duplicateCampaign(id: string) {
         templateId: originalCampaign.templateId,
         name: `${originalCampaign.name} (Copy)`,
         subject: originalCampaign.subject,
+        preheader: originalCampaign.preheader,
         smtpProfileId: originalCampaign.smtpProfileId,
         status: "DRAFT",
         createdBy: user.id,
@@ -617,3 +625,55 @@ export async function duplicateCampaign(id: string) {
   }
 }
 
+
+/**
+ * Preflight check of recipient data against the variables a template uses,
+ * before the campaign is created
+ */
+export async function checkRecipientVariables(
+  templateId: string,
+  recipients: Array<{ variables?: Record<string, any> }>,
+  fields: { subject?: string; preheader?: string } = {}
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await prisma.organizationMember.findFirst({
+      where: { userId: user.id },
+      include: { organization: true },
+    });
+
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    const template = await prisma.template.findFirst({
+      where: { id: templateId, organizationId: orgMember.organization.id },
+      select: { id: true, defaultLanguage: true },
+    });
+
+    if (!template) {
+      return { error: "Template not found" };
+    }
+
+    const report = await buildVariableContract(
+      template.id,
+      template.defaultLanguage,
+      orgMember.organization.id,
+      recipients.map((recipient) => recipient.variables),
+      fields
+    );
+
+    return {
+      success: true,
+      report,
+      policy: toVariablePolicy(orgMember.organization.variablePolicy),
+    };
+  } catch (error) {
+    console.error("Check recipient variables error:", error);
+    return { error: "Failed to check recipient variables" };
+  }
+}
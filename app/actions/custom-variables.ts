@@ -4,6 +4,9 @@ import { z } from "zod";
 import { prisma } from "@/lib/db/prisma";
 import { getCurrentUser } from "@/lib/auth/session";
 import { revalidatePath } from "next/cache";
+import { parseExpression } from "@/lib/email/expressions";
+import { orderComputedVariables } from "@/lib/email/computed-variables";
+import { invalidateComputedVariableCache } from "@/lib/email/computed-variable-loader";
 
 const createCustomVariableSchema = z.object({
   name: z.string().min(1, "Name is required").max(255),
@@ -11,11 +14,39 @@ const createCustomVariableSchema = z.object({
   description: z.string().optional(),
   type: z.enum(["string", "number", "boolean", "object", "array"]).default("string"),
   sampleValue: z.any().optional(),
+  expression: z.string().max(1000, "Expression is too long").nullable().optional(),
   category: z.string().default("Custom"),
 });
 
 const updateCustomVariableSchema = createCustomVariableSchema.partial();
 
+/**
+ * Check a computed variable's expression, including that it doesn't
+ * depend on itself through the organization's other computed variables
+ */
+async function checkExpression(
+  organizationId: string,
+  path: string,
+  expression: string,
+  excludeId?: string
+): Promise<string | null> {
+  const parsed = parseExpression(expression);
+  if (parsed.error) {
+    return `Invalid expression: ${parsed.error.message}`;
+  }
+
+  const others = await prisma.customVariable.findMany({
+    where: { organizationId, expression: { not: null }, ...(excludeId ? { id: { not: excludeId } } : {}) },
+    select: { path: true, expression: true },
+  });
+  const { errors } = orderComputedVariables([
+    ...others.map((other) => ({ path: other.path, expression: other.expression as string })),
+    { path, expression },
+  ]);
+  const cycle = errors.find((error) => error.path === path);
+  return cycle ? cycle.message : null;
+}
+
 /**
  * Get all custom variables for the current organization
  */
@@ -84,6 +115,14 @@ export async function createCustomVariable(data: z.infer<typeof createCustomVari
       ? validated.path 
       : `custom.${validated.path}`;
 
+    const expression = validated.expression?.trim() || null;
+    if (expression) {
+      const expressionError = await checkExpression(orgMember.organization.id, path, expression);
+      if (expressionError) {
+        return { error: expressionError };
+      }
+    }
+
     // Check if path already exists
     const existing = await prisma.customVariable.findFirst({
       where: {
@@ -100,9 +139,11 @@ export async function createCustomVariable(data: z.infer<typeof createCustomVari
       data: {
         ...validated,
         path,
+        expression,
         organizationId: orgMember.organization.id,
       },
     });
+    invalidateComputedVariableCache(orgMember.organization.id);
 
     revalidatePath("/dashboard/templates");
     return { success: true, variable };
@@ -178,13 +219,31 @@ export async function updateCustomVariable(
       }
     }
 
+    // An empty expression turns a computed variable back into a static one
+    const expression =
+      validated.expression === undefined ? undefined : validated.expression?.trim() || null;
+    const effectiveExpression = expression === undefined ? variable.expression : expression;
+    if (effectiveExpression) {
+      const expressionError = await checkExpression(
+        orgMember.organization.id,
+        path || variable.path,
+        effectiveExpression,
+        id
+      );
+      if (expressionError) {
+        return { error: expressionError };
+      }
+    }
+
     const updated = await prisma.customVariable.update({
       where: { id },
       data: {
         ...validated,
         path: path || undefined,
+        expression,
       },
     });
+    invalidateComputedVariableCache(orgMember.organization.id);
 
     revalidatePath("/dashboard/templates");
     return { success: true, variable: updated };
@@ -237,6 +296,7 @@ export async function deleteCustomVariable(id: string) {
     await prisma.customVariable.delete({
       where: { id },
     });
+    invalidateComputedVariableCache(orgMember.organization.id);
 
     revalidatePath("/dashboard/templates");
     return { success: true };
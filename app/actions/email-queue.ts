@@ -17,6 +17,7 @@ export async function queueEmail(data: {
   smtpProfileId?: string;
   campaignId?: string;
   subject?: string;
+  preheader?: string;
   delay?: number; // Delay in milliseconds
   priority?: number;
 }) {
@@ -80,6 +81,7 @@ export async function queueEmail(data: {
       campaignId: data.campaignId,
       priority: data.priority,
       subject: data.subject,
+      preheader: data.preheader,
     };
 
     // Add to queue
@@ -110,6 +112,7 @@ export async function queueBulkEmails(data: {
   smtpProfileId?: string;
   campaignId?: string;
   subject?: string;
+  preheader?: string;
   delay?: number;
   priority?: number;
 }) {
@@ -173,6 +176,7 @@ export async function queueBulkEmails(data: {
       campaignId: data.campaignId,
       priority: data.priority,
       subject: data.subject,
+      preheader: data.preheader,
     }));
 
     // Add to bulk queue
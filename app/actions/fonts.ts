@@ -0,0 +1,167 @@
+"use server";
+
+import { z } from "zod";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { requirePermission } from "@/lib/auth/permissions";
+import { logAuditAction } from "@/lib/audit/audit-logger";
+import { CustomFontSchema, type CustomFontInput } from "@/lib/email-builder/fonts";
+import { invalidateFontCache, toCustomFont } from "@/lib/fonts/loader";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+
+async function getOrgMember(userId: string) {
+  return prisma.organizationMember.findFirst({
+    where: { userId },
+    include: { organization: true },
+  });
+}
+
+function permissionError(error: unknown): string | null {
+  if (error instanceof Error && error.message.includes("Permission denied")) {
+    return error.message;
+  }
+  return null;
+}
+
+async function logFontAction(
+  userId: string,
+  organizationId: string,
+  action: "CREATE" | "DELETE",
+  fontId: string,
+  name: string
+) {
+  const headersList = await headers();
+  await logAuditAction({
+    userId,
+    organizationId,
+    action,
+    resource: "CUSTOM_FONT",
+    resourceId: fontId,
+    details: { name },
+    ipAddress:
+      headersList.get("x-forwarded-for") ||
+      headersList.get("x-real-ip") ||
+      undefined,
+    userAgent: headersList.get("user-agent") || undefined,
+  });
+}
+
+/**
+ * Get the organization's custom web fonts
+ */
+export async function getCustomFonts() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    const fonts = await prisma.customFont.findMany({
+      where: { organizationId: orgMember.organization.id },
+      orderBy: { name: "asc" },
+    });
+
+    return { success: true, fonts: fonts.map(toCustomFont) };
+  } catch (error) {
+    console.error("Get custom fonts error:", error);
+    return { error: "Failed to get custom fonts" };
+  }
+}
+
+/**
+ * Register a web font from a stylesheet URL or an uploaded font file
+ */
+export async function createCustomFont(data: CustomFontInput) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "settings.edit");
+
+    const validated = CustomFontSchema.parse(data);
+    const organizationId = orgMember.organization.id;
+
+    const existing = await prisma.customFont.findUnique({
+      where: { organizationId_name: { organizationId, name: validated.name } },
+    });
+    if (existing) {
+      return { error: `A font named "${validated.name}" already exists` };
+    }
+
+    const font = await prisma.customFont.create({
+      data: {
+        organizationId,
+        name: validated.name,
+        cssUrl: validated.cssUrl || null,
+        fileUrl: validated.cssUrl ? null : validated.fileUrl || null,
+        fallback: validated.fallback,
+      },
+    });
+
+    await logFontAction(user.id, organizationId, "CREATE", font.id, font.name);
+
+    revalidatePath("/dashboard/settings/brand-kit");
+    return { success: true, font: toCustomFont(font) };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.errors.map((e) => e.message).join(", ") };
+    }
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Create custom font error:", error);
+    return { error: "Failed to add font" };
+  }
+}
+
+/**
+ * Remove a custom font. Templates still using it render with the
+ * default system font.
+ */
+export async function deleteCustomFont(id: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "settings.edit");
+
+    const font = await prisma.customFont.findFirst({
+      where: { id, organizationId: orgMember.organization.id },
+    });
+    if (!font) {
+      return { error: "Font not found" };
+    }
+
+    await prisma.customFont.delete({ where: { id } });
+    invalidateFontCache(orgMember.organization.id, id);
+
+    await logFontAction(user.id, orgMember.organization.id, "DELETE", font.id, font.name);
+
+    revalidatePath("/dashboard/settings/brand-kit");
+    return { success: true };
+  } catch (error) {
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Delete custom font error:", error);
+    return { error: "Failed to delete font" };
+  }
+}
@@ -0,0 +1,95 @@
+"use server";
+
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { checkLinks } from "@/lib/email-builder/links";
+import { fetchLinkStatus } from "@/lib/email-builder/link-fetcher";
+import { getAllVariablePaths } from "@/lib/email/variable-definitions";
+import { getTemplateLanguage } from "@/lib/templates/template-language-helpers";
+import type { EmailBuilderDocument } from "@/lib/email-builder/types";
+
+/**
+ * Standard variables plus the organization's custom variables
+ */
+async function getKnownVariables(organizationId: string): Promise<string[]> {
+  const customVariables = await prisma.customVariable.findMany({
+    where: { organizationId },
+    select: { path: true },
+  });
+  return [...getAllVariablePaths(), ...customVariables.map((variable) => variable.path)];
+}
+
+/**
+ * Validate the links in a document from the builder, optionally checking
+ * that each URL responds
+ */
+export async function checkDocumentLinks(document: EmailBuilderDocument, checkHttp = false) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await prisma.organizationMember.findFirst({
+      where: { userId: user.id },
+    });
+
+    if (!orgMember) {
+      return { error: "User is not part of an organization" };
+    }
+
+    const results = await checkLinks(document, {
+      knownVariables: await getKnownVariables(orgMember.organizationId),
+      fetcher: checkHttp ? fetchLinkStatus : undefined,
+    });
+
+    return { success: true, results };
+  } catch (error) {
+    console.error("Check document links error:", error);
+    return { error: "Failed to check links" };
+  }
+}
+
+/**
+ * Validate the links of a template in the language campaigns send by default,
+ * optionally checking that each URL responds
+ */
+export async function checkTemplateLinks(templateId: string, checkHttp = false) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const template = await prisma.template.findFirst({
+      where: {
+        id: templateId,
+        organization: {
+          members: {
+            some: { userId: user.id },
+          },
+        },
+      },
+      select: { id: true, organizationId: true, defaultLanguage: true },
+    });
+
+    if (!template) {
+      return { error: "Template not found or access denied" };
+    }
+
+    const document = (await getTemplateLanguage(template.id, template.defaultLanguage)) as EmailBuilderDocument | null;
+    if (!document) {
+      return { error: `Template structure not found for language: ${template.defaultLanguage}` };
+    }
+
+    const results = await checkLinks(document, {
+      knownVariables: await getKnownVariables(template.organizationId),
+      fetcher: checkHttp ? fetchLinkStatus : undefined,
+    });
+
+    return { success: true, results };
+  } catch (error) {
+    console.error("Check template links error:", error);
+    return { error: "Failed to check template links" };
+  }
+}
@@ -6,6 +6,7 @@ import { requirePermission } from "@/lib/auth/permissions";
 import { logAuditAction } from "@/lib/audit/audit-logger";
 import { revalidatePath } from "next/cache";
 import { headers } from "next/headers";
+import { VARIABLE_POLICIES, type VariablePolicy } from "@/lib/campaigns/variable-contract";
 
 /**
  * Get current user's organization
@@ -41,6 +42,7 @@ export async function getOrganization() {
 export async function updateOrganization(data: {
   name?: string;
   defaultLanguage?: string;
+  variablePolicy?: VariablePolicy;
 }) {
   try {
     const user = await getCurrentUser();
@@ -60,12 +62,17 @@ export async function updateOrganization(data: {
     // Check permissions
     requirePermission(orgMember.role, "organization.edit");
 
+    if (data.variablePolicy && !VARIABLE_POLICIES.includes(data.variablePolicy)) {
+      return { error: "Invalid variable policy" };
+    }
+
     // Update organization
     const updated = await prisma.organization.update({
       where: { id: orgMember.organization.id },
       data: {
         ...(data.name && { name: data.name }),
         ...(data.defaultLanguage && { defaultLanguage: data.defaultLanguage }),
+        ...(data.variablePolicy && { variablePolicy: data.variablePolicy }),
       },
     });
 
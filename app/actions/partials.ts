@@ -0,0 +1,364 @@
+"use server";
+
+import { z } from "zod";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { requirePermission } from "@/lib/auth/permissions";
+import { logAuditAction } from "@/lib/audit/audit-logger";
+import { invalidatePartialCache } from "@/lib/partials/loader";
+import { documentUsesPartial, type PartialDocuments } from "@/lib/email-builder/partials";
+import type { EmailBuilderDocument } from "@/lib/email-builder/types";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+
+const EMPTY_PARTIAL: EmailBuilderDocument = {
+  backdropColor: "#F8F8F8",
+  canvasColor: "#FFFFFF",
+  textColor: "#242424",
+  fontFamily: "MODERN_SANS",
+  childrenIds: [],
+};
+
+const createPartialSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().optional(),
+});
+
+const updatePartialSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255).optional(),
+  description: z.string().optional(),
+  structure: z.any().optional(),
+});
+
+async function getOrgMember(userId: string) {
+  return prisma.organizationMember.findFirst({
+    where: { userId },
+    include: { organization: true },
+  });
+}
+
+async function logPartialAction(
+  userId: string,
+  organizationId: string,
+  action: "CREATE" | "UPDATE" | "DELETE",
+  partialId: string,
+  details: Record<string, any>
+) {
+  const headersList = await headers();
+  await logAuditAction({
+    userId,
+    organizationId,
+    action,
+    resource: "TEMPLATE_PARTIAL",
+    resourceId: partialId,
+    details,
+    ipAddress:
+      headersList.get("x-forwarded-for") ||
+      headersList.get("x-real-ip") ||
+      undefined,
+    userAgent: headersList.get("user-agent") || undefined,
+  });
+}
+
+function permissionError(error: unknown): string | null {
+  if (error instanceof Error && error.message.includes("Permission denied")) {
+    return error.message;
+  }
+  return null;
+}
+
+/**
+ * Find the templates (and languages) of an organization that include a partial
+ */
+async function findPartialUsage(organizationId: string, partialId: string) {
+  const languages = await prisma.templateLanguage.findMany({
+    where: { template: { organizationId } },
+    select: {
+      languageCode: true,
+      structure: true,
+      template: { select: { id: true, name: true, updatedAt: true } },
+    },
+  });
+
+  const usage = new Map<string, { id: string; name: string; updatedAt: Date; languages: string[] }>();
+  languages.forEach(({ languageCode, structure, template }) => {
+    if (!structure || !documentUsesPartial(structure as unknown as EmailBuilderDocument, partialId)) return;
+    const entry = usage.get(template.id) || { ...template, languages: [] };
+    entry.languages.push(languageCode);
+    usage.set(template.id, entry);
+  });
+
+  return Array.from(usage.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get all global partials for the current organization
+ */
+export async function getPartials() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { success: true, partials: [] };
+    }
+
+    requirePermission(orgMember.role, "templates.view");
+
+    const partials = await prisma.templatePartial.findMany({
+      where: { organizationId: orgMember.organization.id },
+      select: { id: true, name: true, description: true, updatedAt: true },
+      orderBy: { name: "asc" },
+    });
+
+    return { success: true, partials };
+  } catch (error) {
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Get partials error:", error);
+    return { error: "Failed to get partials" };
+  }
+}
+
+/**
+ * Get a single partial with its structure
+ */
+export async function getPartial(id: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "templates.view");
+
+    const partial = await prisma.templatePartial.findFirst({
+      where: { id, organizationId: orgMember.organization.id },
+    });
+
+    if (!partial) {
+      return { error: "Partial not found" };
+    }
+
+    return { success: true, partial };
+  } catch (error) {
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Get partial error:", error);
+    return { error: "Failed to get partial" };
+  }
+}
+
+/**
+ * Get partial structures for rendering previews in the browser
+ */
+export async function getPartialDocuments(ids: string[]) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization || ids.length === 0) {
+      return { success: true, partials: {} as PartialDocuments };
+    }
+
+    requirePermission(orgMember.role, "templates.view");
+
+    const rows = await prisma.templatePartial.findMany({
+      where: { id: { in: ids }, organizationId: orgMember.organization.id },
+      select: { id: true, structure: true },
+    });
+
+    const partials: PartialDocuments = {};
+    rows.forEach((row) => {
+      partials[row.id] = row.structure as unknown as EmailBuilderDocument;
+    });
+
+    return { success: true, partials };
+  } catch (error) {
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Get partial documents error:", error);
+    return { error: "Failed to load partials" };
+  }
+}
+
+/**
+ * Create an empty global partial
+ */
+export async function createPartial(data: z.infer<typeof createPartialSchema>) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "templates.create");
+
+    const validated = createPartialSchema.parse(data);
+    const partial = await prisma.templatePartial.create({
+      data: {
+        organizationId: orgMember.organization.id,
+        name: validated.name,
+        description: validated.description || null,
+        structure: EMPTY_PARTIAL as any,
+        createdBy: user.id,
+      },
+    });
+
+    await logPartialAction(user.id, orgMember.organization.id, "CREATE", partial.id, { name: partial.name });
+
+    revalidatePath("/dashboard/templates/partials");
+    return { success: true, partial };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.errors.map((e) => e.message).join(", ") };
+    }
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Create partial error:", error);
+    return { error: "Failed to create partial" };
+  }
+}
+
+/**
+ * Update a partial. Structure changes reach every template on its next render.
+ */
+export async function updatePartial(id: string, data: z.infer<typeof updatePartialSchema>) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "templates.edit");
+
+    const existing = await prisma.templatePartial.findFirst({
+      where: { id, organizationId: orgMember.organization.id },
+    });
+    if (!existing) {
+      return { error: "Partial not found" };
+    }
+
+    const validated = updatePartialSchema.parse(data);
+    const partial = await prisma.templatePartial.update({
+      where: { id },
+      data: {
+        ...(validated.name !== undefined && { name: validated.name }),
+        ...(validated.description !== undefined && { description: validated.description || null }),
+        ...(validated.structure !== undefined && { structure: validated.structure }),
+      },
+    });
+
+    invalidatePartialCache(orgMember.organization.id, id);
+    await logPartialAction(user.id, orgMember.organization.id, "UPDATE", id, {
+      name: partial.name,
+      structureChanged: validated.structure !== undefined,
+    });
+
+    revalidatePath("/dashboard/templates/partials");
+    revalidatePath(`/dashboard/templates/partials/${id}`);
+    return { success: true, partial };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.errors.map((e) => e.message).join(", ") };
+    }
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Update partial error:", error);
+    return { error: "Failed to update partial" };
+  }
+}
+
+/**
+ * Delete a partial that is no longer used by any template
+ */
+export async function deletePartial(id: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "templates.delete");
+
+    const existing = await prisma.templatePartial.findFirst({
+      where: { id, organizationId: orgMember.organization.id },
+    });
+    if (!existing) {
+      return { error: "Partial not found" };
+    }
+
+    const usage = await findPartialUsage(orgMember.organization.id, id);
+    if (usage.length > 0) {
+      return { error: `This partial is used by ${usage.length} template(s). Remove it from them first.` };
+    }
+
+    await prisma.templatePartial.delete({
+      where: { id },
+    });
+
+    invalidatePartialCache(orgMember.organization.id, id);
+    await logPartialAction(user.id, orgMember.organization.id, "DELETE", id, { name: existing.name });
+
+    revalidatePath("/dashboard/templates/partials");
+    return { success: true };
+  } catch (error) {
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Delete partial error:", error);
+    return { error: "Failed to delete partial" };
+  }
+}
+
+/**
+ * List the templates that include a partial
+ */
+export async function getPartialUsage(id: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "templates.view");
+
+    const templates = await findPartialUsage(orgMember.organization.id, id);
+    return { success: true, templates };
+  } catch (error) {
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Get partial usage error:", error);
+    return { error: "Failed to get partial usage" };
+  }
+}
@@ -0,0 +1,178 @@
+"use server";
+
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import {
+  SampleProfileSchema,
+  toSampleProfile,
+  validateProfileTypes,
+  type SampleProfileInput,
+} from "@/lib/templates/sample-profiles";
+import type { VariableDefinition } from "@/lib/email/variable-definitions";
+
+async function getOrgMember(userId: string) {
+  return prisma.organizationMember.findFirst({
+    where: { userId },
+    include: { organization: true },
+  });
+}
+
+/**
+ * Get the saved sample data profiles for a template
+ */
+export async function getSampleProfiles(templateId: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    const template = await prisma.template.findFirst({
+      where: { id: templateId, organizationId: orgMember.organization.id },
+      select: { id: true },
+    });
+    if (!template) {
+      return { error: "Template not found" };
+    }
+
+    const profiles = await prisma.sampleDataProfile.findMany({
+      where: { templateId },
+      orderBy: { name: "asc" },
+    });
+
+    return { success: true, profiles: profiles.map(toSampleProfile) };
+  } catch (error) {
+    console.error("Get sample profiles error:", error);
+    return { error: "Failed to get sample profiles" };
+  }
+}
+
+/**
+ * Create or update a sample data profile. Values must fit the types of
+ * the organization's custom variables, and only one profile per template
+ * can supply campaign defaults.
+ */
+export async function saveSampleProfile(
+  templateId: string,
+  input: SampleProfileInput,
+  id?: string
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    if (orgMember.role === "VIEWER") {
+      return { error: "Insufficient permissions" };
+    }
+
+    const organizationId = orgMember.organization.id;
+    const template = await prisma.template.findFirst({
+      where: { id: templateId, organizationId },
+      select: { id: true },
+    });
+    if (!template) {
+      return { error: "Template not found" };
+    }
+
+    const validated = SampleProfileSchema.parse(input);
+
+    const definitions = await prisma.customVariable.findMany({
+      where: { organizationId },
+      select: { path: true, type: true },
+    });
+    const issues = validateProfileTypes(
+      validated.data,
+      definitions as Array<Pick<VariableDefinition, "path" | "type">>
+    );
+    if (issues.length > 0) {
+      return { error: issues.map((issue) => issue.message).join(", "), issues };
+    }
+
+    const duplicate = await prisma.sampleDataProfile.findFirst({
+      where: { templateId, name: validated.name, ...(id ? { id: { not: id } } : {}) },
+    });
+    if (duplicate) {
+      return { error: `A profile named "${validated.name}" already exists` };
+    }
+
+    if (id) {
+      const existing = await prisma.sampleDataProfile.findFirst({ where: { id, templateId } });
+      if (!existing) {
+        return { error: "Profile not found" };
+      }
+    }
+
+    if (validated.isCampaignDefault) {
+      await prisma.sampleDataProfile.updateMany({
+        where: { templateId, isCampaignDefault: true, ...(id ? { id: { not: id } } : {}) },
+        data: { isCampaignDefault: false },
+      });
+    }
+
+    const data = {
+      name: validated.name,
+      data: validated.data as Prisma.InputJsonObject,
+      isCampaignDefault: validated.isCampaignDefault,
+    };
+    const profile = id
+      ? await prisma.sampleDataProfile.update({ where: { id }, data })
+      : await prisma.sampleDataProfile.create({ data: { ...data, templateId } });
+
+    return { success: true, profile: toSampleProfile(profile) };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.errors.map((e) => e.message).join(", ") };
+    }
+    console.error("Save sample profile error:", error);
+    return { error: "Failed to save sample profile" };
+  }
+}
+
+/**
+ * Delete a sample data profile
+ */
+export async function deleteSampleProfile(id: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    if (orgMember.role === "VIEWER") {
+      return { error: "Insufficient permissions" };
+    }
+
+    const profile = await prisma.sampleDataProfile.findFirst({
+      where: { id, template: { organizationId: orgMember.organization.id } },
+    });
+    if (!profile) {
+      return { error: "Profile not found" };
+    }
+
+    await prisma.sampleDataProfile.delete({ where: { id } });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Delete sample profile error:", error);
+    return { error: "Failed to delete sample profile" };
+  }
+}
@@ -0,0 +1,240 @@
+"use server";
+
+import { z } from "zod";
+import type { Role } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { requirePermission } from "@/lib/auth/permissions";
+import { revalidatePath } from "next/cache";
+import { SnippetStructureSchema } from "@/lib/email-builder/snippets";
+
+const createSnippetSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().optional(),
+  category: z.string().max(100).optional(),
+  structure: SnippetStructureSchema,
+  isGlobal: z.boolean().default(false),
+});
+
+const updateSnippetSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255).optional(),
+  description: z.string().optional(),
+  category: z.string().max(100).optional(),
+  isGlobal: z.boolean().optional(),
+});
+
+/**
+ * Org-wide snippets can only be created, changed or removed by admins
+ */
+function canManageGlobalSnippets(role: Role): boolean {
+  return role === "OWNER" || role === "ADMIN";
+}
+
+async function getOrgMember(userId: string) {
+  return prisma.organizationMember.findFirst({
+    where: { userId },
+    include: { organization: true },
+  });
+}
+
+function permissionError(error: unknown): string | null {
+  if (error instanceof Error && error.message.includes("Permission denied")) {
+    return error.message;
+  }
+  return null;
+}
+
+/**
+ * Get snippets available to the current user: org-wide snippets plus their own.
+ * With `manage`, admins get every snippet in the organization.
+ */
+export async function getSnippets(options: { manage?: boolean } = {}) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { success: true, snippets: [], canManageGlobal: false };
+    }
+
+    requirePermission(orgMember.role, "templates.view");
+
+    const canManageGlobal = canManageGlobalSnippets(orgMember.role);
+    if (options.manage && !canManageGlobal) {
+      return { error: "Insufficient permissions" };
+    }
+
+    const snippets = await prisma.snippet.findMany({
+      where: {
+        organizationId: orgMember.organization.id,
+        ...(options.manage ? {} : { OR: [{ isGlobal: true }, { createdBy: user.id }] }),
+      },
+      include: {
+        creator: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: [{ category: "asc" }, { name: "asc" }],
+    });
+
+    return { success: true, snippets, canManageGlobal };
+  } catch (error) {
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Get snippets error:", error);
+    return { error: "Failed to get snippets" };
+  }
+}
+
+/**
+ * Save a block subtree as a snippet
+ */
+export async function createSnippet(data: z.input<typeof createSnippetSchema>) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "templates.create");
+
+    const validated = createSnippetSchema.parse(data);
+    if (validated.isGlobal && !canManageGlobalSnippets(orgMember.role)) {
+      return { error: "Only admins can create organization-wide snippets" };
+    }
+
+    const snippet = await prisma.snippet.create({
+      data: {
+        organizationId: orgMember.organization.id,
+        name: validated.name,
+        description: validated.description || null,
+        category: validated.category?.trim() || null,
+        structure: validated.structure as any,
+        isGlobal: validated.isGlobal,
+        createdBy: user.id,
+      },
+    });
+
+    revalidatePath("/dashboard/settings/snippets");
+    return { success: true, snippet };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.errors.map((e) => e.message).join(", ") };
+    }
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Create snippet error:", error);
+    return { error: "Failed to create snippet" };
+  }
+}
+
+/**
+ * Update snippet details. Authors can edit their own snippets;
+ * org-wide snippets and the isGlobal flag are admin-only.
+ */
+export async function updateSnippet(id: string, data: z.infer<typeof updateSnippetSchema>) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "templates.edit");
+
+    const existing = await prisma.snippet.findFirst({
+      where: { id, organizationId: orgMember.organization.id },
+    });
+    if (!existing) {
+      return { error: "Snippet not found" };
+    }
+
+    const validated = updateSnippetSchema.parse(data);
+    const isAdmin = canManageGlobalSnippets(orgMember.role);
+    const togglesGlobal = validated.isGlobal !== undefined && validated.isGlobal !== existing.isGlobal;
+
+    if ((existing.isGlobal || togglesGlobal) && !isAdmin) {
+      return { error: "Only admins can manage organization-wide snippets" };
+    }
+    if (!existing.isGlobal && existing.createdBy !== user.id && !isAdmin) {
+      return { error: "Snippet not found" };
+    }
+
+    const snippet = await prisma.snippet.update({
+      where: { id },
+      data: {
+        ...(validated.name !== undefined && { name: validated.name }),
+        ...(validated.description !== undefined && { description: validated.description || null }),
+        ...(validated.category !== undefined && { category: validated.category.trim() || null }),
+        ...(validated.isGlobal !== undefined && { isGlobal: validated.isGlobal }),
+      },
+    });
+
+    revalidatePath("/dashboard/settings/snippets");
+    return { success: true, snippet };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: error.errors.map((e) => e.message).join(", ") };
+    }
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Update snippet error:", error);
+    return { error: "Failed to update snippet" };
+  }
+}
+
+/**
+ * Delete a snippet. Same ownership rules as updateSnippet.
+ */
+export async function deleteSnippet(id: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "templates.edit");
+
+    const existing = await prisma.snippet.findFirst({
+      where: { id, organizationId: orgMember.organization.id },
+    });
+    if (!existing) {
+      return { error: "Snippet not found" };
+    }
+
+    const isAdmin = canManageGlobalSnippets(orgMember.role);
+    if (existing.isGlobal && !isAdmin) {
+      return { error: "Only admins can manage organization-wide snippets" };
+    }
+    if (!existing.isGlobal && existing.createdBy !== user.id && !isAdmin) {
+      return { error: "Snippet not found" };
+    }
+
+    await prisma.snippet.delete({
+      where: { id },
+    });
+
+    revalidatePath("/dashboard/settings/snippets");
+    return { success: true };
+  } catch (error) {
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Delete snippet error:", error);
+    return { error: "Failed to delete snippet" };
+  }
+}
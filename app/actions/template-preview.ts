@@ -3,6 +3,11 @@
 import { prisma } from "@/lib/db/prisma";
 import { getCurrentUser } from "@/lib/auth/session";
 import { renderEmailTemplate } from "@/lib/email/template-renderer";
+import { getTemplateLanguage } from "@/lib/templates/template-language-helpers";
+import { analyzeSpamScore } from "@/lib/email/spam-score";
+import { analyzeRenderedHtml } from "@/lib/email/render-analysis";
+import { prepareForDelivery } from "@/lib/email/delivery";
+import { generatePreferenceCenterUrl, generateUnsubscribeUrl } from "@/lib/email/unsubscribe";
 import type { EmailBuilderDocument } from "@/lib/email-builder/types";
 
 /**
@@ -47,6 +52,7 @@ export async function previewTemplate(
       sampleData: sampleData || {},
       language,
       replaceVariables: true,
+      organizationId: template.organizationId,
     });
 
     return { success: true, html: result.html, text: result.text };
@@ -56,6 +62,117 @@ export async function previewTemplate(
   }
 }
 
+// Stands in for the EmailLog id tracking links carry (a cuid, so the same length)
+const SAMPLE_EMAIL_LOG_ID = "c000000000000000000000000";
+
+/**
+ * Render a template the way it will be sent and report its size against
+ * the Gmail clipping threshold
+ */
+export async function analyzeTemplateSize(templateId: string, language?: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const template = await prisma.template.findFirst({
+      where: {
+        id: templateId,
+        organization: {
+          members: {
+            some: { userId: user.id },
+          },
+        },
+      },
+      select: { id: true, organizationId: true, defaultLanguage: true },
+    });
+
+    if (!template) {
+      return { error: "Template not found or access denied" };
+    }
+
+    const languageCode = language || template.defaultLanguage;
+    const document = (await getTemplateLanguage(template.id, languageCode)) as EmailBuilderDocument | null;
+    if (!document) {
+      return { error: `Template structure not found for language: ${languageCode}` };
+    }
+
+    const result = await renderEmailTemplate(document, {
+      language: languageCode,
+      templateId: template.id,
+      defaultLanguage: template.defaultLanguage,
+      replaceVariables: false,
+      analyze: true,
+      inlineCss: true,
+      organizationId: template.organizationId,
+    });
+
+    // Measure what the worker sends: tracking links, open pixel and unsubscribe footer included
+    const { html } = prepareForDelivery(result.html, result.text, {
+      emailLogId: SAMPLE_EMAIL_LOG_ID,
+      unsubscribeUrl: generateUnsubscribeUrl(user.email),
+      preferenceUrl: generatePreferenceCenterUrl(user.email),
+    });
+    const analysis = { ...result.analysis!, ...analyzeRenderedHtml(html, result.analysis!.blocks) };
+
+    return { success: true, analysis };
+  } catch (error) {
+    console.error("Analyze template size error:", error);
+    return { error: "Failed to analyze template size" };
+  }
+}
+
+/**
+ * Run the offline spam and content checks on a template as a campaign
+ * would send it
+ */
+export async function checkTemplateContent(templateId: string, subject: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const template = await prisma.template.findFirst({
+      where: {
+        id: templateId,
+        organization: {
+          members: {
+            some: { userId: user.id },
+          },
+        },
+      },
+      select: { id: true, organizationId: true, defaultLanguage: true },
+    });
+
+    if (!template) {
+      return { error: "Template not found or access denied" };
+    }
+
+    const document = (await getTemplateLanguage(template.id, template.defaultLanguage)) as EmailBuilderDocument | null;
+    if (!document) {
+      return { error: `Template structure not found for language: ${template.defaultLanguage}` };
+    }
+
+    const result = await renderEmailTemplate(document, {
+      language: template.defaultLanguage,
+      templateId: template.id,
+      defaultLanguage: template.defaultLanguage,
+      replaceVariables: false,
+      organizationId: template.organizationId,
+    });
+
+    // The email worker appends an unsubscribe footer to every campaign email
+    const report = analyzeSpamScore(result, { subject, unsubscribeAppended: true });
+
+    return { success: true, report };
+  } catch (error) {
+    console.error("Check template content error:", error);
+    return { error: "Failed to check template content" };
+  }
+}
+
 /**
  * Send test email
  */
@@ -110,6 +227,7 @@ export async function testSendEmail(
     const result = await renderEmailTemplate(document, {
       sampleData: sampleData || {},
       replaceVariables: true,
+      organizationId: template.organizationId,
     });
 
     // Get SMTP profile
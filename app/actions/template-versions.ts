@@ -0,0 +1,235 @@
+"use server";
+
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { requirePermission } from "@/lib/auth/permissions";
+import { logAuditAction } from "@/lib/audit/audit-logger";
+import { saveTemplateLanguage, getAllTemplateLanguages } from "@/lib/templates/template-language-helpers";
+import type { EmailBuilderDocument } from "@/lib/email-builder/types";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+
+async function getOrgMember(userId: string) {
+  return prisma.organizationMember.findFirst({
+    where: { userId },
+    include: { organization: true },
+  });
+}
+
+async function findAccessibleTemplate(templateId: string, userId: string) {
+  return prisma.template.findFirst({
+    where: {
+      id: templateId,
+      organization: {
+        members: {
+          some: { userId },
+        },
+      },
+    },
+  });
+}
+
+function permissionError(error: unknown): string | null {
+  if (error instanceof Error && error.message.includes("Permission denied")) {
+    return error.message;
+  }
+  return null;
+}
+
+/**
+ * Versions store a map of language code -> structure. Versions written
+ * before multi-language storage hold a single document instead, possibly
+ * in the legacy root-block format.
+ */
+function getVersionStructures(
+  structure: unknown,
+  defaultLanguage: string
+): Record<string, EmailBuilderDocument> {
+  if (!structure || typeof structure !== "object") return {};
+  if ("childrenIds" in structure || "root" in structure) {
+    return { [defaultLanguage]: structure as EmailBuilderDocument };
+  }
+  return structure as Record<string, EmailBuilderDocument>;
+}
+
+/**
+ * List the versions of a template, newest first, without their structures
+ */
+export async function getTemplateVersions(templateId: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "templates.view");
+
+    const template = await findAccessibleTemplate(templateId, user.id);
+    if (!template) {
+      return { error: "Template not found or access denied" };
+    }
+
+    const versions = await prisma.templateVersion.findMany({
+      where: { templateId },
+      orderBy: { versionNumber: "desc" },
+      select: {
+        id: true,
+        versionNumber: true,
+        notes: true,
+        createdAt: true,
+        creator: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    return { success: true, versions };
+  } catch (error) {
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Get template versions error:", error);
+    return { error: "Failed to get template versions" };
+  }
+}
+
+/**
+ * Get one version with its structure for every language it contains
+ */
+export async function getTemplateVersion(templateId: string, versionId: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "templates.view");
+
+    const template = await findAccessibleTemplate(templateId, user.id);
+    if (!template) {
+      return { error: "Template not found or access denied" };
+    }
+
+    const version = await prisma.templateVersion.findFirst({
+      where: { id: versionId, templateId },
+    });
+    if (!version) {
+      return { error: "Version not found" };
+    }
+
+    return {
+      success: true,
+      version: {
+        id: version.id,
+        versionNumber: version.versionNumber,
+        structures: getVersionStructures(version.structure, template.defaultLanguage || "en"),
+      },
+    };
+  } catch (error) {
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Get template version error:", error);
+    return { error: "Failed to get template version" };
+  }
+}
+
+/**
+ * Restore an older version by writing its languages back and recording the
+ * result as a new version. Languages added after that version are kept.
+ */
+export async function restoreTemplateVersion(templateId: string, versionId: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const orgMember = await getOrgMember(user.id);
+    if (!orgMember?.organization) {
+      return { error: "User is not part of an organization" };
+    }
+
+    requirePermission(orgMember.role, "templates.edit");
+
+    const template = await findAccessibleTemplate(templateId, user.id);
+    if (!template) {
+      return { error: "Template not found or access denied" };
+    }
+
+    const version = await prisma.templateVersion.findFirst({
+      where: { id: versionId, templateId },
+    });
+    if (!version) {
+      return { error: "Version not found" };
+    }
+
+    const structures = getVersionStructures(version.structure, template.defaultLanguage || "en");
+    const languages = Object.keys(structures);
+    if (languages.length === 0) {
+      return { error: "Version has no content to restore" };
+    }
+
+    for (const lang of languages) {
+      await saveTemplateLanguage(templateId, lang, structures[lang]);
+    }
+
+    const latestVersion = await prisma.templateVersion.findFirst({
+      where: { templateId },
+      orderBy: { versionNumber: "desc" },
+    });
+
+    const restored = await prisma.templateVersion.create({
+      data: {
+        templateId,
+        versionNumber: (latestVersion?.versionNumber || 0) + 1,
+        structure: await getAllTemplateLanguages(templateId),
+        createdBy: user.id,
+        notes: `Restored from version ${version.versionNumber}`,
+      },
+    });
+
+    await prisma.template.update({
+      where: { id: templateId },
+      data: { updatedAt: new Date() },
+    });
+
+    const headersList = await headers();
+    await logAuditAction({
+      userId: user.id,
+      organizationId: orgMember.organization.id,
+      action: "UPDATE",
+      resource: "TEMPLATE",
+      resourceId: templateId,
+      details: {
+        restoredVersion: version.versionNumber,
+        newVersion: restored.versionNumber,
+        languages,
+      },
+      ipAddress:
+        headersList.get("x-forwarded-for") ||
+        headersList.get("x-real-ip") ||
+        undefined,
+      userAgent: headersList.get("user-agent") || undefined,
+    });
+
+    revalidatePath(`/dashboard/templates/${templateId}/edit`);
+    return { success: true, versionNumber: restored.versionNumber, structures };
+  } catch (error) {
+    const denied = permissionError(error);
+    if (denied) return { error: denied };
+    console.error("Restore template version error:", error);
+    return { error: "Failed to restore template version" };
+  }
+}
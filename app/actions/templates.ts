@@ -5,7 +5,17 @@ import { prisma } from "@/lib/db/prisma";
 import { getCurrentUser } from "@/lib/auth/session";
 import { revalidatePath } from "next/cache";
 import { isLanguageActive } from "@/lib/templates/language-columns";
-import { saveTemplateLanguage, getAllTemplateLanguages, getTemplateLanguage } from "@/lib/templates/template-language-helpers";
+import {
+  saveTemplateLanguage,
+  getAllTemplateLanguages,
+  getTemplateLanguage,
+  getTemplatePlainText,
+  saveTemplatePlainText,
+  templateLanguageExists,
+} from "@/lib/templates/template-language-helpers";
+import { documentToMjml, mjmlToDocument } from "@/lib/email-builder/mjml";
+import { migrateDocument } from "@/lib/email-builder/migrations";
+import type { EmailBuilderDocument } from "@/lib/email-builder/types";
 
 // Validation schemas
 const templateStructureSchema = z.any(); // Email builder structure format
@@ -233,7 +243,14 @@ export async function getTemplateById(id: string) {
       return { error: "Template not found or access denied" };
     }
 
-    return { success: true, template };
+    // Language structures are upgraded as they load; the legacy field is too
+    return {
+      success: true,
+      template: {
+        ...template,
+        structure: template.structure ? (migrateDocument(template.structure).document as unknown as typeof template.structure) : template.structure,
+      },
+    };
   } catch (error) {
     console.error("Get template error:", error);
     return { error: "Failed to get template" };
@@ -476,3 +493,140 @@ export async function duplicateTemplate(id: string, newLanguage?: string) {
   }
 }
 
+
+/**
+ * Export one language of a template as MJML
+ */
+export async function exportTemplateMjml(id: string, language?: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const template = await prisma.template.findFirst({
+      where: {
+        id,
+        organization: {
+          members: {
+            some: { userId: user.id },
+          },
+        },
+      },
+    });
+
+    if (!template) {
+      return { error: "Template not found or access denied" };
+    }
+
+    const lang = language || template.defaultLanguage || "en";
+    const structure = await getTemplateLanguage(id, lang);
+    if (!structure) {
+      return { error: `Template has no ${lang.toUpperCase()} content` };
+    }
+
+    return { success: true, mjml: documentToMjml(structure as EmailBuilderDocument) };
+  } catch (error) {
+    console.error("Export MJML error:", error);
+    return { error: "Failed to export MJML" };
+  }
+}
+
+/**
+ * Replace one language of a template with content converted from MJML.
+ * Saved through saveTemplate, so the previous content stays in version history.
+ */
+export async function importTemplateMjml(id: string, mjml: string, language?: string) {
+  try {
+    let converted: ReturnType<typeof mjmlToDocument>;
+    try {
+      converted = mjmlToDocument(mjml);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : "Invalid MJML" };
+    }
+
+    const result = await saveTemplate(id, converted.document, language);
+    if (!result.success) {
+      return { error: result.error || "Failed to import MJML" };
+    }
+
+    return { success: true, document: converted.document, warnings: converted.warnings };
+  } catch (error) {
+    console.error("Import MJML error:", error);
+    return { error: "Failed to import MJML" };
+  }
+}
+
+/**
+ * Get the hand-edited plain-text part of one language (null when generated)
+ */
+export async function loadTemplatePlainText(id: string, language?: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const template = await prisma.template.findFirst({
+      where: {
+        id,
+        organization: {
+          members: {
+            some: { userId: user.id },
+          },
+        },
+      },
+    });
+
+    if (!template) {
+      return { error: "Template not found or access denied" };
+    }
+
+    const lang = language || template.defaultLanguage || "en";
+    return { success: true, plainText: await getTemplatePlainText(id, lang) };
+  } catch (error) {
+    console.error("Load plain text error:", error);
+    return { error: "Failed to load plain text" };
+  }
+}
+
+/**
+ * Save the hand-edited plain-text part of one language.
+ * Saving an empty text switches back to generating it from the HTML.
+ */
+export async function updateTemplatePlainText(id: string, plainText: string | null, language?: string) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { error: "Unauthorized" };
+    }
+
+    const template = await prisma.template.findFirst({
+      where: {
+        id,
+        organization: {
+          members: {
+            some: { userId: user.id },
+          },
+        },
+      },
+    });
+
+    if (!template) {
+      return { error: "Template not found or access denied" };
+    }
+
+    const lang = language || template.defaultLanguage || "en";
+    if (!(await templateLanguageExists(id, lang))) {
+      return { error: `Save the ${lang.toUpperCase()} version of the template first` };
+    }
+
+    await saveTemplatePlainText(id, lang, plainText?.trim() ? plainText : null);
+
+    revalidatePath(`/dashboard/templates/${id}/edit`);
+    return { success: true };
+  } catch (error) {
+    console.error("Update plain text error:", error);
+    return { error: "Failed to save plain text" };
+  }
+}
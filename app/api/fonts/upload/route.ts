@@ -0,0 +1,126 @@
+/**
+ * Font Upload API Endpoint
+ * POST /api/fonts/upload
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth/session";
+import { requirePermission } from "@/lib/auth/permissions";
+import { prisma } from "@/lib/db/prisma";
+import { writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { existsSync } from "fs";
+
+export const dynamic = "force-dynamic";
+
+// Browsers report font MIME types inconsistently, so files are checked by extension
+const FONT_TYPES: Record<string, string> = {
+  woff2: "font/woff2",
+  woff: "font/woff",
+  ttf: "font/ttf",
+  otf: "font/otf",
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const orgMember = await prisma.organizationMember.findFirst({
+      where: { userId: user.id },
+      include: { organization: true },
+    });
+
+    if (!orgMember?.organization) {
+      return NextResponse.json(
+        { error: "User organization not found" },
+        { status: 404 }
+      );
+    }
+
+    try {
+      requirePermission(orgMember.role, "settings.edit");
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Permission denied" },
+        { status: 403 }
+      );
+    }
+
+    // Parse form data
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    // Validate file type
+    const extension = file.name.split(".").pop()?.toLowerCase() || "";
+    const mimeType = FONT_TYPES[extension];
+    if (!mimeType) {
+      return NextResponse.json(
+        { error: "Invalid file type. Only WOFF2, WOFF, TTF and OTF fonts are allowed." },
+        { status: 400 }
+      );
+    }
+
+    // Validate file size (max 2MB)
+    const maxSize = 2 * 1024 * 1024; // 2MB
+    if (file.size > maxSize) {
+      return NextResponse.json(
+        { error: "File size exceeds 2MB limit" },
+        { status: 400 }
+      );
+    }
+
+    // Generate unique filename
+    const timestamp = Date.now();
+    const randomStr = Math.random().toString(36).substring(2, 15);
+    const filename = `${timestamp}-${randomStr}.${extension}`;
+
+    // Create uploads directory if it doesn't exist
+    const uploadsDir = join(process.cwd(), "public", "uploads", "fonts");
+    if (!existsSync(uploadsDir)) {
+      await mkdir(uploadsDir, { recursive: true });
+    }
+
+    // Save file to disk
+    const filePath = join(uploadsDir, filename);
+    const bytes = await file.arrayBuffer();
+    const buffer = Buffer.from(bytes);
+    await writeFile(filePath, buffer);
+
+    const asset = await prisma.asset.create({
+      data: {
+        filename: filename,
+        originalFilename: file.name,
+        fileSize: file.size,
+        mimeType,
+        url: `/uploads/fonts/${filename}`,
+        organizationId: orgMember.organization.id,
+        uploadedBy: user.id,
+      },
+    });
+
+    // Email clients fetch the font directly, so the URL must be absolute
+    const publicUrl = `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}${asset.url}`;
+
+    return NextResponse.json({
+      success: true,
+      url: publicUrl,
+      assetId: asset.id,
+    });
+  } catch (error) {
+    console.error("Font upload error:", error);
+    return NextResponse.json(
+      { error: "Failed to upload font" },
+      { status: 500 }
+    );
+  }
+}
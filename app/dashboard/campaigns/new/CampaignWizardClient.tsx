@@ -5,7 +5,7 @@
 
 "use client";
 
-import { useState, useTransition } from "react";
+import { useEffect, useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -32,6 +32,7 @@ import {
 } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calendar } from "@/components/ui/calendar";
 import {
   Popover,
@@ -50,8 +51,26 @@ import {
   Calendar as CalendarIcon,
   Eye,
   Send,
+  AlertTriangle,
+  Loader2,
 } from "lucide-react";
-import { createCampaign, addCampaignRecipients, addCampaignRecipientsFromSegment } from "@/app/actions/campaigns";
+import {
+  createCampaign,
+  addCampaignRecipients,
+  addCampaignRecipientsFromSegment,
+  checkRecipientVariables,
+} from "@/app/actions/campaigns";
+import { analyzeTemplateSize, checkTemplateContent } from "@/app/actions/template-preview";
+import { formatBytes, type RenderAnalysis } from "@/lib/email/render-analysis";
+import type { SpamReport as SpamReportData } from "@/lib/email/spam-score";
+import { SpamReport } from "@/components/email-builder/SpamReport";
+import { checkTemplateLinks } from "@/app/actions/link-check";
+import type { LinkCheckResult } from "@/lib/email-builder/links";
+import {
+  describeContractProblems,
+  type VariableContractReport,
+  type VariablePolicy,
+} from "@/lib/campaigns/variable-contract";
 import { toast } from "sonner";
 import { CSVImport } from "@/components/campaigns/CSVImport";
 import { SegmentSelector } from "@/components/campaigns/SegmentSelector";
@@ -62,6 +81,7 @@ const campaignSchema = z.object({
   description: z.string().optional(),
   templateId: z.string().min(1, "Template is required"),
   subject: z.string().min(1, "Subject is required").max(255),
+  preheader: z.string().max(255).optional(),
   smtpProfileId: z.string().optional(),
   scheduledAt: z.string().datetime().optional(),
 });
@@ -116,6 +136,7 @@ export function CampaignWizardClient({
       description: "",
       templateId: "",
       subject: "",
+      preheader: "",
       smtpProfileId: initialSMTPProfiles.find((p) => p.isDefault)?.id || "",
       scheduledAt: undefined,
     },
@@ -125,6 +146,94 @@ export function CampaignWizardClient({
     (t) => t.id === form.watch("templateId")
   );
 
+  // Check the selected template against the Gmail clipping budget
+  const templateId = form.watch("templateId");
+  const [sizeAnalysis, setSizeAnalysis] = useState<RenderAnalysis | null>(null);
+  useEffect(() => {
+    setSizeAnalysis(null);
+    if (!templateId) return;
+    let cancelled = false;
+    analyzeTemplateSize(templateId).then((result) => {
+      if (!cancelled && result.success) {
+        setSizeAnalysis(result.analysis);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId]);
+
+  // Preflight spam check once the subject is final
+  const subject = form.watch("subject");
+  const [spamReport, setSpamReport] = useState<SpamReportData | null>(null);
+  useEffect(() => {
+    setSpamReport(null);
+    if (currentStep !== 6 || !templateId) return;
+    let cancelled = false;
+    checkTemplateContent(templateId, subject).then((result) => {
+      if (!cancelled && result.success) {
+        setSpamReport(result.report);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentStep, templateId, subject]);
+
+  // Preflight link check; broken links can't be fixed once sent. URLs are
+  // only requested over HTTP when the user asks for it.
+  const [linkResults, setLinkResults] = useState<LinkCheckResult[] | null>(null);
+  const [isCheckingUrls, setIsCheckingUrls] = useState(false);
+  useEffect(() => {
+    setLinkResults(null);
+    if (currentStep !== 6 || !templateId) return;
+    let cancelled = false;
+    checkTemplateLinks(templateId).then((result) => {
+      if (!cancelled && result.success) {
+        setLinkResults(result.results);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentStep, templateId]);
+  const brokenLinks = (linkResults || []).filter((link) => link.issues.length > 0);
+
+  const handleCheckUrls = async () => {
+    if (!templateId) return;
+    setIsCheckingUrls(true);
+    try {
+      const result = await checkTemplateLinks(templateId, true);
+      if (result.success && result.results) {
+        setLinkResults(result.results);
+      } else {
+        toast.error(result.error || "Failed to check links");
+      }
+    } finally {
+      setIsCheckingUrls(false);
+    }
+  };
+
+  // Preflight variable check of the imported recipients
+  const preheader = form.watch("preheader");
+  const [variableCheck, setVariableCheck] = useState<{
+    report: VariableContractReport;
+    policy: VariablePolicy;
+  } | null>(null);
+  useEffect(() => {
+    setVariableCheck(null);
+    if (currentStep !== 6 || !templateId || recipients.length === 0) return;
+    let cancelled = false;
+    checkRecipientVariables(templateId, recipients, { subject, preheader }).then((result) => {
+      if (!cancelled && result.success) {
+        setVariableCheck({ report: result.report, policy: result.policy });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentStep, templateId, recipients, subject, preheader]);
+
   const nextStep = () => {
     // Validate current step before proceeding
     if (currentStep === 1) {
@@ -397,6 +506,25 @@ export function CampaignWizardClient({
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="preheader"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Preheader (optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="A quick look at what's inside"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Preview text shown after the subject in the inbox. Leave empty to use the template&apos;s preheader.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={form.control}
                   name="smtpProfileId"
@@ -583,6 +711,12 @@ export function CampaignWizardClient({
                     <span className="text-muted-foreground">Subject:</span>
                     <span className="font-medium">{form.watch("subject")}</span>
                   </div>
+                  {form.watch("preheader") && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Preheader:</span>
+                      <span className="font-medium">{form.watch("preheader")}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Recipients:</span>
                     <span className="font-medium">
@@ -603,6 +737,110 @@ export function CampaignWizardClient({
                     </span>
                   </div>
                 </div>
+                {sizeAnalysis && sizeAnalysis.status !== "ok" && (
+                  <Alert variant={sizeAnalysis.status === "clipped" ? "destructive" : "default"}>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>
+                      {sizeAnalysis.status === "clipped"
+                        ? "Gmail will clip this email"
+                        : "This email is close to Gmail's clipping limit"}
+                    </AlertTitle>
+                    <AlertDescription>
+                      The template renders to {formatBytes(sizeAnalysis.bytes)} of the{" "}
+                      {formatBytes(sizeAnalysis.clipThreshold)} budget. Content past the limit, including the
+                      open-tracking pixel, is hidden behind &quot;View entire message&quot;. Check the size report
+                      in the template preview to see which blocks to trim.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <div className="space-y-2 pt-4 border-t">
+                  <h4 className="text-sm font-semibold">Spam Check</h4>
+                  {spamReport ? (
+                    <SpamReport report={spamReport} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Checking content...</p>
+                  )}
+                </div>
+                {recipients.length > 0 && (
+                  <div className="space-y-2 pt-4 border-t">
+                    <h4 className="text-sm font-semibold">Variable Check</h4>
+                    {!variableCheck ? (
+                      <p className="text-sm text-muted-foreground">Checking recipient data...</p>
+                    ) : variableCheck.policy === "off" || variableCheck.report.problems.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        {variableCheck.report.variables.length === 0
+                          ? "The template doesn't use any variables"
+                          : `All ${variableCheck.report.variables.length} variable${variableCheck.report.variables.length === 1 ? "" : "s"} are covered for imported recipients`}
+                      </p>
+                    ) : (
+                      <Alert variant={variableCheck.policy === "block" ? "destructive" : "default"}>
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle>
+                          {variableCheck.report.affectedRecipients > 0
+                            ? `${variableCheck.report.affectedRecipients} of ${variableCheck.report.recipientCount} recipients are missing variables`
+                            : "Some recipient values don't match their variable types"}
+                          {variableCheck.policy === "block" && " — sending will be blocked"}
+                        </AlertTitle>
+                        <AlertDescription>
+                          <ul className="mt-2 space-y-1">
+                            {describeContractProblems(variableCheck.report).map((problem) => (
+                              <li key={problem}>{problem}</li>
+                            ))}
+                          </ul>
+                          <p className="mt-2">
+                            Add the columns to your CSV or give the variable a default, e.g.{" "}
+                            <code>{`{{${variableCheck.report.problems[0].name} | default:"..."}}`}</code>
+                          </p>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                  </div>
+                )}
+                <div className="space-y-2 pt-4 border-t">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-semibold">Link Check</h4>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleCheckUrls}
+                      disabled={isCheckingUrls || !linkResults || linkResults.length === 0}
+                    >
+                      {isCheckingUrls && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Check URLs
+                    </Button>
+                  </div>
+                  {!linkResults ? (
+                    <p className="text-sm text-muted-foreground">Checking links...</p>
+                  ) : brokenLinks.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      All {linkResults.length} link{linkResults.length === 1 ? "" : "s"} look good
+                    </p>
+                  ) : (
+                    <Alert
+                      variant={
+                        brokenLinks.some((link) => link.issues.some((issue) => issue.severity === "error"))
+                          ? "destructive"
+                          : "default"
+                      }
+                    >
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>
+                        {brokenLinks.length} of {linkResults.length} links need attention
+                      </AlertTitle>
+                      <AlertDescription>
+                        <ul className="mt-2 space-y-1">
+                          {brokenLinks.map((link, index) => (
+                            <li key={`${link.blockId}-${index}`}>
+                              <span className="font-medium">{link.label || link.blockType}</span>{" "}
+                              ({link.url || "no URL"}): {link.issues.map((issue) => issue.message).join("; ")}
+                            </li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </div>
               </CardContent>
             </Card>
           )}
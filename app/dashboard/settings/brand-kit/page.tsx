@@ -0,0 +1,33 @@
+export const dynamic = 'force-dynamic';
+
+import { getCurrentUser } from "@/lib/auth/session";
+import { redirect } from "next/navigation";
+import { getBrandKit } from "@/app/actions/brand-kit";
+import { getCustomFonts } from "@/app/actions/fonts";
+import { BrandKitSettings } from "@/components/settings/BrandKitSettings";
+import { CustomFontsSettings } from "@/components/settings/CustomFontsSettings";
+
+export default async function BrandKitPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const [result, fontsResult] = await Promise.all([getBrandKit(), getCustomFonts()]);
+  const customFonts = fontsResult.success ? fontsResult.fonts ?? [] : [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Brand Kit</h1>
+        <p className="text-muted-foreground">
+          Logo, colors, fonts and social links shared by your organization&apos;s templates
+        </p>
+      </div>
+
+      <BrandKitSettings brandKit={result.success ? result.brandKit ?? null : null} customFonts={customFonts} />
+
+      <CustomFontsSettings fonts={customFonts} />
+    </div>
+  );
+}
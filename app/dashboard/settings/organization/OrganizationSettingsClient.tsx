@@ -29,6 +29,7 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { updateOrganization, deleteOrganization } from "@/app/actions/organizations";
+import { toVariablePolicy, type VariablePolicy } from "@/lib/campaigns/variable-contract";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 
@@ -36,6 +37,7 @@ interface Organization {
   id: string;
   name: string;
   defaultLanguage: string;
+  variablePolicy: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -61,6 +63,7 @@ export function OrganizationSettingsClient({
   const [formData, setFormData] = useState({
     name: organization.name,
     defaultLanguage: organization.defaultLanguage,
+    variablePolicy: toVariablePolicy(organization.variablePolicy),
   });
 
   const handleSave = () => {
@@ -68,6 +71,7 @@ export function OrganizationSettingsClient({
       const result = await updateOrganization({
         name: formData.name,
         defaultLanguage: formData.defaultLanguage,
+        variablePolicy: formData.variablePolicy,
       });
 
       if (result.success) {
@@ -144,6 +148,28 @@ export function OrganizationSettingsClient({
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="variablePolicy">Missing Variables</Label>
+            <Select
+              value={formData.variablePolicy}
+              onValueChange={(value) =>
+                setFormData({ ...formData, variablePolicy: value as VariablePolicy })
+              }
+            >
+              <SelectTrigger id="variablePolicy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warn">Warn and send</SelectItem>
+                <SelectItem value="block">Block the campaign</SelectItem>
+                <SelectItem value="off">Don&apos;t check</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              What happens when campaign recipients lack variables the template uses and no default covers them.
+            </p>
+          </div>
+
           <Button onClick={handleSave} disabled={isPending}>
             {isPending ? "Saving..." : "Save Changes"}
           </Button>
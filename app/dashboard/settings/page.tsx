@@ -6,7 +6,7 @@ import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { getCurrentUser } from "@/lib/auth/session";
-import { Mail, Bell, Shield, Users, Key, Globe, CheckCircle } from "lucide-react";
+import { Mail, Bell, Shield, Users, Key, Globe, CheckCircle, Bookmark, Palette } from "lucide-react";
 import Link from "next/link";
 import { NotificationsSettings } from "@/components/settings/NotificationsSettings";
 
@@ -200,6 +200,34 @@ export default async function SettingsPage({
                   <Link href="/dashboard/settings/languages">Manage Languages</Link>
                 </Button>
               </div>
+              <div className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  <Bookmark className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium">Snippets</p>
+                    <p className="text-sm text-muted-foreground">
+                      Manage reusable block snippets for the email builder
+                    </p>
+                  </div>
+                </div>
+                <Button variant="outline" asChild>
+                  <Link href="/dashboard/settings/snippets">Manage Snippets</Link>
+                </Button>
+              </div>
+              <div className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  <Palette className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium">Brand Kit</p>
+                    <p className="text-sm text-muted-foreground">
+                      Logo, colors, fonts and social links for templates
+                    </p>
+                  </div>
+                </div>
+                <Button variant="outline" asChild>
+                  <Link href="/dashboard/settings/brand-kit">Manage Brand Kit</Link>
+                </Button>
+              </div>
               <div className="flex items-center justify-between p-4 border rounded-lg">
                 <div className="flex items-center gap-3">
                   <CheckCircle className="h-5 w-5 text-muted-foreground" />
@@ -0,0 +1,23 @@
+import { getCurrentUser } from "@/lib/auth/session";
+import { redirect } from "next/navigation";
+import { SnippetsSettings } from "@/components/settings/SnippetsSettings";
+
+export default async function SnippetsPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Snippets</h1>
+        <p className="text-muted-foreground">
+          Manage reusable block snippets shared across your organization
+        </p>
+      </div>
+
+      <SnippetsSettings />
+    </div>
+  );
+}
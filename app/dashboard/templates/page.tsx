@@ -35,12 +35,17 @@ export default async function TemplatesPage() {
             Create and manage your email templates
           </p>
         </div>
-        <Link href="/dashboard/templates/new">
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            New Template
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href="/dashboard/templates/partials">
+            <Button variant="outline">Global Partials</Button>
+          </Link>
+          <Link href="/dashboard/templates/new">
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              New Template
+            </Button>
+          </Link>
+        </div>
       </div>
 
       <TemplatesPageClient initialTemplates={result.templates || []} total={result.total || 0} />
@@ -0,0 +1,58 @@
+import { redirect } from "next/navigation";
+import { getCurrentUser } from "@/lib/auth/session";
+import { getPartial } from "@/app/actions/partials";
+import { PartialEditorClient } from "@/components/templates/PartialEditorClient";
+import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
+import Link from "next/link";
+
+interface EditPartialPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function EditPartialPage({ params }: EditPartialPageProps) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { id } = await params;
+  const result = await getPartial(id);
+
+  if (!result.success || !result.partial) {
+    redirect("/dashboard/templates/partials");
+  }
+
+  const partial = result.partial;
+
+  return (
+    <div className="space-y-4">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link href="/dashboard/templates">Templates</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link href="/dashboard/templates/partials">Global Partials</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>{partial.name}</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <PartialEditorClient
+        partialId={partial.id}
+        initialStructure={JSON.parse(JSON.stringify(partial.structure))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Accessibility Panel Component
+ * Lists accessibility issues in the document and jumps to the offending block
+ */
+
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Accessibility, AlertCircle, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { useEmailBuilder } from "./EmailBuilderContext";
+import {
+  auditAccessibility,
+  type AccessibilityIssue,
+  type AccessibilityRule,
+} from "@/lib/email-builder/accessibility";
+import type { EmailBlock } from "@/lib/email-builder/types";
+
+const RULE_LABELS: Record<AccessibilityRule, string> = {
+  "image-alt": "Alt text",
+  contrast: "Contrast",
+  "heading-order": "Heading order",
+  "link-text": "Link text",
+  "font-size": "Font size",
+  lang: "Language",
+};
+
+export function AccessibilityPanel() {
+  const { state, selectBlock, defaultLanguage } = useEmailBuilder();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const issues = useMemo(
+    () => auditAccessibility(state.document, { lang: defaultLanguage }),
+    [state.document, defaultLanguage]
+  );
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+
+  const handleSelect = (issue: AccessibilityIssue) => {
+    if (!issue.blockId) {
+      // Document-level issues are fixed in the document settings
+      selectBlock(null);
+      setIsOpen(false);
+      return;
+    }
+    selectBlock(issue.blockId);
+    setIsOpen(false);
+    const element = window.document.querySelector(`[data-block-id="${issue.blockId}"]`);
+    element?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" title="Accessibility">
+          <Accessibility className="h-4 w-4 mr-1" />
+          Accessibility
+          {issues.length > 0 && (
+            <Badge variant={errorCount > 0 ? "destructive" : "secondary"} className="ml-1 text-xs">
+              {issues.length}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-[400px] sm:w-[480px]">
+        <SheetHeader>
+          <SheetTitle>Accessibility Check</SheetTitle>
+          <SheetDescription>Click an issue to jump to the block that needs fixing</SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-140px)] mt-4 pr-2">
+          {issues.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-sm text-gray-500">
+              <CheckCircle2 className="h-8 w-8 text-green-500" />
+              No accessibility issues found
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {issues.map((issue, index) => {
+                const block = issue.blockId ? (state.document[issue.blockId] as EmailBlock | undefined) : undefined;
+                return (
+                  <button
+                    key={`${issue.blockId}-${issue.rule}-${index}`}
+                    type="button"
+                    onClick={() => handleSelect(issue)}
+                    className="w-full text-left border rounded p-3 hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      {issue.severity === "error" ? (
+                        <AlertCircle className="h-4 w-4 text-red-600" />
+                      ) : (
+                        <AlertTriangle className="h-4 w-4 text-orange-500" />
+                      )}
+                      <span className="text-sm font-medium">{RULE_LABELS[issue.rule]}</span>
+                      <Badge variant="outline" className="text-xs ml-auto">
+                        {block ? block.type : "Document"}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-600">{issue.message}</p>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -8,11 +8,12 @@
 import React from "react";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import { GripVertical, Trash2, Copy } from "lucide-react";
+import { GripVertical, Trash2, Copy, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useEmailBuilder } from "./EmailBuilderContext";
 import { cn } from "@/lib/utils";
-import type { EmailBlock } from "@/lib/email-builder/types";
+import type { BlockType, EmailBlock } from "@/lib/email-builder/types";
+import { validateTemplateSyntax } from "@/lib/email/variable-parser";
 
 // Individual block content renderers
 import { TextBlockEditor } from "./blocks/TextBlockEditor";
@@ -29,6 +30,15 @@ import { SocialLinksBlockEditor } from "./blocks/SocialLinksBlockEditor";
 import { ListBlockEditor } from "./blocks/ListBlockEditor";
 import { HeroBlockEditor } from "./blocks/HeroBlockEditor";
 import { QuoteBlockEditor } from "./blocks/QuoteBlockEditor";
+import { RepeatBlockEditor } from "./blocks/RepeatBlockEditor";
+import { PartialBlockEditor } from "./blocks/PartialBlockEditor";
+
+// Props that may hold logic tags; tags must be balanced within each one
+const TEMPLATE_FIELDS: Partial<Record<BlockType, string[]>> = {
+  Text: ["text"],
+  Heading: ["text"],
+  Button: ["text", "url"],
+};
 
 interface BlockRendererProps {
   blockId: string;
@@ -45,7 +55,14 @@ export function BlockRenderer({
   parentId,
   columnIndex,
 }: BlockRendererProps) {
-  const { getBlock, deleteBlock, duplicateBlock, templateId } = useEmailBuilder();
+  const {
+    getBlock,
+    deleteBlock,
+    duplicateBlock,
+    toggleBlockSelection,
+    selectBlockRange,
+    templateId,
+  } = useEmailBuilder();
   const block = getBlock(blockId);
 
   if (!block) {
@@ -70,6 +87,11 @@ export function BlockRenderer({
     opacity: isDragging ? 0.5 : 1,
   };
 
+  const syntaxErrors = (TEMPLATE_FIELDS[block.type] || []).flatMap((field) => {
+    const value = (block.data.props as Record<string, unknown> | undefined)?.[field];
+    return typeof value === "string" ? validateTemplateSyntax(value) : [];
+  });
+
   // Merge drag listeners - make the whole block draggable via drag handle
   const dragHandleListeners = {
     ...listeners,
@@ -121,6 +143,16 @@ export function BlockRenderer({
         return <HeroBlockEditor block={block} blockId={blockId} templateId={templateId} />;
       case "Quote":
         return <QuoteBlockEditor block={block} blockId={blockId} />;
+      case "Repeat":
+        return (
+          <RepeatBlockEditor
+            block={block}
+            blockId={blockId}
+            parentId={parentId}
+          />
+        );
+      case "Partial":
+        return <PartialBlockEditor block={block} blockId={blockId} />;
       default:
         return <div>Unknown block type: {(block as EmailBlock).type}</div>;
     }
@@ -130,6 +162,7 @@ export function BlockRenderer({
     <div
       ref={setNodeRef}
       style={style}
+      data-block-id={blockId}
       className={cn(
         "relative group",
         isSelected && "ring-2 ring-blue-500 ring-offset-2"
@@ -143,7 +176,14 @@ export function BlockRenderer({
         )}
         onClick={(e) => {
           e.stopPropagation();
-          onSelect();
+          // Shift-click selects a range of siblings, Cmd/Ctrl-click toggles
+          if (e.shiftKey) {
+            selectBlockRange(blockId);
+          } else if (e.metaKey || e.ctrlKey) {
+            toggleBlockSelection(blockId);
+          } else {
+            onSelect();
+          }
         }}
       >
         {/* Block Toolbar - Show on hover/select */}
@@ -206,6 +246,18 @@ export function BlockRenderer({
           {renderBlockContent()}
         </div>
 
+        {/* Template syntax errors - shown where the tags are written */}
+        {syntaxErrors.length > 0 && (
+          <div className="flex items-start gap-1.5 border-t border-red-200 bg-red-50 px-2 py-1 text-xs text-red-700">
+            <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+            <div>
+              {syntaxErrors.map((error, index) => (
+                <p key={index}>{error.message}</p>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Block Type Label - Show on hover */}
         {!isSelected && (
           <div className="absolute top-0 left-0 opacity-0 group-hover:opacity-100 transition-opacity bg-black/70 text-white text-xs px-2 py-1 rounded-br">
@@ -12,6 +12,7 @@ import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
 import { useEmailBuilder } from "./EmailBuilderContext";
+import { useSnippets, type SnippetSummary } from "./hooks/useSnippets";
 import type { BlockType } from "@/lib/email-builder/types";
 
 interface DraggableBlockItemProps {
@@ -64,16 +65,35 @@ function DraggableBlockItem({ blockType, label, icon, onClick }: DraggableBlockI
   );
 }
 
+function groupSnippetsByCategory(snippets: SnippetSummary[]): Record<string, SnippetSummary[]> {
+  return snippets.reduce((groups, snippet) => {
+    const category = snippet.category || "Uncategorized";
+    (groups[category] ||= []).push(snippet);
+    return groups;
+  }, {} as Record<string, SnippetSummary[]>);
+}
+
 export function BlocksSidebar() {
-  const { addBlock, state } = useEmailBuilder();
+  const { addBlock, insertSnippet, state, partialId } = useEmailBuilder();
+  const { snippets } = useSnippets();
   const blocksByCategory = getBlocksByCategory();
 
+  // Partials cannot contain other partials
+  if (partialId) {
+    blocksByCategory.Layout = blocksByCategory.Layout.filter((block) => block.type !== "Partial");
+  }
+  const snippetsByCategory = groupSnippetsByCategory(snippets);
+
   const handleAddBlock = (blockType: BlockType) => {
     // Add to end of root children
     const position = state.document.childrenIds.length;
     addBlock(blockType, position);
   };
 
+  const handleInsertSnippet = (snippet: SnippetSummary) => {
+    insertSnippet(snippet.structure, state.document.childrenIds.length);
+  };
+
   return (
     <div className="w-64 border-r bg-white p-4 overflow-y-auto h-full">
       <h3 className="font-semibold mb-4 text-lg">Blocks</h3>
@@ -96,6 +116,36 @@ export function BlocksSidebar() {
           </div>
         </div>
       ))}
+
+      {snippets.length > 0 && (
+        <div className="pt-4 border-t">
+          <h3 className="font-semibold mb-4 text-lg">Snippets</h3>
+          {Object.entries(snippetsByCategory).map(([category, categorySnippets]) => (
+            <div key={category} className="mb-6">
+              <h4 className="text-sm font-medium text-gray-500 mb-2 uppercase tracking-wide">
+                {category}
+              </h4>
+              <div className="space-y-2">
+                {categorySnippets.map((snippet) => (
+                  <Button
+                    key={snippet.id}
+                    variant="outline"
+                    className="w-full justify-start gap-2"
+                    title={snippet.description || undefined}
+                    onClick={() => handleInsertSnippet(snippet)}
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span className="truncate">{snippet.name}</span>
+                    {snippet.isGlobal && (
+                      <span className="ml-auto text-xs text-gray-400">Org</span>
+                    )}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -29,7 +29,10 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { useEmailBuilder } from "./EmailBuilderContext";
-import type { BlockType } from "@/lib/email-builder/types";
+import type { BlockType, FontFamily } from "@/lib/email-builder/types";
+import { getThemeCssVariables } from "@/lib/email-builder/theme";
+import { getFontFaceCss, getFontStacks } from "@/lib/email-builder/fonts";
+import { useCustomFonts } from "./hooks/useCustomFonts";
 import { BlockRenderer } from "./BlockRenderer";
 import { cn } from "@/lib/utils";
 
@@ -92,8 +95,9 @@ function SortableBlockWrapper({ blockId, children }: SortableBlockWrapperProps)
 }
 
 export function Canvas() {
-  const { state, addBlock, moveBlock, selectBlock } = useEmailBuilder();
+  const { state, addBlock, moveBlock, moveBlocks, selectBlock } = useEmailBuilder();
   const { document } = state;
+  const { fonts: customFonts } = useCustomFonts();
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -178,6 +182,12 @@ export function Canvas() {
       const overId = over.id.toString();
       const overData = over.data.current;
 
+      // Dragging one block of a multi-selection moves the whole group
+      const groupIds =
+        state.selectedBlockIds.length > 1 && state.selectedBlockIds.includes(activeId)
+          ? state.selectedBlockIds
+          : null;
+
       // Moving into a container
       if (overData?.type === "container-drop-zone") {
         const containerId = overData.containerId;
@@ -185,7 +195,11 @@ export function Canvas() {
         const container = document[containerId] as any;
         if (container?.data?.props?.childrenIds) {
           const position = container.data.props.childrenIds.length;
-          moveBlock(activeId, position, containerId);
+          if (groupIds) {
+            moveBlocks(groupIds, position, containerId);
+          } else {
+            moveBlock(activeId, position, containerId);
+          }
         }
         return;
       }
@@ -198,7 +212,11 @@ export function Canvas() {
         const columnBlock = document[columnBlockId] as any;
         if (columnBlock?.data?.props?.columns?.[columnIndex]?.childrenIds) {
           const position = columnBlock.data.props.columns[columnIndex].childrenIds.length;
-          moveBlock(activeId, position, columnBlockId, columnIndex);
+          if (groupIds) {
+            moveBlocks(groupIds, position, columnBlockId, columnIndex);
+          } else {
+            moveBlock(activeId, position, columnBlockId, columnIndex);
+          }
         }
         return;
       }
@@ -208,6 +226,13 @@ export function Canvas() {
         const activeIndex = document.childrenIds.indexOf(activeId);
         const overIndex = document.childrenIds.indexOf(overId);
 
+        if (groupIds && overIndex !== -1 && !groupIds.includes(overId)) {
+          // Groups land after the target when dragged down, before it when dragged up
+          const position = activeIndex !== -1 && overIndex > activeIndex ? overIndex + 1 : overIndex;
+          moveBlocks(groupIds, position);
+          return;
+        }
+
         if (activeIndex !== -1 && overIndex !== -1 && activeIndex !== overIndex) {
           moveBlock(activeId, overIndex);
         }
@@ -217,15 +242,26 @@ export function Canvas() {
 
 
   const rootChildrenIds = document.childrenIds || [];
+  // The body theme font replaces the email font, as in the rendered email
+  const fontStacks = getFontStacks(
+    { ...document, fontFamily: (document.themeBodyFont as FontFamily | undefined) || document.fontFamily },
+    customFonts
+  );
 
   return (
     <div className="flex-1 flex flex-col bg-gray-50 overflow-hidden">
       <div className="flex-1 overflow-auto p-8">
+        {/* Web fonts load into the editor so the canvas matches the sent email */}
+        <style>{`${getFontFaceCss(customFonts)}
+.email-canvas h1, .email-canvas h2, .email-canvas h3, .email-canvas h4, .email-canvas h5, .email-canvas h6 { font-family: ${fontStacks.heading}; }`}</style>
         <div
-          className="max-w-[600px] mx-auto bg-white shadow-lg min-h-[600px] relative"
+          className="email-canvas max-w-[600px] mx-auto bg-white shadow-lg min-h-[600px] relative"
           style={{
             backgroundColor: document.canvasColor,
-          }}
+            fontFamily: fontStacks.body,
+            // Blocks can reference theme colors as var(--theme-primary) etc.
+            ...getThemeCssVariables(document),
+          } as React.CSSProperties}
         >
           <DndContext
             sensors={sensors}
@@ -250,7 +286,7 @@ export function Canvas() {
                       <BlockRenderer
                         blockId={blockId}
                         onSelect={() => selectBlock(blockId)}
-                        isSelected={state.selectedBlockId === blockId}
+                        isSelected={state.selectedBlockIds.includes(blockId)}
                       />
                       {/* Drop indicator */}
                       {index < rootChildrenIds.length - 1 && (
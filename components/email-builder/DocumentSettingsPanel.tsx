@@ -0,0 +1,233 @@
+/**
+ * Document Settings Panel Component
+ * Edits root-level email settings when no block is selected
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useEmailBuilder } from "./EmailBuilderContext";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Palette } from "lucide-react";
+import { toast } from "sonner";
+import type { DocumentSettings } from "@/lib/email-builder/state";
+import type { FontFamily, SystemFontFamily } from "@/lib/email-builder/types";
+import { FONT_FAMILIES, customFontRef, type CustomFont } from "@/lib/email-builder/fonts";
+import { THEME_COLOR_TOKENS } from "@/lib/email-builder/theme";
+import { getBrandKit } from "@/app/actions/brand-kit";
+import { useCustomFonts } from "./hooks/useCustomFonts";
+
+interface ColorFieldProps {
+  label: string;
+  value: string | undefined;
+  fallback: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+}
+
+function ColorField({ label, value, fallback, placeholder, onChange }: ColorFieldProps) {
+  return (
+    <div className="mb-4">
+      <Label>{label}</Label>
+      <div className="flex gap-2">
+        <Input
+          type="color"
+          value={value || fallback}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-8 w-16"
+        />
+        <Input
+          type="text"
+          value={value || ""}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder || fallback}
+          className="flex-1 h-8"
+        />
+      </div>
+    </div>
+  );
+}
+
+const DEFAULT_FONT = "default";
+const AUTO_DIRECTION = "auto";
+
+interface FontFieldProps {
+  label: string;
+  value: string | undefined;
+  customFonts: CustomFont[];
+  onChange: (value: FontFamily | undefined) => void;
+}
+
+function FontField({ label, value, customFonts, onChange }: FontFieldProps) {
+  return (
+    <div className="mb-4">
+      <Label>{label}</Label>
+      <Select
+        value={value || DEFAULT_FONT}
+        onValueChange={(selected) => onChange(selected === DEFAULT_FONT ? undefined : (selected as FontFamily))}
+      >
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_FONT}>Email font</SelectItem>
+          {(Object.keys(FONT_FAMILIES) as SystemFontFamily[]).map((font) => (
+            <SelectItem key={font} value={font}>
+              {FONT_FAMILIES[font]}
+            </SelectItem>
+          ))}
+          {customFonts.map((font) => (
+            <SelectItem key={font.id} value={customFontRef(font.id)}>
+              {font.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function DocumentSettingsPanel() {
+  const { state, updateDocumentSettings, applyBrandKit, defaultLanguage } = useEmailBuilder();
+  const { document } = state;
+  const { fonts: customFonts } = useCustomFonts();
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApplyBrandKit = async () => {
+    setIsApplying(true);
+    try {
+      const result = await getBrandKit();
+      if (!result.success) {
+        toast.error(result.error || "Failed to load brand kit");
+      } else if (!result.brandKit) {
+        toast.error("Your organization has no brand kit yet");
+      } else {
+        applyBrandKit(result.brandKit);
+        toast.success("Brand kit applied");
+      }
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const setting = (key: keyof DocumentSettings) => document[key] as string | undefined;
+  const update = (key: keyof DocumentSettings) => (value: string) =>
+    updateDocumentSettings({ [key]: value });
+
+  return (
+    <div>
+      <p className="text-sm text-gray-500 mb-4">
+        Select a block to edit its properties, or adjust email-wide settings below.
+      </p>
+
+      {/* Preheader */}
+      <div className="mb-6">
+        <h4 className="font-semibold mb-1 text-sm">Preheader</h4>
+        <p className="text-xs text-gray-500 mb-3">
+          Preview text shown after the subject in inbox lists. Supports variables like {"{{user.firstName}}"}.
+        </p>
+        <Textarea
+          value={setting("preheader") || ""}
+          onChange={(e) => update("preheader")(e.target.value)}
+          placeholder="Summarize the email in a sentence"
+          rows={2}
+          className="text-sm"
+        />
+        <p className="text-xs text-gray-500 mt-1 text-right">{(setting("preheader") || "").length} characters</p>
+      </div>
+
+      {/* Language */}
+      <div className="mb-6 pt-4 border-t">
+        <h4 className="font-semibold mb-1 text-sm">Language</h4>
+        <p className="text-xs text-gray-500 mb-3">
+          Lets screen readers pronounce the email correctly. Defaults to the template language.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label>Language Code</Label>
+            <Input
+              value={setting("lang") || ""}
+              onChange={(e) => update("lang")(e.target.value.trim())}
+              placeholder={defaultLanguage || "en"}
+              className="h-8"
+            />
+          </div>
+          <div>
+            <Label>Direction</Label>
+            <Select
+              value={setting("dir") || AUTO_DIRECTION}
+              onValueChange={(value) =>
+                updateDocumentSettings({ dir: value === AUTO_DIRECTION ? undefined : (value as "ltr" | "rtl") })
+              }
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_DIRECTION}>From language</SelectItem>
+                <SelectItem value="ltr">Left to right</SelectItem>
+                <SelectItem value="rtl">Right to left</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {/* Colors */}
+      <div className="mb-6 pt-4 border-t">
+        <h4 className="font-semibold mb-3 text-sm">Colors</h4>
+        <ColorField label="Backdrop" value={setting("backdropColor")} fallback="#F8F8F8" onChange={update("backdropColor")} />
+        <ColorField label="Canvas" value={setting("canvasColor")} fallback="#FFFFFF" onChange={update("canvasColor")} />
+        <ColorField label="Text" value={setting("textColor")} fallback="#242424" onChange={update("textColor")} />
+      </div>
+
+      {/* Theme */}
+      <div className="mb-6 pt-4 border-t">
+        <h4 className="font-semibold mb-1 text-sm">Theme</h4>
+        <p className="text-xs text-gray-500 mb-3">
+          Blocks set to a theme color follow these values, so changing one restyles the whole email.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full mb-4"
+          onClick={handleApplyBrandKit}
+          disabled={isApplying}
+        >
+          <Palette className="h-4 w-4 mr-1" />
+          {isApplying ? "Applying..." : "Apply brand kit"}
+        </Button>
+        {THEME_COLOR_TOKENS.map(({ key, label, fallback }) => (
+          <ColorField key={key} label={`${label} Color`} value={setting(key)} fallback={fallback} onChange={update(key)} />
+        ))}
+        <FontField
+          label="Heading Font"
+          value={setting("themeHeadingFont")}
+          customFonts={customFonts}
+          onChange={(value) => updateDocumentSettings({ themeHeadingFont: value })}
+        />
+        <FontField
+          label="Body Font"
+          value={setting("themeBodyFont")}
+          customFonts={customFonts}
+          onChange={(value) => updateDocumentSettings({ themeBodyFont: value })}
+        />
+      </div>
+
+      {/* Dark Mode */}
+      <div className="pt-4 border-t">
+        <h4 className="font-semibold mb-1 text-sm">Dark Mode</h4>
+        <p className="text-xs text-gray-500 mb-3">
+          Used by clients that render emails in dark mode. Leave empty to let the client decide.
+        </p>
+        <ColorField label="Dark Backdrop" value={setting("darkBackdropColor")} fallback="#111827" placeholder="None" onChange={update("darkBackdropColor")} />
+        <ColorField label="Dark Canvas" value={setting("darkCanvasColor")} fallback="#1F2937" placeholder="None" onChange={update("darkCanvasColor")} />
+        <ColorField label="Dark Text" value={setting("darkTextColor")} fallback="#F9FAFB" placeholder="None" onChange={update("darkTextColor")} />
+      </div>
+    </div>
+  );
+}
@@ -15,10 +15,16 @@ import {
   Upload,
   FileJson,
   FileCode,
+  FileDown,
+  FileUp,
   Loader2,
 } from "lucide-react";
 import { useEmailBuilder } from "./EmailBuilderContext";
 import { PreviewDialog } from "./PreviewDialog";
+import { VersionHistoryDialog } from "./VersionHistoryDialog";
+import { AccessibilityPanel } from "./AccessibilityPanel";
+import { LinkCheckPanel } from "./LinkCheckPanel";
+import { PlainTextDialog } from "./PlainTextDialog";
 import { JsonView } from "./JsonView";
 import { HtmlView } from "./HtmlView";
 import { TestSendDialog } from "@/components/templates/TestSendDialog";
@@ -29,6 +35,8 @@ import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 import type { EmailBuilderDocument } from "@/lib/email-builder/types";
 import { Badge } from "@/components/ui/badge";
+import { documentToMjml } from "@/lib/email-builder/mjml";
+import { importTemplateMjml } from "@/app/actions/templates";
 
 interface EditorToolbarProps {
   activeTab: "design" | "json" | "html";
@@ -36,8 +44,9 @@ interface EditorToolbarProps {
 }
 
 export function EditorToolbar({ activeTab, onTabChange }: EditorToolbarProps) {
-  const { state, undo, redo, canUndo, canRedo, markSaved, setDocument, templateId, defaultLanguage: currentLanguage, loadLanguage, availableLanguages, saveDocument } = useEmailBuilder();
+  const { state, undo, redo, canUndo, canRedo, markSaved, setDocument, templateId, partialId, defaultLanguage: currentLanguage, loadLanguage, availableLanguages, saveDocument } = useEmailBuilder();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const mjmlInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
   const [isLoadingLanguage, setIsLoadingLanguage] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -86,24 +95,25 @@ export function EditorToolbar({ activeTab, onTabChange }: EditorToolbarProps) {
   };
 
   const handleSave = async () => {
-    if (!templateId) {
+    if (!templateId && !partialId) {
       toast.error("No template ID");
       return;
     }
 
+    const target = partialId ? "partial" : "template";
     setIsSaving(true);
     try {
       const result = await saveDocument();
       if (!result.success) {
         const errorMsg = result.error || "Unknown error";
-        toast.error(`Failed to save template: ${errorMsg}`);
+        toast.error(`Failed to save ${target}: ${errorMsg}`);
       } else {
-        toast.success("Template saved successfully");
+        toast.success(partialId ? "Partial saved successfully" : "Template saved successfully");
       }
     } catch (error) {
       console.error("Save error:", error);
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      toast.error(`Failed to save template: ${errorMessage}`);
+      toast.error(`Failed to save ${target}: ${errorMessage}`);
     } finally {
       setIsSaving(false);
     }
@@ -185,6 +195,49 @@ export function EditorToolbar({ activeTab, onTabChange }: EditorToolbarProps) {
     toast.success("JSON exported");
   };
 
+  const handleExportMJML = () => {
+    const mjml = documentToMjml(state.document);
+    const blob = new Blob([mjml], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "email-template.mjml";
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success("MJML exported");
+  };
+
+  const handleMjmlFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset input
+    event.target.value = "";
+    if (!file || !templateId) return;
+
+    if (!confirm(`Replace the ${(currentLanguage || "en").toUpperCase()} content with this MJML file? The current content stays in version history.`)) {
+      return;
+    }
+
+    try {
+      const result = await importTemplateMjml(templateId, await file.text(), currentLanguage);
+      if (!result.success || !result.document) {
+        toast.error(result.error || "Failed to import MJML");
+        return;
+      }
+
+      setDocument(result.document);
+      if (result.warnings.length > 0) {
+        toast.warning(`MJML imported with ${result.warnings.length} skipped element(s)`, {
+          description: result.warnings.join("\n"),
+        });
+      } else {
+        toast.success("MJML imported successfully");
+      }
+    } catch (error) {
+      console.error("MJML import error:", error);
+      toast.error("Failed to import MJML");
+    }
+  };
+
   return (
     <div className="h-16 border-b bg-white flex items-center justify-between px-4 shadow-sm">
       <div className="flex items-center gap-2">
@@ -238,6 +291,16 @@ export function EditorToolbar({ activeTab, onTabChange }: EditorToolbarProps) {
           Export HTML
         </Button>
 
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleExportMJML}
+          title="Download MJML"
+        >
+          <FileDown className="h-4 w-4 mr-1" />
+          Export as MJML
+        </Button>
+
         {/* Import */}
         <Button
           variant="ghost"
@@ -248,6 +311,17 @@ export function EditorToolbar({ activeTab, onTabChange }: EditorToolbarProps) {
           <Upload className="h-4 w-4 mr-1" />
           Import
         </Button>
+        {templateId && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => mjmlInputRef.current?.click()}
+            title="Import MJML"
+          >
+            <FileUp className="h-4 w-4 mr-1" />
+            Import MJML
+          </Button>
+        )}
 
         {/* Language Selector */}
         {templateId && (
@@ -292,6 +366,18 @@ export function EditorToolbar({ activeTab, onTabChange }: EditorToolbarProps) {
         {/* Translations - Optional feature, can be hidden if using separate templates */}
         {/* {templateId && <TranslationPanel templateId={templateId} />} */}
 
+        {/* Accessibility */}
+        <AccessibilityPanel />
+
+        {/* Links */}
+        <LinkCheckPanel />
+
+        {/* Plain Text */}
+        <PlainTextDialog />
+
+        {/* Version History */}
+        <VersionHistoryDialog />
+
         {/* Preview */}
         <PreviewDialog />
 
@@ -311,6 +397,13 @@ export function EditorToolbar({ activeTab, onTabChange }: EditorToolbarProps) {
           onChange={handleFileChange}
           className="hidden"
         />
+        <input
+          ref={mjmlInputRef}
+          type="file"
+          accept=".mjml,.xml,text/plain"
+          onChange={handleMjmlFileChange}
+          className="hidden"
+        />
 
         {/* Save */}
         <Button
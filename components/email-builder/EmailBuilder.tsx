@@ -16,6 +16,7 @@ interface EmailBuilderProps {
   onSave?: (document: EmailBuilderDocument, language?: string) => void | Promise<void>;
   height?: string | number;
   templateId?: string;
+  partialId?: string;
   defaultLanguage?: string;
   allStructures?: Record<string, any>;
 }
@@ -26,6 +27,7 @@ export function EmailBuilder({
   onSave,
   height = "100vh",
   templateId,
+  partialId,
   defaultLanguage,
   allStructures,
 }: EmailBuilderProps) {
@@ -35,6 +37,7 @@ export function EmailBuilder({
       onDocumentChange={onDocumentChange}
       onSave={onSave}
       templateId={templateId}
+      partialId={partialId}
       defaultLanguage={defaultLanguage}
       allStructures={allStructures}
     >
@@ -9,8 +9,11 @@ import React, { createContext, useContext, useReducer, useCallback, useEffect, u
 import {
   editorReducer,
   createInitialState,
+  orderSelectedBlocks,
   type EditorState,
   type EditorAction,
+  type DocumentSettings,
+  type BlockStyleUpdates,
 } from "@/lib/email-builder/state";
 import type {
   EmailBuilderDocument,
@@ -18,6 +21,8 @@ import type {
   BlockType,
 } from "@/lib/email-builder/types";
 import { generateBlockId } from "@/lib/email-builder/blocks";
+import { extractSnippetStructure, type SnippetStructure } from "@/lib/email-builder/snippets";
+import type { BrandKitSettings } from "@/lib/email-builder/theme";
 import { toast } from "sonner";
 
 // ============================================================================
@@ -27,6 +32,7 @@ import { toast } from "sonner";
 interface EmailBuilderContextValue {
   state: EditorState;
   templateId?: string;
+  partialId?: string; // Set when the builder edits a global partial instead of a template
   defaultLanguage?: string;
   allStructures?: Record<string, any>;
   
@@ -39,9 +45,23 @@ interface EmailBuilderContextValue {
   duplicateBlock: (blockId: string) => void;
   copyBlock: (blockId: string) => void;
   pasteBlock: (position: number, parentId?: string, columnIndex?: number) => void;
+  insertSnippet: (structure: SnippetStructure, position: number, parentId?: string, columnIndex?: number) => void;
+
+  // Group actions (operate on several selected blocks as one undo step)
+  toggleBlockSelection: (blockId: string) => void;
+  selectBlockRange: (blockId: string) => void;
+  deleteBlocks: (blockIds: string[]) => void;
+  duplicateBlocks: (blockIds: string[]) => void;
+  moveBlocks: (blockIds: string[], newPosition: number, newParentId?: string, columnIndex?: number) => void;
+  wrapInContainer: (blockIds: string[]) => void;
+  copyBlocks: (blockIds: string[]) => void;
+  pasteBlocks: (position: number, parentId?: string, columnIndex?: number) => void;
+  updateBlocksStyle: (blockIds: string[], style: BlockStyleUpdates) => void;
   undo: () => void;
   redo: () => void;
   setDocument: (document: EmailBuilderDocument) => void;
+  updateDocumentSettings: (settings: DocumentSettings) => void;
+  applyBrandKit: (brandKit: BrandKitSettings) => void;
   markSaved: () => void;
   loadLanguage: (language: string) => Promise<{ success: boolean; error?: string }>;
   saveDocument: () => Promise<{ success: boolean; error?: string }>;
@@ -52,10 +72,14 @@ interface EmailBuilderContextValue {
   getBlock: (blockId: string) => EmailBlock | undefined;
   availableLanguages: string[];
   hasClipboard: boolean;
+  hasGroupClipboard: boolean;
 }
 
 const EmailBuilderContext = createContext<EmailBuilderContextValue | null>(null);
 
+// localStorage key for copied groups of blocks (array of snippet structures)
+const GROUP_CLIPBOARD_KEY = 'email-builder-clipboard-group';
+
 // ============================================================================
 // Provider Component
 // ============================================================================
@@ -66,6 +90,7 @@ interface EmailBuilderProviderProps {
   onDocumentChange?: (document: EmailBuilderDocument) => void;
   onSave?: (document: EmailBuilderDocument, language?: string) => void | Promise<void>;
   templateId?: string;
+  partialId?: string;
   defaultLanguage?: string;
   allStructures?: Record<string, any>;
 }
@@ -76,6 +101,7 @@ export function EmailBuilderProvider({
   onDocumentChange,
   onSave,
   templateId,
+  partialId,
   defaultLanguage,
   allStructures: initialAllStructures,
 }: EmailBuilderProviderProps) {
@@ -296,7 +322,7 @@ export function EmailBuilderProvider({
       const cloned = JSON.parse(JSON.stringify(blockToCopy)) as EmailBlock;
       
       // Handle nested children
-      if (cloned.type === "Container") {
+      if (cloned.type === "Container" || cloned.type === "Repeat") {
         const containerProps = cloned.data.props as any;
         if (containerProps.childrenIds && Array.isArray(containerProps.childrenIds)) {
           // Recursively copy all children
@@ -330,7 +356,7 @@ export function EmailBuilderProvider({
     // Recursively collect all children
     const collectChildren = (id: string) => {
       const block = state.document[id] as EmailBlock;
-      if (block.type === "Container") {
+      if (block.type === "Container" || block.type === "Repeat") {
         const containerProps = block.data.props as any;
         if (containerProps.childrenIds && Array.isArray(containerProps.childrenIds)) {
           containerProps.childrenIds.forEach((childId: string) => {
@@ -358,6 +384,7 @@ export function EmailBuilderProvider({
     // Store full tree structure in localStorage
     try {
       localStorage.setItem('email-builder-clipboard', JSON.stringify(blockTree));
+      localStorage.removeItem(GROUP_CLIPBOARD_KEY);
       toast.success("Block copied to clipboard");
     } catch (error) {
       console.warn('Failed to save to localStorage:', error);
@@ -407,7 +434,7 @@ export function EmailBuilderProvider({
       const clonedBlock = JSON.parse(JSON.stringify(block)) as EmailBlock;
       
       // Handle nested children
-      if (clonedBlock.type === "Container") {
+      if (clonedBlock.type === "Container" || clonedBlock.type === "Repeat") {
         const containerProps = clonedBlock.data.props as any;
         if (containerProps.childrenIds && Array.isArray(containerProps.childrenIds)) {
           // Map old child IDs to new IDs and paste children
@@ -459,7 +486,7 @@ export function EmailBuilderProvider({
       }
     } else if (parentId) {
       const parent = newDocument[parentId] as EmailBlock | undefined;
-      if (parent && parent.type === "Container") {
+      if (parent && (parent.type === "Container" || parent.type === "Repeat")) {
         const containerProps = parent.data.props as any;
         if (!containerProps.childrenIds) {
           containerProps.childrenIds = [];
@@ -485,6 +512,110 @@ export function EmailBuilderProvider({
     toast.success("Block pasted");
   }, [state.document]);
 
+  const insertSnippet = useCallback((structure: SnippetStructure, position: number, parentId?: string, columnIndex?: number) => {
+    dispatch({
+      type: "INSERT_SNIPPET",
+      payload: { structure, position, parentId, columnIndex },
+    });
+  }, []);
+
+  const toggleBlockSelection = useCallback((blockId: string) => {
+    dispatch({
+      type: "TOGGLE_BLOCK_SELECTION",
+      payload: { blockId },
+    });
+  }, []);
+
+  const selectBlockRange = useCallback((blockId: string) => {
+    dispatch({
+      type: "SELECT_BLOCK_RANGE",
+      payload: { blockId },
+    });
+  }, []);
+
+  const deleteBlocks = useCallback((blockIds: string[]) => {
+    dispatch({
+      type: "DELETE_BLOCKS",
+      payload: { blockIds },
+    });
+  }, []);
+
+  const duplicateBlocks = useCallback((blockIds: string[]) => {
+    dispatch({
+      type: "DUPLICATE_BLOCKS",
+      payload: { blockIds },
+    });
+  }, []);
+
+  const moveBlocks = useCallback(
+    (blockIds: string[], newPosition: number, newParentId?: string, columnIndex?: number) => {
+      dispatch({
+        type: "MOVE_BLOCKS",
+        payload: { blockIds, newPosition, newParentId, columnIndex },
+      });
+    },
+    []
+  );
+
+  const wrapInContainer = useCallback((blockIds: string[]) => {
+    dispatch({
+      type: "WRAP_IN_CONTAINER",
+      payload: { blockIds },
+    });
+  }, []);
+
+  const copyBlocks = useCallback((blockIds: string[]) => {
+    const structures = orderSelectedBlocks(state.document, blockIds)
+      .map((blockId) => extractSnippetStructure(state.document, blockId))
+      .filter((structure): structure is SnippetStructure => structure !== null);
+
+    if (structures.length === 0) {
+      console.warn('No blocks found for copying');
+      return;
+    }
+
+    // Group copies live under their own key so single-block paste keeps working
+    try {
+      localStorage.setItem(GROUP_CLIPBOARD_KEY, JSON.stringify(structures));
+      localStorage.removeItem('email-builder-clipboard');
+      clipboardRef.current = null;
+      toast.success(`${structures.length} blocks copied to clipboard`);
+    } catch (error) {
+      console.warn('Failed to save to localStorage:', error);
+      toast.error("Failed to copy blocks");
+    }
+  }, [state.document]);
+
+  const pasteBlocks = useCallback((position: number, parentId?: string, columnIndex?: number) => {
+    let structures: SnippetStructure[] = [];
+    try {
+      const stored = localStorage.getItem(GROUP_CLIPBOARD_KEY);
+      if (stored) {
+        structures = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn('Failed to load from localStorage:', error);
+    }
+
+    if (!Array.isArray(structures) || structures.length === 0) {
+      console.warn('No blocks in clipboard to paste');
+      return;
+    }
+
+    dispatch({
+      type: "PASTE_BLOCKS",
+      payload: { structures, position, parentId, columnIndex },
+    });
+    toast.success(`${structures.length} blocks pasted`);
+  }, []);
+
+  const updateBlocksStyle = useCallback((blockIds: string[], style: BlockStyleUpdates) => {
+    dispatch({
+      type: "UPDATE_BLOCKS_STYLE",
+      payload: { blockIds, style },
+    });
+  }, []);
+
   const undo = useCallback(() => {
     dispatch({ type: "UNDO" });
   }, []);
@@ -509,6 +640,14 @@ export function EmailBuilderProvider({
     });
   }, []);
 
+  const updateDocumentSettings = useCallback((settings: DocumentSettings) => {
+    dispatch({ type: "UPDATE_DOCUMENT_SETTINGS", payload: { settings } });
+  }, []);
+
+  const applyBrandKit = useCallback((brandKit: BrandKitSettings) => {
+    dispatch({ type: "APPLY_BRAND_KIT", payload: { brandKit } });
+  }, []);
+
   const markSaved = useCallback(() => {
     dispatch({ type: "MARK_SAVED" });
   }, []);
@@ -519,7 +658,7 @@ export function EmailBuilderProvider({
       return { success: false, error: "No save handler or document available" };
     }
 
-    if (!templateId) {
+    if (!templateId && !partialId) {
       return { success: false, error: "No template ID available" };
     }
 
@@ -587,7 +726,7 @@ export function EmailBuilderProvider({
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
       return { success: false, error: errorMessage };
     }
-  }, [onSave, state.document, currentLanguage, templateId]);
+  }, [onSave, state.document, currentLanguage, templateId, partialId]);
 
   // Load language structure - returns success/failure
   const loadLanguage = useCallback(async (language: string): Promise<{ success: boolean; error?: string }> => {
@@ -760,10 +899,12 @@ export function EmailBuilderProvider({
   
   // Check if clipboard has content
   const hasClipboard = clipboardRef.current !== null || (typeof window !== 'undefined' && localStorage.getItem('email-builder-clipboard') !== null);
+  const hasGroupClipboard = typeof window !== 'undefined' && localStorage.getItem(GROUP_CLIPBOARD_KEY) !== null;
 
   const value: EmailBuilderContextValue = {
     state,
     templateId,
+    partialId,
     defaultLanguage: currentLanguage,
     allStructures,
     addBlock,
@@ -774,9 +915,21 @@ export function EmailBuilderProvider({
     duplicateBlock,
     copyBlock,
     pasteBlock,
+    insertSnippet,
+    toggleBlockSelection,
+    selectBlockRange,
+    deleteBlocks,
+    duplicateBlocks,
+    moveBlocks,
+    wrapInContainer,
+    copyBlocks,
+    pasteBlocks,
+    updateBlocksStyle,
     undo,
     redo,
     setDocument,
+    updateDocumentSettings,
+    applyBrandKit,
     markSaved,
     loadLanguage,
     saveDocument,
@@ -785,6 +938,7 @@ export function EmailBuilderProvider({
     getBlock,
     availableLanguages,
     hasClipboard,
+    hasGroupClipboard,
   };
 
   return (
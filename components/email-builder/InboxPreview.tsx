@@ -0,0 +1,71 @@
+/**
+ * Inbox Preview Component
+ * Mock inbox rows showing how clients truncate sender, subject and preheader
+ */
+
+"use client";
+
+import React from "react";
+import { INBOX_CLIENTS, getInboxPreview, type InboxClient } from "@/lib/email-builder/preheader";
+
+interface InboxPreviewProps {
+  sender: string;
+  subject: string;
+  preheader: string;
+}
+
+function GmailRow({ sender, subject, preheader }: InboxPreviewProps) {
+  return (
+    <div className="flex items-center gap-4 px-4 py-2 bg-white border-b text-sm">
+      <span className="w-44 shrink-0 font-semibold text-gray-900">{sender}</span>
+      <span className="flex-1 min-w-0 whitespace-nowrap overflow-hidden">
+        <span className="font-semibold text-gray-900">{subject}</span>
+        {preheader && <span className="text-gray-500"> - {preheader}</span>}
+      </span>
+      <span className="shrink-0 text-xs font-semibold text-gray-900">9:41 AM</span>
+    </div>
+  );
+}
+
+function OutlookRow({ sender, subject, preheader }: InboxPreviewProps) {
+  return (
+    <div className="px-4 py-2 bg-white border-b border-l-4 border-l-blue-600 text-sm">
+      <div className="flex justify-between">
+        <span className="font-semibold text-gray-900">{sender}</span>
+        <span className="text-xs text-gray-500">9:41 AM</span>
+      </div>
+      <div className="text-blue-700 font-semibold">{subject}</div>
+      <div className="text-gray-500">{preheader}</div>
+    </div>
+  );
+}
+
+const ROWS: Record<InboxClient, React.ComponentType<InboxPreviewProps>> = {
+  gmail: GmailRow,
+  outlook: OutlookRow,
+};
+
+export function InboxPreview({ sender, subject, preheader }: InboxPreviewProps) {
+  return (
+    <div className="space-y-6">
+      {(Object.keys(INBOX_CLIENTS) as InboxClient[]).map((client) => {
+        const Row = ROWS[client];
+        const preview = getInboxPreview(client, { sender, subject, preheader });
+        return (
+          <div key={client}>
+            <p className="text-xs font-medium text-gray-500 mb-2">{INBOX_CLIENTS[client].label}</p>
+            <div className="border rounded overflow-hidden">
+              <Row {...preview} />
+              <div className="px-4 py-2 bg-gray-50 text-sm text-gray-400">Other messages…</div>
+            </div>
+          </div>
+        );
+      })}
+      {!preheader && (
+        <p className="text-xs text-orange-700">
+          No preheader is set, so clients fill the preview with the first text in the email.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * Link Check Panel Component
+ * Lists broken or suspicious links per block and jumps to the block
+ */
+
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, AlertTriangle, CheckCircle2, Link2, Loader2 } from "lucide-react";
+import { useEmailBuilder } from "./EmailBuilderContext";
+import { extractLinks, validateLink, type LinkCheckResult } from "@/lib/email-builder/links";
+import { getAllVariablePaths } from "@/lib/email/variable-definitions";
+import { getCustomVariables } from "@/app/actions/custom-variables";
+import { checkDocumentLinks } from "@/app/actions/link-check";
+import { toast } from "sonner";
+
+export function LinkCheckPanel() {
+  const { state, selectBlock } = useEmailBuilder();
+  const [isOpen, setIsOpen] = useState(false);
+  const [knownVariables, setKnownVariables] = useState<string[]>(getAllVariablePaths());
+  const [httpResults, setHttpResults] = useState<LinkCheckResult[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    getCustomVariables().then((result) => {
+      if (result.success && result.variables) {
+        setKnownVariables([...getAllVariablePaths(), ...result.variables.map((v) => v.path)]);
+      }
+    });
+  }, []);
+
+  // HTTP results describe the document as it was when they were fetched
+  useEffect(() => {
+    setHttpResults(null);
+  }, [state.document]);
+
+  const offlineResults = useMemo<LinkCheckResult[]>(
+    () =>
+      extractLinks(state.document).map((link) => ({
+        ...link,
+        issues: validateLink(link, { knownVariables }),
+      })),
+    [state.document, knownVariables]
+  );
+  const results = httpResults || offlineResults;
+  const issueCount = results.reduce((total, result) => total + result.issues.length, 0);
+  const hasErrors = results.some((result) => result.issues.some((issue) => issue.severity === "error"));
+
+  const byBlock = useMemo(() => {
+    const groups = new Map<string, LinkCheckResult[]>();
+    results.forEach((result) => {
+      groups.set(result.blockId, [...(groups.get(result.blockId) || []), result]);
+    });
+    return Array.from(groups.entries());
+  }, [results]);
+
+  const handleCheckUrls = async () => {
+    setIsChecking(true);
+    try {
+      const result = await checkDocumentLinks(state.document, true);
+      if (result.success && result.results) {
+        setHttpResults(result.results);
+      } else {
+        toast.error(result.error || "Failed to check links");
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleSelect = (blockId: string) => {
+    selectBlock(blockId);
+    setIsOpen(false);
+    const element = window.document.querySelector(`[data-block-id="${blockId}"]`);
+    element?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" title="Links">
+          <Link2 className="h-4 w-4 mr-1" />
+          Links
+          {issueCount > 0 && (
+            <Badge variant={hasErrors ? "destructive" : "secondary"} className="ml-1 text-xs">
+              {issueCount}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-[400px] sm:w-[480px]">
+        <SheetHeader>
+          <SheetTitle>Link Check</SheetTitle>
+          <SheetDescription>
+            {results.length} link{results.length === 1 ? "" : "s"} in this email. Click a block to jump to it.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center justify-between mt-4">
+          <span className="text-xs text-gray-500">
+            {httpResults ? "URLs checked over HTTP" : "Syntax and variables only"}
+          </span>
+          <Button variant="outline" size="sm" onClick={handleCheckUrls} disabled={isChecking || results.length === 0}>
+            {isChecking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Check URLs
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[calc(100vh-190px)] mt-4 pr-2">
+          {results.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-sm text-gray-500">
+              <Link2 className="h-8 w-8" />
+              This email has no links
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {byBlock.map(([blockId, links]) => (
+                <button
+                  key={blockId}
+                  type="button"
+                  onClick={() => handleSelect(blockId)}
+                  className="w-full text-left border rounded p-3 hover:bg-gray-50 transition-colors"
+                >
+                  <Badge variant="outline" className="text-xs mb-2">
+                    {links[0].blockType}
+                  </Badge>
+                  <div className="space-y-2">
+                    {links.map((link, index) => (
+                      <div key={`${link.url}-${index}`}>
+                        <div className="flex items-center gap-2">
+                          {link.issues.some((issue) => issue.severity === "error") ? (
+                            <AlertCircle className="h-4 w-4 shrink-0 text-red-600" />
+                          ) : link.issues.length > 0 ? (
+                            <AlertTriangle className="h-4 w-4 shrink-0 text-orange-500" />
+                          ) : (
+                            <CheckCircle2 className="h-4 w-4 shrink-0 text-green-500" />
+                          )}
+                          <span className="text-sm truncate" title={link.url}>
+                            {link.label ? `${link.label}: ` : ""}
+                            <span className="text-gray-600">{link.url || "(empty)"}</span>
+                          </span>
+                          {link.status !== undefined && (
+                            <Badge variant="secondary" className="text-xs ml-auto">
+                              {link.status}
+                            </Badge>
+                          )}
+                        </div>
+                        {link.issues.map((issue, issueIndex) => (
+                          <p key={`${issue.code}-${issueIndex}`} className="text-xs text-gray-600 ml-6">
+                            {issue.message}
+                          </p>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
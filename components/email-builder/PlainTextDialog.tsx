@@ -0,0 +1,153 @@
+/**
+ * Plain Text Dialog Component
+ * Edit the text/plain part of the current language, or regenerate it from the HTML
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { FileText, Loader2, RefreshCw } from "lucide-react";
+import { useEmailBuilder } from "./EmailBuilderContext";
+import { fetchPartialDocuments } from "./hooks/usePartials";
+import { renderEmailTemplate } from "@/lib/email/template-renderer";
+import { loadTemplatePlainText, updateTemplatePlainText } from "@/app/actions/templates";
+import { toast } from "sonner";
+
+export function PlainTextDialog() {
+  const { state, templateId, defaultLanguage: currentLanguage } = useEmailBuilder();
+  const [isOpen, setIsOpen] = useState(false);
+  const [plainText, setPlainText] = useState("");
+  const [isCustom, setIsCustom] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Text generated from the current HTML, with variables left as {{placeholders}}
+  const generateText = async () => {
+    const { text } = await renderEmailTemplate(state.document, {
+      replaceVariables: false,
+      partials: await fetchPartialDocuments(state.document),
+    });
+    return text;
+  };
+
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open);
+    if (!open || !templateId) return;
+
+    setIsLoading(true);
+    try {
+      const result = await loadTemplatePlainText(templateId, currentLanguage);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      setIsCustom(!!result.plainText);
+      setPlainText(result.plainText || (await generateText()));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (isCustom && !confirm("Replace your edited text with text generated from the HTML?")) return;
+    setIsLoading(true);
+    try {
+      setPlainText(await generateText());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const save = async (text: string | null) => {
+    if (!templateId) return;
+    setIsSaving(true);
+    try {
+      const result = await updateTemplatePlainText(templateId, text, currentLanguage);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      setIsCustom(!!text);
+      toast.success(text ? "Plain text saved" : "Plain text will be generated from the HTML");
+      setIsOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!templateId) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Plain text version">
+          <FileText className="h-4 w-4 mr-1" />
+          Plain Text
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Plain Text Version
+            <Badge variant={isCustom ? "default" : "secondary"} className="text-xs">
+              {isCustom ? "Edited" : "Generated"}
+            </Badge>
+            <Badge variant="outline" className="text-xs">
+              {(currentLanguage || "en").toUpperCase()}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            Shown by clients that can&apos;t display HTML. Variables like {"{{user.firstName}}"} are replaced when sending.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={handleRegenerate} disabled={isLoading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Regenerate from HTML
+            </Button>
+          </div>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-96">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <Textarea
+              value={plainText}
+              onChange={(e) => setPlainText(e.target.value)}
+              className="font-mono text-sm h-96"
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          {isCustom && (
+            <Button variant="ghost" onClick={() => save(null)} disabled={isSaving} className="mr-auto">
+              Use Generated Text
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={() => save(plainText)} disabled={isSaving || isLoading || !plainText.trim()}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Plain Text
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
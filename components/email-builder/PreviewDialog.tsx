@@ -5,7 +5,7 @@
 
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   Dialog,
   DialogContent,
@@ -21,9 +21,18 @@ import { Input } from "@/components/ui/input";
 import { Eye, Copy, Download, Moon, Sun, Monitor } from "lucide-react";
 import { useEmailBuilder } from "./EmailBuilderContext";
 import { renderEmailTemplate } from "@/lib/email/template-renderer";
+import { enableDarkModePreview } from "@/lib/email-builder/renderer";
 import { getCustomVariables } from "@/app/actions/custom-variables";
 import { toast } from "sonner";
 import { AlertCircle } from "lucide-react";
+import { fetchPartialDocuments } from "./hooks/usePartials";
+import { fetchCustomFonts } from "./hooks/useCustomFonts";
+import { InboxPreview } from "./InboxPreview";
+import { SizeReport } from "./SizeReport";
+import type { RenderAnalysis } from "@/lib/email/render-analysis";
+import { renderTemplate } from "@/lib/email/variable-renderer";
+import { useSampleProfiles } from "./hooks/useSampleProfiles";
+import { SampleProfileSelect, VARIABLE_SAMPLES } from "./SampleProfileSelect";
 
 type DeviceSize = "desktop" | "iphone-se" | "iphone-12" | "pixel" | "ipad" | "custom";
 type DarkMode = "light" | "dark" | "auto";
@@ -37,6 +46,28 @@ const DEVICE_SIZES: Record<DeviceSize, { width: number; label: string }> = {
   custom: { width: 600, label: "Custom" },
 };
 
+function setNestedValue(obj: Record<string, any>, path: string, value: any) {
+  const parts = path.split(".");
+  let current = obj;
+  for (let i = 0; i < parts.length - 1; i++) {
+    if (!current[parts[i]]) {
+      current[parts[i]] = {};
+    }
+    current = current[parts[i]];
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
+function getDefaultSampleValue(type: string): any {
+  switch (type) {
+    case "number": return 0;
+    case "boolean": return false;
+    case "array": return [];
+    case "object": return {};
+    default: return "";
+  }
+}
+
 export function PreviewDialog() {
   const { state, templateId } = useEmailBuilder();
   const [isOpen, setIsOpen] = useState(false);
@@ -45,24 +76,20 @@ export function PreviewDialog() {
   const [darkMode, setDarkMode] = useState<DarkMode>("light");
   const [html, setHtml] = useState("");
   const [showVariables, setShowVariables] = useState(true);
-  const [sampleData, setSampleData] = useState<Record<string, any>>({});
+  const [variableSamples, setVariableSamples] = useState<Record<string, any>>({});
+  const [profileId, setProfileId] = useState(VARIABLE_SAMPLES);
+  const { profiles, refresh: refreshProfiles } = useSampleProfiles(templateId);
   const [missingTranslations, setMissingTranslations] = useState<string[]>([]);
+  const [inlineCss, setInlineCss] = useState(false);
+  const [analysis, setAnalysis] = useState<RenderAnalysis | null>(null);
+  const [view, setView] = useState("email");
+  const [sender, setSender] = useState("Your Company");
+  const [subject, setSubject] = useState("Your subject line");
 
-  // Load custom variables and merge with sample data
-  useEffect(() => {
-    if (isOpen && showVariables) {
-      loadCustomVariablesForPreview();
-    }
-  }, [isOpen, showVariables]);
-
-  // Reload preview when variables change
-  useEffect(() => {
-    if (isOpen) {
-      loadPreview();
-    }
-  }, [isOpen, showVariables, sampleData]);
+  // Profiles are loaded up front so switching between them re-renders immediately
+  const sampleData = profiles.find((profile) => profile.id === profileId)?.data || variableSamples;
 
-  const loadCustomVariablesForPreview = async () => {
+  const loadCustomVariablesForPreview = useCallback(async () => {
     try {
       const result = await getCustomVariables();
       if (result.success && result.variables) {
@@ -84,39 +111,17 @@ export function PreviewDialog() {
           }
         });
         
-        setSampleData(customData);
+        setVariableSamples(customData);
       } else {
-        setSampleData({});
+        setVariableSamples({});
       }
     } catch (error) {
       console.error("Failed to load custom variables for preview:", error);
-      setSampleData({});
+      setVariableSamples({});
     }
-  };
-
-  const setNestedValue = (obj: Record<string, any>, path: string, value: any) => {
-    const parts = path.split(".");
-    let current = obj;
-    for (let i = 0; i < parts.length - 1; i++) {
-      if (!current[parts[i]]) {
-        current[parts[i]] = {};
-      }
-      current = current[parts[i]];
-    }
-    current[parts[parts.length - 1]] = value;
-  };
-
-  const getDefaultSampleValue = (type: string): any => {
-    switch (type) {
-      case "number": return 0;
-      case "boolean": return false;
-      case "array": return [];
-      case "object": return {};
-      default: return "";
-    }
-  };
+  }, []);
 
-  const loadPreview = async () => {
+  const loadPreview = useCallback(async () => {
     if (!isOpen) return;
 
     try {
@@ -125,8 +130,13 @@ export function PreviewDialog() {
         sampleData: showVariables ? sampleData : {},
         replaceVariables: showVariables,
         // Template already has its language set via defaultLanguage field
+        partials: await fetchPartialDocuments(state.document),
+        fonts: await fetchCustomFonts(state.document),
+        inlineCss,
+        analyze: true,
       });
       setHtml(result.html);
+      setAnalysis(result.analysis ?? null);
       if (result.missingTranslations) {
         setMissingTranslations(result.missingTranslations);
       } else {
@@ -137,9 +147,24 @@ export function PreviewDialog() {
       // Fallback to basic render
       const { renderToStaticMarkup } = await import("@/lib/email-builder/renderer");
       setHtml(renderToStaticMarkup(state.document));
+      setAnalysis(null);
       setMissingTranslations([]);
     }
-  };
+  }, [isOpen, state.document, showVariables, sampleData, inlineCss]);
+
+  // Load custom variables and merge with sample data
+  useEffect(() => {
+    if (isOpen && showVariables) {
+      loadCustomVariablesForPreview();
+    }
+  }, [isOpen, showVariables, loadCustomVariablesForPreview]);
+
+  // Reload preview when variables change
+  useEffect(() => {
+    if (isOpen) {
+      loadPreview();
+    }
+  }, [isOpen, loadPreview]);
 
   const handleCopyHTML = () => {
     navigator.clipboard.writeText(html);
@@ -172,17 +197,24 @@ export function PreviewDialog() {
     return DEVICE_SIZES[deviceSize].width;
   };
 
-  const getDarkModeClass = () => {
-    if (darkMode === "dark") return "dark";
-    if (darkMode === "auto") {
+  const isDarkPreview = () => {
+    if (darkMode === "dark") return true;
+    if (darkMode === "auto" && typeof window !== "undefined") {
       // Check system preference
-      if (typeof window !== "undefined") {
-        return window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "";
-      }
+      return window.matchMedia("(prefers-color-scheme: dark)").matches;
     }
-    return "";
+    return false;
   };
 
+  const getDarkModeClass = () => (isDarkPreview() ? "dark" : "");
+
+  // Activate the email's own dark-mode overrides rather than just darkening the frame
+  const previewHtml = isDarkPreview() ? enableDarkModePreview(html) : html;
+
+  const withVariables = (text: string) =>
+    showVariables ? renderTemplate(text, sampleData, { language: state.document.lang as string | undefined }) : text;
+  const preheader = (state.document.preheader as string | undefined) || "";
+
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
@@ -265,6 +297,32 @@ export function PreviewDialog() {
                 </Label>
               </div>
 
+              {/* Sample Data Profile */}
+              {showVariables && (
+                <SampleProfileSelect
+                  profiles={profiles}
+                  value={profileId}
+                  onChange={setProfileId}
+                  templateId={templateId}
+                  onProfilesChange={refreshProfiles}
+                  currentData={sampleData}
+                />
+              )}
+
+              {/* CSS Inlining Toggle */}
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="inline-css"
+                  checked={inlineCss}
+                  onChange={(e) => setInlineCss(e.target.checked)}
+                  className="h-4 w-4"
+                />
+                <Label htmlFor="inline-css" className="text-sm cursor-pointer">
+                  Inline CSS
+                </Label>
+              </div>
+
             </div>
             
             <div className="flex gap-2">
@@ -297,29 +355,71 @@ export function PreviewDialog() {
             </div>
           )}
 
-          {/* Preview Frame */}
-          <div className={`flex-1 overflow-auto border rounded bg-gray-100 p-4 ${getDarkModeClass()}`}>
-            <div
-              style={{
-                width: `${getPreviewWidth()}px`,
-                margin: "0 auto",
-                backgroundColor: darkMode === "dark" ? "#1a1a1a" : "#ffffff",
-                minHeight: "400px",
-                transition: "background-color 0.3s",
-              }}
-            >
-              <iframe
-                srcDoc={html}
-                style={{
-                  width: "100%",
-                  height: "600px",
-                  border: "none",
-                  backgroundColor: darkMode === "dark" ? "#1a1a1a" : "#ffffff",
-                }}
-                title="Email Preview"
+          <Tabs value={view} onValueChange={setView} className="flex-1 flex flex-col overflow-hidden">
+            <TabsList className="self-start">
+              <TabsTrigger value="email">Email</TabsTrigger>
+              <TabsTrigger value="inbox">Inbox</TabsTrigger>
+              <TabsTrigger value="size">
+                Size
+                {analysis && analysis.status !== "ok" && (
+                  <AlertCircle
+                    className={`h-3 w-3 ml-1 ${analysis.status === "clipped" ? "text-red-600" : "text-orange-500"}`}
+                  />
+                )}
+              </TabsTrigger>
+            </TabsList>
+
+            {/* Preview Frame */}
+            <TabsContent value="email" className="flex-1 overflow-hidden">
+              <div className={`h-full overflow-auto border rounded bg-gray-100 p-4 ${getDarkModeClass()}`}>
+                <div
+                  style={{
+                    width: `${getPreviewWidth()}px`,
+                    margin: "0 auto",
+                    backgroundColor: isDarkPreview() ? "#1a1a1a" : "#ffffff",
+                    minHeight: "400px",
+                    transition: "background-color 0.3s",
+                  }}
+                >
+                  <iframe
+                    srcDoc={previewHtml}
+                    style={{
+                      width: "100%",
+                      height: "600px",
+                      border: "none",
+                      backgroundColor: isDarkPreview() ? "#1a1a1a" : "#ffffff",
+                      colorScheme: isDarkPreview() ? "dark" : "light",
+                    }}
+                    title="Email Preview"
+                  />
+                </div>
+              </div>
+            </TabsContent>
+
+            {/* Inbox list mockup */}
+            <TabsContent value="inbox" className="flex-1 overflow-auto">
+              <div className="grid grid-cols-2 gap-4 mb-6">
+                <div className="space-y-1">
+                  <Label htmlFor="inbox-sender" className="text-sm">Sender</Label>
+                  <Input id="inbox-sender" value={sender} onChange={(e) => setSender(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="inbox-subject" className="text-sm">Subject</Label>
+                  <Input id="inbox-subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+                </div>
+              </div>
+              <InboxPreview
+                sender={sender}
+                subject={withVariables(subject)}
+                preheader={withVariables(preheader)}
               />
-            </div>
-          </div>
+            </TabsContent>
+
+            {/* Size budget and Gmail clipping */}
+            <TabsContent value="size" className="flex-1 overflow-auto">
+              <SizeReport analysis={analysis} />
+            </TabsContent>
+          </Tabs>
         </div>
       </DialogContent>
     </Dialog>
@@ -7,6 +7,7 @@
 
 import React from "react";
 import { useEmailBuilder } from "./EmailBuilderContext";
+import type { BlockStyleUpdates } from "@/lib/email-builder/state";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -17,8 +18,61 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { EmailBlock, TextBlock, HeadingBlock, ImageBlock, ButtonBlock, DividerBlock, SpacerBlock, SocialLinksBlock, ListBlock, HeroBlock, QuoteBlock } from "@/lib/email-builder/types";
+import type { BlockStyle, EmailBlock, TextBlock, HeadingBlock, ImageBlock, ButtonBlock, DividerBlock, SpacerBlock, SocialLinksBlock, ListBlock, HeroBlock, QuoteBlock, RepeatBlock, ContainerBlock, ColumnsBlock, PartialBlock } from "@/lib/email-builder/types";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { VisibilityRuleEditor } from "./VisibilityRuleEditor";
+import { DocumentSettingsPanel } from "./DocumentSettingsPanel";
+import { SaveSnippetDialog } from "./SaveSnippetDialog";
+import { ThemeColorInput } from "./ThemeColorInput";
+import { getArrayVariables } from "@/lib/email/variable-definitions";
+import { usePartials } from "./hooks/usePartials";
+import Link from "next/link";
+
+function PartialPropsEditor({
+  block,
+  onChange,
+}: {
+  block: PartialBlock;
+  onChange: (props: Partial<PartialBlock["data"]["props"]>) => void;
+}) {
+  const { partials, isLoading } = usePartials();
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>Partial</Label>
+        <Select
+          value={block.data.props.partialId || undefined}
+          onValueChange={(value) =>
+            onChange({
+              partialId: value,
+              partialName: partials.find((partial) => partial.id === value)?.name || null,
+            })
+          }
+          disabled={isLoading}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder={isLoading ? "Loading..." : "Choose a partial"} />
+          </SelectTrigger>
+          <SelectContent>
+            {partials.map((partial) => (
+              <SelectItem key={partial.id} value={partial.id}>
+                {partial.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-gray-500">
+        The content is edited centrally and updates in every template that uses it.{" "}
+        <Link href="/dashboard/templates/partials" target="_blank" className="underline">
+          Manage partials
+        </Link>
+      </p>
+    </div>
+  );
+}
 
 function renderBlockProps(
   block: EmailBlock,
@@ -103,6 +157,14 @@ function renderBlockProps(
               placeholder="https://example.com/image.jpg"
             />
           </div>
+          <div>
+            <Label>Dark Mode Image URL (optional)</Label>
+            <Input
+              value={imageBlock.data.props.darkUrl || ""}
+              onChange={(e) => handlePropsUpdate({ darkUrl: e.target.value || null })}
+              placeholder="https://example.com/image-dark.png"
+            />
+          </div>
           <div>
             <Label>Alt Text</Label>
             <Input
@@ -182,39 +244,19 @@ function renderBlockProps(
           <div className="grid grid-cols-2 gap-2">
             <div>
               <Label>Button Color</Label>
-              <div className="flex gap-2">
-                <Input
-                  type="color"
-                  value={buttonBlock.data.props.buttonColor || "#2563EB"}
-                  onChange={(e) => handlePropsUpdate({ buttonColor: e.target.value })}
-                  className="h-8 w-16"
-                />
-                <Input
-                  type="text"
-                  value={buttonBlock.data.props.buttonColor || ""}
-                  onChange={(e) => handlePropsUpdate({ buttonColor: e.target.value })}
-                  placeholder="#2563EB"
-                  className="flex-1 h-8"
-                />
-              </div>
+              <ThemeColorInput
+                value={buttonBlock.data.props.buttonColor}
+                fallback="#2563EB"
+                onChange={(value) => handlePropsUpdate({ buttonColor: value || "" })}
+              />
             </div>
             <div>
               <Label>Text Color</Label>
-              <div className="flex gap-2">
-                <Input
-                  type="color"
-                  value={buttonBlock.data.props.buttonTextColor || "#FFFFFF"}
-                  onChange={(e) => handlePropsUpdate({ buttonTextColor: e.target.value })}
-                  className="h-8 w-16"
-                />
-                <Input
-                  type="text"
-                  value={buttonBlock.data.props.buttonTextColor || ""}
-                  onChange={(e) => handlePropsUpdate({ buttonTextColor: e.target.value })}
-                  placeholder="#FFFFFF"
-                  className="flex-1 h-8"
-                />
-              </div>
+              <ThemeColorInput
+                value={buttonBlock.data.props.buttonTextColor}
+                fallback="#FFFFFF"
+                onChange={(value) => handlePropsUpdate({ buttonTextColor: value || "" })}
+              />
             </div>
           </div>
           <div>
@@ -590,6 +632,83 @@ function renderBlockProps(
       );
     }
 
+    case "Container": {
+      const containerBlock = block as ContainerBlock;
+      return (
+        <div className="space-y-4">
+          <div>
+            <Label>Background Image URL (optional)</Label>
+            <Input
+              value={containerBlock.data.props.backgroundImage || ""}
+              onChange={(e) => handlePropsUpdate({ backgroundImage: e.target.value || null })}
+              placeholder="https://example.com/background.jpg"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Shown behind the container content, including in desktop Outlook.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    case "Repeat": {
+      const repeatBlock = block as RepeatBlock;
+      const arrayVariables = getArrayVariables();
+      return (
+        <div className="space-y-4">
+          <div>
+            <Label>Repeat For Each Item In</Label>
+            <Input
+              value={repeatBlock.data.props.itemsPath || ""}
+              onChange={(e) => handlePropsUpdate({ itemsPath: e.target.value.trim() })}
+              placeholder="order.items"
+              className="font-mono text-sm"
+            />
+          </div>
+          {arrayVariables.length > 0 && (
+            <div>
+              <Label>List Variables</Label>
+              <Select
+                value={arrayVariables.some((v) => v.path === repeatBlock.data.props.itemsPath) ? repeatBlock.data.props.itemsPath : undefined}
+                onValueChange={(value) => handlePropsUpdate({ itemsPath: value })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="Choose a list variable" />
+                </SelectTrigger>
+                <SelectContent>
+                  {arrayVariables.map((variable) => (
+                    <SelectItem key={variable.path} value={variable.path}>
+                      {variable.name} ({variable.path})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            Child blocks are rendered once per item. Use {"{{item.name}}"} to insert fields of the current item.
+          </p>
+        </div>
+      );
+    }
+
+    case "Columns": {
+      const columnsBlock = block as ColumnsBlock;
+      return (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="columns-reverse">Reverse order when stacked on mobile</Label>
+          <Switch
+            id="columns-reverse"
+            checked={Boolean(columnsBlock.data.props.reverseOnMobile)}
+            onCheckedChange={(checked) => handlePropsUpdate({ reverseOnMobile: checked || undefined })}
+          />
+        </div>
+      );
+    }
+
+    case "Partial":
+      return <PartialPropsEditor block={block as PartialBlock} onChange={handlePropsUpdate} />;
+
     default:
       return (
         <div className="text-sm text-gray-500">
@@ -599,19 +718,167 @@ function renderBlockProps(
   }
 }
 
+/**
+ * Multi-edit mode: shared style fields and group actions for several blocks
+ */
+function MultiSelectPanel({ blockIds }: { blockIds: string[] }) {
+  const {
+    getBlock,
+    updateBlocksStyle,
+    duplicateBlocks,
+    deleteBlocks,
+    wrapInContainer,
+    copyBlocks,
+    selectBlock,
+  } = useEmailBuilder();
+  const blocks = blockIds
+    .map((id) => getBlock(id))
+    .filter((block): block is EmailBlock => !!block);
+
+  // A field shows a value only when every selected block agrees on it
+  const sharedValue = <T,>(read: (style: BlockStyle) => T | undefined): T | undefined => {
+    const values = blocks.map((block) => read(block.data.style));
+    return values.every((value) => JSON.stringify(value) === JSON.stringify(values[0]))
+      ? values[0]
+      : undefined;
+  };
+
+  const padding = sharedValue((style) => style.padding);
+  const backgroundColor = sharedValue((style) => style.backgroundColor);
+  const color = sharedValue((style) => style.color);
+  const textAlign = sharedValue((style) => style.textAlign);
+
+  const applyStyle = (style: BlockStyleUpdates) => updateBlocksStyle(blockIds, style);
+
+  return (
+    <div className="w-80 border-l bg-white p-4 overflow-y-auto">
+      <h3 className="font-semibold mb-4">Properties</h3>
+
+      <div className="mb-4 pb-4 border-b">
+        <Label className="text-sm text-gray-500">Selection</Label>
+        <p className="font-medium">{blocks.length} blocks selected</p>
+        <p className="text-xs text-gray-500 mt-1">
+          Shift-click to select a range, Cmd/Ctrl-click to add or remove blocks
+        </p>
+      </div>
+
+      {/* Group Actions */}
+      <div className="mb-6 grid grid-cols-2 gap-2">
+        <Button size="sm" variant="outline" onClick={() => duplicateBlocks(blockIds)}>
+          Duplicate
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => copyBlocks(blockIds)}>
+          Copy
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => wrapInContainer(blockIds)}>
+          Wrap in Container
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="text-destructive"
+          onClick={() => {
+            deleteBlocks(blockIds);
+            selectBlock(null);
+          }}
+        >
+          Delete
+        </Button>
+      </div>
+
+      {/* Shared Style */}
+      <div className="mb-6">
+        <h4 className="font-semibold mb-3 text-sm">Shared Style</h4>
+
+        <div className="grid grid-cols-4 gap-2 mb-4">
+          {(["top", "right", "bottom", "left"] as const).map((side) => (
+            <div key={side}>
+              <Label className="text-xs capitalize">{side}</Label>
+              <Input
+                type="number"
+                value={padding ? padding[side] : ""}
+                onChange={(e) => applyStyle({ padding: { [side]: parseInt(e.target.value) || 0 } })}
+                placeholder="Mixed"
+                className="h-8"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="mb-4">
+          <Label>Background Color</Label>
+          <div className="flex gap-2">
+            <Input
+              type="color"
+              value={backgroundColor || "#ffffff"}
+              onChange={(e) => applyStyle({ backgroundColor: e.target.value })}
+              className="h-8 w-16"
+            />
+            <Input
+              type="text"
+              value={backgroundColor || ""}
+              onChange={(e) => applyStyle({ backgroundColor: e.target.value || null })}
+              placeholder={backgroundColor === undefined ? "Mixed" : "#ffffff"}
+              className="flex-1 h-8"
+            />
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <Label>Text Color</Label>
+          <div className="flex gap-2">
+            <Input
+              type="color"
+              value={color || "#000000"}
+              onChange={(e) => applyStyle({ color: e.target.value })}
+              className="h-8 w-16"
+            />
+            <Input
+              type="text"
+              value={color || ""}
+              onChange={(e) => applyStyle({ color: e.target.value || null })}
+              placeholder={color === undefined ? "Mixed" : "#000000"}
+              className="flex-1 h-8"
+            />
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <Label>Text Align</Label>
+          <Select
+            value={textAlign}
+            onValueChange={(value: "left" | "center" | "right") => applyStyle({ textAlign: value })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue placeholder="Mixed" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="left">Left</SelectItem>
+              <SelectItem value="center">Center</SelectItem>
+              <SelectItem value="right">Right</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export function PropertiesPanel() {
   const { state, updateBlock, getBlock } = useEmailBuilder();
   const selectedBlock = state.selectedBlockId
     ? getBlock(state.selectedBlockId)
     : null;
 
+  if (state.selectedBlockIds.length > 1) {
+    return <MultiSelectPanel blockIds={state.selectedBlockIds} />;
+  }
+
   if (!selectedBlock) {
     return (
       <div className="w-80 border-l bg-white p-4 overflow-y-auto">
-        <h3 className="font-semibold mb-4">Properties</h3>
-        <div className="text-center text-gray-400 py-8">
-          <p>Select a block to edit its properties</p>
-        </div>
+        <h3 className="font-semibold mb-4">Email Settings</h3>
+        <DocumentSettingsPanel />
       </div>
     );
   }
@@ -733,40 +1000,60 @@ export function PropertiesPanel() {
         {/* Background Color */}
         <div className="mb-4">
           <Label>Background Color</Label>
-          <div className="flex gap-2">
-            <Input
-              type="color"
-              value={selectedBlock.data.style.backgroundColor || "#ffffff"}
-              onChange={(e) => handleStyleUpdate({ backgroundColor: e.target.value })}
-              className="h-8 w-16"
-            />
-            <Input
-              type="text"
-              value={selectedBlock.data.style.backgroundColor || ""}
-              onChange={(e) => handleStyleUpdate({ backgroundColor: e.target.value || null })}
-              placeholder="#ffffff"
-              className="flex-1 h-8"
-            />
-          </div>
+          <ThemeColorInput
+            value={selectedBlock.data.style.backgroundColor}
+            fallback="#ffffff"
+            onChange={(value) => handleStyleUpdate({ backgroundColor: value })}
+          />
         </div>
 
         {/* Text Color */}
         <div className="mb-4">
           <Label>Text Color</Label>
-          <div className="flex gap-2">
-            <Input
-              type="color"
-              value={selectedBlock.data.style.color || "#000000"}
-              onChange={(e) => handleStyleUpdate({ color: e.target.value })}
-              className="h-8 w-16"
-            />
-            <Input
-              type="text"
-              value={selectedBlock.data.style.color || ""}
-              onChange={(e) => handleStyleUpdate({ color: e.target.value || null })}
-              placeholder="#000000"
-              className="flex-1 h-8"
-            />
+          <ThemeColorInput
+            value={selectedBlock.data.style.color}
+            fallback="#000000"
+            onChange={(value) => handleStyleUpdate({ color: value })}
+          />
+        </div>
+
+        {/* Dark Mode Colors */}
+        <div className="mb-4 grid grid-cols-2 gap-2">
+          <div>
+            <Label className="text-xs">Dark Background</Label>
+            <div className="flex gap-1">
+              <Input
+                type="color"
+                value={selectedBlock.data.style.darkBackgroundColor || "#1f2937"}
+                onChange={(e) => handleStyleUpdate({ darkBackgroundColor: e.target.value })}
+                className="h-8 w-10 p-1"
+              />
+              <Input
+                type="text"
+                value={selectedBlock.data.style.darkBackgroundColor || ""}
+                onChange={(e) => handleStyleUpdate({ darkBackgroundColor: e.target.value || null })}
+                placeholder="None"
+                className="flex-1 h-8"
+              />
+            </div>
+          </div>
+          <div>
+            <Label className="text-xs">Dark Text Color</Label>
+            <div className="flex gap-1">
+              <Input
+                type="color"
+                value={selectedBlock.data.style.darkColor || "#f9fafb"}
+                onChange={(e) => handleStyleUpdate({ darkColor: e.target.value })}
+                className="h-8 w-10 p-1"
+              />
+              <Input
+                type="text"
+                value={selectedBlock.data.style.darkColor || ""}
+                onChange={(e) => handleStyleUpdate({ darkColor: e.target.value || null })}
+                placeholder="None"
+                className="flex-1 h-8"
+              />
+            </div>
           </div>
         </div>
 
@@ -832,11 +1119,132 @@ export function PropertiesPanel() {
         )}
       </div>
 
+      {/* Responsive Section - applied below 600px */}
+      <div className="mb-6">
+        <h4 className="font-semibold mb-3 text-sm">Mobile</h4>
+        <div className="mb-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="hide-on-mobile">Hide on mobile</Label>
+            <Switch
+              id="hide-on-mobile"
+              checked={Boolean(selectedBlock.data.style.hideOnMobile)}
+              onCheckedChange={(checked) => handleStyleUpdate({ hideOnMobile: checked || undefined })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="hide-on-desktop">Hide on desktop</Label>
+            <Switch
+              id="hide-on-desktop"
+              checked={Boolean(selectedBlock.data.style.hideOnDesktop)}
+              onCheckedChange={(checked) => handleStyleUpdate({ hideOnDesktop: checked || undefined })}
+            />
+          </div>
+        </div>
+
+        {/* Mobile Padding */}
+        <div className="mb-4">
+          <div className="flex items-center justify-between">
+            <Label>Mobile Padding (px)</Label>
+            {selectedBlock.data.style.mobilePadding && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 text-xs"
+                onClick={() => handleStyleUpdate({ mobilePadding: undefined })}
+              >
+                Reset
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {(["top", "right", "bottom", "left"] as const).map((side) => (
+              <div key={side}>
+                <Label className="text-xs capitalize">{side}</Label>
+                <Input
+                  type="number"
+                  value={selectedBlock.data.style.mobilePadding?.[side] ?? ""}
+                  placeholder={String(selectedBlock.data.style.padding?.[side] || 0)}
+                  onChange={(e) => {
+                    const base = selectedBlock.data.style.mobilePadding || {
+                      top: selectedBlock.data.style.padding?.top || 0,
+                      right: selectedBlock.data.style.padding?.right || 0,
+                      bottom: selectedBlock.data.style.padding?.bottom || 0,
+                      left: selectedBlock.data.style.padding?.left || 0,
+                    };
+                    handleStyleUpdate({ mobilePadding: { ...base, [side]: parseInt(e.target.value) || 0 } });
+                  }}
+                  className="h-8"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Mobile Font Size */}
+        {selectedBlock.type !== "Spacer" && (
+          <div className="mb-4">
+            <Label>Mobile Font Size (px)</Label>
+            <Input
+              type="number"
+              value={selectedBlock.data.style.mobileFontSize || ""}
+              onChange={(e) =>
+                handleStyleUpdate({
+                  mobileFontSize: e.target.value ? parseInt(e.target.value) : undefined,
+                })
+              }
+              placeholder="Same as desktop"
+              className="h-8"
+            />
+          </div>
+        )}
+
+        {/* Mobile Text Align */}
+        {["Text", "Heading", "Button", "Image"].includes(selectedBlock.type) && (
+          <div className="mb-4">
+            <Label>Mobile Text Align</Label>
+            <Select
+              value={selectedBlock.data.style.mobileTextAlign || "inherit"}
+              onValueChange={(value) =>
+                handleStyleUpdate({
+                  mobileTextAlign: value === "inherit" ? undefined : (value as "left" | "center" | "right"),
+                })
+              }
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="inherit">Same as desktop</SelectItem>
+                <SelectItem value="left">Left</SelectItem>
+                <SelectItem value="center">Center</SelectItem>
+                <SelectItem value="right">Right</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
       {/* Props Section - Block-specific */}
-      <div>
+      <div className="mb-6">
         <h4 className="font-semibold mb-3 text-sm">Properties</h4>
         {renderBlockProps(selectedBlock, state.selectedBlockId!, updateBlock)}
       </div>
+
+      {/* Visibility Section */}
+      <div className="pt-4 border-t">
+        <h4 className="font-semibold mb-3 text-sm">Visibility</h4>
+        <VisibilityRuleEditor
+          rule={selectedBlock.visibility}
+          onChange={(visibility) =>
+            updateBlock(state.selectedBlockId!, { visibility } as Partial<EmailBlock>)
+          }
+        />
+      </div>
+
+      {/* Snippet Section */}
+      <div className="mt-6 pt-4 border-t">
+        <SaveSnippetDialog blockId={state.selectedBlockId!} />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,255 @@
+/**
+ * Sample Profile Select Component
+ * Switches preview data between custom variable samples and saved profiles,
+ * with a dialog for managing a template's profiles
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Pencil, Plus, Settings2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { deleteSampleProfile, saveSampleProfile } from "@/app/actions/sample-profiles";
+import type { ProfileTypeIssue, SampleProfile } from "@/lib/templates/sample-profiles";
+
+// Select value for the data built from custom variable sample values
+export const VARIABLE_SAMPLES = "__variable-samples";
+
+interface SampleProfileSelectProps {
+  profiles: SampleProfile[];
+  value: string;
+  onChange: (value: string) => void;
+  /** Enables managing profiles; omit for a read-only switcher */
+  templateId?: string;
+  onProfilesChange?: () => void;
+  /** Data a new profile starts from, usually what the preview shows now */
+  currentData?: Record<string, unknown>;
+}
+
+interface ProfileDraft {
+  id?: string;
+  name: string;
+  json: string;
+  isCampaignDefault: boolean;
+}
+
+export function SampleProfileSelect({
+  profiles,
+  value,
+  onChange,
+  templateId,
+  onProfilesChange,
+  currentData,
+}: SampleProfileSelectProps) {
+  const [isManaging, setIsManaging] = useState(false);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [issues, setIssues] = useState<ProfileTypeIssue[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const editProfile = (profile?: SampleProfile) => {
+    setIssues([]);
+    setDraft(
+      profile
+        ? {
+            id: profile.id,
+            name: profile.name,
+            json: JSON.stringify(profile.data, null, 2),
+            isCampaignDefault: profile.isCampaignDefault,
+          }
+        : { name: "", json: JSON.stringify(currentData || {}, null, 2), isCampaignDefault: false }
+    );
+  };
+
+  const handleSave = async () => {
+    if (!templateId || !draft) return;
+
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(draft.json);
+    } catch {
+      toast.error("Invalid JSON format");
+      return;
+    }
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      toast.error("Profile data must be a JSON object");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await saveSampleProfile(
+        templateId,
+        { name: draft.name, data, isCampaignDefault: draft.isCampaignDefault },
+        draft.id
+      );
+      if (result.error) {
+        setIssues(result.issues || []);
+        if (!result.issues) toast.error(result.error);
+        return;
+      }
+
+      toast.success("Profile saved");
+      setDraft(null);
+      onProfilesChange?.();
+      if (result.profile) onChange(result.profile.id);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (profile: SampleProfile) => {
+    if (!confirm(`Delete the profile "${profile.name}"?`)) return;
+
+    const result = await deleteSampleProfile(profile.id);
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+    toast.success("Profile deleted");
+    if (value === profile.id) onChange(VARIABLE_SAMPLES);
+    onProfilesChange?.();
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Label className="text-sm">Data:</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-[200px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={VARIABLE_SAMPLES}>Custom variable samples</SelectItem>
+          {profiles.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {templateId && (
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Manage sample profiles"
+          onClick={() => {
+            setDraft(null);
+            setIsManaging(true);
+          }}
+        >
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      )}
+
+      <Dialog open={isManaging} onOpenChange={setIsManaging}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Sample Profiles</DialogTitle>
+            <DialogDescription>
+              Named data for previews and test sends. The campaign default fills in variables recipients don&apos;t have.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="profile-name">Name</Label>
+                <Input
+                  id="profile-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. VIP customer with 3 items"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-data">Data</Label>
+                <Textarea
+                  id="profile-data"
+                  value={draft.json}
+                  onChange={(e) => setDraft({ ...draft, json: e.target.value })}
+                  className="font-mono text-sm h-56"
+                />
+                {issues.length > 0 && (
+                  <div className="bg-red-50 border border-red-200 rounded p-2 space-y-1">
+                    {issues.map((issue) => (
+                      <p key={issue.path} className="text-xs text-red-700 flex items-center gap-1">
+                        <AlertCircle className="h-3 w-3" />
+                        {issue.message}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="profile-campaign-default">Campaign default</Label>
+                  <p className="text-xs text-gray-500">Use these values when a recipient&apos;s are missing or empty</p>
+                </div>
+                <Switch
+                  id="profile-campaign-default"
+                  checked={draft.isCampaignDefault}
+                  onCheckedChange={(checked) => setDraft({ ...draft, isCampaignDefault: checked })}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {profiles.length === 0 && (
+                <p className="text-sm text-gray-500">No profiles yet. Create one from the data you are previewing.</p>
+              )}
+              {profiles.map((profile) => (
+                <div key={profile.id} className="flex items-center justify-between border rounded px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">{profile.name}</span>
+                    {profile.isCampaignDefault && <Badge variant="secondary">Campaign default</Badge>}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" title="Edit" onClick={() => editProfile(profile)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(profile)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            {draft ? (
+              <>
+                <Button variant="outline" onClick={() => setDraft(null)}>
+                  Back
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+                  {isSaving ? "Saving..." : "Save Profile"}
+                </Button>
+              </>
+            ) : (
+              <Button onClick={() => editProfile()}>
+                <Plus className="h-4 w-4 mr-1" />
+                New Profile
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
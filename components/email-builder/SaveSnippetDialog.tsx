@@ -0,0 +1,137 @@
+/**
+ * Save Snippet Dialog Component
+ * Saves the selected block and its children as a reusable snippet
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Bookmark } from "lucide-react";
+import { toast } from "sonner";
+import { useEmailBuilder } from "./EmailBuilderContext";
+import { createSnippet } from "@/app/actions/snippets";
+import { extractSnippetStructure } from "@/lib/email-builder/snippets";
+import { notifySnippetsChanged, useSnippets } from "./hooks/useSnippets";
+
+interface SaveSnippetDialogProps {
+  blockId: string;
+}
+
+export function SaveSnippetDialog({ blockId }: SaveSnippetDialogProps) {
+  const { state } = useEmailBuilder();
+  const { canManageGlobal } = useSnippets();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState("");
+  const [description, setDescription] = useState("");
+  const [isGlobal, setIsGlobal] = useState(false);
+
+  const handleSave = async () => {
+    const structure = extractSnippetStructure(state.document, blockId);
+    if (!structure) {
+      toast.error("Block not found");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await createSnippet({ name, category, description, isGlobal, structure });
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success("Snippet saved");
+      notifySnippetsChanged();
+      setIsOpen(false);
+      setName("");
+      setCategory("");
+      setDescription("");
+      setIsGlobal(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <Bookmark className="h-4 w-4 mr-1" />
+          Save as Snippet
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as Snippet</DialogTitle>
+          <DialogDescription>
+            The selected block and everything inside it will be available in the Snippets section of the sidebar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="snippet-name">Name</Label>
+            <Input
+              id="snippet-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Standard footer"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="snippet-category">Category</Label>
+            <Input
+              id="snippet-category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="e.g. Footers"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="snippet-description">Description</Label>
+            <Textarea
+              id="snippet-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+          {canManageGlobal && (
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="snippet-global">Share with organization</Label>
+                <p className="text-xs text-gray-500">Everyone in the organization can insert it</p>
+              </div>
+              <Switch id="snippet-global" checked={isGlobal} onCheckedChange={setIsGlobal} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? "Saving..." : "Save Snippet"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
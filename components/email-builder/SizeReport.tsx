@@ -0,0 +1,104 @@
+/**
+ * Size Report Component
+ * Shows rendered email size against the Gmail clipping threshold, per block
+ */
+
+"use client";
+
+import React from "react";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { formatBytes, type RenderAnalysis, type SizeStatus } from "@/lib/email/render-analysis";
+
+const STATUS: Record<SizeStatus, { label: string; className: string; icon: React.ElementType }> = {
+  ok: { label: "Within budget", className: "text-green-700", icon: CheckCircle2 },
+  warning: { label: "Close to clipping", className: "text-orange-600", icon: AlertTriangle },
+  clipped: { label: "Gmail will clip this email", className: "text-red-600", icon: AlertCircle },
+};
+
+interface SizeReportProps {
+  analysis: RenderAnalysis | null;
+}
+
+export function SizeReport({ analysis }: SizeReportProps) {
+  if (!analysis) {
+    return <p className="text-sm text-gray-500">Size report is not available yet.</p>;
+  }
+
+  const status = STATUS[analysis.status];
+  const StatusIcon = status.icon;
+  const largest = Math.max(...analysis.blocks.map((block) => block.bytes), 1);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className={`flex items-center gap-2 text-sm font-medium ${status.className}`}>
+            <StatusIcon className="h-4 w-4" />
+            {status.label}
+          </span>
+          <span className="text-sm">
+            {formatBytes(analysis.bytes)} / {formatBytes(analysis.clipThreshold)}
+          </span>
+        </div>
+        <Progress value={Math.min((analysis.bytes / analysis.clipThreshold) * 100, 100)} className="h-2" />
+        <p className="text-xs text-gray-500">
+          Gmail hides content past {formatBytes(analysis.clipThreshold)} behind &quot;View entire message&quot;, including
+          the open-tracking pixel. Tracking and the unsubscribe footer add a little more at send time.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div className="border rounded p-3">
+          <p className="text-xs text-gray-500">Styles in &lt;style&gt;</p>
+          <p className="font-medium">{formatBytes(analysis.styleBytes)}</p>
+          <p className="text-xs text-gray-500 mt-1">Stripped by some Gmail contexts unless inlined</p>
+        </div>
+        {analysis.inlining ? (
+          <div className="border rounded p-3">
+            <p className="text-xs text-gray-500">CSS inlining</p>
+            <p className="font-medium">
+              {analysis.inlining.inlinedRules} rules inlined, {analysis.inlining.remainingRules} kept
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              {formatBytes(analysis.inlining.bytesBefore)} before inlining
+            </p>
+          </div>
+        ) : (
+          <div className="border rounded p-3">
+            <p className="text-xs text-gray-500">CSS inlining</p>
+            <p className="font-medium">Off</p>
+            <p className="text-xs text-gray-500 mt-1">Enable &quot;Inline CSS&quot; to see its effect</p>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold mb-2">Size by block</h4>
+        {analysis.blocks.length === 0 ? (
+          <p className="text-sm text-gray-500">The email has no blocks.</p>
+        ) : (
+          <div className="space-y-1">
+            {analysis.blocks.map((block) => (
+              <div key={block.blockId} className="flex items-center gap-3 text-sm">
+                <span className="w-40 shrink-0 truncate" style={{ paddingLeft: block.depth * 12 }}>
+                  <Badge variant="outline" className="text-xs">
+                    {block.blockType}
+                  </Badge>
+                </span>
+                <div className="flex-1 h-2 rounded bg-gray-100 overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500"
+                    style={{ width: `${(block.bytes / largest) * 100}%` }}
+                  />
+                </div>
+                <span className="w-20 shrink-0 text-right text-xs text-gray-600">{formatBytes(block.bytes)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
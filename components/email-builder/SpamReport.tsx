@@ -0,0 +1,58 @@
+/**
+ * Spam Report Component
+ * Shows the offline spam score and the rules that contributed to it
+ */
+
+"use client";
+
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, AlertTriangle, CheckCircle2 } from "lucide-react";
+import type { SpamReport as SpamReportData, SpamStatus } from "@/lib/email/spam-score";
+
+const STATUS: Record<SpamStatus, { label: string; className: string; icon: React.ElementType }> = {
+  pass: { label: "Looks good", className: "text-green-700", icon: CheckCircle2 },
+  warning: { label: "Some spam signals", className: "text-orange-600", icon: AlertTriangle },
+  fail: { label: "Likely to be filtered as spam", className: "text-red-600", icon: AlertCircle },
+};
+
+interface SpamReportProps {
+  report: SpamReportData;
+}
+
+export function SpamReport({ report }: SpamReportProps) {
+  const status = STATUS[report.status];
+  const StatusIcon = status.icon;
+  const matched = report.rules.filter((rule) => rule.score > 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className={`flex items-center gap-2 text-sm font-medium ${status.className}`}>
+          <StatusIcon className="h-4 w-4" />
+          {status.label}
+        </span>
+        <span className="text-sm">
+          Score {report.score} / {report.threshold}
+        </span>
+      </div>
+      {matched.length === 0 ? (
+        <p className="text-sm text-gray-500">No spam rules matched.</p>
+      ) : (
+        <ul className="space-y-2">
+          {matched.map((rule) => (
+            <li key={rule.rule} className="text-sm border rounded p-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{rule.label}</span>
+                <Badge variant="outline">+{rule.score}</Badge>
+              </div>
+              {rule.details.length > 0 && (
+                <p className="text-xs text-gray-500 mt-1">{rule.details.join(", ")}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
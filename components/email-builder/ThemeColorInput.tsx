@@ -0,0 +1,73 @@
+/**
+ * Theme Color Input Component
+ * Color field that accepts a literal color or a reference to a theme color token
+ */
+
+"use client";
+
+import React from "react";
+import { useEmailBuilder } from "./EmailBuilderContext";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  THEME_COLOR_TOKENS,
+  getThemeColorToken,
+  resolveThemeColor,
+  themeColorRef,
+  type ThemeColorToken,
+} from "@/lib/email-builder/theme";
+
+interface ThemeColorInputProps {
+  value: string | null | undefined;
+  fallback: string;
+  placeholder?: string;
+  onChange: (value: string | null) => void;
+}
+
+const CUSTOM = "custom";
+
+export function ThemeColorInput({ value, fallback, placeholder, onChange }: ThemeColorInputProps) {
+  const { state } = useEmailBuilder();
+  const token = getThemeColorToken(value);
+  const resolved = resolveThemeColor(state.document, value) || fallback;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          type="color"
+          value={resolved}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={token !== null}
+          className="h-8 w-16"
+        />
+        <Input
+          type="text"
+          value={token ? "" : value || ""}
+          onChange={(e) => onChange(e.target.value || null)}
+          placeholder={token ? resolved : placeholder || fallback}
+          disabled={token !== null}
+          className="flex-1 h-8"
+        />
+      </div>
+      <Select
+        value={token || CUSTOM}
+        onValueChange={(selected) =>
+          onChange(selected === CUSTOM ? resolved : themeColorRef(selected as ThemeColorToken))
+        }
+      >
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={CUSTOM}>Custom color</SelectItem>
+          {THEME_COLOR_TOKENS.map(({ token: option, label }) => (
+            <SelectItem key={option} value={option}>
+              Theme: {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+/**
+ * Version History Dialog Component
+ * Lists template versions, compares two of them side by side and restores old versions
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+import { useEmailBuilder } from "./EmailBuilderContext";
+import { renderToStaticMarkup } from "@/lib/email-builder/renderer";
+import {
+  DIFF_HIGHLIGHT_COLORS,
+  diffDocuments,
+  getDiffHighlights,
+  type BlockChangeType,
+} from "@/lib/email-builder/version-diff";
+import type { EmailBuilderDocument } from "@/lib/email-builder/types";
+import {
+  getTemplateVersion,
+  getTemplateVersions,
+  restoreTemplateVersion,
+} from "@/app/actions/template-versions";
+
+interface VersionSummary {
+  id: string;
+  versionNumber: number;
+  notes: string | null;
+  createdAt: Date;
+  creator: { name: string | null; email: string } | null;
+}
+
+type VersionStructures = Record<string, EmailBuilderDocument>;
+
+const CHANGE_LABELS: Record<BlockChangeType, string> = {
+  added: "Added",
+  removed: "Removed",
+  modified: "Modified",
+};
+
+export function VersionHistoryDialog() {
+  const { templateId, defaultLanguage, state, setDocument } = useEmailBuilder();
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [structures, setStructures] = useState<Record<string, VersionStructures>>({});
+  const [beforeId, setBeforeId] = useState<string>("");
+  const [afterId, setAfterId] = useState<string>("");
+  const [language, setLanguage] = useState(defaultLanguage || "en");
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    if (!templateId) return;
+    setIsLoading(true);
+    try {
+      const result = await getTemplateVersions(templateId);
+      if (!result.success || !result.versions) {
+        toast.error(result.error || "Failed to load versions");
+        return;
+      }
+      setVersions(result.versions);
+      setAfterId(result.versions[0]?.id || "");
+      setBeforeId(result.versions[1]?.id || result.versions[0]?.id || "");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setLanguage(defaultLanguage || "en");
+      loadVersions();
+    }
+  }, [isOpen, defaultLanguage, loadVersions]);
+
+  // Fetch structures of the compared versions on demand, each once
+  const requestedIds = useRef(new Set<string>());
+  const loadStructure = useCallback(
+    async (id: string) => {
+      if (!templateId || requestedIds.current.has(id)) return;
+      requestedIds.current.add(id);
+      const result = await getTemplateVersion(templateId, id);
+      if (result.success && result.version) {
+        setStructures((current) => ({ ...current, [id]: result.version.structures }));
+      } else {
+        requestedIds.current.delete(id);
+        toast.error(result.error || "Failed to load version");
+      }
+    },
+    [templateId]
+  );
+
+  useEffect(() => {
+    [beforeId, afterId].filter(Boolean).forEach(loadStructure);
+  }, [beforeId, afterId, loadStructure]);
+
+  const languages = useMemo(() => {
+    const codes = new Set<string>();
+    [beforeId, afterId].forEach((id) => Object.keys(structures[id] || {}).forEach((code) => codes.add(code)));
+    return Array.from(codes).sort();
+  }, [beforeId, afterId, structures]);
+
+  const before = structures[beforeId]?.[language];
+  const after = structures[afterId]?.[language];
+  const diff = useMemo(() => (before && after ? diffDocuments(before, after) : null), [before, after]);
+
+  const beforeHtml = useMemo(
+    () => (before ? renderToStaticMarkup(before, { highlightBlocks: diff ? getDiffHighlights(diff, "before") : {} }) : ""),
+    [before, diff]
+  );
+  const afterHtml = useMemo(
+    () => (after ? renderToStaticMarkup(after, { highlightBlocks: diff ? getDiffHighlights(diff, "after") : {} }) : ""),
+    [after, diff]
+  );
+
+  const handleRestore = async (version: VersionSummary) => {
+    if (!templateId) return;
+    const unsaved = state.isDirty ? " Unsaved changes in the editor will be discarded." : "";
+    if (!confirm(`Restore version ${version.versionNumber}? It will be saved as a new version.${unsaved}`)) {
+      return;
+    }
+
+    setRestoringId(version.id);
+    try {
+      const result = await restoreTemplateVersion(templateId, version.id);
+      if (!result.success || !result.structures) {
+        toast.error(result.error || "Failed to restore version");
+        return;
+      }
+
+      const restored = result.structures[defaultLanguage || "en"];
+      if (restored) {
+        setDocument(restored);
+      }
+      toast.success(`Restored version ${version.versionNumber} as version ${result.versionNumber}`);
+      setIsOpen(false);
+      router.refresh();
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const versionLabel = (version: VersionSummary) =>
+    `v${version.versionNumber} · ${format(new Date(version.createdAt), "MMM d, HH:mm")}`;
+
+  if (!templateId) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Version history">
+          <History className="h-4 w-4 mr-1" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-7xl h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Compare any two saved versions. Restoring a version saves it as a new version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions have been saved yet.</p>
+        ) : (
+          <div className="flex-1 flex gap-4 min-h-0">
+            {/* Version List */}
+            <div className="w-64 shrink-0 overflow-y-auto border rounded-lg divide-y">
+              {versions.map((version) => (
+                <div key={version.id} className="p-3 space-y-1 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Version {version.versionNumber}</span>
+                    {version.id === versions[0].id && <Badge variant="secondary">Latest</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {version.creator?.name || version.creator?.email || "Unknown"} ·{" "}
+                    {format(new Date(version.createdAt), "MMM d, yyyy HH:mm")}
+                  </p>
+                  {version.notes && <p className="text-xs">{version.notes}</p>}
+                  <div className="flex gap-1 pt-1">
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setBeforeId(version.id)}>
+                      Compare from
+                    </Button>
+                    {version.id !== versions[0].id && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => handleRestore(version)}
+                        disabled={restoringId !== null}
+                      >
+                        {restoringId === version.id ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                        )}
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Comparison */}
+            <div className="flex-1 flex flex-col gap-3 min-w-0">
+              <div className="flex items-end gap-3 flex-wrap">
+                <div className="space-y-1">
+                  <Label>From</Label>
+                  <Select value={beforeId} onValueChange={setBeforeId}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={version.id}>
+                          {versionLabel(version)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>To</Label>
+                  <Select value={afterId} onValueChange={setAfterId}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={version.id}>
+                          {versionLabel(version)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {languages.length > 1 && (
+                  <div className="space-y-1">
+                    <Label>Language</Label>
+                    <Select value={language} onValueChange={setLanguage}>
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {languages.map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {code.toUpperCase()}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="flex gap-3 text-xs ml-auto">
+                  {(Object.keys(CHANGE_LABELS) as BlockChangeType[]).map((change) => (
+                    <span key={change} className="flex items-center gap-1">
+                      <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: DIFF_HIGHLIGHT_COLORS[change] }} />
+                      {CHANGE_LABELS[change]}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              {/* Change Summary */}
+              {diff && (
+                <div className="text-xs text-muted-foreground max-h-24 overflow-y-auto">
+                  {diff.blocks.length === 0 && diff.settings.length === 0 ? (
+                    <p>No differences in {language.toUpperCase()}.</p>
+                  ) : (
+                    <ul className="space-y-0.5">
+                      {diff.settings.length > 0 && <li>Email settings changed: {diff.settings.join(", ")}</li>}
+                      {diff.blocks.map((change) => (
+                        <li key={change.blockId}>
+                          <span style={{ color: DIFF_HIGHLIGHT_COLORS[change.change] }}>
+                            {CHANGE_LABELS[change.change]}
+                          </span>{" "}
+                          {change.blockType}
+                          {change.fields.length > 0 && `: ${change.fields.join(", ")}`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {/* Side-by-side Previews */}
+              <div className="flex-1 grid grid-cols-2 gap-3 min-h-0">
+                {[
+                  { id: beforeId, html: beforeHtml, document: before },
+                  { id: afterId, html: afterHtml, document: after },
+                ].map((side, index) => (
+                  <div key={index} className="border rounded-lg overflow-hidden flex flex-col">
+                    <div className="px-3 py-1.5 border-b bg-muted text-xs font-medium">
+                      Version {versions.find((version) => version.id === side.id)?.versionNumber}
+                    </div>
+                    {side.html ? (
+                      <iframe srcDoc={side.html} className="flex-1 w-full border-none bg-white" title={`Version preview ${index + 1}`} />
+                    ) : (
+                      <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+                        {structures[side.id] && !side.document
+                          ? `No ${language.toUpperCase()} content in this version`
+                          : <Loader2 className="h-5 w-5 animate-spin" />}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
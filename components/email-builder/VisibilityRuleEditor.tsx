@@ -0,0 +1,141 @@
+/**
+ * Visibility Rule Editor
+ * Edits the conditions that decide whether a block is sent to a recipient
+ */
+
+"use client";
+
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  VisibilityCondition,
+  VisibilityOperator,
+  VisibilityRule,
+} from "@/lib/email-builder/types";
+
+const OPERATOR_LABELS: Record<VisibilityOperator, string> = {
+  equals: "equals",
+  notEquals: "does not equal",
+  contains: "contains",
+  notContains: "does not contain",
+  greaterThan: "is greater than",
+  lessThan: "is less than",
+  exists: "is set",
+  notExists: "is not set",
+};
+
+const VALUELESS_OPERATORS: VisibilityOperator[] = ["exists", "notExists"];
+
+interface VisibilityRuleEditorProps {
+  rule: VisibilityRule | undefined;
+  onChange: (rule: VisibilityRule) => void;
+}
+
+export function VisibilityRuleEditor({ rule, onChange }: VisibilityRuleEditorProps) {
+  const conditions = rule?.conditions || [];
+  const match = rule?.match || "all";
+
+  const updateCondition = (index: number, updates: Partial<VisibilityCondition>) => {
+    const newConditions = conditions.map((condition, i) =>
+      i === index ? { ...condition, ...updates } : condition
+    );
+    onChange({ match, conditions: newConditions });
+  };
+
+  const addCondition = () => {
+    onChange({
+      match,
+      conditions: [...conditions, { path: "", operator: "equals", value: "" }],
+    });
+  };
+
+  const removeCondition = (index: number) => {
+    onChange({ match, conditions: conditions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3">
+      {conditions.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Always shown. Add a condition to show this block only to matching recipients.
+        </p>
+      ) : (
+        <div>
+          <Label className="text-xs">Show this block when</Label>
+          <Select
+            value={match}
+            onValueChange={(value: "all" | "any") => onChange({ match: value, conditions })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All conditions match</SelectItem>
+              <SelectItem value="any">Any condition matches</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {conditions.map((condition, index) => (
+        <div key={index} className="space-y-2 rounded border p-2">
+          <div className="flex items-center gap-2">
+            <Input
+              value={condition.path}
+              onChange={(e) => updateCondition(index, { path: e.target.value })}
+              placeholder="customer.tier"
+              className="h-8 font-mono text-xs"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeCondition(index)}
+              className="h-8 w-8 p-0"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Select
+            value={condition.operator}
+            onValueChange={(value: VisibilityOperator) => updateCondition(index, { operator: value })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(OPERATOR_LABELS) as VisibilityOperator[]).map((operator) => (
+                <SelectItem key={operator} value={operator}>
+                  {OPERATOR_LABELS[operator]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!VALUELESS_OPERATORS.includes(condition.operator) && (
+            <Input
+              value={condition.value || ""}
+              onChange={(e) => updateCondition(index, { value: e.target.value })}
+              placeholder="gold"
+              className="h-8"
+            />
+          )}
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={addCondition} className="w-full">
+        <Plus className="h-4 w-4 mr-2" />
+        Add Condition
+      </Button>
+    </div>
+  );
+}
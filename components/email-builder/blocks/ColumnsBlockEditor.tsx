@@ -178,7 +178,7 @@ export function ColumnsBlockEditor({
                         <BlockRenderer
                           blockId={childId}
                           onSelect={() => selectBlock(childId)}
-                          isSelected={state.selectedBlockId === childId}
+                          isSelected={state.selectedBlockIds.includes(childId)}
                           parentId={blockId}
                           columnIndex={colIndex}
                         />
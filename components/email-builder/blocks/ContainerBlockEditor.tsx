@@ -12,11 +12,11 @@ import { Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useEmailBuilder } from "../EmailBuilderContext";
 import { BlockRenderer } from "../BlockRenderer";
-import type { ContainerBlock, BlockType } from "@/lib/email-builder/types";
+import type { ContainerBlock, RepeatBlock, BlockType } from "@/lib/email-builder/types";
 import { BLOCK_DEFINITIONS } from "@/lib/email-builder/blocks";
 
 interface ContainerBlockEditorProps {
-  block: ContainerBlock;
+  block: ContainerBlock | RepeatBlock;
   blockId: string;
   parentId?: string;
 }
@@ -113,6 +113,9 @@ export function ContainerBlockEditor({
   const style = {
     padding: `${block.data.style.padding?.top || 0}px ${block.data.style.padding?.right || 0}px ${block.data.style.padding?.bottom || 0}px ${block.data.style.padding?.left || 0}px`,
     backgroundColor: block.data.style.backgroundColor || (block.data.props as any)?.backgroundColor || undefined,
+    backgroundImage: (block.data.props as any)?.backgroundImage ? `url(${(block.data.props as any).backgroundImage})` : undefined,
+    backgroundSize: "cover",
+    backgroundPosition: "center",
   };
 
   return (
@@ -125,7 +128,7 @@ export function ContainerBlockEditor({
       >
         {childrenIds.length === 0 ? (
           <div className="text-center text-gray-400 py-8 border-2 border-dashed border-gray-300 rounded relative">
-            <p className="text-sm mb-2">Container - Drag blocks here</p>
+            <p className="text-sm mb-2">{block.type} - Drag blocks here</p>
             <AddBlockButton parentId={blockId} />
           </div>
         ) : (
@@ -136,7 +139,7 @@ export function ContainerBlockEditor({
                   <BlockRenderer
                     blockId={childId}
                     onSelect={() => selectBlock(childId)}
-                    isSelected={state.selectedBlockId === childId}
+                    isSelected={state.selectedBlockIds.includes(childId)}
                     parentId={blockId}
                   />
                 </SortableBlockInContainer>
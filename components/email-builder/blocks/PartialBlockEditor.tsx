@@ -0,0 +1,97 @@
+/**
+ * Partial Block Editor Component
+ * Shows a locked preview of a global partial with a link to edit it
+ */
+
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Lock, ExternalLink } from "lucide-react";
+import type { EmailBuilderDocument, PartialBlock } from "@/lib/email-builder/types";
+import { inlinePartials, type PartialDocuments } from "@/lib/email-builder/partials";
+import { renderBlockMarkup } from "@/lib/email-builder/renderer";
+import { getPartialDocuments } from "@/app/actions/partials";
+
+interface PartialBlockEditorProps {
+  block: PartialBlock;
+  blockId: string;
+}
+
+export function PartialBlockEditor({ block, blockId }: PartialBlockEditorProps) {
+  const { partialId, partialName } = block.data.props;
+  // Partial documents and the partial they were loaded for
+  const [loaded, setLoaded] = useState<{ partialId: string; partials: PartialDocuments } | null>(null);
+  const isLoading = Boolean(partialId) && loaded?.partialId !== partialId;
+
+  useEffect(() => {
+    if (!partialId) return;
+
+    let cancelled = false;
+    getPartialDocuments([partialId])
+      .then((result): PartialDocuments => (result.success ? result.partials || {} : {}))
+      .catch((): PartialDocuments => ({}))
+      .then((partials) => {
+        if (!cancelled) setLoaded({ partialId, partials });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [partialId]);
+
+  const previewHtml = useMemo(() => {
+    const partials = loaded?.partials;
+    if (!partialId || !partials?.[partialId]) return "";
+
+    // Render just this block, with the partial inlined in place
+    const document = {
+      backdropColor: "#F8F8F8",
+      canvasColor: "#FFFFFF",
+      textColor: "#242424",
+      fontFamily: "MODERN_SANS",
+      childrenIds: [blockId],
+      [blockId]: block,
+    } as EmailBuilderDocument;
+    return renderBlockMarkup(inlinePartials(document, partials), blockId);
+  }, [partialId, loaded, blockId, block]);
+
+  return (
+    <div className="border border-dashed border-blue-300 rounded">
+      <div className="flex items-center justify-between gap-2 px-2 py-1 bg-blue-50 text-xs text-blue-700">
+        <span className="flex items-center gap-1">
+          <Lock className="h-3 w-3" />
+          {partialId ? `Global partial: ${partialName || "Untitled"}` : "Global partial"}
+        </span>
+        {partialId && (
+          <Link
+            href={`/dashboard/templates/partials/${partialId}`}
+            target="_blank"
+            className="flex items-center gap-1 hover:underline"
+            onClick={(e) => e.stopPropagation()}
+          >
+            Edit partial
+            <ExternalLink className="h-3 w-3" />
+          </Link>
+        )}
+      </div>
+
+      {!partialId ? (
+        <div className="p-4 text-center text-sm text-gray-400">
+          Choose a partial in the properties panel
+        </div>
+      ) : isLoading && !previewHtml ? (
+        <div className="p-4 text-center text-sm text-gray-400">Loading partial...</div>
+      ) : previewHtml ? (
+        <div
+          className="pointer-events-none select-none"
+          dangerouslySetInnerHTML={{ __html: previewHtml }}
+        />
+      ) : (
+        <div className="p-4 text-center text-sm text-gray-400">
+          This partial is empty or no longer exists
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * Repeat Block Editor Component
+ * Edits the item template and previews rows rendered from sample data
+ */
+
+"use client";
+
+import React, { useMemo } from "react";
+import { Repeat } from "lucide-react";
+import { useEmailBuilder } from "../EmailBuilderContext";
+import { ContainerBlockEditor } from "./ContainerBlockEditor";
+import type { RepeatBlock } from "@/lib/email-builder/types";
+import { renderBlockMarkup } from "@/lib/email-builder/renderer";
+import { resolveVariablePath } from "@/lib/email-builder/visibility";
+import { replaceVariables } from "@/lib/email/variable-parser";
+import { SAMPLE_DATA } from "@/lib/email/variable-definitions";
+
+interface RepeatBlockEditorProps {
+  block: RepeatBlock;
+  blockId: string;
+  parentId?: string;
+}
+
+export function RepeatBlockEditor({ block, blockId, parentId }: RepeatBlockEditorProps) {
+  const { state } = useEmailBuilder();
+  const itemsPath = block.data.props.itemsPath || "";
+  const sampleItems = resolveVariablePath(SAMPLE_DATA, itemsPath);
+  const sampleCount = Array.isArray(sampleItems) ? sampleItems.length : 0;
+
+  const sampleHtml = useMemo(() => {
+    if (sampleCount === 0 || (block.data.props.childrenIds || []).length === 0) {
+      return "";
+    }
+    const html = renderBlockMarkup(state.document, blockId, { variables: SAMPLE_DATA });
+    return replaceVariables(html, SAMPLE_DATA);
+  }, [state.document, blockId, sampleCount, block.data.props.childrenIds]);
+
+  return (
+    <div className="border border-dashed border-purple-300 rounded">
+      <div className="flex items-center gap-2 px-2 py-1 bg-purple-50 text-xs text-purple-700">
+        <Repeat className="h-3 w-3" />
+        <span>
+          For each item in <code className="font-mono">{itemsPath || "(no list selected)"}</code>
+        </span>
+      </div>
+
+      <ContainerBlockEditor block={block} blockId={blockId} parentId={parentId} />
+
+      {sampleHtml && (
+        <div className="border-t border-dashed border-purple-300">
+          <div className="px-2 py-1 text-xs text-gray-500">
+            Sample rows ({sampleCount} {sampleCount === 1 ? "item" : "items"} from sample data)
+          </div>
+          <div
+            className="pointer-events-none opacity-60"
+            dangerouslySetInnerHTML={{ __html: sampleHtml }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
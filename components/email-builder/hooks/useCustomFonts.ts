@@ -0,0 +1,37 @@
+/**
+ * Custom Fonts Hook
+ * Lists the organization's web fonts for font pickers, the canvas and previews
+ */
+
+import { useEffect, useState } from "react";
+import { getCustomFonts } from "@/app/actions/fonts";
+import { findCustomFontIds, type CustomFont } from "@/lib/email-builder/fonts";
+import type { EmailBuilderDocument } from "@/lib/email-builder/types";
+
+/**
+ * Fetch the fonts a document may reference, for passing to renderEmailTemplate
+ */
+export async function fetchCustomFonts(document: EmailBuilderDocument): Promise<CustomFont[]> {
+  if (findCustomFontIds(document).length === 0) return [];
+
+  const result = await getCustomFonts();
+  return result.success ? result.fonts || [] : [];
+}
+
+export function useCustomFonts() {
+  const [fonts, setFonts] = useState<CustomFont[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getCustomFonts()
+      .then((result) => {
+        if (result.success) {
+          setFonts(result.fonts || []);
+        }
+      })
+      .catch((error) => console.error("Failed to load custom fonts:", error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return { fonts, isLoading };
+}
@@ -7,6 +7,8 @@ import { useState } from "react";
 import { toast } from "sonner";
 import { renderEmailTemplate } from "@/lib/email/template-renderer";
 import type { EmailBuilderDocument } from "@/lib/email-builder/types";
+import { fetchPartialDocuments } from "./usePartials";
+import { fetchCustomFonts } from "./useCustomFonts";
 
 interface UseEmailActionsOptions {
   templateId?: string;
@@ -38,6 +40,8 @@ export function useEmailActions({
         language: language,
         templateId: templateId,
         defaultLanguage: defaultLanguage || "en",
+        partials: await fetchPartialDocuments(document),
+        fonts: await fetchCustomFonts(document),
       });
 
       const response = await fetch("/api/email/preview", {
@@ -90,6 +94,8 @@ export function useEmailActions({
         language: language,
         templateId: templateId,
         defaultLanguage: defaultLanguage || "en",
+        partials: await fetchPartialDocuments(document),
+        fonts: await fetchCustomFonts(document),
       });
 
       const response = await fetch("/api/email/send", {
@@ -16,11 +16,18 @@ export function useKeyboardShortcuts() {
     copyBlock,
     pasteBlock,
     selectBlock,
+    deleteBlocks,
+    duplicateBlocks,
+    copyBlocks,
+    pasteBlocks,
     canUndo,
     canRedo,
     hasClipboard,
+    hasGroupClipboard,
   } = useEmailBuilder();
 
+  const isMultiSelect = state.selectedBlockIds.length > 1;
+
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       // Don't intercept if user is typing in an input/textarea
@@ -73,7 +80,11 @@ export function useKeyboardShortcuts() {
         state.selectedBlockId
       ) {
         event.preventDefault();
-        deleteBlock(state.selectedBlockId);
+        if (isMultiSelect) {
+          deleteBlocks(state.selectedBlockIds);
+        } else {
+          deleteBlock(state.selectedBlockId);
+        }
         selectBlock(null);
         return;
       }
@@ -81,7 +92,9 @@ export function useKeyboardShortcuts() {
       // Ctrl+D or Cmd+D: Duplicate selected block
       if ((event.ctrlKey || event.metaKey) && event.key === "d") {
         event.preventDefault();
-        if (state.selectedBlockId) {
+        if (isMultiSelect) {
+          duplicateBlocks(state.selectedBlockIds);
+        } else if (state.selectedBlockId) {
           duplicateBlock(state.selectedBlockId);
         }
         return;
@@ -97,18 +110,26 @@ export function useKeyboardShortcuts() {
       // Ctrl+C or Cmd+C: Copy (when block selected)
       if ((event.ctrlKey || event.metaKey) && event.key === "c" && state.selectedBlockId) {
         event.preventDefault();
-        copyBlock(state.selectedBlockId);
+        if (isMultiSelect) {
+          copyBlocks(state.selectedBlockIds);
+        } else {
+          copyBlock(state.selectedBlockId);
+        }
         return;
       }
 
       // Ctrl+V or Cmd+V: Paste
-      if ((event.ctrlKey || event.metaKey) && event.key === "v" && hasClipboard) {
+      if ((event.ctrlKey || event.metaKey) && event.key === "v" && (hasClipboard || hasGroupClipboard)) {
         event.preventDefault();
         // Paste at the end of root children, or after selected block
         const position = state.selectedBlockId 
           ? state.document.childrenIds.indexOf(state.selectedBlockId) + 1
           : state.document.childrenIds.length;
-        pasteBlock(position);
+        if (hasGroupClipboard) {
+          pasteBlocks(position);
+        } else {
+          pasteBlock(position);
+        }
         return;
       }
     };
@@ -117,6 +138,6 @@ export function useKeyboardShortcuts() {
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [state.selectedBlockId, state.document, canUndo, canRedo, undo, redo, deleteBlock, duplicateBlock, copyBlock, pasteBlock, selectBlock, hasClipboard]);
+  }, [state.selectedBlockId, state.selectedBlockIds, isMultiSelect, state.document, canUndo, canRedo, undo, redo, deleteBlock, duplicateBlock, copyBlock, pasteBlock, selectBlock, deleteBlocks, duplicateBlocks, copyBlocks, pasteBlocks, hasClipboard, hasGroupClipboard]);
 }
 
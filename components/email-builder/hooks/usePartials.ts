@@ -0,0 +1,52 @@
+/**
+ * Partials Hook
+ * Lists global partials and fetches partial structures for previews
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { getPartialDocuments, getPartials } from "@/app/actions/partials";
+import { findPartialIds, type PartialDocuments } from "@/lib/email-builder/partials";
+import type { EmailBuilderDocument } from "@/lib/email-builder/types";
+
+export interface PartialSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * Fetch every partial referenced by a document, for passing to renderEmailTemplate
+ */
+export async function fetchPartialDocuments(document: EmailBuilderDocument): Promise<PartialDocuments> {
+  const ids = findPartialIds(document);
+  if (ids.length === 0) return {};
+
+  const result = await getPartialDocuments(ids);
+  return result.success ? result.partials || {} : {};
+}
+
+export function usePartials() {
+  const [partials, setPartials] = useState<PartialSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadPartials = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getPartials();
+      if (result.success) {
+        setPartials(result.partials || []);
+      }
+    } catch (error) {
+      console.error("Failed to load partials:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPartials();
+  }, [loadPartials]);
+
+  return { partials, isLoading, refresh: loadPartials };
+}
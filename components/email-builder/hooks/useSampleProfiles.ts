@@ -0,0 +1,37 @@
+/**
+ * Sample Profiles Hook
+ * Loads a template's saved sample data profiles once so previews can switch between them
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { getSampleProfiles } from "@/app/actions/sample-profiles";
+import type { SampleProfile } from "@/lib/templates/sample-profiles";
+
+export function useSampleProfiles(templateId?: string) {
+  const [profiles, setProfiles] = useState<SampleProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(Boolean(templateId));
+
+  const loadProfiles = useCallback(async () => {
+    if (!templateId) {
+      setProfiles([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const result = await getSampleProfiles(templateId);
+      if (result.success) {
+        setProfiles(result.profiles || []);
+      }
+    } catch (error) {
+      console.error("Failed to load sample profiles:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  return { profiles, isLoading, refresh: loadProfiles };
+}
@@ -0,0 +1,62 @@
+/**
+ * Snippets Hook
+ * Loads saved snippets and keeps every open list in sync after changes
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { getSnippets } from "@/app/actions/snippets";
+import type { SnippetStructure } from "@/lib/email-builder/snippets";
+
+const SNIPPETS_CHANGED_EVENT = "email-builder:snippets-changed";
+
+export interface SnippetSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  structure: SnippetStructure;
+  isGlobal: boolean;
+  createdBy: string;
+  creator?: { id: string; name: string | null; email: string };
+}
+
+/**
+ * Tell every mounted useSnippets instance to reload
+ */
+export function notifySnippetsChanged() {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(SNIPPETS_CHANGED_EVENT));
+  }
+}
+
+export function useSnippets({ manage = false }: { manage?: boolean } = {}) {
+  const [snippets, setSnippets] = useState<SnippetSummary[]>([]);
+  const [canManageGlobal, setCanManageGlobal] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSnippets = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getSnippets({ manage });
+      if (result.success) {
+        setSnippets((result.snippets || []) as unknown as SnippetSummary[]);
+        setCanManageGlobal(result.canManageGlobal || false);
+      } else if (manage) {
+        toast.error(result.error || "Failed to load snippets");
+      }
+    } catch (error) {
+      console.error("Failed to load snippets:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [manage]);
+
+  useEffect(() => {
+    loadSnippets();
+    window.addEventListener(SNIPPETS_CHANGED_EVENT, loadSnippets);
+    return () => window.removeEventListener(SNIPPETS_CHANGED_EVENT, loadSnippets);
+  }, [loadSnippets]);
+
+  return { snippets, canManageGlobal, isLoading, refresh: loadSnippets };
+}
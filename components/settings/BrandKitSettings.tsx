@@ -0,0 +1,221 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useState, useTransition } from "react";
+import { saveBrandKit } from "@/app/actions/brand-kit";
+import { FONT_FAMILIES, customFontRef, type CustomFont } from "@/lib/email-builder/fonts";
+import { THEME_COLOR_TOKENS, type BrandKitSettings as BrandKitData } from "@/lib/email-builder/theme";
+import type { FontFamily, SystemFontFamily } from "@/lib/email-builder/types";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+
+const SOCIAL_PLATFORMS = ["Facebook", "Twitter", "Instagram", "LinkedIn", "YouTube", "TikTok"];
+
+const DEFAULT_FONT = "default";
+
+interface BrandKitSettingsProps {
+  brandKit: BrandKitData | null;
+  customFonts?: CustomFont[];
+}
+
+export function BrandKitSettings({ brandKit, customFonts = [] }: BrandKitSettingsProps) {
+  const [isPending, startTransition] = useTransition();
+  const [logoUrl, setLogoUrl] = useState(brandKit?.logoUrl || "");
+  const [colors, setColors] = useState(brandKit?.colors || {});
+  const [fonts, setFonts] = useState(brandKit?.fonts || {});
+  const [socialLinks, setSocialLinks] = useState(brandKit?.socialLinks || []);
+  const [companyInfo, setCompanyInfo] = useState(brandKit?.companyInfo || {});
+
+  const updateSocialLink = (index: number, updates: { platform?: string; url?: string }) => {
+    setSocialLinks((links) =>
+      links.map((link, i) => {
+        if (i !== index) return link;
+        const platform = updates.platform ?? link.platform;
+        return { ...link, ...updates, icon: platform.toLowerCase() };
+      })
+    );
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await saveBrandKit({ logoUrl, colors, fonts, socialLinks, companyInfo });
+      if (result.success) {
+        toast.success("Brand kit saved");
+      } else {
+        toast.error(result.error || "Failed to save brand kit");
+      }
+    });
+  };
+
+  const fontSelect = (key: "heading" | "body", label: string) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select
+        value={fonts[key] || DEFAULT_FONT}
+        onValueChange={(value) =>
+          setFonts((current) => ({ ...current, [key]: value === DEFAULT_FONT ? undefined : (value as FontFamily) }))
+        }
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_FONT}>Template default</SelectItem>
+          {(Object.keys(FONT_FAMILIES) as SystemFontFamily[]).map((font) => (
+            <SelectItem key={font} value={font}>
+              {FONT_FAMILIES[font]}
+            </SelectItem>
+          ))}
+          {customFonts.map((font) => (
+            <SelectItem key={font.id} value={customFontRef(font.id)}>
+              {font.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Logo & Colors</CardTitle>
+          <CardDescription>
+            Applied to templates with &quot;Apply brand kit&quot; in the email builder. Blocks using theme
+            colors restyle automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="brand-logo">Logo URL</Label>
+            <Input
+              id="brand-logo"
+              value={logoUrl}
+              onChange={(e) => setLogoUrl(e.target.value)}
+              placeholder="https://cdn.example.com/logo.png"
+            />
+            <p className="text-xs text-muted-foreground">
+              Replaces Image blocks whose alt text contains &quot;logo&quot;.
+            </p>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            {THEME_COLOR_TOKENS.map(({ token, label, fallback }) => (
+              <div key={token} className="space-y-2">
+                <Label>{label} Color</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="color"
+                    value={colors[token] || fallback}
+                    onChange={(e) => setColors((current) => ({ ...current, [token]: e.target.value }))}
+                    className="h-9 w-14"
+                  />
+                  <Input
+                    value={colors[token] || ""}
+                    onChange={(e) => setColors((current) => ({ ...current, [token]: e.target.value || undefined }))}
+                    placeholder={fallback}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {fontSelect("heading", "Heading Font")}
+            {fontSelect("body", "Body Font")}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Social Links</CardTitle>
+          <CardDescription>Replace the links of Social Links blocks when the brand kit is applied.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {socialLinks.map((link, index) => (
+            <div key={index} className="flex gap-2">
+              <Select value={link.platform} onValueChange={(platform) => updateSocialLink(index, { platform })}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SOCIAL_PLATFORMS.map((platform) => (
+                    <SelectItem key={platform} value={platform}>
+                      {platform}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={link.url}
+                onChange={(e) => updateSocialLink(index, { url: e.target.value })}
+                placeholder="https://"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setSocialLinks((links) => links.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setSocialLinks((links) => [...links, { platform: "Facebook", url: "", icon: "facebook" }])
+            }
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Link
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Company Information</CardTitle>
+          <CardDescription>Name, postal address and website for email footers.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="company-name">Company Name</Label>
+            <Input
+              id="company-name"
+              value={companyInfo.name || ""}
+              onChange={(e) => setCompanyInfo((current) => ({ ...current, name: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company-address">Postal Address</Label>
+            <Input
+              id="company-address"
+              value={companyInfo.address || ""}
+              onChange={(e) => setCompanyInfo((current) => ({ ...current, address: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company-website">Website</Label>
+            <Input
+              id="company-website"
+              value={companyInfo.website || ""}
+              onChange={(e) => setCompanyInfo((current) => ({ ...current, website: e.target.value }))}
+              placeholder="https://example.com"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={isPending}>
+          {isPending ? "Saving..." : "Save Brand Kit"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useState, useTransition } from "react";
+import { createCustomFont, deleteCustomFont } from "@/app/actions/fonts";
+import { FONT_FAMILIES, getFontFaceCss, getFontStack, customFontRef, type CustomFont } from "@/lib/email-builder/fonts";
+import type { SystemFontFamily } from "@/lib/email-builder/types";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2, Upload } from "lucide-react";
+
+interface CustomFontsSettingsProps {
+  fonts: CustomFont[];
+}
+
+export function CustomFontsSettings({ fonts: initialFonts }: CustomFontsSettingsProps) {
+  const [isPending, startTransition] = useTransition();
+  const [fonts, setFonts] = useState(initialFonts);
+  const [name, setName] = useState("");
+  const [source, setSource] = useState<"url" | "file">("url");
+  const [cssUrl, setCssUrl] = useState("");
+  const [fileUrl, setFileUrl] = useState("");
+  const [fallback, setFallback] = useState<SystemFontFamily>("MODERN_SANS");
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/fonts/upload", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to upload font");
+      }
+
+      setFileUrl(data.url);
+      if (!name) setName(file.name.replace(/\.[^.]+$/, "").replace(/[^\w\s-]/g, " ").trim());
+    } catch (error: any) {
+      toast.error(error.message || "Failed to upload font");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleAdd = () => {
+    startTransition(async () => {
+      const result = await createCustomFont({
+        name,
+        cssUrl: source === "url" ? cssUrl.trim() || null : null,
+        fileUrl: source === "file" ? fileUrl || null : null,
+        fallback,
+      });
+      if (result.success && result.font) {
+        setFonts((current) => [...current, result.font!].sort((a, b) => a.name.localeCompare(b.name)));
+        setName("");
+        setCssUrl("");
+        setFileUrl("");
+        toast.success("Font added");
+      } else {
+        toast.error(result.error || "Failed to add font");
+      }
+    });
+  };
+
+  const handleDelete = (font: CustomFont) => {
+    if (!confirm(`Remove "${font.name}"? Templates using it will switch to the default font.`)) return;
+    startTransition(async () => {
+      const result = await deleteCustomFont(font.id);
+      if (result.success) {
+        setFonts((current) => current.filter((f) => f.id !== font.id));
+        toast.success("Font removed");
+      } else {
+        toast.error(result.error || "Failed to remove font");
+      }
+    });
+  };
+
+  return (
+    <Card>
+      {/* Load the fonts so the list previews them */}
+      <style>{getFontFaceCss(fonts)}</style>
+      <CardHeader>
+        <CardTitle>Custom Fonts</CardTitle>
+        <CardDescription>
+          Web fonts for the email builder. Clients that can&apos;t load web fonts, including desktop Outlook, use
+          the fallback font.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {fonts.length > 0 && (
+          <div className="space-y-2">
+            {fonts.map((font) => (
+              <div key={font.id} className="flex items-center gap-3 p-3 border rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <p className="text-lg truncate" style={{ fontFamily: getFontStack(customFontRef(font.id), fonts) }}>
+                    {font.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    Fallback: {FONT_FAMILIES[font.fallback]}
+                  </p>
+                </div>
+                <Badge variant="secondary">{font.cssUrl ? "Stylesheet" : "Uploaded"}</Badge>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(font)} disabled={isPending}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="font-name">Font Name</Label>
+            <Input
+              id="font-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Inter"
+            />
+            <p className="text-xs text-muted-foreground">Must match the font-family in the stylesheet.</p>
+          </div>
+          <div className="space-y-2">
+            <Label>Fallback Font</Label>
+            <Select value={fallback} onValueChange={(value) => setFallback(value as SystemFontFamily)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FONT_FAMILIES) as SystemFontFamily[]).map((font) => (
+                  <SelectItem key={font} value={font}>
+                    {FONT_FAMILIES[font]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Source</Label>
+          <Select value={source} onValueChange={(value) => setSource(value as "url" | "file")}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="url">Stylesheet URL</SelectItem>
+              <SelectItem value="file">Upload font file</SelectItem>
+            </SelectContent>
+          </Select>
+          {source === "url" ? (
+            <Input
+              value={cssUrl}
+              onChange={(e) => setCssUrl(e.target.value)}
+              placeholder="https://fonts.googleapis.com/css2?family=Inter:wght@400;700"
+            />
+          ) : (
+            <div className="flex items-center gap-2">
+              <Input
+                type="file"
+                accept=".woff2,.woff,.ttf,.otf"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleUpload(file);
+                }}
+                disabled={isUploading}
+              />
+              {isUploading ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : (
+                fileUrl && <Upload className="h-4 w-4 text-green-600" />
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleAdd}
+            disabled={isPending || isUploading || !name.trim() || (source === "url" ? !cssUrl.trim() : !fileUrl)}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Font
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useState, useTransition } from "react";
+import { deleteSnippet, updateSnippet } from "@/app/actions/snippets";
+import { useSnippets } from "@/components/email-builder/hooks/useSnippets";
+import { toast } from "sonner";
+import { Bookmark, Trash2 } from "lucide-react";
+
+export function SnippetsSettings() {
+  const { snippets, isLoading, refresh } = useSnippets({ manage: true });
+  const [isPending, startTransition] = useTransition();
+  const [deleteSnippetId, setDeleteSnippetId] = useState<string | null>(null);
+
+  const handleToggleGlobal = (id: string, isGlobal: boolean) => {
+    startTransition(async () => {
+      const result = await updateSnippet(id, { isGlobal });
+      if (result.success) {
+        await refresh();
+        toast.success(isGlobal ? "Snippet shared with organization" : "Snippet is now private");
+      } else {
+        toast.error(result.error || "Failed to update snippet");
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!deleteSnippetId) return;
+
+    startTransition(async () => {
+      const result = await deleteSnippet(deleteSnippetId);
+      if (result.success) {
+        setDeleteSnippetId(null);
+        await refresh();
+        toast.success("Snippet deleted");
+      } else {
+        toast.error(result.error || "Failed to delete snippet");
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Snippets</CardTitle>
+          <CardDescription>
+            Reusable groups of blocks saved from the email builder. Organization-wide snippets are available to every member.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="p-4 text-center text-sm text-muted-foreground">
+              <p>Loading snippets...</p>
+            </div>
+          ) : snippets.length === 0 ? (
+            <div className="p-8 text-center">
+              <Bookmark className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="text-sm font-medium mb-2">No snippets</p>
+              <p className="text-sm text-muted-foreground">
+                Select a block in the email builder and use &quot;Save as Snippet&quot; to create one
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {snippets.map((snippet) => (
+                <div
+                  key={snippet.id}
+                  className="flex items-start justify-between p-4 border rounded-lg"
+                >
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-2">
+                      <h3 className="font-medium">{snippet.name}</h3>
+                      {snippet.category && <Badge variant="secondary">{snippet.category}</Badge>}
+                      {snippet.isGlobal && <Badge variant="outline">Organization</Badge>}
+                    </div>
+                    <div className="space-y-1 text-sm text-muted-foreground">
+                      {snippet.description && <p>{snippet.description}</p>}
+                      <p>
+                        <span className="font-medium">Created by:</span>{" "}
+                        {snippet.creator?.name || snippet.creator?.email || "Unknown"}
+                      </p>
+                      <p>
+                        <span className="font-medium">Blocks:</span>{" "}
+                        {Object.keys(snippet.structure?.blocks || {}).length}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`snippet-global-${snippet.id}`}
+                        checked={snippet.isGlobal}
+                        onCheckedChange={(checked) => handleToggleGlobal(snippet.id, checked)}
+                        disabled={isPending}
+                      />
+                      <Label htmlFor={`snippet-global-${snippet.id}`} className="text-sm font-normal">
+                        Org-wide
+                      </Label>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleteSnippetId(snippet.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!deleteSnippetId} onOpenChange={(open) => !open && setDeleteSnippetId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Snippet</AlertDialogTitle>
+            <AlertDialogDescription>
+              Templates that already use this snippet keep their blocks. It will no longer appear in the builder sidebar.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isPending}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
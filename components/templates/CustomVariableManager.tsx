@@ -5,7 +5,7 @@
 
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useCallback } from "react";
 import {
   Dialog,
   DialogContent,
@@ -19,6 +19,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -34,7 +35,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Plus, Edit, Trash2, Settings } from "lucide-react";
+import { Plus, Edit, Trash2, Settings, Sigma } from "lucide-react";
 import { 
   createCustomVariable, 
   updateCustomVariable, 
@@ -42,6 +43,9 @@ import {
   getCustomVariables,
 } from "@/app/actions/custom-variables";
 import { toast } from "sonner";
+import { EXPRESSION_FUNCTIONS, parseExpression } from "@/lib/email/expressions";
+import { evaluateComputedVariables, type ComputedVariable } from "@/lib/email/computed-variables";
+import type { VariableDefinition } from "@/lib/email/variable-definitions";
 
 interface CustomVariable {
   id: string;
@@ -49,10 +53,40 @@ interface CustomVariable {
   path: string;
   description: string | null;
   type: string;
-  sampleValue: any;
+  sampleValue: unknown;
+  expression: string | null;
   category: string;
 }
 
+/**
+ * Data to try an expression against: sample values of the static
+ * variables, a few recipient columns and a contact
+ */
+function buildSampleData(variables: CustomVariable[]): Record<string, unknown> {
+  const data: Record<string, unknown> = { firstName: "John", lastName: "Doe" };
+  variables
+    .filter((variable) => !variable.expression && variable.sampleValue !== null && variable.sampleValue !== undefined)
+    .forEach((variable) => {
+      const parts = variable.path.split(".");
+      let current = data;
+      parts.slice(0, -1).forEach((part) => {
+        const next = current[part];
+        const child = (next && typeof next === "object" ? next : {}) as Record<string, unknown>;
+        current[part] = child;
+        current = child;
+      });
+      current[parts[parts.length - 1]] = variable.sampleValue;
+    });
+  data.contact = { email: "john.doe@example.com", firstName: "John", lastName: "Doe" };
+  return data;
+}
+
+function getPathValue(data: Record<string, unknown>, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>((current, part) => (current == null ? undefined : (current as Record<string, unknown>)[part]), data);
+}
+
 export function CustomVariableManager() {
   const [isOpen, setIsOpen] = useState(false);
   const [variables, setVariables] = useState<CustomVariable[]>([]);
@@ -65,18 +99,15 @@ export function CustomVariableManager() {
     name: "",
     path: "",
     description: "",
-    type: "string" as "string" | "number" | "boolean" | "object" | "array",
+    type: "string" as VariableDefinition["type"],
     sampleValue: "",
+    computed: false,
+    expression: "",
     category: "Custom",
   });
+  const [sampleJson, setSampleJson] = useState("{}");
 
-  useEffect(() => {
-    if (isOpen) {
-      loadVariables();
-    }
-  }, [isOpen]);
-
-  const loadVariables = async () => {
+  const loadVariables = useCallback(async () => {
     setIsLoading(true);
     try {
       const result = await getCustomVariables();
@@ -90,7 +121,13 @@ export function CustomVariableManager() {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadVariables();
+    }
+  }, [isOpen, loadVariables]);
 
   const handleCreate = () => {
     setEditingVariable(null);
@@ -100,8 +137,11 @@ export function CustomVariableManager() {
       description: "",
       type: "string",
       sampleValue: "",
+      computed: false,
+      expression: "",
       category: "Custom",
     });
+    setSampleJson(JSON.stringify(buildSampleData(variables), null, 2));
     setIsDialogOpen(true);
   };
 
@@ -111,17 +151,56 @@ export function CustomVariableManager() {
       name: variable.name,
       path: variable.path.replace("custom.", ""),
       description: variable.description || "",
-      type: variable.type as any,
+      type: variable.type as VariableDefinition["type"],
       sampleValue: variable.sampleValue 
         ? (typeof variable.sampleValue === "string" 
             ? variable.sampleValue 
             : JSON.stringify(variable.sampleValue, null, 2))
         : "",
+      computed: Boolean(variable.expression),
+      expression: variable.expression || "",
       category: variable.category,
     });
+    setSampleJson(JSON.stringify(buildSampleData(variables.filter((v) => v.id !== variable.id)), null, 2));
     setIsDialogOpen(true);
   };
 
+  // Evaluate the expression as the worker would, after the other computed variables
+  const liveResult = useMemo(() => {
+    if (!formData.computed || !formData.expression.trim()) return null;
+
+    const parsed = parseExpression(formData.expression);
+    if (parsed.error) {
+      const position = parsed.error.index >= 0 ? ` (at character ${parsed.error.index + 1})` : "";
+      return { error: `${parsed.error.message}${position}` };
+    }
+
+    let sample: Record<string, unknown>;
+    try {
+      sample = JSON.parse(sampleJson);
+    } catch {
+      return { error: "Sample data is not valid JSON" };
+    }
+
+    const path = `custom.${formData.path || "value"}`;
+    const { contact, ...recipient } = sample || {};
+    const others = variables
+      .filter((variable) => variable.expression && variable.id !== editingVariable?.id)
+      .map((variable) => ({
+        path: variable.path,
+        expression: variable.expression as string,
+        type: variable.type as ComputedVariable["type"],
+      }));
+    const { data, errors } = evaluateComputedVariables(
+      [...others, { path, expression: formData.expression, type: formData.type }],
+      recipient,
+      { contact: contact && typeof contact === "object" ? (contact as Record<string, unknown>) : null }
+    );
+
+    const error = errors.find((e) => e.path === path);
+    return error ? { error: error.message } : { value: getPathValue(data, path) };
+  }, [formData.computed, formData.expression, formData.path, formData.type, sampleJson, variables, editingVariable]);
+
   const handleDelete = async (id: string) => {
     if (!confirm("Are you sure you want to delete this variable?")) {
       return;
@@ -143,11 +222,18 @@ export function CustomVariableManager() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (formData.computed && (!formData.expression.trim() || !liveResult || "error" in liveResult)) {
+      toast.error(liveResult?.error || "Enter an expression");
+      return;
+    }
+
     try {
-      let sampleValue: any = formData.sampleValue;
+      let sampleValue: unknown = formData.sampleValue;
       
-      // Parse sample value based on type
-      if (formData.sampleValue.trim()) {
+      // Computed variables keep their last result as the preview sample
+      if (formData.computed) {
+        sampleValue = liveResult && "value" in liveResult ? liveResult.value : undefined;
+      } else if (formData.sampleValue.trim()) {
         if (formData.type === "object" || formData.type === "array") {
           try {
             sampleValue = JSON.parse(formData.sampleValue);
@@ -156,11 +242,12 @@ export function CustomVariableManager() {
             return;
           }
         } else if (formData.type === "number") {
-          sampleValue = parseFloat(formData.sampleValue);
-          if (isNaN(sampleValue)) {
+          const number = parseFloat(formData.sampleValue);
+          if (isNaN(number)) {
             toast.error("Invalid number");
             return;
           }
+          sampleValue = number;
         } else if (formData.type === "boolean") {
           sampleValue = formData.sampleValue.toLowerCase() === "true";
         } else {
@@ -173,7 +260,8 @@ export function CustomVariableManager() {
         path: formData.path,
         description: formData.description || undefined,
         type: formData.type,
-        sampleValue: sampleValue || undefined,
+        sampleValue: sampleValue ?? undefined,
+        expression: formData.computed ? formData.expression.trim() : null,
         category: formData.category,
       };
 
@@ -256,6 +344,14 @@ export function CustomVariableManager() {
                         <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
                           {variable.type}
                         </span>
+                        {variable.expression && (
+                          <span
+                            className="ml-1 text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded"
+                            title={variable.expression}
+                          >
+                            computed
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell>{variable.category}</TableCell>
                       <TableCell className="max-w-xs truncate">
@@ -335,7 +431,7 @@ export function CustomVariableManager() {
                 <Label htmlFor="type">Type *</Label>
                 <Select
                   value={formData.type}
-                  onValueChange={(value: any) => setFormData({ ...formData, type: value })}
+                  onValueChange={(value) => setFormData({ ...formData, type: value as VariableDefinition["type"] })}
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -372,36 +468,107 @@ export function CustomVariableManager() {
               />
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="sampleValue">
-                Sample Value
-                {formData.type === "object" || formData.type === "array" ? " (JSON)" : ""}
-              </Label>
-              {formData.type === "object" || formData.type === "array" ? (
-                <Textarea
-                  id="sampleValue"
-                  value={formData.sampleValue}
-                  onChange={(e) => setFormData({ ...formData, sampleValue: e.target.value })}
-                  placeholder='{"key": "value"}'
-                  className="font-mono text-sm"
-                  rows={4}
-                />
-              ) : (
-                <Input
-                  id="sampleValue"
-                  type={formData.type === "number" ? "number" : "text"}
-                  value={formData.sampleValue}
-                  onChange={(e) => setFormData({ ...formData, sampleValue: e.target.value })}
-                  placeholder={
-                    formData.type === "boolean" ? "true or false" : "Sample value"
-                  }
-                />
-              )}
-              <p className="text-xs text-gray-500">
-                This value will be used in previews and test emails
-              </p>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="computed">Computed</Label>
+                <p className="text-xs text-gray-500">
+                  Work the value out for each recipient from their variables and contact fields
+                </p>
+              </div>
+              <Switch
+                id="computed"
+                checked={formData.computed}
+                onCheckedChange={(checked) => setFormData({ ...formData, computed: checked })}
+              />
             </div>
 
+            {formData.computed ? (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="expression">Expression *</Label>
+                  <Textarea
+                    id="expression"
+                    value={formData.expression}
+                    onChange={(e) => setFormData({ ...formData, expression: e.target.value })}
+                    placeholder="firstName + ' ' + lastName"
+                    className="font-mono text-sm"
+                    rows={2}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Read recipient variables by name, contact fields as <code>contact.email</code> and the
+                    current time as <code>now</code>. Functions:{" "}
+                    {EXPRESSION_FUNCTIONS.map((fn, index) => (
+                      <React.Fragment key={fn.name}>
+                        {index > 0 && ", "}
+                        <code title={fn.description}>{fn.syntax}</code>
+                      </React.Fragment>
+                    ))}
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="sampleJson">Sample Data (JSON)</Label>
+                    <Textarea
+                      id="sampleJson"
+                      value={sampleJson}
+                      onChange={(e) => setSampleJson(e.target.value)}
+                      className="font-mono text-xs"
+                      rows={8}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="flex items-center gap-1">
+                      <Sigma className="h-3 w-3" />
+                      Result
+                    </Label>
+                    {liveResult === null ? (
+                      <p className="text-xs text-gray-500">Enter an expression to see its value</p>
+                    ) : "error" in liveResult ? (
+                      <p className="text-xs text-red-600">{liveResult.error}</p>
+                    ) : (
+                      <pre className="text-xs bg-gray-100 rounded p-2 whitespace-pre-wrap break-all">
+                        {liveResult.value === undefined ? "(empty)" : JSON.stringify(liveResult.value, null, 2)}
+                      </pre>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Saved as the sample value for previews and test emails
+                    </p>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="sampleValue">
+                  Sample Value
+                  {formData.type === "object" || formData.type === "array" ? " (JSON)" : ""}
+                </Label>
+                {formData.type === "object" || formData.type === "array" ? (
+                  <Textarea
+                    id="sampleValue"
+                    value={formData.sampleValue}
+                    onChange={(e) => setFormData({ ...formData, sampleValue: e.target.value })}
+                    placeholder='{"key": "value"}'
+                    className="font-mono text-sm"
+                    rows={4}
+                  />
+                ) : (
+                  <Input
+                    id="sampleValue"
+                    type={formData.type === "number" ? "number" : "text"}
+                    value={formData.sampleValue}
+                    onChange={(e) => setFormData({ ...formData, sampleValue: e.target.value })}
+                    placeholder={
+                      formData.type === "boolean" ? "true or false" : "Sample value"
+                    }
+                  />
+                )}
+                <p className="text-xs text-gray-500">
+                  This value will be used in previews and test emails
+                </p>
+              </div>
+            )}
+
             <DialogFooter>
               <Button
                 type="button"
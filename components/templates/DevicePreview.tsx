@@ -4,10 +4,25 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Monitor, Smartphone, Tablet, Moon, Sun } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
+import { enableDarkModePreview } from "@/lib/email-builder/renderer";
+import { SampleProfileSelect } from "@/components/email-builder/SampleProfileSelect";
+import type { SampleProfile } from "@/lib/templates/sample-profiles";
 
 interface DevicePreviewProps {
-  children: React.ReactNode;
+  children?: React.ReactNode;
+  /**
+   * Rendered email HTML. Shown in an iframe as wide as the device, so the
+   * email's own media queries (mobile padding, hidden blocks, stacking) apply.
+   */
+  html?: string;
   className?: string;
+  /**
+   * Saved sample data profiles. When given, a switcher appears in the toolbar;
+   * the parent re-renders html for the chosen profile.
+   */
+  profiles?: SampleProfile[];
+  profileId?: string;
+  onProfileChange?: (profileId: string) => void;
 }
 
 const deviceSizes = {
@@ -18,7 +33,14 @@ const deviceSizes = {
   mobileLarge: "414px",
 };
 
-export function DevicePreview({ children, className }: DevicePreviewProps) {
+export function DevicePreview({
+  children,
+  html,
+  className,
+  profiles,
+  profileId,
+  onProfileChange,
+}: DevicePreviewProps) {
   const [darkMode, setDarkMode] = useState(false);
   const [selectedDevice, setSelectedDevice] = useState<keyof typeof deviceSizes>("desktop");
 
@@ -51,14 +73,19 @@ export function DevicePreview({ children, className }: DevicePreviewProps) {
             </TabsTrigger>
           </TabsList>
 
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setDarkMode(!darkMode)}
-          >
-            {darkMode ? <Sun className="h-4 w-4 mr-2" /> : <Moon className="h-4 w-4 mr-2" />}
-            {darkMode ? "Light" : "Dark"} Mode
-          </Button>
+          <div className="flex items-center gap-2">
+            {profiles && profileId && onProfileChange && (
+              <SampleProfileSelect profiles={profiles} value={profileId} onChange={onProfileChange} />
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDarkMode(!darkMode)}
+            >
+              {darkMode ? <Sun className="h-4 w-4 mr-2" /> : <Moon className="h-4 w-4 mr-2" />}
+              {darkMode ? "Light" : "Dark"} Mode
+            </Button>
+          </div>
         </div>
 
         <TabsContent value={selectedDevice} className="mt-0">
@@ -76,7 +103,20 @@ export function DevicePreview({ children, className }: DevicePreviewProps) {
               <div className="text-xs text-muted-foreground">{deviceWidth}</div>
             </div>
             <div className={darkMode ? "dark" : ""}>
-              {children}
+              {html !== undefined ? (
+                <iframe
+                  srcDoc={darkMode ? enableDarkModePreview(html) : html}
+                  title={`Email preview (${deviceWidth})`}
+                  style={{
+                    width: "100%",
+                    height: "600px",
+                    border: "none",
+                    colorScheme: darkMode ? "dark" : "light",
+                  }}
+                />
+              ) : (
+                children
+              )}
             </div>
           </div>
         </TabsContent>
@@ -0,0 +1,143 @@
+"use client";
+
+/**
+ * Import HTML Dialog
+ * Converts pasted or uploaded HTML emails into builder blocks and shows the import report
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { importHtmlEmail, type HtmlImportResult } from "@/lib/email-builder/html-importer";
+
+interface ImportHtmlDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (result: HtmlImportResult, title: string | null) => void;
+}
+
+export function ImportHtmlDialog({ open, onOpenChange, onImport }: ImportHtmlDialogProps) {
+  const [html, setHtml] = useState("");
+  const [result, setResult] = useState<HtmlImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setHtml(await file.text());
+    setResult(null);
+  };
+
+  const handleConvert = () => {
+    try {
+      setResult(importHtmlEmail(html));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import HTML");
+    }
+  };
+
+  const handleUse = () => {
+    if (!result) return;
+    const title = new DOMParser().parseFromString(html, "text/html").title.trim() || null;
+    onImport(result, title);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import HTML</DialogTitle>
+          <DialogDescription>
+            Paste an existing HTML email or upload a file. Tables, headings, text, images, buttons,
+            dividers and spacers become editable blocks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-html-file">HTML file</Label>
+            <Input
+              id="import-html-file"
+              type="file"
+              accept=".html,.htm,text/html"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-html-source">HTML source</Label>
+            <Textarea
+              id="import-html-source"
+              value={html}
+              onChange={(e) => {
+                setHtml(e.target.value);
+                setResult(null);
+              }}
+              rows={8}
+              className="font-mono text-xs"
+              placeholder="<html>...</html>"
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {/* Import Report */}
+          {result && (
+            <div className="rounded-lg border p-3 space-y-2 text-sm">
+              <p className="flex items-center gap-2 font-medium">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                {result.report.blockCount} blocks created
+              </p>
+              {result.report.fallbacks.length > 0 && (
+                <div>
+                  <p className="flex items-center gap-2 font-medium text-amber-700">
+                    <AlertTriangle className="h-4 w-4" />
+                    {result.report.fallbacks.length} kept as HTML blocks
+                  </p>
+                  <ul className="mt-1 space-y-1 max-h-40 overflow-y-auto">
+                    {result.report.fallbacks.map((fallback) => (
+                      <li key={fallback.blockId} className="text-xs text-muted-foreground">
+                        <span className="font-mono">&lt;{fallback.element}&gt;</span> {fallback.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {result.report.skipped.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {result.report.skipped.length} hidden or unsupported items were skipped
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {result ? (
+            <Button onClick={handleUse} disabled={result.document.childrenIds.length === 0}>
+              Use Imported Content
+            </Button>
+          ) : (
+            <Button onClick={handleConvert} disabled={!html.trim()}>
+              Convert
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
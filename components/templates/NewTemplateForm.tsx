@@ -29,11 +29,13 @@ import { createTemplate } from "@/app/actions/templates";
 import { LanguageSelector } from "@/components/shared/LanguageSelector";
 import { getDefaultLanguage } from "@/app/actions/languages";
 import { TemplatePicker } from "./TemplatePicker";
+import { ImportHtmlDialog } from "./ImportHtmlDialog";
 import {
   getTemplateWithUniqueIds,
   type PredefinedTemplate,
 } from "@/lib/templates/predefined-templates";
 import type { EmailBuilderDocument } from "@/lib/email-builder/types";
+import type { HtmlImportResult } from "@/lib/email-builder/html-importer";
 import { toast } from "sonner";
 
 const newTemplateSchema = z.object({
@@ -52,6 +54,8 @@ export function NewTemplateForm() {
   const [showTemplatePicker, setShowTemplatePicker] = useState(false);
   const [selectedPredefinedTemplate, setSelectedPredefinedTemplate] =
     useState<PredefinedTemplate | null>(null);
+  const [showImportHtml, setShowImportHtml] = useState(false);
+  const [importedHtml, setImportedHtml] = useState<HtmlImportResult | null>(null);
 
   useEffect(() => {
     loadDefaultLanguage();
@@ -87,12 +91,22 @@ export function NewTemplateForm() {
     form.setValue("category", template.category);
   };
 
+  const handleHtmlImport = (result: HtmlImportResult, title: string | null) => {
+    setImportedHtml(result);
+    setSelectedPredefinedTemplate(null);
+    if (title && !form.getValues("name")) {
+      form.setValue("name", title);
+    }
+  };
+
   const onSubmit = (data: NewTemplateFormValues) => {
     startTransition(async () => {
       // Use predefined template structure if selected, otherwise empty
       // Generate unique block IDs for the template (except for blank template)
       let structure: EmailBuilderDocument | undefined;
-      if (selectedPredefinedTemplate) {
+      if (importedHtml) {
+        structure = importedHtml.document;
+      } else if (selectedPredefinedTemplate) {
         if (selectedPredefinedTemplate.id === "blank") {
           // Blank template - use as is
           structure = selectedPredefinedTemplate.structure;
@@ -178,18 +192,43 @@ export function NewTemplateForm() {
             </Button>
           </div>
         )}
+        {importedHtml && (
+          <div className="mb-4 p-3 bg-muted rounded-lg">
+            <p className="text-sm font-medium">Imported HTML</p>
+            <p className="text-xs text-muted-foreground">
+              {importedHtml.report.blockCount} blocks
+              {importedHtml.report.fallbacks.length > 0 &&
+                `, ${importedHtml.report.fallbacks.length} kept as HTML blocks`}
+            </p>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="mt-2"
+              onClick={() => setImportedHtml(null)}
+            >
+              Remove Import
+            </Button>
+          </div>
+        )}
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            {!selectedPredefinedTemplate && (
-              <div className="mb-4">
+            {!selectedPredefinedTemplate && !importedHtml && (
+              <div className="mb-4 grid grid-cols-2 gap-2">
                 <Button
                   type="button"
                   variant="outline"
-                  className="w-full"
                   onClick={() => setShowTemplatePicker(true)}
                 >
                   Choose from Templates
                 </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setShowImportHtml(true)}
+                >
+                  Import HTML
+                </Button>
               </div>
             )}
             <FormField
@@ -282,6 +321,11 @@ export function NewTemplateForm() {
             </div>
           </form>
         </Form>
+        <ImportHtmlDialog
+          open={showImportHtml}
+          onOpenChange={setShowImportHtml}
+          onImport={handleHtmlImport}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,63 @@
+"use client";
+
+/**
+ * Partial Editor Client
+ * Edits a global partial with the email builder and lists where it is used
+ */
+
+import { useSyncExternalStore } from "react";
+import { EmailBuilder } from "@/components/email-builder/EmailBuilder";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { updatePartial } from "@/app/actions/partials";
+import type { EmailBuilderDocument } from "@/lib/email-builder/types";
+import { PartialUsageList } from "./PartialUsageList";
+
+interface PartialEditorClientProps {
+  partialId: string;
+  initialStructure: EmailBuilderDocument;
+}
+
+const subscribeToNothing = () => () => {};
+
+export function PartialEditorClient({ partialId, initialStructure }: PartialEditorClientProps) {
+  // Ensure we only render on client to avoid hydration issues
+  // (false while server rendering and hydrating, true afterwards)
+  const isMounted = useSyncExternalStore(
+    subscribeToNothing,
+    () => true,
+    () => false
+  );
+
+  const handleSave = async (document: EmailBuilderDocument) => {
+    // saveDocument treats a returned { error } as a failed save
+    return (await updatePartial(partialId, { structure: document })) as any;
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Used in</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PartialUsageList partialId={partialId} />
+        </CardContent>
+      </Card>
+
+      {isMounted ? (
+        <div className="h-[calc(100vh-120px)] border rounded-lg overflow-hidden">
+          <EmailBuilder
+            partialId={partialId}
+            initialDocument={initialStructure}
+            onSave={handleSave}
+            height="100%"
+          />
+        </div>
+      ) : (
+        <div className="h-[calc(100vh-120px)] border rounded-lg overflow-hidden flex items-center justify-center">
+          <div className="text-gray-400">Loading editor...</div>
+        </div>
+      )}
+    </div>
+  );
+}
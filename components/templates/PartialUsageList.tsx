@@ -0,0 +1,79 @@
+"use client";
+
+/**
+ * Partial Usage List
+ * Lists the templates that include a global partial
+ */
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { getPartialUsage } from "@/app/actions/partials";
+
+interface PartialUsage {
+  id: string;
+  name: string;
+  updatedAt: Date;
+  languages: string[];
+}
+
+interface PartialUsageListProps {
+  partialId: string;
+}
+
+export function PartialUsageList({ partialId }: PartialUsageListProps) {
+  // Usage and the partial it was loaded for
+  const [usage, setUsage] = useState<{ partialId: string; templates: PartialUsage[]; error: string | null } | null>(
+    null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    getPartialUsage(partialId)
+      .then((result) =>
+        result.success
+          ? { templates: result.templates || [], error: null }
+          : { templates: [], error: result.error || "Failed to load usage" }
+      )
+      .catch(() => ({ templates: [], error: "Failed to load usage" }))
+      .then((loaded) => {
+        if (!cancelled) setUsage({ partialId, ...loaded });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [partialId]);
+
+  if (usage?.partialId !== partialId) {
+    return <p className="text-sm text-muted-foreground">Loading usage...</p>;
+  }
+
+  const { templates, error } = usage;
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (templates.length === 0) {
+    return <p className="text-sm text-muted-foreground">Not used by any template yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {templates.map((template) => (
+        <li key={template.id} className="flex items-center justify-between gap-2 text-sm">
+          <Link href={`/dashboard/templates/${template.id}/edit`} className="font-medium hover:underline">
+            {template.name}
+          </Link>
+          <div className="flex gap-1">
+            {template.languages.map((lang) => (
+              <Badge key={lang} variant="outline" className="text-xs">
+                {lang.toUpperCase()}
+              </Badge>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
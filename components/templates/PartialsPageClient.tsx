@@ -0,0 +1,227 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Edit, Trash2, Plus, Link2 } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { createPartial, deletePartial } from "@/app/actions/partials";
+import { PartialUsageList } from "./PartialUsageList";
+
+interface PartialItem {
+  id: string;
+  name: string;
+  description: string | null;
+  updatedAt: Date;
+}
+
+interface PartialsPageClientProps {
+  initialPartials: PartialItem[];
+}
+
+export function PartialsPageClient({ initialPartials }: PartialsPageClientProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [usagePartial, setUsagePartial] = useState<PartialItem | null>(null);
+  const [deletePartialId, setDeletePartialId] = useState<string | null>(null);
+
+  const handleCreate = () => {
+    startTransition(async () => {
+      const result = await createPartial({ name, description });
+      if (result.success && result.partial) {
+        toast.success("Partial created");
+        router.push(`/dashboard/templates/partials/${result.partial.id}`);
+      } else {
+        toast.error(result.error || "Failed to create partial");
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!deletePartialId) return;
+
+    startTransition(async () => {
+      const result = await deletePartial(deletePartialId);
+      setDeletePartialId(null);
+      if (result.success) {
+        toast.success("Partial deleted");
+        router.refresh();
+      } else {
+        toast.error(result.error || "Failed to delete partial");
+      }
+    });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Global Partials</CardTitle>
+              <CardDescription>
+                Shared headers, footers and other sections. Edits apply to every template that includes them.
+              </CardDescription>
+            </div>
+            <Button onClick={() => setCreateOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Partial
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {initialPartials.length === 0 ? (
+            <div className="p-8 text-center">
+              <Link2 className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="text-sm font-medium mb-2">No partials yet</p>
+              <p className="text-sm text-muted-foreground">
+                Create a partial, then add it to templates with the Global Partial block
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Last Updated</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {initialPartials.map((partial) => (
+                  <TableRow key={partial.id}>
+                    <TableCell className="font-medium">{partial.name}</TableCell>
+                    <TableCell className="text-muted-foreground">{partial.description || "-"}</TableCell>
+                    <TableCell>{format(new Date(partial.updatedAt), "MMM d, yyyy HH:mm")}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setUsagePartial(partial)}>
+                          Usage
+                        </Button>
+                        <Button variant="ghost" size="icon" asChild>
+                          <Link href={`/dashboard/templates/partials/${partial.id}`}>
+                            <Edit className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setDeletePartialId(partial.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Partial</DialogTitle>
+            <DialogDescription>
+              You will be taken to the editor to design its content.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="partial-name">Name</Label>
+              <Input
+                id="partial-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Legal footer"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="partial-description">Description</Label>
+              <Textarea
+                id="partial-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={isPending || !name.trim()}>
+              {isPending ? "Creating..." : "Create Partial"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Usage Dialog */}
+      <Dialog open={!!usagePartial} onOpenChange={(open) => !open && setUsagePartial(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Templates using {usagePartial?.name}</DialogTitle>
+            <DialogDescription>
+              These templates pick up changes to this partial the next time they are rendered.
+            </DialogDescription>
+          </DialogHeader>
+          {usagePartial && <PartialUsageList partialId={usagePartial.id} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!deletePartialId} onOpenChange={(open) => !open && setDeletePartialId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Partial</AlertDialogTitle>
+            <AlertDialogDescription>
+              Partials that are still used by templates cannot be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isPending}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
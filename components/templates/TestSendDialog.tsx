@@ -5,7 +5,7 @@
 
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   Dialog,
   DialogContent,
@@ -20,9 +20,15 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Send, Loader2 } from "lucide-react";
+import { Send, Loader2, ShieldCheck } from "lucide-react";
 import { useEmailActions } from "@/components/email-builder/hooks/useEmailActions";
 import { useEmailBuilder } from "@/components/email-builder/EmailBuilderContext";
+import { SpamReport } from "@/components/email-builder/SpamReport";
+import { fetchPartialDocuments } from "@/components/email-builder/hooks/usePartials";
+import { useSampleProfiles } from "@/components/email-builder/hooks/useSampleProfiles";
+import { SampleProfileSelect, VARIABLE_SAMPLES } from "@/components/email-builder/SampleProfileSelect";
+import { renderEmailTemplate } from "@/lib/email/template-renderer";
+import { analyzeSpamScore, type SpamReport as SpamReportData } from "@/lib/email/spam-score";
 import { getCustomVariables } from "@/app/actions/custom-variables";
 import { getDefaultLanguage } from "@/app/actions/languages";
 import { toast } from "sonner";
@@ -33,6 +39,28 @@ interface TestSendDialogProps {
   trigger?: React.ReactNode;
 }
 
+function getDefaultSampleValue(type: string): any {
+  switch (type) {
+    case "number": return 0;
+    case "boolean": return false;
+    case "array": return [];
+    case "object": return {};
+    default: return "";
+  }
+}
+
+function setNestedValue(obj: Record<string, any>, path: string, value: any) {
+  const parts = path.split(".");
+  let current = obj;
+  for (let i = 0; i < parts.length - 1; i++) {
+    if (!current[parts[i]]) {
+      current[parts[i]] = {};
+    }
+    current = current[parts[i]];
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
 export function TestSendDialog({ 
   templateId, 
   templateName,
@@ -45,14 +73,21 @@ export function TestSendDialog({
   const [sampleData, setSampleData] = useState<Record<string, any>>({});
   const [jsonData, setJsonData] = useState("{}");
   const [defaultLanguage, setDefaultLanguage] = useState<string>("en");
+  const [spamReport, setSpamReport] = useState<SpamReportData | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [profileId, setProfileId] = useState(VARIABLE_SAMPLES);
+  const { profiles, refresh: refreshProfiles } = useSampleProfiles(templateId);
 
-  // Load custom variables and default language on mount
+  // Show the selected profile's data (also once a new profile has loaded)
   useEffect(() => {
-    loadCustomVariables();
-    loadDefaultLanguage();
-  }, []);
+    const profile = profiles.find((p) => p.id === profileId);
+    if (profile) {
+      setSampleData(profile.data);
+      setJsonData(JSON.stringify(profile.data, null, 2));
+    }
+  }, [profileId, profiles]);
 
-  const loadDefaultLanguage = async () => {
+  const loadDefaultLanguage = useCallback(async () => {
     try {
       const result = await getDefaultLanguage();
       if (result.success) {
@@ -61,9 +96,9 @@ export function TestSendDialog({
     } catch (error) {
       console.error("Failed to load default language:", error);
     }
-  };
+  }, []);
 
-  const loadCustomVariables = async () => {
+  const loadCustomVariables = useCallback(async () => {
     try {
       const result = await getCustomVariables();
       if (result.success && result.variables) {
@@ -86,29 +121,14 @@ export function TestSendDialog({
     } catch (error) {
       console.error("Failed to load custom variables:", error);
     }
-  };
+  }, []);
 
-  const getDefaultSampleValue = (type: string): any => {
-    switch (type) {
-      case "number": return 0;
-      case "boolean": return false;
-      case "array": return [];
-      case "object": return {};
-      default: return "";
-    }
-  };
+  // Load custom variables and default language on mount
+  useEffect(() => {
+    loadCustomVariables();
+    loadDefaultLanguage();
+  }, [loadCustomVariables, loadDefaultLanguage]);
 
-  const setNestedValue = (obj: Record<string, any>, path: string, value: any) => {
-    const parts = path.split(".");
-    let current = obj;
-    for (let i = 0; i < parts.length - 1; i++) {
-      if (!current[parts[i]]) {
-        current[parts[i]] = {};
-      }
-      current = current[parts[i]];
-    }
-    current[parts[parts.length - 1]] = value;
-  };
   
   const { state } = useEmailBuilder();
   const { sendPreviewEmail, isSendingPreview } = useEmailActions({
@@ -157,11 +177,47 @@ export function TestSendDialog({
     }
   };
 
+  const handleContentCheck = async () => {
+    setIsChecking(true);
+    try {
+      let dataToUse = sampleData;
+      if (sampleDataMode === "json") {
+        try {
+          dataToUse = JSON.parse(jsonData);
+        } catch {
+          // Fall back to the last valid sample data
+        }
+      }
+
+      const rendered = await renderEmailTemplate(state.document, {
+        sampleData: dataToUse,
+        replaceVariables: true,
+        templateId,
+        defaultLanguage,
+        partials: await fetchPartialDocuments(state.document),
+      });
+      setSpamReport(analyzeSpamScore(rendered, { subject }));
+    } catch (error) {
+      console.error("Content check error:", error);
+      toast.error("Failed to check content");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
   const handleLoadSample = () => {
+    setProfileId(VARIABLE_SAMPLES);
     loadCustomVariables();
     toast.success("Sample data loaded from custom variables");
   };
 
+  const handleProfileChange = (id: string) => {
+    setProfileId(id);
+    if (id === VARIABLE_SAMPLES) {
+      loadCustomVariables();
+    }
+  };
+
   const defaultTrigger = (
     <Button variant="outline" size="sm">
       <Send className="h-4 w-4 mr-2" />
@@ -174,7 +230,7 @@ export function TestSendDialog({
       <DialogTrigger asChild>
         {trigger || defaultTrigger}
       </DialogTrigger>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Send Test Email</DialogTitle>
           <DialogDescription>
@@ -220,6 +276,15 @@ export function TestSendDialog({
                 Load Sample
               </Button>
             </div>
+
+            <SampleProfileSelect
+              profiles={profiles}
+              value={profileId}
+              onChange={handleProfileChange}
+              templateId={templateId}
+              onProfilesChange={refreshProfiles}
+              currentData={sampleData}
+            />
             
             <Tabs value={sampleDataMode} onValueChange={(v) => setSampleDataMode(v as "form" | "json")}>
               <TabsList>
@@ -253,6 +318,34 @@ export function TestSendDialog({
               </TabsContent>
             </Tabs>
           </div>
+
+          {/* Content Check */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Content Check</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleContentCheck}
+                disabled={isChecking}
+                type="button"
+              >
+                {isChecking ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                )}
+                Check for Spam
+              </Button>
+            </div>
+            {spamReport ? (
+              <SpamReport report={spamReport} />
+            ) : (
+              <p className="text-xs text-gray-500">
+                Score the subject and rendered email against common spam filter rules
+              </p>
+            )}
+          </div>
         </div>
 
         <DialogFooter>
@@ -121,6 +121,7 @@ export function TranslationItem({
       list: "List",
       hero: "Hero",
       quote: "Quote",
+      preheader: "Preheader",
     };
     return labels[type] || type;
   };
@@ -15,8 +15,10 @@ import {
   CommandItem,
   CommandList,
 } from "@/components/ui/command";
-import { Variable } from "lucide-react";
+import { ArrowLeft, Filter, Variable } from "lucide-react";
 import { 
+  getFiltersForType,
+  type FilterDefinition,
   type VariableDefinition,
 } from "@/lib/email/variable-definitions";
 import { getCustomVariables } from "@/app/actions/custom-variables";
@@ -34,6 +36,8 @@ export function VariableInserter({
 }: VariableInserterProps) {
   const [search, setSearch] = useState("");
   const [customVariables, setCustomVariables] = useState<VariableDefinition[]>([]);
+  // Variable picked in the first step; the second step offers its filters
+  const [pendingVariable, setPendingVariable] = useState<VariableDefinition | null>(null);
 
   // Load custom variables when dialog opens
   useEffect(() => {
@@ -61,13 +65,31 @@ export function VariableInserter({
     }
   };
 
-  const handleSelect = (variable: VariableDefinition) => {
-    const variableString = `{{${variable.path}}}`;
+  const insert = (variableString: string) => {
     if (onSelect) {
       onSelect(variableString);
     }
     onOpenChange(false);
     setSearch("");
+    setPendingVariable(null);
+  };
+
+  const handleSelect = (variable: VariableDefinition) => {
+    if (getFiltersForType(variable.type).length === 0) {
+      insert(`{{${variable.path}}}`);
+      return;
+    }
+    setPendingVariable(variable);
+    setSearch("");
+  };
+
+  const handleSelectFilter = (variable: VariableDefinition, filter?: FilterDefinition) => {
+    insert(filter ? `{{${variable.path} | ${filter.syntax}}}` : `{{${variable.path}}}`);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setPendingVariable(null);
+    onOpenChange(nextOpen);
   };
 
   // Only use custom variables
@@ -89,8 +111,71 @@ export function VariableInserter({
     return acc;
   }, {} as Record<string, VariableDefinition[]>);
 
+  if (pendingVariable) {
+    const filters = getFiltersForType(pendingVariable.type).filter(filter =>
+      filter.name.toLowerCase().includes(search.toLowerCase()) ||
+      filter.syntax.toLowerCase().includes(search.toLowerCase())
+    );
+
+    return (
+      <CommandDialog open={open} onOpenChange={handleOpenChange}>
+        <CommandInput
+          placeholder={`Format {{${pendingVariable.path}}}...`}
+          value={search}
+          onValueChange={setSearch}
+        />
+        <CommandList>
+          <CommandEmpty>No filters found.</CommandEmpty>
+          <CommandGroup heading={pendingVariable.name}>
+            <CommandItem
+              value="__no-filter"
+              onSelect={() => handleSelectFilter(pendingVariable)}
+              className="flex items-center gap-2"
+            >
+              <Variable className="h-4 w-4 text-gray-400" />
+              <span className="text-sm">Insert without a filter</span>
+            </CommandItem>
+            <CommandItem
+              value="__back"
+              onSelect={() => {
+                setPendingVariable(null);
+                setSearch("");
+              }}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="h-4 w-4 text-gray-400" />
+              <span className="text-sm">Back to variables</span>
+            </CommandItem>
+          </CommandGroup>
+          <CommandGroup heading="Filters">
+            {filters.map((filter) => (
+              <CommandItem
+                key={filter.syntax}
+                value={filter.syntax}
+                onSelect={() => handleSelectFilter(pendingVariable, filter)}
+                className="flex items-start gap-2 py-3"
+              >
+                <Filter className="h-4 w-4 mt-0.5 text-gray-400" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <p className="text-sm font-medium">{filter.name}</p>
+                    <code className="text-xs font-mono bg-gray-100 px-1.5 py-0.5 rounded text-blue-600">
+                      {filter.syntax}
+                    </code>
+                  </div>
+                  <p className="text-xs text-gray-500 line-clamp-1">{filter.description}</p>
+                  <p className="text-xs text-gray-400 font-mono line-clamp-1">{filter.example}</p>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+    );
+  }
+
   return (
-    <CommandDialog open={open} onOpenChange={onOpenChange}>
+    <CommandDialog open={open} onOpenChange={handleOpenChange}>
       <CommandInput 
         placeholder="Search variables..." 
         value={search}
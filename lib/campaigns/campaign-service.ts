@@ -8,6 +8,78 @@ import { queueBulkEmails } from "@/app/actions/email-queue";
 import { createEmailLog } from "@/lib/email/email-logger";
 import { revalidatePath } from "next/cache";
 import type { CSVRecipient } from "./csv-importer";
+import { getTemplateLanguage } from "@/lib/templates/template-language-helpers";
+import { extractTemplateVariableUses } from "@/lib/email/template-renderer";
+import { extractVariables, type VariableInfo } from "@/lib/email/variable-parser";
+import type { VariableDefinition } from "@/lib/email/variable-definitions";
+import type { EmailBuilderDocument } from "@/lib/email-builder/types";
+import { applySampleDefaults } from "@/lib/templates/sample-profiles";
+import { loadComputedVariables } from "@/lib/email/computed-variable-loader";
+import {
+  checkVariableContract,
+  evaluateVariablePolicy,
+  toVariablePolicy,
+  type VariableContractReport,
+  type VariableUse,
+} from "./variable-contract";
+
+/**
+ * Values from the template's campaign-default sample profile, used for
+ * variables a recipient doesn't supply
+ */
+async function getCampaignDefaults(templateId: string): Promise<Record<string, any>> {
+  const profile = await prisma.sampleDataProfile.findFirst({
+    where: { templateId, isCampaignDefault: true },
+    select: { data: true },
+  });
+  return (profile?.data as Record<string, any> | undefined) || {};
+}
+
+/**
+ * Check recipient data (after campaign defaults) against the variables a
+ * template uses in the language the campaign sends, the campaign subject
+ * and preheader, and the organization's custom variable types
+ */
+export async function buildVariableContract(
+  templateId: string,
+  languageCode: string,
+  organizationId: string,
+  recipients: Array<Record<string, any> | null | undefined>,
+  fields: { subject?: string | null; preheader?: string | null } = {}
+): Promise<VariableContractReport> {
+  const [document, definitions, defaults, computed] = await Promise.all([
+    getTemplateLanguage(templateId, languageCode),
+    prisma.customVariable.findMany({
+      where: { organizationId },
+      select: { path: true, type: true },
+    }),
+    getCampaignDefaults(templateId),
+    loadComputedVariables(organizationId),
+  ]);
+
+  // Computed variables are filled in per recipient when the email is sent
+  const isComputed = (name: string) =>
+    computed.some((variable) => name === variable.path || name.startsWith(`${variable.path}.`));
+  const toVariableUse = (language: string, variables: VariableInfo[]): VariableUse => ({
+    language,
+    variables: variables.filter((variable) => !isComputed(variable.name)),
+  });
+
+  const uses: VariableUse[] = document
+    ? [toVariableUse(languageCode, extractTemplateVariableUses(document as EmailBuilderDocument))]
+    : [];
+  if (fields.subject) uses.push(toVariableUse("subject", extractVariables(fields.subject)));
+  if (fields.preheader) uses.push(toVariableUse("preheader", extractVariables(fields.preheader)));
+
+  return checkVariableContract(
+    uses,
+    recipients.map((recipient) => applySampleDefaults(defaults, recipient)),
+    definitions.map((definition) => ({
+      path: definition.path,
+      type: definition.type as VariableDefinition["type"],
+    }))
+  );
+}
 
 /**
  * Send campaign
@@ -31,6 +103,11 @@ export async function sendCampaign(campaignId: string) {
             isActive: true,
           },
         },
+        organization: {
+          select: {
+            variablePolicy: true,
+          },
+        },
       },
     });
 
@@ -55,6 +132,27 @@ export async function sendCampaign(campaignId: string) {
       return { error: "No recipients configured for this campaign" };
     }
 
+    // Variable preflight: recipients missing template variables get "Hi ," emails
+    const policy = toVariablePolicy(campaign.organization.variablePolicy);
+    let variableWarnings: string[] = [];
+    if (policy !== "off") {
+      const report = await buildVariableContract(
+        campaign.templateId,
+        campaign.template.defaultLanguage,
+        campaign.organizationId,
+        recipients.map((recipient) => recipient.variables as Record<string, any> | null),
+        { subject: campaign.subject, preheader: campaign.preheader }
+      );
+      const { blocked, warnings } = evaluateVariablePolicy(report, policy);
+      if (blocked) {
+        return {
+          error: `Recipients are missing template variables: ${warnings.join("; ")}`,
+          variableReport: report,
+        };
+      }
+      variableWarnings = warnings;
+    }
+
     // Update campaign status to SENDING and set recipient count
     await prisma.campaign.update({
       where: { id: campaignId },
@@ -69,13 +167,18 @@ export async function sendCampaign(campaignId: string) {
     const emailLogs = [];
     const recipientsData = [];
     
+    const defaults = await getCampaignDefaults(campaign.templateId);
+
     for (const recipient of recipients) {
+      // Fill gaps in the recipient's data from the template's campaign defaults
+      const variables = applySampleDefaults(defaults, recipient.variables as Record<string, any> | null);
+
       // Create email log entry
       const emailLog = await createEmailLog({
         templateId: campaign.templateId,
         recipientEmail: recipient.email,
         languageCode: campaign.template.defaultLanguage,
-        variables: (recipient.variables as Record<string, any>) || {},
+        variables,
         campaignId,
         status: "QUEUED",
       });
@@ -84,7 +187,7 @@ export async function sendCampaign(campaignId: string) {
       recipientsData.push({
         email: recipient.email,
         name: recipient.name || undefined,
-        variables: (recipient.variables as Record<string, any>) || {},
+        variables,
       });
     }
 
@@ -96,6 +199,7 @@ export async function sendCampaign(campaignId: string) {
       smtpProfileId: campaign.smtpProfile!.id,
       campaignId,
       subject: campaign.subject,
+      preheader: campaign.preheader || undefined,
       priority: 0,
     });
 
@@ -112,7 +216,12 @@ export async function sendCampaign(campaignId: string) {
 
     revalidatePath("/dashboard/campaigns");
     revalidatePath(`/dashboard/campaigns/${campaignId}`);
-    return { success: true, message: "Campaign sending started", queued: recipientsData.length };
+    return {
+      success: true,
+      message: "Campaign sending started",
+      queued: recipientsData.length,
+      ...(variableWarnings.length > 0 && { warnings: variableWarnings }),
+    };
   } catch (error) {
     console.error("Send campaign error:", error);
     return { error: "Failed to send campaign" };
@@ -0,0 +1,156 @@
+/**
+ * Variable Contract
+ * Checks that campaign recipients supply the variables their template uses
+ */
+
+import type { VariableInfo } from "@/lib/email/variable-parser";
+import type { VariableDefinition } from "@/lib/email/variable-definitions";
+
+export const VARIABLE_POLICIES = ["off", "warn", "block"] as const;
+export type VariablePolicy = (typeof VARIABLE_POLICIES)[number];
+
+export interface VariableUse {
+  language: string; // Template language, or "subject" / "preheader" for campaign fields
+  variables: VariableInfo[];
+}
+
+export interface VariableContractEntry {
+  name: string;
+  languages: string[];
+  missingCount: number; // Recipients with no value (or an empty one)
+  coveredByDefault: boolean; // Every use has a default, so the gap renders the default
+  type?: VariableDefinition["type"]; // From the matching custom variable definition
+  typeMismatchCount: number; // Recipients whose value doesn't fit the defined type
+}
+
+export interface VariableContractReport {
+  recipientCount: number;
+  variables: VariableContractEntry[];
+  problems: VariableContractEntry[]; // Uncovered gaps and type mismatches
+  affectedRecipients: number; // Recipients with at least one uncovered gap
+}
+
+export interface VariablePolicyResult {
+  blocked: boolean;
+  warnings: string[];
+}
+
+function getValue(data: Record<string, any> | null | undefined, path: string): unknown {
+  return path
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .reduce<any>((current, part) => (current == null ? undefined : current[part]), data);
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+/**
+ * Whether a recipient value fits a variable type. CSV imports store every
+ * column as text, so numeric and boolean strings count.
+ */
+export function matchesVariableType(value: unknown, type: VariableDefinition["type"]): boolean {
+  switch (type) {
+    case "number":
+      return typeof value === "number" || (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value)));
+    case "boolean":
+      return typeof value === "boolean" || value === "true" || value === "false";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+  }
+}
+
+/**
+ * Compare the variables used across template languages and campaign
+ * fields with each recipient's data and the organization's definitions
+ */
+export function checkVariableContract(
+  uses: VariableUse[],
+  recipients: Array<Record<string, any> | null | undefined>,
+  definitions: Array<Pick<VariableDefinition, "path" | "type">> = []
+): VariableContractReport {
+  const byName = new Map<string, { languages: Set<string>; covered: boolean }>();
+  uses.forEach(({ language, variables }) => {
+    variables.forEach((variable) => {
+      const entry = byName.get(variable.name) || { languages: new Set<string>(), covered: true };
+      entry.languages.add(language);
+      entry.covered = entry.covered && variable.defaultValue !== undefined;
+      byName.set(variable.name, entry);
+    });
+  });
+
+  const affected = new Set<number>();
+  const variables: VariableContractEntry[] = Array.from(byName.entries()).map(([name, { languages, covered }]) => {
+    const type = definitions.find((definition) => definition.path === name)?.type;
+    let missingCount = 0;
+    let typeMismatchCount = 0;
+
+    recipients.forEach((data, index) => {
+      const value = getValue(data, name);
+      if (isMissing(value)) {
+        missingCount++;
+        if (!covered) affected.add(index);
+      } else if (type && !matchesVariableType(value, type)) {
+        typeMismatchCount++;
+      }
+    });
+
+    return {
+      name,
+      languages: Array.from(languages),
+      missingCount,
+      coveredByDefault: covered,
+      type,
+      typeMismatchCount,
+    };
+  });
+
+  return {
+    recipientCount: recipients.length,
+    variables,
+    problems: variables.filter(
+      (entry) => (entry.missingCount > 0 && !entry.coveredByDefault) || entry.typeMismatchCount > 0
+    ),
+    affectedRecipients: affected.size,
+  };
+}
+
+/**
+ * One readable line per problem in a report
+ */
+export function describeContractProblems(report: VariableContractReport): string[] {
+  return report.problems.map((entry) => {
+    const parts: string[] = [];
+    if (entry.missingCount > 0 && !entry.coveredByDefault) {
+      parts.push(`missing for ${entry.missingCount} of ${report.recipientCount} recipients with no default`);
+    }
+    if (entry.typeMismatchCount > 0) {
+      parts.push(`not a ${entry.type} for ${entry.typeMismatchCount} recipients`);
+    }
+    return `{{${entry.name}}} is ${parts.join(" and ")}`;
+  });
+}
+
+/**
+ * Apply the organization's policy: "block" stops the send when there
+ * are problems, "warn" lets it go ahead with warnings, "off" ignores them.
+ */
+export function evaluateVariablePolicy(
+  report: VariableContractReport,
+  policy: VariablePolicy
+): VariablePolicyResult {
+  if (policy === "off") {
+    return { blocked: false, warnings: [] };
+  }
+  const warnings = describeContractProblems(report);
+  return { blocked: policy === "block" && warnings.length > 0, warnings };
+}
+
+export function toVariablePolicy(value: string | null | undefined): VariablePolicy {
+  return VARIABLE_POLICIES.includes(value as VariablePolicy) ? (value as VariablePolicy) : "warn";
+}
@@ -0,0 +1,353 @@
+/**
+ * Accessibility Audit
+ * Checks an EmailBuilderDocument against common email accessibility requirements
+ */
+
+import type { EmailBlock, EmailBuilderDocument } from "./types";
+import { resolveThemeTokens } from "./theme";
+
+export type AccessibilityRule =
+  | "image-alt"
+  | "contrast"
+  | "heading-order"
+  | "link-text"
+  | "font-size"
+  | "lang";
+
+export type AccessibilitySeverity = "error" | "warning";
+
+export interface AccessibilityIssue {
+  rule: AccessibilityRule;
+  severity: AccessibilitySeverity;
+  blockId: string | null; // null for document-level issues
+  message: string;
+}
+
+export interface AccessibilityAuditOptions {
+  lang?: string; // Language the email is sent in when the document sets none
+}
+
+// WCAG AA contrast ratios
+const MIN_CONTRAST = 4.5;
+const MIN_CONTRAST_LARGE = 3;
+
+export const MIN_FONT_SIZE = 14;
+
+// Browser default sizes of h1-h6, used when a heading sets no font size
+const HEADING_FONT_SIZES = [32, 24, 18.72, 16, 13.28, 10.72];
+
+const VAGUE_LINK_TEXT = new Set([
+  "click",
+  "click here",
+  "here",
+  "link",
+  "this link",
+  "more",
+  "read more",
+  "learn more",
+  "go",
+]);
+
+// Languages written right to left, by primary subtag
+const RTL_LANGUAGES = new Set(["ar", "dv", "fa", "he", "ku", "ps", "ur", "yi"]);
+
+/**
+ * Text direction for a language code such as "ar" or "he-IL"
+ */
+export function getTextDirection(lang: string | null | undefined): "ltr" | "rtl" {
+  const primary = lang?.split(/[-_]/)[0].toLowerCase();
+  return primary && RTL_LANGUAGES.has(primary) ? "rtl" : "ltr";
+}
+
+/**
+ * Parse a hex or rgb() color into RGB channels; other values return null
+ */
+function parseColor(color: string | null | undefined): [number, number, number] | null {
+  if (!color) return null;
+  const value = color.trim().toLowerCase();
+
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split("").map((c) => c + c).join("") : hex[1];
+    return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+  }
+
+  const rgb = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
+  return rgb ? [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])] : null;
+}
+
+/**
+ * Background a block paints, or the inherited one for transparent/unset colors
+ */
+function layerBackground(color: string | null | undefined, inherited: string): string {
+  return color && parseColor(color) ? color : inherited;
+}
+
+function relativeLuminance([r, g, b]: [number, number, number]): number {
+  const [lr, lg, lb] = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/**
+ * WCAG contrast ratio between two colors, or null when either can't be parsed
+ */
+export function getContrastRatio(foreground: string, background: string): number | null {
+  const fg = parseColor(foreground);
+  const bg = parseColor(background);
+  if (!fg || !bg) return null;
+
+  const [lighter, darker] = [relativeLuminance(fg), relativeLuminance(bg)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, "").replace(/&nbsp;/g, " ").trim();
+}
+
+function isVagueLinkText(text: string): boolean {
+  const normalized = stripTags(text).toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, "").replace(/\s+/g, " ").trim();
+  return VAGUE_LINK_TEXT.has(normalized);
+}
+
+/**
+ * Visible text of each link in an HTML fragment
+ */
+function getLinkTexts(html: string): string[] {
+  return Array.from(html.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi), (match) => match[1]);
+}
+
+interface AuditContext {
+  document: EmailBuilderDocument;
+  issues: AccessibilityIssue[];
+  previousHeadingLevel: number | null;
+}
+
+function report(
+  ctx: AuditContext,
+  rule: AccessibilityRule,
+  severity: AccessibilitySeverity,
+  blockId: string | null,
+  message: string
+) {
+  ctx.issues.push({ rule, severity, blockId, message });
+}
+
+function checkContrast(
+  ctx: AuditContext,
+  blockId: string,
+  label: string,
+  foreground: string,
+  background: string,
+  fontSize: number,
+  bold: boolean
+) {
+  const ratio = getContrastRatio(foreground, background);
+  if (ratio === null) return;
+
+  const large = fontSize >= 24 || (bold && fontSize >= 18.66);
+  const required = large ? MIN_CONTRAST_LARGE : MIN_CONTRAST;
+  if (ratio < required) {
+    report(
+      ctx,
+      "contrast",
+      "error",
+      blockId,
+      `${label} contrast is ${ratio.toFixed(2)}:1 (${foreground} on ${background}); at least ${required}:1 is required`
+    );
+  }
+}
+
+function checkFontSize(ctx: AuditContext, blockId: string, block: EmailBlock) {
+  const { fontSize, mobileFontSize } = block.data.style;
+  if (fontSize !== undefined && fontSize < MIN_FONT_SIZE) {
+    report(ctx, "font-size", "warning", blockId, `Font size ${fontSize}px is below ${MIN_FONT_SIZE}px`);
+  }
+  if (mobileFontSize !== undefined && mobileFontSize < MIN_FONT_SIZE) {
+    report(ctx, "font-size", "warning", blockId, `Mobile font size ${mobileFontSize}px is below ${MIN_FONT_SIZE}px`);
+  }
+}
+
+function checkInlineFontSizes(ctx: AuditContext, blockId: string, html: string) {
+  for (const match of html.matchAll(/font-size:\s*(\d+(?:\.\d+)?)px/gi)) {
+    const size = Number(match[1]);
+    if (size < MIN_FONT_SIZE) {
+      report(ctx, "font-size", "warning", blockId, `Text uses a ${size}px font size, below ${MIN_FONT_SIZE}px`);
+      return;
+    }
+  }
+}
+
+function checkLinks(ctx: AuditContext, blockId: string, html: string) {
+  getLinkTexts(html).forEach((text) => {
+    if (isVagueLinkText(text)) {
+      report(ctx, "link-text", "warning", blockId, `Link text "${stripTags(text)}" doesn't describe where the link goes`);
+    }
+  });
+}
+
+function checkHeading(ctx: AuditContext, blockId: string, level: number) {
+  const previous = ctx.previousHeadingLevel;
+  if (previous !== null && level > previous + 1) {
+    report(ctx, "heading-order", "warning", blockId, `Heading level ${level} skips level ${previous + 1}`);
+  }
+  ctx.previousHeadingLevel = level;
+}
+
+function auditBlock(ctx: AuditContext, blockId: string, background: string) {
+  const block = ctx.document[blockId] as EmailBlock | undefined;
+  if (!block || typeof block !== "object") return;
+
+  const { style } = block.data;
+  const blockBackground = layerBackground(style.backgroundColor, background);
+  const textColor = style.color || ctx.document.textColor;
+  const fontSize = style.fontSize ?? 16;
+  const bold = style.fontWeight === "bold";
+
+  checkFontSize(ctx, blockId, block);
+
+  switch (block.type) {
+    case "Text":
+      checkContrast(ctx, blockId, "Text", textColor, blockBackground, fontSize, bold);
+      checkInlineFontSizes(ctx, blockId, block.data.props.text || "");
+      checkLinks(ctx, blockId, block.data.props.text || "");
+      break;
+
+    case "Heading": {
+      const level = parseInt(block.data.props.level || "2");
+      const headingSize = style.fontSize ?? HEADING_FONT_SIZES[level - 1];
+      checkHeading(ctx, blockId, level);
+      checkContrast(ctx, blockId, "Heading", textColor, blockBackground, headingSize, style.fontWeight !== "normal");
+      break;
+    }
+
+    case "Image":
+      if (!block.data.props.alt?.trim()) {
+        report(
+          ctx,
+          "image-alt",
+          "error",
+          blockId,
+          block.data.props.linkHref
+            ? "Linked image has no alt text, so the link has no accessible name"
+            : "Image has no alt text"
+        );
+      }
+      break;
+
+    case "Avatar":
+      if (!block.data.props.alt?.trim()) {
+        report(ctx, "image-alt", "error", blockId, "Avatar image has no alt text");
+      }
+      break;
+
+    case "Button": {
+      const props = block.data.props;
+      checkContrast(
+        ctx,
+        blockId,
+        "Button text",
+        props.buttonTextColor || "#FFFFFF",
+        props.buttonColor || "#2563EB",
+        fontSize,
+        true
+      );
+      if (isVagueLinkText(props.text || "")) {
+        report(ctx, "link-text", "warning", blockId, `Button text "${props.text}" doesn't describe the action`);
+      }
+      break;
+    }
+
+    case "List":
+      checkContrast(ctx, blockId, "List text", textColor, blockBackground, fontSize, bold);
+      (block.data.props.items || []).forEach((item) => checkLinks(ctx, blockId, item));
+      break;
+
+    case "Quote": {
+      const props = block.data.props;
+      checkContrast(ctx, blockId, "Quote text", props.quoteColor || ctx.document.textColor, blockBackground, 18, false);
+      if (props.author) {
+        checkContrast(ctx, blockId, "Quote author", props.authorColor || "#6B7280", blockBackground, 14, true);
+      }
+      break;
+    }
+
+    case "Hero": {
+      const props = block.data.props;
+      if (props.heading) checkHeading(ctx, blockId, 1);
+      // Text over a background image can't be checked reliably
+      if (!props.backgroundImage) {
+        const heroBackground = layerBackground(style.backgroundColor, "#FFFFFF");
+        const heroText = props.textColor || ctx.document.textColor;
+        if (props.heading) checkContrast(ctx, blockId, "Hero heading", heroText, heroBackground, 32, true);
+        if (props.subheading) checkContrast(ctx, blockId, "Hero subheading", heroText, heroBackground, 18, false);
+      }
+      if (props.buttonText && props.buttonUrl) {
+        checkContrast(
+          ctx,
+          blockId,
+          "Hero button text",
+          props.buttonTextColor || "#FFFFFF",
+          props.buttonColor || "#2563EB",
+          16,
+          true
+        );
+        if (isVagueLinkText(props.buttonText)) {
+          report(ctx, "link-text", "warning", blockId, `Button text "${props.buttonText}" doesn't describe the action`);
+        }
+      }
+      break;
+    }
+
+    case "HTML":
+      checkInlineFontSizes(ctx, blockId, block.data.props.html || "");
+      checkLinks(ctx, blockId, block.data.props.html || "");
+      break;
+
+    case "Container": {
+      const containerBackground = layerBackground(
+        (block.data.props as { backgroundColor?: string }).backgroundColor,
+        blockBackground
+      );
+      block.data.props.childrenIds.forEach((childId) => auditBlock(ctx, childId, containerBackground));
+      break;
+    }
+
+    case "Repeat":
+      block.data.props.childrenIds.forEach((childId) => auditBlock(ctx, childId, blockBackground));
+      break;
+
+    case "Columns":
+      block.data.props.columns.forEach((column) =>
+        column.childrenIds.forEach((childId) => auditBlock(ctx, childId, blockBackground))
+      );
+      break;
+  }
+}
+
+/**
+ * Audit a document for accessibility problems, in document order.
+ * Theme references are resolved and blocks inherit the background of their
+ * container, the canvas and finally the backdrop.
+ */
+export function auditAccessibility(
+  source: EmailBuilderDocument,
+  options: AccessibilityAuditOptions = {}
+): AccessibilityIssue[] {
+  const document = resolveThemeTokens(source);
+  const ctx: AuditContext = { document, issues: [], previousHeadingLevel: null };
+
+  if (!(document.lang as string | undefined)?.trim() && !options.lang?.trim()) {
+    report(ctx, "lang", "error", null, "The email has no language set, so screen readers may mispronounce it");
+  }
+
+  const canvasBackground = layerBackground(
+    document.canvasColor,
+    layerBackground(document.backdropColor, "#FFFFFF")
+  );
+  document.childrenIds.forEach((blockId) => auditBlock(ctx, blockId, canvasBackground));
+
+  return ctx.issues;
+}
@@ -60,7 +60,7 @@ export function fromOldFormat(oldDoc: OldEmailDocument): EmailBuilderDocument {
 /**
  * Convert old block format to new block format
  */
-function convertBlock(oldBlock: any): any {
+export function convertBlock(oldBlock: any): any {
   if (!oldBlock || !oldBlock.type) {
     return null;
   }
@@ -21,6 +21,8 @@ import type {
   ListBlock,
   HeroBlock,
   QuoteBlock,
+  RepeatBlock,
+  PartialBlock,
   BlockStyle,
 } from "./types";
 
@@ -302,6 +304,30 @@ export const getDefaultValues = (type: BlockType): EmailBlock => {
         },
       } as QuoteBlock;
 
+    case "Repeat":
+      return {
+        type: "Repeat",
+        data: {
+          style: defaultStyle,
+          props: {
+            itemsPath: "order.items",
+            childrenIds: [],
+          },
+        },
+      } as RepeatBlock;
+
+    case "Partial":
+      return {
+        type: "Partial",
+        data: {
+          style: defaultStyle,
+          props: {
+            partialId: null,
+            partialName: null,
+          },
+        },
+      } as PartialBlock;
+
     default:
       throw new Error(`Unknown block type: ${type}`);
   }
@@ -437,6 +463,20 @@ export const BLOCK_DEFINITIONS: BlockDefinition[] = [
     category: "Content",
     description: "Add a styled quote or testimonial",
   },
+  {
+    type: "Repeat",
+    label: "Repeat",
+    icon: "🔁",
+    category: "Layout",
+    description: "Repeat blocks for each item in a list variable",
+  },
+  {
+    type: "Partial",
+    label: "Global Partial",
+    icon: "🔗",
+    category: "Layout",
+    description: "Insert a shared header or footer that updates everywhere",
+  },
 ];
 
 export const getBlockDefinition = (type: BlockType): BlockDefinition => {
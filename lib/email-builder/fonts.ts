@@ -0,0 +1,160 @@
+/**
+ * Email Fonts
+ * System font stacks and organization web fonts with email-safe fallbacks
+ */
+
+import { z } from "zod";
+import type { CustomFontRef, EmailBuilderDocument, FontFamily, SystemFontFamily } from "./types";
+import { SystemFontFamilySchema } from "./types";
+
+export const FONT_FAMILIES: Record<SystemFontFamily, string> = {
+  MODERN_SANS: "Arial, Helvetica, sans-serif",
+  BOOK_SERIF: "Georgia, Times, serif",
+  MONOSPACE: "Courier, monospace",
+  CLASSIC_SANS: "Verdana, Geneva, sans-serif",
+  ELEGANT_SERIF: '"Times New Roman", Times, serif',
+};
+
+export const CUSTOM_FONT_PREFIX = "custom:";
+
+/**
+ * A web font registered by an organization. Either `cssUrl` (a stylesheet
+ * with @font-face rules, e.g. Google Fonts) or `fileUrl` (an uploaded font
+ * file) is set. Clients that can't load it (notably desktop Outlook) use
+ * the fallback system font.
+ */
+export interface CustomFont {
+  id: string;
+  name: string;
+  cssUrl?: string | null;
+  fileUrl?: string | null;
+  fallback: SystemFontFamily;
+}
+
+export const CustomFontSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Font name is required")
+      .max(100)
+      .regex(/^[\w\s-]+$/, "Font name can only contain letters, numbers, spaces and dashes"),
+    cssUrl: z.string().url("Invalid stylesheet URL").nullable().optional(),
+    fileUrl: z.string().min(1).nullable().optional(),
+    fallback: SystemFontFamilySchema.default("MODERN_SANS"),
+  })
+  .refine((font) => Boolean(font.cssUrl || font.fileUrl), {
+    message: "Add a stylesheet URL or upload a font file",
+    path: ["cssUrl"],
+  });
+
+export type CustomFontInput = z.input<typeof CustomFontSchema>;
+
+/**
+ * Font stacks used by text blocks
+ */
+export interface FontStacks {
+  body: string;
+  heading: string;
+}
+
+export function customFontRef(fontId: string): CustomFontRef {
+  return `${CUSTOM_FONT_PREFIX}${fontId}`;
+}
+
+export function getCustomFontId(font: FontFamily | string | undefined): string | null {
+  return font?.startsWith(CUSTOM_FONT_PREFIX) ? font.slice(CUSTOM_FONT_PREFIX.length) : null;
+}
+
+function findCustomFont(font: FontFamily | undefined, fonts: CustomFont[]): CustomFont | undefined {
+  const id = getCustomFontId(font);
+  return id ? fonts.find((custom) => custom.id === id) : undefined;
+}
+
+/**
+ * System font stack for a font. Custom fonts resolve to their fallback,
+ * unknown ones to the default stack.
+ */
+export function getFallbackStack(font: FontFamily | undefined, fonts: CustomFont[] = []): string {
+  const custom = findCustomFont(font, fonts);
+  if (custom) return FONT_FAMILIES[custom.fallback] || FONT_FAMILIES.MODERN_SANS;
+  return FONT_FAMILIES[font as SystemFontFamily] || FONT_FAMILIES.MODERN_SANS;
+}
+
+/**
+ * CSS font-family value: the custom font first, then its fallback stack
+ */
+export function getFontStack(font: FontFamily | undefined, fonts: CustomFont[] = []): string {
+  const custom = findCustomFont(font, fonts);
+  if (custom) return `'${custom.name}', ${getFallbackStack(font, fonts)}`;
+  return getFallbackStack(font, fonts);
+}
+
+export function getFontStacks(document: EmailBuilderDocument, fonts: CustomFont[] = []): FontStacks {
+  const headingFont = (document.themeHeadingFont as FontFamily | undefined) || document.fontFamily;
+  return {
+    body: getFontStack(document.fontFamily, fonts),
+    heading: getFontStack(headingFont, fonts),
+  };
+}
+
+/**
+ * Ids of the custom fonts a document uses
+ */
+export function findCustomFontIds(document: EmailBuilderDocument): string[] {
+  const ids = [document.fontFamily, document.themeHeadingFont, document.themeBodyFont]
+    .map((font) => getCustomFontId(font as string | undefined))
+    .filter((id): id is string => Boolean(id));
+  return Array.from(new Set(ids));
+}
+
+function getFontFormat(url: string): string {
+  const extension = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "woff2":
+      return "woff2";
+    case "woff":
+      return "woff";
+    case "otf":
+      return "opentype";
+    default:
+      return "truetype";
+  }
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+function fontFaceRule(font: CustomFont): string {
+  const url = font.fileUrl!.replace(/'/g, "%27");
+  return `@font-face { font-family: '${font.name}'; src: url('${url}') format('${getFontFormat(url)}'); font-display: swap; }`;
+}
+
+/**
+ * Stylesheet links and @font-face rules for the <head> of an email.
+ * Hidden from Outlook, which would otherwise fall back to Times New Roman
+ * instead of the fallback stack.
+ */
+export function renderFontFaces(fonts: CustomFont[]): string {
+  if (fonts.length === 0) return "";
+
+  const links = fonts
+    .filter((font) => font.cssUrl)
+    .map((font) => `<link href="${escapeAttribute(font.cssUrl!)}" rel="stylesheet" type="text/css">`);
+  const rules = fonts.filter((font) => !font.cssUrl && font.fileUrl).map(fontFaceRule);
+  const style = rules.length > 0 ? [`<style type="text/css">\n    ${rules.join("\n    ")}\n  </style>`] : [];
+
+  return `<!--[if !mso]><!-->
+  ${[...links, ...style].join("\n  ")}
+  <!--<![endif]-->`;
+}
+
+/**
+ * The same fonts as a stylesheet, for loading into the editor canvas
+ */
+export function getFontFaceCss(fonts: CustomFont[]): string {
+  const imports = fonts.filter((font) => font.cssUrl).map((font) => `@import url("${font.cssUrl}");`);
+  const rules = fonts.filter((font) => !font.cssUrl && font.fileUrl).map(fontFaceRule);
+  return [...imports, ...rules].join("\n");
+}
@@ -0,0 +1,617 @@
+/**
+ * HTML Email Importer
+ * Converts hand-coded, table-based email HTML into native builder blocks.
+ * Markup that has no block equivalent is kept in HTML blocks and listed in the report.
+ */
+
+import type {
+  EmailBuilderDocument,
+  EmailBlock,
+  BlockStyle,
+  HeadingBlockProps,
+} from "./types";
+import { createBlock, generateBlockId } from "./blocks";
+
+export interface HtmlImportFallback {
+  blockId: string;
+  element: string; // Tag name of the element kept as raw HTML
+  reason: string;
+  excerpt: string; // Start of the element's markup, for the report
+}
+
+export interface HtmlImportReport {
+  blockCount: number;
+  fallbacks: HtmlImportFallback[];
+  skipped: string[]; // Content intentionally dropped (scripts, hidden preheaders, ...)
+}
+
+export interface HtmlImportResult {
+  document: EmailBuilderDocument;
+  report: HtmlImportReport;
+}
+
+export interface HtmlImportOptions {
+  // Parser override for environments without a global DOMParser
+  parseHtml?: (html: string) => Document;
+}
+
+const SKIPPED_TAGS = new Set(["script", "style", "head", "meta", "link", "title", "noscript", "template", "base"]);
+
+const INLINE_TAGS = new Set([
+  "a", "abbr", "b", "br", "code", "em", "font", "i", "mark", "s", "small",
+  "span", "strike", "strong", "sub", "sup", "u", "wbr",
+]);
+
+// Structural wrappers whose children are imported in place
+const WRAPPER_TAGS = new Set([
+  "body", "div", "center", "section", "article", "header", "footer", "main",
+  "aside", "nav", "td", "th", "tbody", "thead", "tfoot", "tr", "font", "span",
+]);
+
+const UNSUPPORTED_REASONS: Record<string, string> = {
+  form: "Forms are not supported in email blocks",
+  input: "Form fields are not supported in email blocks",
+  button: "Form buttons are not supported in email blocks",
+  select: "Form fields are not supported in email blocks",
+  textarea: "Form fields are not supported in email blocks",
+  video: "Video has no block equivalent",
+  audio: "Audio has no block equivalent",
+  iframe: "Embedded frames have no block equivalent",
+  svg: "Inline SVG has no block equivalent",
+  canvas: "Canvas has no block equivalent",
+  object: "Embedded objects have no block equivalent",
+  embed: "Embedded objects have no block equivalent",
+  blockquote: "Quotes are kept as HTML",
+  pre: "Preformatted text is kept as HTML",
+  dl: "Definition lists are kept as HTML",
+};
+
+const MAX_COLUMNS = 4;
+
+/**
+ * Parse an inline style attribute into a lowercase property map
+ */
+function parseStyle(element: Element): Record<string, string> {
+  const styles: Record<string, string> = {};
+  (element.getAttribute("style") || "").split(";").forEach((declaration) => {
+    const colon = declaration.indexOf(":");
+    if (colon === -1) return;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).replace(/!important/i, "").trim();
+    if (property && value) styles[property] = value;
+  });
+  return styles;
+}
+
+function parsePixels(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(px)?$/i);
+  return match ? Math.round(parseFloat(match[1])) : undefined;
+}
+
+function parsePadding(styles: Record<string, string>): BlockStyle["padding"] | undefined {
+  const padding = { top: 0, right: 0, bottom: 0, left: 0 };
+  let found = false;
+
+  if (styles.padding) {
+    const parts = styles.padding.split(/\s+/).map((part) => parsePixels(part) ?? 0);
+    if (parts.length > 0) {
+      const [top, right = top, bottom = top, left = right] = parts;
+      Object.assign(padding, { top, right, bottom, left });
+      found = true;
+    }
+  }
+
+  (["top", "right", "bottom", "left"] as const).forEach((side) => {
+    const value = parsePixels(styles[`padding-${side}`]);
+    if (value !== undefined) {
+      padding[side] = value;
+      found = true;
+    }
+  });
+
+  return found ? padding : undefined;
+}
+
+function getBackgroundColor(element: Element): string | undefined {
+  const styles = parseStyle(element);
+  const color = styles["background-color"] || element.getAttribute("bgcolor") || undefined;
+  if (color) return color;
+  // Shorthand "background: #fff url(...)" - keep only a leading color
+  const shorthand = styles.background?.split(/\s+/)[0];
+  return shorthand && /^(#|rgb|hsl|[a-z]+$)/i.test(shorthand) && !shorthand.startsWith("url")
+    ? shorthand
+    : undefined;
+}
+
+function getAlignment(element: Element): "left" | "center" | "right" | undefined {
+  const value = (parseStyle(element)["text-align"] || element.getAttribute("align") || "").toLowerCase();
+  return value === "left" || value === "center" || value === "right" ? value : undefined;
+}
+
+/**
+ * Read the text styles a block can carry from an element (and its alignment context)
+ */
+function readTextStyle(element: Element, inheritedAlign?: BlockStyle["textAlign"]): Partial<BlockStyle> {
+  const styles = parseStyle(element);
+  const style: Partial<BlockStyle> = {};
+
+  if (styles.color) style.color = styles.color;
+  const fontSize = parsePixels(styles["font-size"]);
+  if (fontSize) style.fontSize = fontSize;
+  if (styles["font-weight"]) {
+    style.fontWeight = /bold|[6-9]00/.test(styles["font-weight"]) ? "bold" : "normal";
+  }
+  const align = getAlignment(element) || inheritedAlign;
+  if (align) style.textAlign = align;
+  const backgroundColor = getBackgroundColor(element);
+  if (backgroundColor) style.backgroundColor = backgroundColor;
+  const padding = parsePadding(styles);
+  if (padding) style.padding = padding;
+
+  return style;
+}
+
+function isElement(node: Node): node is Element {
+  return node.nodeType === 1;
+}
+
+function tagOf(element: Element): string {
+  return element.tagName.toLowerCase();
+}
+
+function isHidden(element: Element): boolean {
+  const styles = parseStyle(element);
+  return (
+    styles.display?.toLowerCase() === "none" ||
+    styles["mso-hide"]?.toLowerCase() === "all" ||
+    element.hasAttribute("hidden")
+  );
+}
+
+function isInlineNode(node: Node): boolean {
+  if (node.nodeType === 3) return true;
+  return isElement(node) && INLINE_TAGS.has(tagOf(node)) && !containsBlockContent(node);
+}
+
+function containsBlockContent(element: Element): boolean {
+  return Array.from(element.querySelectorAll("*")).some(
+    (child) => !INLINE_TAGS.has(tagOf(child))
+  );
+}
+
+function hasMeaningfulContent(element: Element): boolean {
+  return (
+    (element.textContent || "").trim().length > 0 ||
+    !!element.querySelector(["img", "hr", ...Object.keys(UNSUPPORTED_REASONS)].join(", "))
+  );
+}
+
+/**
+ * Element children, ignoring whitespace and comments
+ */
+function meaningfulChildren(element: Element): Node[] {
+  return Array.from(element.childNodes).filter((node) => {
+    if (node.nodeType === 3) return (node.textContent || "").trim().length > 0;
+    return isElement(node);
+  });
+}
+
+/**
+ * Direct table rows, looking through tbody/thead/tfoot
+ */
+function tableRows(table: Element): Element[] {
+  return Array.from(table.children).flatMap((child) => {
+    const tag = tagOf(child);
+    if (tag === "tr") return [child];
+    if (tag === "tbody" || tag === "thead" || tag === "tfoot") {
+      return Array.from(child.children).filter((row) => tagOf(row) === "tr");
+    }
+    return [];
+  });
+}
+
+function rowCells(row: Element): Element[] {
+  return Array.from(row.children).filter((cell) => ["td", "th"].includes(tagOf(cell)));
+}
+
+function inlineHtml(nodes: Node[]): string {
+  return nodes
+    .map((node) => (isElement(node) ? node.outerHTML : escapeText(node.textContent || "")))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function excerptOf(element: Element): string {
+  const html = element.outerHTML.replace(/\s+/g, " ").trim();
+  return html.length > 120 ? `${html.slice(0, 117)}...` : html;
+}
+
+/**
+ * Treat an anchor as a button when it is styled like one
+ */
+function isButtonLink(anchor: Element, cell?: Element): boolean {
+  if (anchor.querySelector("img")) return false;
+  const styles = parseStyle(anchor);
+  const className = anchor.getAttribute("class") || "";
+  return (
+    !!getBackgroundColor(anchor) ||
+    /\b(btn|button|cta)\b/i.test(className) ||
+    (styles.display === "inline-block" && !!parsePadding(styles)) ||
+    (!!cell && !!getBackgroundColor(cell) && meaningfulChildren(cell).length === 1)
+  );
+}
+
+function singleImage(element: Element): Element | null {
+  const children = meaningfulChildren(element);
+  if (children.length !== 1 || !isElement(children[0])) return null;
+  const child = children[0];
+  if (tagOf(child) === "img") return child;
+  if (tagOf(child) === "a") return singleImage(child);
+  return null;
+}
+
+function singleButtonLink(element: Element): Element | null {
+  const children = meaningfulChildren(element);
+  if (children.length !== 1 || !isElement(children[0])) return null;
+  const child = children[0];
+  if (tagOf(child) === "a") return isButtonLink(child, element) ? child : null;
+  if (["span", "div", "center", "p"].includes(tagOf(child))) return singleButtonLink(child);
+  return null;
+}
+
+// State shared by the conversion functions for one import
+interface ImportContext {
+  document: EmailBuilderDocument;
+  report: HtmlImportReport;
+  canvasColor?: string; // Background of the main content table
+}
+
+/**
+ * Read root colors, then convert the body into blocks
+ */
+function convertBody(ctx: ImportContext, source: Document): void {
+  const body = source.body;
+  const backdropColor = getBackgroundColor(body);
+  if (backdropColor) ctx.document.backdropColor = backdropColor;
+
+  // The widest fixed-width table (usually 600px) holds the email canvas
+  const canvas = Array.from(body.querySelectorAll("table")).find((table) => {
+    const width = parsePixels(table.getAttribute("width")) ?? parsePixels(parseStyle(table)["max-width"]);
+    return width !== undefined && width >= 400 && width <= 800;
+  });
+  const canvasColor = canvas ? getBackgroundColor(canvas) : undefined;
+  if (canvasColor) {
+    ctx.canvasColor = canvasColor;
+    ctx.document.canvasColor = canvasColor;
+  }
+
+  const textColor = parseStyle(body).color || body.getAttribute("text");
+  if (textColor) ctx.document.textColor = textColor;
+
+  ctx.document.childrenIds = convertChildren(ctx, body);
+}
+
+function addBlock(ctx: ImportContext, block: EmailBlock): string {
+  const blockId = generateBlockId();
+  ctx.document[blockId] = block;
+  ctx.report.blockCount++;
+  return blockId;
+}
+
+function addFallback(ctx: ImportContext, element: Element, reason: string): string[] {
+  const block = createBlock("HTML");
+  if (block.type === "HTML") block.data.props.html = element.outerHTML;
+  const blockId = addBlock(ctx, block);
+  ctx.report.fallbacks.push({ blockId, element: tagOf(element), reason, excerpt: excerptOf(element) });
+  return [blockId];
+}
+
+function addText(ctx: ImportContext, nodes: Node[], context: Element, align?: BlockStyle["textAlign"]): string[] {
+  const html = inlineHtml(nodes);
+  if (!html.replace(/&nbsp;|<br\s*\/?>/gi, "").trim()) return [];
+
+  const block = createBlock("Text");
+  if (block.type !== "Text") return [];
+  block.data.props.text = html;
+  block.data.style = { ...block.data.style, ...readTextStyle(context, align) };
+  return [addBlock(ctx, block)];
+}
+
+/**
+ * Convert an element's children, grouping runs of inline content into Text blocks
+ */
+function convertChildren(ctx: ImportContext, parent: Element, align?: BlockStyle["textAlign"]): string[] {
+  const ids: string[] = [];
+  let inlineRun: Node[] = [];
+  const childAlign = getAlignment(parent) || align;
+
+  const flush = () => {
+    if (inlineRun.length > 0) {
+      ids.push(...addText(ctx, inlineRun, parent, childAlign));
+      inlineRun = [];
+    }
+  };
+
+  Array.from(parent.childNodes).forEach((node) => {
+    if (node.nodeType === 8) return; // Comments (including Outlook conditionals)
+    if (isElement(node) && isHidden(node)) {
+      ctx.report.skipped.push(`Hidden content: ${excerptOf(node)}`);
+      return;
+    }
+    if (isInlineNode(node)) {
+      // Standalone images and button links become their own blocks
+      if (isElement(node) && tagOf(node) === "a" && isButtonLink(node)) {
+        flush();
+        ids.push(...convertButton(ctx, node, parent, childAlign));
+        return;
+      }
+      inlineRun.push(node);
+      return;
+    }
+    flush();
+    if (isElement(node)) ids.push(...convertElement(ctx, node, childAlign));
+  });
+  flush();
+
+  return ids;
+}
+
+function convertElement(ctx: ImportContext, element: Element, align?: BlockStyle["textAlign"]): string[] {
+  const tag = tagOf(element);
+
+  if (SKIPPED_TAGS.has(tag)) {
+    if (tag === "script") ctx.report.skipped.push("Script removed");
+    return [];
+  }
+  if (UNSUPPORTED_REASONS[tag]) {
+    return addFallback(ctx, element, UNSUPPORTED_REASONS[tag]);
+  }
+
+  if (/^h[1-6]$/.test(tag)) return convertHeading(ctx, element, align);
+  if (tag === "img") return convertImage(ctx, element, element, align);
+  if (tag === "hr") return convertDivider(ctx, element);
+  if (tag === "ul" || tag === "ol") return convertList(ctx, element);
+  if (tag === "table") return convertTable(ctx, element, align);
+  if (tag === "a") {
+    const image = singleImage(element);
+    if (image) return convertImage(ctx, image, element, align);
+    return convertChildren(ctx, element, align);
+  }
+  if (tag === "p") {
+    const image = singleImage(element);
+    if (image) return convertImage(ctx, image, element, align);
+    const button = singleButtonLink(element);
+    if (button) return convertButton(ctx, button, element, align);
+    if (containsBlockContent(element)) return convertChildren(ctx, element, align);
+    return addText(ctx, Array.from(element.childNodes), element, align);
+  }
+  if (WRAPPER_TAGS.has(tag) || INLINE_TAGS.has(tag)) {
+    return convertWrapper(ctx, element, align);
+  }
+
+  // Unknown elements: import their content when there is any, otherwise keep them
+  return meaningfulChildren(element).length > 0
+    ? convertWrapper(ctx, element, align)
+    : addFallback(ctx, element, `<${tag}> has no block equivalent`);
+}
+
+/**
+ * Layout wrappers contribute their children; a distinct background becomes a Container
+ */
+function convertWrapper(ctx: ImportContext, element: Element, align?: BlockStyle["textAlign"]): string[] {
+  const button = ["td", "th", "div", "center"].includes(tagOf(element)) ? singleButtonLink(element) : null;
+  if (button) return convertButton(ctx, button, element, align);
+
+  if (!hasMeaningfulContent(element)) {
+    return convertSpacer(ctx, element);
+  }
+
+  const childIds = convertChildren(ctx, element, align);
+  const backgroundColor = getBackgroundColor(element);
+  const isCanvas =
+    !backgroundColor ||
+    backgroundColor === ctx.canvasColor ||
+    backgroundColor === ctx.document.backdropColor;
+  if (isCanvas || childIds.length === 0) return childIds;
+
+  const container = createBlock("Container");
+  if (container.type !== "Container") return childIds;
+  container.data.props.childrenIds = childIds;
+  container.data.style = {
+    ...container.data.style,
+    backgroundColor,
+    ...(parsePadding(parseStyle(element)) && { padding: parsePadding(parseStyle(element)) }),
+  };
+  return [addBlock(ctx, container)];
+}
+
+function convertTable(ctx: ImportContext, table: Element, align?: BlockStyle["textAlign"]): string[] {
+  const rows = tableRows(table);
+  const tableAlign = getAlignment(table) || align;
+  const ids: string[] = [];
+
+  rows.forEach((row) => {
+    const cells = rowCells(row).filter((cell) => !isHidden(cell));
+    const filled = cells.filter(hasMeaningfulContent);
+
+    if (filled.length >= 2) {
+      ids.push(...convertColumns(ctx, row, filled, tableAlign));
+    } else if (cells.length > 0) {
+      // A single content cell (gutters and empty cells fall away)
+      ids.push(...convertWrapper(ctx, filled[0] || cells[0], tableAlign));
+    }
+  });
+
+  const backgroundColor = getBackgroundColor(table);
+  if (
+    !backgroundColor ||
+    backgroundColor === ctx.canvasColor ||
+    backgroundColor === ctx.document.backdropColor ||
+    ids.length === 0
+  ) {
+    return ids;
+  }
+
+  const container = createBlock("Container");
+  if (container.type !== "Container") return ids;
+  container.data.props.childrenIds = ids;
+  container.data.style = { ...container.data.style, backgroundColor };
+  return [addBlock(ctx, container)];
+}
+
+function convertColumns(ctx: ImportContext, row: Element, cells: Element[], align?: BlockStyle["textAlign"]): string[] {
+  if (cells.length > MAX_COLUMNS) {
+    return addFallback(ctx, row, `Rows with more than ${MAX_COLUMNS} columns are kept as HTML`);
+  }
+
+  const block = createBlock("Columns");
+  if (block.type !== "Columns") return [];
+  block.data.props.columns = cells.map((cell) => ({
+    childrenIds: convertChildren(ctx, cell, getAlignment(cell) || align),
+  }));
+  const backgroundColor = getBackgroundColor(row);
+  if (backgroundColor && backgroundColor !== ctx.canvasColor) {
+    block.data.style = { ...block.data.style, backgroundColor };
+  }
+  return [addBlock(ctx, block)];
+}
+
+function convertHeading(ctx: ImportContext, element: Element, align?: BlockStyle["textAlign"]): string[] {
+  const block = createBlock("Heading");
+  if (block.type !== "Heading") return [];
+  block.data.props.text = inlineHtml(Array.from(element.childNodes));
+  block.data.props.level = tagOf(element).slice(1) as HeadingBlockProps["level"];
+  block.data.style = { ...block.data.style, ...readTextStyle(element, align) };
+  return [addBlock(ctx, block)];
+}
+
+function convertImage(ctx: ImportContext, image: Element, context: Element, align?: BlockStyle["textAlign"]): string[] {
+  const src = image.getAttribute("src");
+  if (!src) {
+    ctx.report.skipped.push(`Image without a source: ${excerptOf(image)}`);
+    return [];
+  }
+
+  const block = createBlock("Image");
+  if (block.type !== "Image") return [];
+  const styles = parseStyle(image);
+  const link = image.closest("a");
+  block.data.props = {
+    ...block.data.props,
+    url: src,
+    alt: image.getAttribute("alt") || "",
+    linkHref: link?.getAttribute("href") || null,
+    width: parsePixels(image.getAttribute("width")) ?? parsePixels(styles.width),
+    height: parsePixels(image.getAttribute("height")) ?? parsePixels(styles.height),
+    contentAlignment: getAlignment(context) || align || "center",
+  };
+  return [addBlock(ctx, block)];
+}
+
+function convertButton(ctx: ImportContext, anchor: Element, cell: Element, align?: BlockStyle["textAlign"]): string[] {
+  const block = createBlock("Button");
+  if (block.type !== "Button") return [];
+  const styles = parseStyle(anchor);
+  block.data.props = {
+    ...block.data.props,
+    text: (anchor.textContent || "").replace(/\s+/g, " ").trim() || block.data.props.text,
+    url: anchor.getAttribute("href") || "#",
+    buttonColor: getBackgroundColor(anchor) || getBackgroundColor(cell) || block.data.props.buttonColor,
+    buttonTextColor: styles.color || block.data.props.buttonTextColor,
+    fullWidth: styles.display === "block" || styles.width === "100%",
+  };
+  const textAlign = getAlignment(cell) || align;
+  if (textAlign) block.data.style = { ...block.data.style, textAlign };
+  return [addBlock(ctx, block)];
+}
+
+function convertDivider(ctx: ImportContext, element: Element): string[] {
+  const block = createBlock("Divider");
+  if (block.type !== "Divider") return [];
+  const styles = parseStyle(element);
+  const border = styles["border-top"] || styles.border || "";
+  const color = border.match(/(#[0-9a-f]{3,8}|rgba?\([^)]*\))/i)?.[1] || styles["background-color"] || element.getAttribute("color");
+  const width = parsePixels(border.match(/(\d+)px/)?.[0]) ?? parsePixels(element.getAttribute("size"));
+  if (color) block.data.props.lineColor = color;
+  if (width) block.data.props.lineHeight = width;
+  return [addBlock(ctx, block)];
+}
+
+/**
+ * Empty cells and divs with a height are spacers; other empty wrappers are dropped
+ */
+function convertSpacer(ctx: ImportContext, element: Element): string[] {
+  const styles = parseStyle(element);
+  const height =
+    parsePixels(element.getAttribute("height")) ??
+    parsePixels(styles.height) ??
+    parsePixels(styles["line-height"]);
+  if (!height) return [];
+
+  // Thin filled cells are the classic table divider
+  const backgroundColor = getBackgroundColor(element);
+  if (backgroundColor && height <= 4) {
+    const divider = createBlock("Divider");
+    if (divider.type !== "Divider") return [];
+    divider.data.props = { lineColor: backgroundColor, lineHeight: height };
+    divider.data.style = { ...divider.data.style, padding: { top: 0, right: 0, bottom: 0, left: 0 } };
+    return [addBlock(ctx, divider)];
+  }
+
+  const block = createBlock("Spacer");
+  if (block.type !== "Spacer") return [];
+  block.data.props.height = height;
+  return [addBlock(ctx, block)];
+}
+
+function convertList(ctx: ImportContext, list: Element): string[] {
+  const items = Array.from(list.children).filter((child) => tagOf(child) === "li");
+  if (items.some((item) => containsBlockContent(item))) {
+    return addFallback(ctx, list, "List items with nested blocks are kept as HTML");
+  }
+
+  const block = createBlock("List");
+  if (block.type !== "List") return [];
+  const ordered = tagOf(list) === "ol";
+  block.data.props = {
+    items: items.map((item) => inlineHtml(Array.from(item.childNodes))),
+    listType: ordered ? "ordered" : "unordered",
+    bulletStyle: ordered ? "decimal" : "disc",
+  };
+  block.data.style = { ...block.data.style, ...readTextStyle(list) };
+  return [addBlock(ctx, block)];
+}
+
+/**
+ * Import an HTML email into an EmailBuilderDocument
+ */
+export function importHtmlEmail(html: string, options: HtmlImportOptions = {}): HtmlImportResult {
+  const parseHtml =
+    options.parseHtml ??
+    ((source: string) => {
+      if (typeof DOMParser === "undefined") {
+        throw new Error("HTML import needs a DOM parser in this environment");
+      }
+      return new DOMParser().parseFromString(source, "text/html");
+    });
+
+  const ctx: ImportContext = {
+    document: {
+      backdropColor: "#F8F8F8",
+      canvasColor: "#FFFFFF",
+      textColor: "#242424",
+      fontFamily: "MODERN_SANS",
+      childrenIds: [],
+    },
+    report: { blockCount: 0, fallbacks: [], skipped: [] },
+  };
+  convertBody(ctx, parseHtml(html));
+
+  return { document: ctx.document, report: ctx.report };
+}
@@ -5,5 +5,17 @@
 export * from "./types";
 export * from "./blocks";
 export * from "./state";
+export * from "./visibility";
+export * from "./snippets";
+export * from "./partials";
+export * from "./html-importer";
+export * from "./mjml";
+export * from "./version-diff";
+export * from "./theme";
+export * from "./preheader";
+export * from "./accessibility";
+export * from "./links";
+export * from "./fonts";
+export * from "./migrations";
 export { renderToStaticMarkup } from "./renderer";
 
@@ -0,0 +1,60 @@
+/**
+ * Link Fetcher
+ * Server-side HTTP status checks for links, kept off private networks
+ */
+
+import http from "http";
+import https from "https";
+import { assertPublicUrl, publicLookup } from "@/lib/security/network";
+import type { LinkFetcher } from "./links";
+
+const CHECK_TIMEOUT_MS = 5000;
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+/**
+ * A single request without following redirects. Only the status line and
+ * headers are read; the body is discarded.
+ */
+function requestHead(url: URL, method: "HEAD" | "GET"): Promise<{ status: number; location?: string }> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const request = client.request(
+      url,
+      { method, lookup: publicLookup, timeout: CHECK_TIMEOUT_MS, headers: { "User-Agent": "MailCrafter link check" } },
+      (response) => {
+        resolve({ status: response.statusCode || 0, location: response.headers.location });
+        response.destroy();
+      }
+    );
+    request.on("timeout", () => request.destroy(new Error("timed out")));
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+/**
+ * HEAD request with a timeout, falling back to GET for servers that
+ * don't support HEAD. Redirects are followed by hand so every hop is
+ * checked against private addresses.
+ */
+export const fetchLinkStatus: LinkFetcher = async (input) => {
+  let url = new URL(input);
+
+  for (let hop = 0; ; hop++) {
+    assertPublicUrl(url);
+
+    let response = await requestHead(url, "HEAD");
+    if (response.status === 405 || response.status === 501) {
+      response = await requestHead(url, "GET");
+    }
+
+    if (!REDIRECT_STATUSES.includes(response.status) || !response.location) {
+      return { status: response.status };
+    }
+    if (hop >= MAX_REDIRECTS) {
+      throw new Error("too many redirects");
+    }
+    url = new URL(response.location, url);
+  }
+};
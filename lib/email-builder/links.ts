@@ -0,0 +1,270 @@
+/**
+ * Link Validation
+ * Extracts every link from an EmailBuilderDocument and checks it before sending
+ */
+
+import type { EmailBlock, EmailBuilderDocument } from "./types";
+import { extractVariables } from "@/lib/email/variable-parser";
+
+export type LinkSource = "button" | "image" | "social" | "hero" | "anchor";
+
+export interface ExtractedLink {
+  blockId: string;
+  blockType: string;
+  source: LinkSource;
+  url: string;
+  label: string; // Button text, platform, alt text or anchor text
+  inRepeat: boolean; // item.* variables are in scope
+}
+
+export type LinkIssueCode =
+  | "empty"
+  | "placeholder"
+  | "invalid-url"
+  | "unsupported-protocol"
+  | "unresolved-variable"
+  | "invalid-mailto"
+  | "invalid-tel"
+  | "http-error"
+  | "unreachable"
+  | "not-checked";
+
+export interface LinkIssue {
+  code: LinkIssueCode;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface LinkCheckResult extends ExtractedLink {
+  issues: LinkIssue[];
+  status?: number; // HTTP status when an HTTP check ran
+}
+
+/**
+ * Resolves the HTTP status of a URL. Injected so tests and callers
+ * without network access can stub it; the server uses fetchLinkStatus
+ * from ./link-fetcher.
+ */
+export type LinkFetcher = (url: string) => Promise<{ status: number }>;
+
+export interface LinkCheckOptions {
+  knownVariables?: string[]; // Variable paths that resolve at send time
+  fetcher?: LinkFetcher; // HTTP checks are skipped without one
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9().\-\s]{3,}$/;
+const ALLOWED_PROTOCOLS = ["http:", "https:", "mailto:", "tel:"];
+
+// Limits on HTTP checks so one document can't turn the server into a crawler
+export const MAX_HTTP_CHECKS = 50;
+const HTTP_CHECK_CONCURRENCY = 5;
+
+function getChildIds(block: EmailBlock): string[] {
+  switch (block.type) {
+    case "Container":
+    case "Repeat":
+      return block.data.props.childrenIds;
+    case "Columns":
+      return block.data.props.columns.flatMap((column) => column.childrenIds);
+    default:
+      return [];
+  }
+}
+
+function getAnchors(html: string): Array<{ url: string; label: string }> {
+  return Array.from(html.matchAll(/<a\s[^>]*href=(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi)).map((match) => ({
+    url: match[2].replace(/&amp;/g, "&"),
+    label: match[3].replace(/<[^>]+>/g, "").trim(),
+  }));
+}
+
+function getBlockLinks(block: EmailBlock): Array<{ source: LinkSource; url: string; label: string }> {
+  switch (block.type) {
+    case "Button":
+      return [{ source: "button", url: block.data.props.url, label: block.data.props.text }];
+    case "Image":
+      return block.data.props.linkHref
+        ? [{ source: "image", url: block.data.props.linkHref, label: block.data.props.alt || "" }]
+        : [];
+    case "SocialLinks":
+      return (block.data.props.socialLinks || []).map((link) => ({
+        source: "social" as const,
+        url: link.url,
+        label: link.platform,
+      }));
+    case "Hero":
+      return block.data.props.buttonText
+        ? [{ source: "hero", url: block.data.props.buttonUrl || "", label: block.data.props.buttonText }]
+        : [];
+    case "Text":
+      return getAnchors(block.data.props.text).map((anchor) => ({ source: "anchor" as const, ...anchor }));
+    case "HTML":
+      return getAnchors(block.data.props.html).map((anchor) => ({ source: "anchor" as const, ...anchor }));
+    default:
+      return [];
+  }
+}
+
+/**
+ * All links in the document, in render order
+ */
+export function extractLinks(document: EmailBuilderDocument): ExtractedLink[] {
+  const links: ExtractedLink[] = [];
+
+  const visit = (blockId: string, inRepeat: boolean) => {
+    const block = document[blockId] as EmailBlock | undefined;
+    if (!block || typeof block !== "object") return;
+    getBlockLinks(block).forEach((link) => links.push({ blockId, blockType: block.type, inRepeat, ...link }));
+    getChildIds(block).forEach((childId) => visit(childId, inRepeat || block.type === "Repeat"));
+  };
+
+  document.childrenIds.forEach((blockId) => visit(blockId, false));
+  return links;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function isKnownVariable(path: string, knownVariables: string[], inRepeat: boolean): boolean {
+  if (inRepeat && /^item(\.|$)/.test(path)) return true;
+  return knownVariables.some((known) => path === known || path.startsWith(`${known}.`));
+}
+
+/**
+ * Syntax and variable checks for a single link; no network access
+ */
+export function validateLink(
+  link: Pick<ExtractedLink, "url" | "inRepeat">,
+  options: Pick<LinkCheckOptions, "knownVariables"> = {}
+): LinkIssue[] {
+  const issues: LinkIssue[] = [];
+  const url = link.url.trim();
+
+  if (!url) {
+    return [{ code: "empty", severity: "error", message: "Link has no URL" }];
+  }
+  if (url === "#" || /^https?:\/\/(www\.)?example\.com\/?$/i.test(url)) {
+    return [{ code: "placeholder", severity: "warning", message: `Link still points to the placeholder "${url}"` }];
+  }
+
+  const variables = extractVariables(url);
+  if (options.knownVariables) {
+    variables
+      .filter((variable) => variable.defaultValue === undefined)
+      .filter((variable) => !isKnownVariable(variable.name, options.knownVariables!, link.inRepeat))
+      .forEach((variable) => {
+        issues.push({
+          code: "unresolved-variable",
+          severity: "error",
+          message: `{{${variable.name}}} is not a known variable and will render empty`,
+        });
+      });
+  }
+
+  // Check the shape of the URL with variables standing in as plain text
+  const candidate = url.replace(/\{\{[^}]+\}\}/g, "x");
+  if (/^mailto:/i.test(candidate)) {
+    const addresses = safeDecode(candidate.slice(7).split("?")[0]).split(",");
+    if (!addresses.every((address) => EMAIL_PATTERN.test(address.trim()) || /^x$/.test(address.trim()))) {
+      issues.push({ code: "invalid-mailto", severity: "error", message: `"${url}" is not a valid mailto: address` });
+    }
+    return issues;
+  }
+  if (/^tel:/i.test(candidate)) {
+    if (!PHONE_PATTERN.test(safeDecode(candidate.slice(4))) && candidate.slice(4) !== "x") {
+      issues.push({ code: "invalid-tel", severity: "error", message: `"${url}" is not a valid tel: number` });
+    }
+    return issues;
+  }
+  // A URL that starts with a variable only takes shape at send time
+  if (url.startsWith("{{")) {
+    return issues;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(candidate);
+  } catch {
+    issues.push({
+      code: "invalid-url",
+      severity: "error",
+      message: /^www\./i.test(url)
+        ? `"${url}" is missing https://`
+        : `"${url}" is not a valid absolute URL`,
+    });
+    return issues;
+  }
+  if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+    issues.push({
+      code: "unsupported-protocol",
+      severity: "error",
+      message: `${parsed.protocol} links are blocked or broken in most email clients`,
+    });
+  } else if (parsed.protocol.startsWith("http") && !parsed.hostname.includes(".") && parsed.hostname !== "localhost") {
+    issues.push({ code: "invalid-url", severity: "error", message: `"${parsed.hostname}" is not a valid domain` });
+  }
+
+  return issues;
+}
+
+/**
+ * Validate every link in the document. With a fetcher, http(s) links
+ * without variables are also checked over HTTP (each URL once, at most
+ * MAX_HTTP_CHECKS URLs, a few at a time).
+ */
+export async function checkLinks(
+  document: EmailBuilderDocument,
+  options: LinkCheckOptions = {}
+): Promise<LinkCheckResult[]> {
+  const results: LinkCheckResult[] = extractLinks(document).map((link) => ({
+    ...link,
+    issues: validateLink(link, options),
+  }));
+
+  const fetcher = options.fetcher;
+  if (!fetcher) return results;
+
+  const checkable = results.filter(
+    (result) => result.issues.length === 0 && /^https?:\/\//i.test(result.url) && !result.url.includes("{{")
+  );
+  const urls = Array.from(new Set(checkable.map((result) => result.url.trim()))).slice(0, MAX_HTTP_CHECKS);
+  const statuses = new Map<string, { status?: number; error?: string }>();
+
+  const queue = [...urls];
+  const worker = async () => {
+    for (let url = queue.shift(); url !== undefined; url = queue.shift()) {
+      try {
+        statuses.set(url, { status: (await fetcher(url)).status });
+      } catch (error) {
+        statuses.set(url, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(HTTP_CHECK_CONCURRENCY, urls.length) }, worker));
+
+  checkable.forEach((result) => {
+    const outcome = statuses.get(result.url.trim());
+    if (!outcome) {
+      result.issues.push({
+        code: "not-checked",
+        severity: "warning",
+        message: `Not checked over HTTP; only the first ${MAX_HTTP_CHECKS} URLs are checked`,
+      });
+      return;
+    }
+    result.status = outcome.status;
+    if (outcome.error !== undefined) {
+      result.issues.push({ code: "unreachable", severity: "warning", message: `Could not reach the link: ${outcome.error}` });
+    } else if (outcome.status! >= 400) {
+      result.issues.push({ code: "http-error", severity: "error", message: `The link returns HTTP ${outcome.status}` });
+    }
+  });
+
+  return results;
+}
@@ -0,0 +1,189 @@
+/**
+ * Document Migrations
+ * Upgrades stored EmailBuilderDocument structures to the current shape, one version at a time
+ */
+
+import type { BlockType, EmailBlock, EmailBuilderDocument } from "./types";
+import { EmailBuilderDocumentSchema, createBlockSchema } from "./types";
+import { convertBlock, fromOldFormat } from "./adapter";
+import type { EmailDocument as OldEmailDocument } from "../email/types";
+
+// A document as stored, before it is known to match the current shape
+export type StoredDocument = Record<string, unknown>;
+
+interface StoredBlock {
+  type: string;
+  data?: { style?: unknown; props?: Record<string, unknown> };
+  [key: string]: unknown;
+}
+
+export interface DocumentMigration {
+  version: number; // Version the document has after this step
+  description: string;
+  migrate: (document: StoredDocument) => StoredDocument;
+}
+
+export interface MigrationResult {
+  document: EmailBuilderDocument;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[]; // Descriptions of the steps that ran
+}
+
+const BLOCK_TYPES: BlockType[] = [
+  "Text",
+  "Heading",
+  "Image",
+  "Button",
+  "Divider",
+  "Spacer",
+  "Columns",
+  "Container",
+  "Avatar",
+  "HTML",
+  "SocialLinks",
+  "List",
+  "Hero",
+  "Quote",
+  "Repeat",
+  "Partial",
+];
+
+// Block type names used before the current set
+const RENAMED_BLOCK_TYPES: Record<string, BlockType> = {
+  Html: "HTML",
+};
+
+// Block props the version 2 schemas require and have no default for.
+// Everything else is left unset so the renderer's fallbacks still apply
+// (an Image without contentAlignment follows style.textAlign, for one).
+const V2_REQUIRED_PROPS: Partial<Record<BlockType, Record<string, unknown>>> = {
+  Columns: { columns: [{ childrenIds: [] }, { childrenIds: [] }] },
+};
+
+function isBlockLike(value: unknown): value is StoredBlock {
+  return Boolean(value && typeof value === "object" && !Array.isArray(value) && "type" in value);
+}
+
+function isBlockType(type: string): type is BlockType {
+  return (BLOCK_TYPES as string[]).includes(type);
+}
+
+/**
+ * Ordered registry. Add a step here whenever block props or root keys change
+ * shape; never edit a step that has shipped.
+ */
+export const DOCUMENT_MIGRATIONS: DocumentMigration[] = [
+  {
+    version: 1,
+    description: "Flatten the legacy root EmailLayout block into document keys",
+    migrate: (document) => ("root" in document ? fromOldFormat(document as unknown as OldEmailDocument) : document),
+  },
+  {
+    version: 2,
+    description: "Nest block style and props under data and fill in required props",
+    migrate: (document) => {
+      const migrated: StoredDocument = { ...document };
+      Object.entries(document).forEach(([key, value]) => {
+        if (!isBlockLike(value)) return;
+
+        const block: StoredBlock = value.data ? { ...value } : convertBlock(value);
+        const type = RENAMED_BLOCK_TYPES[block.type] || block.type;
+        if (!isBlockType(type)) {
+          migrated[key] = block;
+          return;
+        }
+
+        // Deep copy so migrated blocks don't share default arrays
+        const required: Record<string, unknown> = JSON.parse(JSON.stringify(V2_REQUIRED_PROPS[type] || {}));
+        const props = { ...required, ...(block.data?.props || {}) };
+        if (type === "Heading" && typeof props.level === "number") {
+          props.level = String(props.level);
+        }
+
+        migrated[key] = {
+          ...block,
+          type,
+          data: { ...block.data, style: block.data?.style || {}, props },
+        };
+      });
+      return migrated;
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = DOCUMENT_MIGRATIONS[DOCUMENT_MIGRATIONS.length - 1].version;
+
+/**
+ * Version of a stored document. Unversioned documents predate versioning:
+ * legacy root-format ones are version 0, flat ones version 1.
+ */
+export function getDocumentVersion(document: StoredDocument): number {
+  if (typeof document.schemaVersion === "number") return document.schemaVersion;
+  return "root" in document ? 0 : 1;
+}
+
+export function needsMigration(document: StoredDocument): boolean {
+  return getDocumentVersion(document) < CURRENT_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a stored document to the current version. Documents already at
+ * (or beyond) the current version are returned unchanged.
+ */
+export function migrateDocument(stored: unknown): MigrationResult {
+  const source = (stored && typeof stored === "object" && !Array.isArray(stored) ? stored : {}) as StoredDocument;
+  const fromVersion = getDocumentVersion(source);
+  const applied: string[] = [];
+
+  let document = source;
+  DOCUMENT_MIGRATIONS.forEach((migration) => {
+    if (migration.version <= fromVersion) return;
+    document = migration.migrate(document);
+    applied.push(migration.description);
+  });
+
+  if (applied.length === 0) {
+    return { document: source as EmailBuilderDocument, fromVersion, toVersion: fromVersion, applied };
+  }
+
+  const migrated: StoredDocument = { ...document, schemaVersion: CURRENT_SCHEMA_VERSION };
+  return {
+    document: migrated as EmailBuilderDocument,
+    fromVersion,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    applied,
+  };
+}
+
+/**
+ * Check a document against EmailBuilderDocumentSchema and each block
+ * against its block schema. Returns one message per problem.
+ */
+export function validateDocument(document: EmailBuilderDocument): string[] {
+  const errors: string[] = [];
+
+  const root = EmailBuilderDocumentSchema.safeParse(document);
+  if (!root.success) {
+    root.error.errors.forEach((issue) => errors.push(`${issue.path.join(".") || "document"}: ${issue.message}`));
+  }
+
+  Object.entries(document).forEach(([key, value]) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return;
+    const block = value as EmailBlock;
+    if (!BLOCK_TYPES.includes(block.type)) {
+      errors.push(`${key}: unknown block type "${block.type}"`);
+      return;
+    }
+    const result = createBlockSchema(block.type).safeParse(block);
+    if (!result.success) {
+      result.error.errors.forEach((issue) => errors.push(`${key}.${issue.path.join(".")}: ${issue.message}`));
+    }
+  });
+
+  (document.childrenIds || []).forEach((id) => {
+    if (!document[id]) errors.push(`childrenIds: missing block "${id}"`);
+  });
+
+  return errors;
+}
@@ -0,0 +1,653 @@
+/**
+ * MJML Conversion
+ * Two-way conversion between MJML markup and EmailBuilderDocument.
+ * Blocks without an MJML equivalent are exported as <mj-raw> with their block data
+ * embedded in a comment, so they survive a round trip.
+ */
+
+import type {
+  EmailBuilderDocument,
+  EmailBlock,
+  BlockStyle,
+  SystemFontFamily,
+  HeadingBlockProps,
+} from "./types";
+import { createBlock, generateBlockId } from "./blocks";
+import { renderBlockMarkup } from "./renderer";
+import { FONT_FAMILIES, getFontStack } from "./fonts";
+import { extractSnippetStructure, instantiateSnippet, type SnippetStructure } from "./snippets";
+import { resolveThemeTokens } from "./theme";
+
+export interface MjmlNode {
+  tagName: string;
+  attributes: Record<string, string>;
+  children: MjmlNode[];
+  content: string; // Raw inner markup of ending tags (mj-text, mj-button, mj-raw, ...)
+}
+
+export interface MjmlImportResult {
+  document: EmailBuilderDocument;
+  warnings: string[];
+}
+
+// Tags whose content is HTML rather than MJML
+const ENDING_TAGS = new Set([
+  "mj-text", "mj-button", "mj-raw", "mj-table", "mj-social-element", "mj-navbar-link",
+  "mj-accordion-title", "mj-accordion-text", "mj-style", "mj-title", "mj-preview",
+]);
+
+const BLOCK_MARKER = "mailcrafter:block";
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Parse MJML into a light element tree. Content of ending tags is kept as raw markup.
+ */
+export function parseMjml(source: string): MjmlNode {
+  const root: MjmlNode = { tagName: "#root", attributes: {}, children: [], content: "" };
+  const stack: MjmlNode[] = [root];
+  const tagPattern = /<!--[\s\S]*?-->|<(\/?)([\w-]+)((?:\s+[^>]*?)?)(\/?)>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(source))) {
+    const [full, closing, rawName, attributeSource, selfClosing] = match;
+    if (full.startsWith("<!--") || !rawName) continue;
+    const tagName = rawName.toLowerCase();
+    const parent = stack[stack.length - 1];
+
+    if (closing) {
+      // Close the nearest matching element; stray closing tags are ignored
+      const index = stack.map((node) => node.tagName).lastIndexOf(tagName);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const node: MjmlNode = {
+      tagName,
+      attributes: parseAttributes(attributeSource || ""),
+      children: [],
+      content: "",
+    };
+    parent.children.push(node);
+    if (selfClosing) continue;
+
+    if (ENDING_TAGS.has(tagName)) {
+      const end = source.toLowerCase().indexOf(`</${tagName}>`, tagPattern.lastIndex);
+      const stop = end === -1 ? source.length : end;
+      node.content = source.slice(tagPattern.lastIndex, stop).trim();
+      tagPattern.lastIndex = end === -1 ? source.length : end + tagName.length + 3;
+      continue;
+    }
+
+    stack.push(node);
+  }
+
+  return root;
+}
+
+// ============================================================================
+// MJML -> EmailBuilderDocument
+// ============================================================================
+
+function parsePixels(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(px)?$/i);
+  return match ? Math.round(parseFloat(match[1])) : undefined;
+}
+
+function parsePadding(value: string | undefined): BlockStyle["padding"] | undefined {
+  if (!value) return undefined;
+  const parts = value.trim().split(/\s+/).map((part) => parsePixels(part) ?? 0);
+  const [top, right = top, bottom = top, left = right] = parts;
+  return { top, right, bottom, left };
+}
+
+function parseAlign(value: string | undefined): "left" | "center" | "right" | undefined {
+  return value === "left" || value === "center" || value === "right" ? value : undefined;
+}
+
+function findChild(node: MjmlNode | undefined, tagName: string): MjmlNode | undefined {
+  return node?.children.find((child) => child.tagName === tagName);
+}
+
+function decodeBlockMarker(content: string): SnippetStructure | null {
+  const match = content.match(new RegExp(`<!--\\s*${BLOCK_MARKER}\\s+([^\\s]+)\\s*-->`));
+  if (!match) return null;
+  try {
+    const structure = JSON.parse(decodeURIComponent(match[1])) as SnippetStructure;
+    return structure?.rootId && structure.blocks?.[structure.rootId] ? structure : null;
+  } catch {
+    return null;
+  }
+}
+
+// State shared by the conversion functions for one import
+interface ImportContext {
+  document: EmailBuilderDocument;
+  warnings: string[];
+  sectionBackground?: string; // mj-attributes default for sections (the canvas color)
+}
+
+function addBlock(ctx: ImportContext, block: EmailBlock): string {
+  const blockId = generateBlockId();
+  ctx.document[blockId] = block;
+  return blockId;
+}
+
+function readTextStyle(node: MjmlNode, style: BlockStyle): BlockStyle {
+  const { attributes } = node;
+  return {
+    ...style,
+    ...(attributes.color && { color: attributes.color }),
+    ...(parsePixels(attributes["font-size"]) && { fontSize: parsePixels(attributes["font-size"]) }),
+    ...(attributes["font-weight"] && {
+      fontWeight: /bold|[6-9]00/.test(attributes["font-weight"]) ? ("bold" as const) : ("normal" as const),
+    }),
+    ...(parseAlign(attributes.align) && { textAlign: parseAlign(attributes.align) }),
+    ...(attributes["container-background-color"] && {
+      backgroundColor: attributes["container-background-color"],
+    }),
+    ...(parsePadding(attributes.padding) && { padding: parsePadding(attributes.padding) }),
+  };
+}
+
+function convertText(ctx: ImportContext, node: MjmlNode): string {
+  // A lone heading element becomes a Heading block
+  const heading = node.content.match(/^<h([1-6])(?:\s[^>]*)?>([\s\S]*)<\/h\1>$/i);
+  if (heading) {
+    const block = createBlock("Heading");
+    if (block.type === "Heading") {
+      block.data.props.level = heading[1] as HeadingBlockProps["level"];
+      block.data.props.text = heading[2].trim();
+      block.data.style = readTextStyle(node, block.data.style);
+    }
+    return addBlock(ctx, block);
+  }
+
+  const block = createBlock("Text");
+  if (block.type === "Text") {
+    block.data.props.text = node.content;
+    block.data.style = readTextStyle(node, block.data.style);
+  }
+  return addBlock(ctx, block);
+}
+
+function convertImage(ctx: ImportContext, node: MjmlNode): string {
+  const { attributes } = node;
+  const block = createBlock("Image");
+  if (block.type === "Image") {
+    block.data.props = {
+      ...block.data.props,
+      url: attributes.src || block.data.props.url,
+      alt: attributes.alt || "",
+      linkHref: attributes.href || null,
+      width: parsePixels(attributes.width),
+      height: parsePixels(attributes.height),
+      contentAlignment: parseAlign(attributes.align) || "center",
+    };
+    block.data.style = readTextStyle({ ...node, attributes: { ...attributes, align: "" } }, block.data.style);
+  }
+  return addBlock(ctx, block);
+}
+
+function convertButton(ctx: ImportContext, node: MjmlNode): string {
+  const { attributes } = node;
+  const block = createBlock("Button");
+  if (block.type === "Button") {
+    block.data.props = {
+      ...block.data.props,
+      text: node.content.replace(/<[^>]+>/g, "").trim() || block.data.props.text,
+      url: attributes.href || "#",
+      buttonColor: attributes["background-color"] || block.data.props.buttonColor,
+      buttonTextColor: attributes.color || block.data.props.buttonTextColor,
+      fullWidth: attributes.width === "100%",
+    };
+    // Button colors live in props; inner-padding is the button's own padding
+    block.data.style = {
+      ...readTextStyle(node, block.data.style),
+      color: block.data.style.color,
+      padding: parsePadding(attributes["inner-padding"]) || block.data.style.padding,
+    };
+  }
+  return addBlock(ctx, block);
+}
+
+function convertDivider(ctx: ImportContext, node: MjmlNode): string {
+  const { attributes } = node;
+  const block = createBlock("Divider");
+  if (block.type === "Divider") {
+    if (attributes["border-color"]) block.data.props.lineColor = attributes["border-color"];
+    const width = parsePixels(attributes["border-width"]);
+    if (width) block.data.props.lineHeight = width;
+    block.data.style = readTextStyle(node, block.data.style);
+  }
+  return addBlock(ctx, block);
+}
+
+function convertSpacer(ctx: ImportContext, node: MjmlNode): string {
+  const block = createBlock("Spacer");
+  if (block.type === "Spacer") {
+    block.data.props.height = parsePixels(node.attributes.height) ?? block.data.props.height;
+  }
+  return addBlock(ctx, block);
+}
+
+function convertSocial(ctx: ImportContext, node: MjmlNode): string {
+  const { attributes } = node;
+  const block = createBlock("SocialLinks");
+  if (block.type === "SocialLinks") {
+    const innerPadding = parsePadding(attributes["inner-padding"]);
+    block.data.props = {
+      ...block.data.props,
+      socialLinks: node.children
+        .filter((child) => child.tagName === "mj-social-element")
+        .map((child) => ({
+          platform: (child.attributes.name || "link").replace(/-noshare$/, ""),
+          url: child.attributes.href || "#",
+          ...(child.attributes.src && { icon: child.attributes.src }),
+        })),
+      iconSize: parsePixels(attributes["icon-size"]) ?? block.data.props.iconSize,
+      alignment: parseAlign(attributes.align) || "center",
+      spacing: innerPadding ? innerPadding.left * 2 : block.data.props.spacing,
+    };
+    block.data.style = readTextStyle({ ...node, attributes: { ...attributes, align: "" } }, block.data.style);
+  }
+  return addBlock(ctx, block);
+}
+
+function convertRaw(ctx: ImportContext, node: MjmlNode): string {
+  // Blocks exported by documentToMjml carry their original data
+  const structure = decodeBlockMarker(node.content);
+  if (structure) {
+    const { rootId, blocks } = instantiateSnippet(structure);
+    Object.assign(ctx.document, blocks);
+    return rootId;
+  }
+
+  const block = createBlock("HTML");
+  if (block.type === "HTML") {
+    block.data.props.html = node.tagName === "mj-table"
+      ? `<table width="100%">${node.content}</table>`
+      : node.content;
+  }
+  return addBlock(ctx, block);
+}
+
+/**
+ * Convert the content elements of a column
+ */
+function convertColumnChildren(ctx: ImportContext, column: MjmlNode): string[] {
+  return column.children.flatMap((child) => {
+    switch (child.tagName) {
+      case "mj-text":
+        return [convertText(ctx, child)];
+      case "mj-image":
+        return [convertImage(ctx, child)];
+      case "mj-button":
+        return [convertButton(ctx, child)];
+      case "mj-divider":
+        return [convertDivider(ctx, child)];
+      case "mj-spacer":
+        return [convertSpacer(ctx, child)];
+      case "mj-social":
+        return [convertSocial(ctx, child)];
+      case "mj-raw":
+      case "mj-table":
+        return [convertRaw(ctx, child)];
+      default:
+        ctx.warnings.push(`<${child.tagName}> is not supported and was skipped`);
+        return [];
+    }
+  });
+}
+
+function wrapInContainer(ctx: ImportContext, childIds: string[], node: MjmlNode): string {
+  const container = createBlock("Container");
+  if (container.type === "Container") {
+    container.data.props.childrenIds = childIds;
+    container.data.style = {
+      ...container.data.style,
+      backgroundColor: node.attributes["background-color"] || null,
+      ...(parsePadding(node.attributes.padding) && { padding: parsePadding(node.attributes.padding) }),
+    };
+    if (node.attributes["background-url"]) {
+      container.data.props.backgroundImage = node.attributes["background-url"];
+    }
+  }
+  return addBlock(ctx, container);
+}
+
+/**
+ * Sections with one column add their content in place; several columns become a Columns block
+ */
+function convertSection(ctx: ImportContext, section: MjmlNode): string[] {
+  const columns = section.children.flatMap((child) =>
+    child.tagName === "mj-group" ? child.children : [child]
+  ).filter((child) => child.tagName === "mj-column");
+  const background = section.attributes["background-color"];
+  const hasOwnBackground =
+    (!!background && background !== ctx.sectionBackground) || !!section.attributes["background-url"];
+
+  if (columns.length <= 1) {
+    const childIds = columns[0] ? convertColumnChildren(ctx, columns[0]) : [];
+    // mj-raw directly in a section (not valid MJML, but common) is kept too
+    childIds.push(...section.children.filter((child) => child.tagName === "mj-raw").map((child) => convertRaw(ctx, child)));
+    return hasOwnBackground ? [wrapInContainer(ctx, childIds, section)] : childIds;
+  }
+
+  const block = createBlock("Columns");
+  if (block.type !== "Columns") return [];
+  block.data.props.columns = columns.map((column) => ({
+    childrenIds: convertColumnChildren(ctx, column),
+  }));
+  if (hasOwnBackground && background) {
+    block.data.style = { ...block.data.style, backgroundColor: background };
+  }
+  const padding = parsePadding(section.attributes.padding);
+  if (padding) block.data.style = { ...block.data.style, padding };
+  return [addBlock(ctx, block)];
+}
+
+function convertBodyChildren(ctx: ImportContext, parent: MjmlNode): string[] {
+  return parent.children.flatMap((child) => {
+    switch (child.tagName) {
+      case "mj-section":
+        return convertSection(ctx, child);
+      case "mj-wrapper":
+        return [wrapInContainer(ctx, convertBodyChildren(ctx, child), child)];
+      case "mj-raw":
+        return [convertRaw(ctx, child)];
+      default:
+        ctx.warnings.push(`<${child.tagName}> is not supported and was skipped`);
+        return [];
+    }
+  });
+}
+
+function fontFamilyFromMjml(value: string | undefined): SystemFontFamily | undefined {
+  if (!value) return undefined;
+  const normalized = value.replace(/["']/g, "").toLowerCase();
+  const match = (Object.entries(FONT_FAMILIES) as [SystemFontFamily, string][]).find(
+    ([, stack]) => stack.replace(/["']/g, "").toLowerCase() === normalized
+  );
+  if (match) return match[0];
+  // Fall back on the first family in the stack
+  const first = normalized.split(",")[0].trim();
+  const partial = (Object.entries(FONT_FAMILIES) as [SystemFontFamily, string][]).find(([, stack]) =>
+    stack.replace(/["']/g, "").toLowerCase().startsWith(first)
+  );
+  return partial?.[0];
+}
+
+/**
+ * Convert MJML markup into an EmailBuilderDocument
+ */
+export function mjmlToDocument(source: string): MjmlImportResult {
+  const tree = parseMjml(source);
+  const mjml = findChild(tree, "mjml");
+  const body = findChild(mjml, "mj-body");
+  if (!mjml || !body) {
+    throw new Error("Invalid MJML: missing <mjml> or <mj-body>");
+  }
+
+  const head = findChild(mjml, "mj-head");
+  const attributes = findChild(head, "mj-attributes");
+  const defaults = (tagName: string) => findChild(attributes, tagName)?.attributes || {};
+
+  const ctx: ImportContext = {
+    document: {
+      backdropColor: body.attributes["background-color"] || "#F8F8F8",
+      canvasColor: defaults("mj-section")["background-color"] || "#FFFFFF",
+      textColor: defaults("mj-text").color || "#242424",
+      fontFamily: fontFamilyFromMjml(defaults("mj-all")["font-family"]) || "MODERN_SANS",
+      childrenIds: [],
+    },
+    warnings: [],
+    sectionBackground: defaults("mj-section")["background-color"],
+  };
+  ctx.document.childrenIds = convertBodyChildren(ctx, body);
+  const preview = findChild(head, "mj-preview")?.content.trim();
+  if (preview) ctx.document.preheader = preview;
+
+  return { document: ctx.document, warnings: ctx.warnings };
+}
+
+// ============================================================================
+// EmailBuilderDocument -> MJML
+// ============================================================================
+
+function escapeAttribute(value: string | number): string {
+  return String(value).replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+function attributesToString(attributes: Record<string, string | number | null | undefined | false>): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== null && value !== false && value !== "")
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value as string | number)}"`)
+    .join("");
+}
+
+function paddingToString(padding: BlockStyle["padding"]): string | undefined {
+  if (!padding) return undefined;
+  return `${padding.top || 0}px ${padding.right || 0}px ${padding.bottom || 0}px ${padding.left || 0}px`;
+}
+
+function textAttributes(style: BlockStyle) {
+  return {
+    color: style.color,
+    "font-size": style.fontSize ? `${style.fontSize}px` : undefined,
+    "font-weight": style.fontWeight,
+    align: style.textAlign,
+    "container-background-color": style.backgroundColor,
+    padding: paddingToString(style.padding),
+  };
+}
+
+function indent(markup: string, depth: number): string {
+  const prefix = "  ".repeat(depth);
+  return markup
+    .split("\n")
+    .map((line) => (line ? prefix + line : line))
+    .join("\n");
+}
+
+/**
+ * Embed a block subtree in <mj-raw> so import can restore it exactly
+ */
+function rawBlockToMjml(document: EmailBuilderDocument, blockId: string): string {
+  const structure = extractSnippetStructure(document, blockId);
+  const marker = encodeURIComponent(JSON.stringify(structure)).replace(/-/g, "%2D");
+  const html = renderBlockMarkup(document, blockId).trim();
+  return `<mj-raw>\n  <!-- ${BLOCK_MARKER} ${marker} -->\n${indent(html, 1)}\n</mj-raw>`;
+}
+
+/**
+ * Content block as an element inside <mj-column>
+ */
+function contentBlockToMjml(document: EmailBuilderDocument, blockId: string): string {
+  const block = document[blockId] as EmailBlock;
+  const { style } = block.data;
+
+  switch (block.type) {
+    case "Text":
+      return `<mj-text${attributesToString(textAttributes(style))}>\n${indent(block.data.props.text, 1)}\n</mj-text>`;
+    case "Heading": {
+      const { level, text } = block.data.props;
+      return `<mj-text${attributesToString(textAttributes(style))}>\n  <h${level} style="margin: 0;">${text}</h${level}>\n</mj-text>`;
+    }
+    case "Image": {
+      const props = block.data.props;
+      return `<mj-image${attributesToString({
+        src: props.url,
+        alt: props.alt,
+        href: props.linkHref,
+        width: props.width ? `${props.width}px` : undefined,
+        height: props.height ? `${props.height}px` : undefined,
+        align: props.contentAlignment,
+        "container-background-color": style.backgroundColor,
+        padding: paddingToString(style.padding),
+      })} />`;
+    }
+    case "Button": {
+      const props = block.data.props;
+      return `<mj-button${attributesToString({
+        href: props.url,
+        "background-color": props.buttonColor,
+        color: props.buttonTextColor,
+        "font-size": style.fontSize ? `${style.fontSize}px` : undefined,
+        "font-weight": style.fontWeight,
+        align: style.textAlign,
+        width: props.fullWidth ? "100%" : undefined,
+        "inner-padding": paddingToString(style.padding),
+        "container-background-color": style.backgroundColor,
+      })}>\n  ${props.text}\n</mj-button>`;
+    }
+    case "Divider":
+      return `<mj-divider${attributesToString({
+        "border-color": block.data.props.lineColor,
+        "border-width": `${block.data.props.lineHeight}px`,
+        "container-background-color": style.backgroundColor,
+        padding: paddingToString(style.padding),
+      })} />`;
+    case "Spacer":
+      return `<mj-spacer${attributesToString({ height: `${block.data.props.height}px` })} />`;
+    case "SocialLinks": {
+      const props = block.data.props;
+      const spacing = props.spacing ?? 12;
+      const elements = (props.socialLinks || []).map((link) =>
+        `<mj-social-element${attributesToString({
+          name: link.platform,
+          href: link.url,
+          src: link.icon,
+        })}></mj-social-element>`
+      );
+      return `<mj-social${attributesToString({
+        mode: "horizontal",
+        align: props.alignment,
+        "icon-size": `${props.iconSize ?? 32}px`,
+        "inner-padding": `0px ${spacing / 2}px`,
+        "container-background-color": style.backgroundColor,
+        padding: paddingToString(style.padding),
+      })}>\n${indent(elements.join("\n"), 1)}\n</mj-social>`;
+    }
+    default:
+      return rawBlockToMjml(document, blockId);
+  }
+}
+
+function sectionToMjml(columns: string[][], attributes: Record<string, string | undefined> = {}): string {
+  const columnMarkup = columns.map((elements) =>
+    `<mj-column>\n${indent(elements.join("\n"), 1)}\n</mj-column>`
+  );
+  return `<mj-section${attributesToString(attributes)}>\n${indent(columnMarkup.join("\n"), 1)}\n</mj-section>`;
+}
+
+/**
+ * Convert a list of root (or wrapper) children to sections.
+ * Consecutive content blocks share a single-column section.
+ */
+function childrenToSections(document: EmailBuilderDocument, childIds: string[], insideWrapper: boolean): string[] {
+  const sections: string[] = [];
+  let pending: string[] = [];
+
+  const flush = () => {
+    if (pending.length > 0) {
+      // Builder blocks carry their own padding, so the section adds none
+      sections.push(sectionToMjml([pending], { padding: "0px" }));
+      pending = [];
+    }
+  };
+
+  childIds.forEach((blockId) => {
+    const block = document[blockId] as EmailBlock | undefined;
+    if (!block) return;
+
+    if (block.type === "Columns") {
+      flush();
+      const columns = block.data.props.columns.map((column) =>
+        column.childrenIds
+          .filter((id) => document[id])
+          .map((id) => columnChildToMjml(document, id))
+      );
+      sections.push(sectionToMjml(columns, {
+        "background-color": block.data.style.backgroundColor || undefined,
+        padding: paddingToString(block.data.style.padding),
+      }));
+      return;
+    }
+
+    // Wrappers cannot nest, and visibility rules need the exact block data
+    if (block.type === "Container" && !insideWrapper && !block.visibility && !block.data.props.backgroundImage) {
+      flush();
+      const inner = childrenToSections(document, block.data.props.childrenIds, true);
+      sections.push(`<mj-wrapper${attributesToString({
+        "background-color": block.data.style.backgroundColor,
+        padding: paddingToString(block.data.style.padding),
+      })}>\n${indent(inner.join("\n"), 1)}\n</mj-wrapper>`);
+      return;
+    }
+
+    pending.push(columnChildToMjml(document, blockId));
+  });
+  flush();
+
+  return sections;
+}
+
+/**
+ * Layout blocks cannot nest inside a column, so they are embedded as raw blocks
+ */
+function columnChildToMjml(document: EmailBuilderDocument, blockId: string): string {
+  const block = document[blockId] as EmailBlock;
+  if (block.visibility || ["Container", "Columns", "Repeat", "Partial"].includes(block.type)) {
+    return rawBlockToMjml(document, blockId);
+  }
+  return contentBlockToMjml(document, blockId);
+}
+
+/**
+ * Convert an EmailBuilderDocument into MJML markup
+ */
+export function documentToMjml(source: EmailBuilderDocument): string {
+  const document = resolveThemeTokens(source);
+  const fontFamily = getFontStack(document.fontFamily);
+  const sections = childrenToSections(document, document.childrenIds, false);
+
+  return [
+    "<mjml>",
+    "  <mj-head>",
+    "    <mj-attributes>",
+    `      <mj-all${attributesToString({ "font-family": fontFamily })} />`,
+    `      <mj-text${attributesToString({ color: document.textColor })} />`,
+    `      <mj-section${attributesToString({ "background-color": document.canvasColor })} />`,
+    "    </mj-attributes>",
+    ...(document.preheader ? [`    <mj-preview>${escapeAttribute(document.preheader as string)}</mj-preview>`] : []),
+    "  </mj-head>",
+    `  <mj-body${attributesToString({ "background-color": document.backdropColor })}>`,
+    indent(sections.join("\n"), 2),
+    "  </mj-body>",
+    "</mjml>",
+    "",
+  ].join("\n");
+}
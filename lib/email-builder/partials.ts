@@ -0,0 +1,98 @@
+/**
+ * Global Partials
+ * Finds Partial blocks in a document and inlines the shared subtree they reference
+ */
+
+import type { EmailBuilderDocument, EmailBlock, PartialBlock } from "./types";
+
+/**
+ * Partial documents keyed by partial id
+ */
+export type PartialDocuments = Record<string, EmailBuilderDocument>;
+
+const ROOT_KEYS = new Set(["backdropColor", "canvasColor", "textColor", "fontFamily", "childrenIds"]);
+
+function isBlock(value: unknown): value is EmailBlock {
+  return !!value && typeof value === "object" && !Array.isArray(value) && "type" in value && "data" in value;
+}
+
+/**
+ * Get the ids of every partial referenced by the document
+ */
+export function findPartialIds(document: EmailBuilderDocument): string[] {
+  const ids = new Set<string>();
+
+  Object.entries(document).forEach(([key, value]) => {
+    if (ROOT_KEYS.has(key) || !isBlock(value) || value.type !== "Partial") return;
+    if (value.data.props.partialId) ids.add(value.data.props.partialId);
+  });
+
+  return Array.from(ids);
+}
+
+/**
+ * Replace each Partial block with a Container holding a copy of the partial's
+ * root blocks. Copied ids are prefixed with the Partial block id so the same
+ * partial can appear more than once. The Partial block keeps its own style and
+ * visibility rule. Partials that were not loaded, and partials nested inside a
+ * partial, are left in place and render as nothing.
+ */
+export function inlinePartials(
+  document: EmailBuilderDocument,
+  partials: PartialDocuments
+): EmailBuilderDocument {
+  const result = JSON.parse(JSON.stringify(document)) as EmailBuilderDocument;
+
+  Object.entries(document).forEach(([blockId, value]) => {
+    if (ROOT_KEYS.has(blockId) || !isBlock(value) || value.type !== "Partial") return;
+
+    const partialBlock = value as PartialBlock;
+    const partial = partialBlock.data.props.partialId
+      ? partials[partialBlock.data.props.partialId]
+      : undefined;
+    if (!partial) return;
+
+    const copyBlock = (sourceId: string): string | null => {
+      const source = partial[sourceId];
+      if (!isBlock(source) || source.type === "Partial") return null;
+
+      const newId = `${blockId}--${sourceId}`;
+      const cloned = JSON.parse(JSON.stringify(source)) as EmailBlock;
+      const remap = (ids: string[] = []) =>
+        ids.map(copyBlock).filter((id): id is string => id !== null);
+
+      if (cloned.type === "Container" || cloned.type === "Repeat") {
+        cloned.data.props.childrenIds = remap(cloned.data.props.childrenIds);
+      } else if (cloned.type === "Columns") {
+        cloned.data.props.columns = cloned.data.props.columns.map((column) => ({
+          childrenIds: remap(column.childrenIds),
+        }));
+      }
+
+      result[newId] = cloned;
+      return newId;
+    };
+
+    result[blockId] = {
+      type: "Container",
+      ...(partialBlock.visibility && { visibility: partialBlock.visibility }),
+      data: {
+        style: partialBlock.data.style,
+        props: {
+          childrenIds: (partial.childrenIds || [])
+            .map(copyBlock)
+            .filter((id): id is string => id !== null),
+        },
+      },
+    };
+  });
+
+  return result;
+}
+
+/**
+ * Check whether a template document includes the given partial
+ */
+export function documentUsesPartial(document: EmailBuilderDocument, partialId: string): boolean {
+  return findPartialIds(document).includes(partialId);
+}
@@ -0,0 +1,69 @@
+/**
+ * Preheader
+ * Hidden preview text shown after the subject in inbox lists
+ */
+
+// Invisible characters that fill the preview after the preheader, so clients
+// don't pull in the first lines of body copy
+const PREHEADER_PADDING = "&#847;&zwnj;&nbsp;".repeat(100);
+
+export type InboxClient = "gmail" | "outlook";
+
+/**
+ * Approximate characters each client shows before truncating.
+ * Gmail runs the preheader on after the subject on one line; Outlook
+ * shows the subject and preheader on separate lines.
+ */
+export const INBOX_CLIENTS: Record<
+  InboxClient,
+  { label: string; sender: number; subject: number; preheader: number }
+> = {
+  gmail: { label: "Gmail", sender: 20, subject: 70, preheader: 100 },
+  outlook: { label: "Outlook", sender: 30, subject: 55, preheader: 50 },
+};
+
+export interface InboxPreview {
+  sender: string;
+  subject: string;
+  preheader: string;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Hidden preheader markup placed at the start of the email body.
+ * Returns an empty string when there is no preheader.
+ */
+export function renderPreheader(text: string | null | undefined): string {
+  const preheader = text?.trim();
+  if (!preheader) return "";
+  return `<span class="preheader" style="display: none !important; visibility: hidden; mso-hide: all; font-size: 1px; line-height: 1px; max-height: 0; max-width: 0; opacity: 0; overflow: hidden;">${escapeText(preheader)}${PREHEADER_PADDING}</span>`;
+}
+
+/**
+ * Shorten text to a character limit, ending with an ellipsis
+ */
+export function truncateForInbox(text: string, limit: number): string {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  if (normalized.length <= limit) return normalized;
+  return `${normalized.slice(0, limit - 1).trimEnd()}…`;
+}
+
+/**
+ * Sender, subject and preheader as a client's inbox list would show them.
+ * In Gmail the preheader only gets the room the subject leaves on its line.
+ */
+export function getInboxPreview(client: InboxClient, message: InboxPreview): InboxPreview {
+  const limits = INBOX_CLIENTS[client];
+  const subject = truncateForInbox(message.subject, limits.subject);
+  const preheaderLimit =
+    client === "gmail" ? Math.max(limits.preheader - subject.length, 0) : limits.preheader;
+
+  return {
+    sender: truncateForInbox(message.sender, limits.sender),
+    subject,
+    preheader: preheaderLimit > 0 ? truncateForInbox(message.preheader, preheaderLimit) : "",
+  };
+}
@@ -7,20 +7,28 @@
 import type {
   EmailBuilderDocument,
   EmailBlock,
+  BlockStyle,
   FontFamily,
 } from "./types";
+import { isBlockVisible, resolveVariablePath } from "./visibility";
+import { applyLinkColor, resolveThemeTokens } from "./theme";
+import { renderPreheader } from "./preheader";
+import { getTextDirection } from "./accessibility";
+import {
+  findCustomFontIds,
+  getFallbackStack,
+  getFontStacks,
+  renderFontFaces,
+  type CustomFont,
+  type FontStacks,
+} from "./fonts";
+import { replaceVariables, type FormatOptions } from "@/lib/email/variable-parser";
 
 // ============================================================================
 // Font Family Mapping
 // ============================================================================
 
-const FONT_FAMILIES: Record<FontFamily, string> = {
-  MODERN_SANS: "Arial, Helvetica, sans-serif",
-  BOOK_SERIF: "Georgia, Times, serif",
-  MONOSPACE: "Courier, monospace",
-  CLASSIC_SANS: "Verdana, Geneva, sans-serif",
-  ELEGANT_SERIF: '"Times New Roman", Times, serif',
-};
+export { FONT_FAMILIES } from "./fonts";
 
 // ============================================================================
 // Helper Functions
@@ -92,16 +100,233 @@ function buildInlineStyles(styles: {
   return parts.join("; ");
 }
 
+// ============================================================================
+// Dark Mode
+// ============================================================================
+
+// Dark-mode overrides collected while rendering, keyed by CSS class
+type DarkModeRules = Map<string, { backgroundColor?: string; color?: string }>;
+
+// Text elements that carry their own inline styles inside a block cell
+const TEXT_SELECTORS = ["h1", "h2", "h3", "h4", "h5", "h6", "p"];
+
+function getDarkModeClass(blockId: string): string {
+  return `dm-${blockId.replace(/[^a-zA-Z0-9_-]/g, "")}`;
+}
+
+/**
+ * Tags the first cell of a rendered block (the one carrying its inline styles)
+ */
+function addCellClass(html: string, className: string): string {
+  return html.replace(/<td (?:class="([^"]*)" )?/, (_match, existing?: string) =>
+    `<td class="${existing ? `${existing} ` : ""}${className}" `
+  );
+}
+
+function hasDarkModeSettings(document: EmailBuilderDocument, rules: DarkModeRules, html: string): boolean {
+  return Boolean(
+    document.darkBackdropColor ||
+    document.darkCanvasColor ||
+    document.darkTextColor ||
+    rules.size > 0 ||
+    html.includes("dm-dark-img")
+  );
+}
+
+/**
+ * Builds prefers-color-scheme and Outlook.com ([data-ogsc] / [data-ogsb]) overrides
+ */
+function buildDarkModeStyles(document: EmailBuilderDocument, rules: DarkModeRules): string {
+  const backdrop = formatColor(document.darkBackdropColor as string | undefined);
+  const canvas = formatColor(document.darkCanvasColor as string | undefined);
+  const text = formatColor(document.darkTextColor as string | undefined);
+  
+  // Each override is emitted twice: inside the media query and behind the Outlook.com attribute
+  const mediaRules: string[] = [];
+  const outlookRules: string[] = [];
+  
+  const addRule = (selectors: string[], property: "background-color" | "color", value: string) => {
+    const attribute = property === "color" ? "[data-ogsc]" : "[data-ogsb]";
+    mediaRules.push(`${selectors.join(", ")} { ${property}: ${value} !important; }`);
+    outlookRules.push(`${selectors.map((s) => (s === "body" ? `body${attribute}` : `${attribute} ${s}`)).join(", ")} { ${property}: ${value} !important; }`);
+  };
+  
+  if (backdrop) addRule(["body", ".email-backdrop"], "background-color", backdrop);
+  if (canvas) addRule([".email-container"], "background-color", canvas);
+  if (text) addRule(["body", ".email-container"], "color", text);
+  
+  rules.forEach(({ backgroundColor, color }, className) => {
+    if (backgroundColor) addRule([`.${className}`], "background-color", formatColor(backgroundColor));
+    if (color) {
+      addRule(
+        [`.${className}`, ...TEXT_SELECTORS.map((tag) => `.${className} > ${tag}`)],
+        "color",
+        formatColor(color)
+      );
+    }
+  });
+  
+  // Alternate image sources
+  mediaRules.push(`.dm-light-img { display: none !important; }`);
+  mediaRules.push(`.dm-dark-img { display: block !important; max-height: none !important; overflow: visible !important; }`);
+  outlookRules.push(`[data-ogsc] .dm-light-img { display: none !important; }`);
+  outlookRules.push(`[data-ogsc] .dm-dark-img { display: block !important; max-height: none !important; overflow: visible !important; }`);
+  
+  return `
+    /* Dark Mode */
+    :root {
+      color-scheme: light dark;
+      supported-color-schemes: light dark;
+    }
+    @media (prefers-color-scheme: dark) {
+      ${mediaRules.join("\n      ")}
+    }
+    ${outlookRules.join("\n    ")}`;
+}
+
+/**
+ * Switches a rendered email into its dark-mode look (for previews) by
+ * activating the Outlook.com [data-ogsc] / [data-ogsb] overrides
+ */
+export function enableDarkModePreview(html: string): string {
+  return html.replace(/<body\b/, "<body data-ogsc data-ogsb");
+}
+
+// ============================================================================
+// Responsive Overrides
+// ============================================================================
+
+// Mobile overrides collected while rendering, keyed by CSS class
+type ResponsiveRules = Map<string, Pick<BlockStyle, "mobilePadding" | "mobileFontSize" | "mobileTextAlign">>;
+
+function getResponsiveClass(blockId: string): string {
+  return `rs-${blockId.replace(/[^a-zA-Z0-9_-]/g, "")}`;
+}
+
+/**
+ * Wraps blocks limited to one device. Mobile-only content is left out of
+ * desktop Outlook and stays collapsed until the media query reveals it.
+ */
+function applyDeviceVisibility(html: string, style: BlockStyle): string {
+  let wrapped = html;
+  if (style.hideOnDesktop) {
+    wrapped = `<!--[if !mso]><!--><div class="rs-show-mobile" style="display: none; max-height: 0; overflow: hidden;">${wrapped}</div><!--<![endif]-->`;
+  }
+  if (style.hideOnMobile) {
+    wrapped = `<div class="rs-hide-mobile">${wrapped}</div>`;
+  }
+  return wrapped;
+}
+
+/**
+ * Builds the per-block rules placed inside the mobile media query
+ */
+function buildResponsiveStyles(rules: ResponsiveRules, html: string): string {
+  const lines: string[] = [];
+  
+  rules.forEach(({ mobilePadding, mobileFontSize, mobileTextAlign }, className) => {
+    const textSelectors = [`.${className}`, ...TEXT_SELECTORS.map((tag) => `.${className} > ${tag}`)];
+    if (mobilePadding) {
+      const { top = 0, right = 0, bottom = 0, left = 0 } = mobilePadding;
+      lines.push(`.${className} { padding: ${top}px ${right}px ${bottom}px ${left}px !important; }`);
+    }
+    if (mobileFontSize) {
+      lines.push(`${[...textSelectors, `.${className} a`].join(", ")} { font-size: ${mobileFontSize}px !important; }`);
+    }
+    if (mobileTextAlign) {
+      lines.push(`${textSelectors.join(", ")} { text-align: ${mobileTextAlign} !important; }`);
+    }
+  });
+  
+  if (html.includes("rs-hide-mobile")) {
+    lines.push(`.rs-hide-mobile { display: none !important; }`);
+  }
+  if (html.includes("rs-show-mobile")) {
+    lines.push(`.rs-show-mobile { display: block !important; max-height: none !important; overflow: visible !important; }`);
+  }
+  
+  return lines.map((line) => `\n      ${line}`).join("");
+}
+
+// ============================================================================
+// Outlook (VML) Fallbacks
+// ============================================================================
+
+const CANVAS_WIDTH = 600;
+
+/**
+ * Bulletproof button for desktop Outlook: a v:roundrect sized to the padded
+ * button, so rounded corners and padding survive the Word rendering engine
+ */
+function renderVmlButton(options: {
+  href: string;
+  text: string;
+  width: number;
+  height: number;
+  borderRadius: number;
+  fillColor: string;
+  textColor: string;
+  fontFamily: string;
+  fontSize: number;
+}): string {
+  const arcsize = Math.min(50, Math.round((options.borderRadius / options.height) * 100));
+  
+  return `<!--[if mso]>
+    <v:roundrect xmlns:v="urn:schemas-microsoft-com:vml" xmlns:w="urn:schemas-microsoft-com:office:word" href="${options.href}" style="height:${options.height}px;v-text-anchor:middle;width:${options.width}px;" arcsize="${arcsize}%" strokecolor="${options.fillColor}" fillcolor="${options.fillColor}">
+      <w:anchorlock/>
+      <center style="color:${options.textColor};font-family:${options.fontFamily};font-size:${options.fontSize}px;font-weight:bold;">${options.text}</center>
+    </v:roundrect>
+    <![endif]-->`;
+}
+
+/**
+ * Estimates the rendered width of a padded button (VML shapes need fixed sizes)
+ */
+function estimateButtonWidth(text: string, fontSize: number, horizontalPadding: number): number {
+  const plainText = text.replace(/<[^>]+>/g, "");
+  return Math.ceil(plainText.length * fontSize * 0.6) + horizontalPadding * 2;
+}
+
+/**
+ * Background image for desktop Outlook: wraps cell content in a v:rect
+ * filled with the image. Returns the opening and closing fragments.
+ */
+function renderVmlBackground(options: {
+  imageUrl: string;
+  color: string;
+  width: number;
+  height?: number;
+}): { open: string; close: string } {
+  const size = `width:${options.width}px;${options.height ? `height:${options.height}px;` : ""}`;
+  const fitToText = options.height ? "" : ` style="mso-fit-shape-to-text:true"`;
+  
+  return {
+    open: `<!--[if mso]>
+          <v:rect xmlns:v="urn:schemas-microsoft-com:vml" fill="true" stroke="false" style="${size}">
+            <v:fill type="frame" src="${options.imageUrl}" color="${options.color}" />
+            <v:textbox inset="0,0,0,0"${fitToText}>
+          <![endif]-->`,
+    close: `<!--[if mso]>
+            </v:textbox>
+          </v:rect>
+          <![endif]-->`,
+  };
+}
+
 // ============================================================================
 // Block Renderers
 // ============================================================================
 
-function renderTextBlock(block: EmailBlock, document: EmailBuilderDocument): string {
+function renderTextBlock(
+  block: EmailBlock,
+  document: EmailBuilderDocument,
+  fonts: FontStacks = getFontStacks(document)
+): string {
   if (block.type !== "Text") return "";
   
   const props = block.data.props;
   const style = block.data.style;
-  const fontFamily = FONT_FAMILIES[document.fontFamily];
+  const fontFamily = fonts.body;
   
   const inlineStyles = buildInlineStyles(style);
   const fullStyles = `${inlineStyles}; font-family: ${fontFamily};`.replace(/^; /, "");
@@ -117,12 +342,16 @@ function renderTextBlock(block: EmailBlock, document: EmailBuilderDocument): str
   `;
 }
 
-function renderHeadingBlock(block: EmailBlock, document: EmailBuilderDocument): string {
+function renderHeadingBlock(
+  block: EmailBlock,
+  document: EmailBuilderDocument,
+  fonts: FontStacks = getFontStacks(document)
+): string {
   if (block.type !== "Heading") return "";
   
   const props = block.data.props;
   const style = block.data.style;
-  const fontFamily = FONT_FAMILIES[document.fontFamily];
+  const fontFamily = fonts.heading;
   const level = parseInt(props.level || "2");
   const tag = `h${level}`;
   
@@ -161,7 +390,15 @@ function renderImageBlock(block: EmailBlock): string {
     imageStyles += ` height: ${props.height}px;`;
   }
   
-  const imageTag = `<img src="${props.url || ""}" alt="${props.alt || ""}" style="${imageStyles}"${props.width ? ` width="${props.width}"` : ""}${props.height ? ` height="${props.height}"` : ""} />`;
+  const sizeAttrs = `${props.width ? ` width="${props.width}"` : ""}${props.height ? ` height="${props.height}"` : ""}`;
+  let imageTag = `<img src="${props.url || ""}" alt="${props.alt || ""}" style="${imageStyles}"${sizeAttrs} />`;
+  
+  // Dark mode source is hidden by default and swapped in by the dark-mode styles
+  if (props.darkUrl) {
+    const hiddenStyles = imageStyles.replace("display: block;", "display: none; max-height: 0; overflow: hidden; mso-hide: all;");
+    imageTag = `<img src="${props.url || ""}" alt="${props.alt || ""}" class="dm-light-img" style="${imageStyles}"${sizeAttrs} />
+          <!--[if !mso]><!--><img src="${props.darkUrl}" alt="${props.alt || ""}" class="dm-dark-img" style="${hiddenStyles}"${sizeAttrs} /><!--<![endif]-->`;
+  }
   
   const content = props.linkHref
     ? `<a href="${props.linkHref}" style="text-decoration: none;">${imageTag}</a>`
@@ -180,56 +417,60 @@ function renderImageBlock(block: EmailBlock): string {
   `;
 }
 
-function renderButtonBlock(block: EmailBlock, document: EmailBuilderDocument): string {
+function renderButtonBlock(
+  block: EmailBlock,
+  document: EmailBuilderDocument,
+  outlookCompatibility = true,
+  fonts: FontStacks = getFontStacks(document)
+): string {
   if (block.type !== "Button") return "";
   
   const props = block.data.props;
   const style = block.data.style;
-  const fontFamily = FONT_FAMILIES[document.fontFamily];
+  const fontFamily = fonts.body;
   
   const containerStyles = buildInlineStyles({
     ...style,
     textAlign: "center",
   });
   
+  const href = props.url || "#";
+  const text = props.text || "Button";
   const buttonColor = formatColor(props.buttonColor || "#2563EB");
   const buttonTextColor = formatColor(props.buttonTextColor || "#FFFFFF");
-  const buttonColorRgb = hexToRgb(buttonColor);
-  
-  // Outlook VML version
-  const vmlButton = `
-    <!--[if mso]>
-    <v:roundrect xmlns:v="urn:schemas-microsoft-com:vml" xmlns:w="urn:schemas-microsoft-com:office:word" 
-      href="${props.url || "#"}" 
-      style="height:40px;v-text-anchor:middle;width:${props.fullWidth ? '100%' : '200px'};" 
-      arcsize="10%" 
-      strokecolor="${buttonColor}" 
-      fillcolor="${buttonColor}">
-      <w:anchorlock/>
-      <center style="color:${buttonTextColor};font-family:${fontFamily};font-size:16px;font-weight:bold;">
-        ${props.text || "Button"}
-      </center>
-    </v:roundrect>
-    <![endif]-->
-  `;
-  
-  // HTML version for other clients
-  const htmlButton = `
+  const fontSize = style.fontSize || 16;
+  const paddingY = 12;
+  const paddingX = 24;
+  const borderRadius = 6;
+  
+  const htmlButton = `<a href="${href}" 
+       style="background-color: ${buttonColor}; color: ${buttonTextColor}; font-family: ${fontFamily}; font-size: ${fontSize}px; line-height: ${Math.round(fontSize * 1.25)}px; display: inline-block; padding: ${paddingY}px ${paddingX}px; text-decoration: none; border-radius: ${borderRadius}px; font-weight: bold; ${props.fullWidth ? 'width: 100%; box-sizing: border-box;' : ''}">
+      ${text}
+    </a>`;
+  
+  // Outlook gets a VML roundrect; every other client gets the HTML link
+  const buttonHtml = outlookCompatibility
+    ? `${renderVmlButton({
+        href,
+        text,
+        width: props.fullWidth ? CANVAS_WIDTH - 40 : estimateButtonWidth(text, fontSize, paddingX),
+        height: Math.round(fontSize * 1.25) + paddingY * 2,
+        borderRadius,
+        fillColor: buttonColor,
+        textColor: buttonTextColor,
+        fontFamily,
+        fontSize,
+      })}
     <!--[if !mso]><!-->
-    <a href="${props.url || "#"}" 
-       style="background-color: ${buttonColor}; color: ${buttonTextColor}; font-family: ${fontFamily}; display: inline-block; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold; ${props.fullWidth ? 'width: 100%;' : ''}"
-       class="mso-hide">
-      ${props.text || "Button"}
-    </a>
-    <!--<![endif]-->
-  `;
+    ${htmlButton}
+    <!--<![endif]-->`
+    : htmlButton;
   
   return `
     <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
       <tr>
         <td style="${containerStyles}" align="center">
-          ${vmlButton}
-          ${htmlButton}
+          ${buttonHtml}
         </td>
       </tr>
     </table>
@@ -279,30 +520,50 @@ function renderSpacerBlock(block: EmailBlock): string {
 function renderContainerBlock(
   block: EmailBlock,
   document: EmailBuilderDocument,
-  renderBlock: (blockId: string) => string
+  renderBlock: (blockId: string) => string,
+  outlookCompatibility = true
 ): string {
   if (block.type !== "Container") return "";
   
   const props = block.data.props;
   const style = block.data.style;
   
-  const containerStyles = buildInlineStyles({
-    ...style,
-    backgroundColor: style.backgroundColor || (props as any).backgroundColor || undefined,
-  });
-  
   const bgcolor = style.backgroundColor || (props as any).backgroundColor || "";
   const bgcolorAttr = bgcolor ? ` bgcolor="${formatColor(bgcolor)}"` : "";
   
-  const childrenHtml = props.childrenIds
+  const containerStyles = [
+    buildInlineStyles({
+      ...style,
+      backgroundColor: bgcolor || undefined,
+    }),
+    props.backgroundImage
+      ? `background-image: url(${props.backgroundImage}); background-size: cover; background-position: center; background-repeat: no-repeat`
+      : "",
+  ].filter(Boolean).join("; ");
+  const backgroundAttr = props.backgroundImage ? ` background="${props.backgroundImage}"` : "";
+  
+  let childrenHtml = props.childrenIds
     .map((childId) => renderBlock(childId))
-    .join("");
+    .join("") || "&nbsp;";
+  
+  if (props.backgroundImage && outlookCompatibility) {
+    const vml = renderVmlBackground({
+      imageUrl: props.backgroundImage,
+      color: formatColor(bgcolor) || "#FFFFFF",
+      width: CANVAS_WIDTH,
+    });
+    childrenHtml = `${vml.open}
+          <div>
+          ${childrenHtml}
+          </div>
+          ${vml.close}`;
+  }
   
   return `
     <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
       <tr>
-        <td style="${containerStyles}"${bgcolorAttr}>
-          ${childrenHtml || "&nbsp;"}
+        <td style="${containerStyles}"${bgcolorAttr}${backgroundAttr}>
+          ${childrenHtml}
         </td>
       </tr>
     </table>
@@ -322,20 +583,24 @@ function renderColumnsBlock(
   const containerStyles = buildInlineStyles(style);
   const numColumns = props.columns.length;
   const columnWidth = Math.floor(100 / numColumns);
+  // Reversed source order inside an rtl row keeps the desktop order while stacking last-to-first
+  const reverse = Boolean(props.reverseOnMobile);
+  const columns = reverse ? [...props.columns].reverse() : props.columns;
+  const columnDir = reverse ? ` dir="ltr"` : "";
   
-  const columnHtml = props.columns.map((column, index) => {
+  const columnHtml = columns.map((column) => {
     const childrenHtml = column.childrenIds
       .map((childId) => renderBlock(childId))
       .join("");
     
     return `
       <!--[if mso]>
-      <td width="${columnWidth}%" valign="top" style="padding: 0 10px;">
+      <td width="${columnWidth}%" valign="top"${columnDir} style="padding: 0 10px;">
         ${childrenHtml || "&nbsp;"}
       </td>
       <![endif]-->
       <!--[if !mso]><!-->
-      <td width="${columnWidth}%" valign="top" style="padding: 0 10px; display: inline-block; vertical-align: top; max-width: ${600 / numColumns}px;">
+      <td class="column" width="${columnWidth}%" valign="top"${columnDir} style="padding: 0 10px; display: inline-block; vertical-align: top; max-width: ${600 / numColumns}px;">
         ${childrenHtml || "&nbsp;"}
       </td>
       <!--<![endif]-->
@@ -346,7 +611,7 @@ function renderColumnsBlock(
     <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
       <tr>
         <td style="${containerStyles}">
-          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" dir="ltr">
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" dir="${reverse ? "rtl" : "ltr"}">
             <tr>
               ${columnHtml}
             </tr>
@@ -444,12 +709,16 @@ function renderSocialLinksBlock(block: EmailBlock): string {
   `;
 }
 
-function renderListBlock(block: EmailBlock, document: EmailBuilderDocument): string {
+function renderListBlock(
+  block: EmailBlock,
+  document: EmailBuilderDocument,
+  fonts: FontStacks = getFontStacks(document)
+): string {
   if (block.type !== "List") return "";
   
   const props = block.data.props;
   const style = block.data.style;
-  const fontFamily = FONT_FAMILIES[document.fontFamily];
+  const fontFamily = fonts.body;
   
   const containerStyles = buildInlineStyles(style);
   const fullStyles = `${containerStyles}; font-family: ${fontFamily};`.replace(/^; /, "");
@@ -481,12 +750,17 @@ function renderListBlock(block: EmailBlock, document: EmailBuilderDocument): str
   `;
 }
 
-function renderHeroBlock(block: EmailBlock, document: EmailBuilderDocument): string {
+function renderHeroBlock(
+  block: EmailBlock,
+  document: EmailBuilderDocument,
+  outlookCompatibility = true,
+  fonts: FontStacks = getFontStacks(document)
+): string {
   if (block.type !== "Hero") return "";
   
   const props = block.data.props;
   const style = block.data.style;
-  const fontFamily = FONT_FAMILIES[document.fontFamily];
+  const fontFamily = fonts.body;
   
   const containerStyles = buildInlineStyles({
     ...style,
@@ -500,6 +774,7 @@ function renderHeroBlock(block: EmailBlock, document: EmailBuilderDocument): str
   const backgroundStyle = props.backgroundImage
     ? `background-image: url(${props.backgroundImage}); background-size: cover; background-position: center; background-repeat: no-repeat;`
     : "";
+  const backgroundColor = formatColor(style.backgroundColor || "#FFFFFF");
   
   const headingHtml = props.heading 
     ? `<h1 style="margin: 0 0 16px 0; padding: 0; font-size: 32px; font-weight: bold; color: ${textColor}; font-family: ${fontFamily};">
@@ -515,49 +790,76 @@ function renderHeroBlock(block: EmailBlock, document: EmailBuilderDocument): str
   
   const buttonColor = formatColor(props.buttonColor || "#2563EB");
   const buttonTextColor = formatColor(props.buttonTextColor || "#FFFFFF");
-  const buttonColorRgb = hexToRgb(buttonColor);
   
-  const buttonHtml = props.buttonText && props.buttonUrl
+  const htmlButton = props.buttonText && props.buttonUrl
+    ? `<a href="${props.buttonUrl}" style="display: inline-block; padding: 12px 24px; background-color: ${buttonColor}; color: ${buttonTextColor}; text-decoration: none; border-radius: 6px; font-weight: bold; font-family: ${fontFamily}; font-size: 16px; line-height: 20px;">${props.buttonText}</a>`
+    : "";
+  
+  const buttonHtml = htmlButton
     ? `
       <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
         <tr>
           <td align="center" style="padding: 12px 0;">
-            <!--[if mso]>
-            <v:roundrect xmlns:v="urn:schemas-microsoft-com:vml" xmlns:w="urn:schemas-microsoft-com:office:word" href="${props.buttonUrl}" style="height:44px;v-text-anchor:middle;width:200px;" arcsize="10%" stroke="f" fill="t">
-              <v:fill type="tile" color="${buttonColor}" />
-              <w:anchorlock/>
-              <center style="color:${buttonTextColor};font-family:${fontFamily};font-size:16px;font-weight:bold;">${props.buttonText}</center>
-            </v:roundrect>
-            <![endif]-->
-            <a href="${props.buttonUrl}" style="display: inline-block; padding: 12px 24px; background-color: ${buttonColor}; color: ${buttonTextColor}; text-decoration: none; border-radius: 6px; font-weight: bold; font-family: ${fontFamily}; font-size: 16px;">${props.buttonText}</a>
+            ${outlookCompatibility
+              ? `${renderVmlButton({
+                  href: props.buttonUrl!,
+                  text: props.buttonText!,
+                  width: estimateButtonWidth(props.buttonText!, 16, 24),
+                  height: 44,
+                  borderRadius: 6,
+                  fillColor: buttonColor,
+                  textColor: buttonTextColor,
+                  fontFamily,
+                  fontSize: 16,
+                })}
+            <!--[if !mso]><!-->${htmlButton}<!--<![endif]-->`
+              : htmlButton}
           </td>
         </tr>
       </table>
     `
     : "";
   
-  return `
-    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-      <tr>
-        <td style="${containerStyles} ${backgroundStyle} position: relative; min-height: 200px;" bgcolor="${props.backgroundImage ? '' : formatColor(style.backgroundColor || '#FFFFFF')}">
-          ${props.backgroundImage ? `<div style="position: absolute; top: 0; left: 0; right: 0; bottom: 0; background-color: ${overlayColor};"></div>` : ''}
+  let heroContent = `${props.backgroundImage ? `<!--[if !mso]><!--><div style="position: absolute; top: 0; left: 0; right: 0; bottom: 0; background-color: ${overlayColor};"></div><!--<![endif]-->` : ''}
           <div style="position: relative; z-index: 1; max-width: 600px; margin: 0 auto; padding: 0 20px;">
             ${headingHtml}
             ${subheadingHtml}
             ${buttonHtml}
-          </div>
+          </div>`;
+  
+  // Outlook ignores CSS backgrounds - paint the image with a VML rect instead
+  if (props.backgroundImage && outlookCompatibility) {
+    const vml = renderVmlBackground({
+      imageUrl: props.backgroundImage,
+      color: backgroundColor,
+      width: CANVAS_WIDTH,
+    });
+    heroContent = `${vml.open}
+          ${heroContent}
+          ${vml.close}`;
+  }
+  
+  return `
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+      <tr>
+        <td style="${containerStyles}; ${backgroundStyle} position: relative; min-height: 200px;" bgcolor="${backgroundColor}"${props.backgroundImage ? ` background="${props.backgroundImage}"` : ""}>
+          ${heroContent}
         </td>
       </tr>
     </table>
   `;
 }
 
-function renderQuoteBlock(block: EmailBlock, document: EmailBuilderDocument): string {
+function renderQuoteBlock(
+  block: EmailBlock,
+  document: EmailBuilderDocument,
+  fonts: FontStacks = getFontStacks(document)
+): string {
   if (block.type !== "Quote") return "";
   
   const props = block.data.props;
   const style = block.data.style;
-  const fontFamily = FONT_FAMILIES[document.fontFamily];
+  const fontFamily = fonts.body;
   
   const quoteStyle = props.quoteStyle || "border-left";
   const quoteColor = formatColor(props.quoteColor || document.textColor || "#242424");
@@ -598,39 +900,188 @@ function renderQuoteBlock(block: EmailBlock, document: EmailBuilderDocument): st
   `;
 }
 
+/**
+ * Replaces item-scoped variables ({{item}}, {{item.name | upper}}) in a rendered row.
+ * Other variables are left for the template renderer.
+ */
+function replaceItemVariables(html: string, item: unknown, format: FormatOptions): string {
+  return html.replace(/\{\{([^}]+)\}\}/g, (match, content: string) =>
+    /^item(?:$|[.\s|])/.test(content.trim()) ? replaceVariables(match, { item }, format) : match
+  );
+}
+
+function renderRepeatBlock(
+  block: EmailBlock,
+  variables: Record<string, any> | undefined,
+  createRenderer: (scope?: Record<string, any>) => (blockId: string) => string,
+  format: FormatOptions
+): string {
+  if (block.type !== "Repeat") return "";
+  
+  const props = block.data.props;
+  const style = block.data.style;
+  const childrenIds = props.childrenIds || [];
+  
+  const containerStyles = buildInlineStyles(style);
+  const bgcolorAttr = style.backgroundColor ? ` bgcolor="${formatColor(style.backgroundColor)}"` : "";
+  
+  let rowsHtml: string;
+  if (!variables) {
+    // No send-time data (editor export) - keep the item template as-is
+    const renderBlock = createRenderer();
+    rowsHtml = childrenIds.map((childId) => renderBlock(childId)).join("");
+  } else {
+    const items = resolveVariablePath(variables, props.itemsPath || "");
+    if (!Array.isArray(items) || items.length === 0) return "";
+    
+    rowsHtml = items
+      .map((item) => {
+        const renderBlock = createRenderer({ ...variables, item });
+        const rowHtml = childrenIds.map((childId) => renderBlock(childId)).join("");
+        return replaceItemVariables(rowHtml, item, format);
+      })
+      .join("");
+  }
+  
+  return `
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+      <tr>
+        <td style="${containerStyles}"${bgcolorAttr}>
+          ${rowsHtml}
+        </td>
+      </tr>
+    </table>
+  `;
+}
+
+/**
+ * Desktop Outlook ignores the rest of a font stack when the first font
+ * isn't installed, so it gets the fallback stacks outright.
+ */
+function buildMsoFontStyles(document: EmailBuilderDocument, fonts: CustomFont[]): string {
+  const bodyFallback = getFallbackStack(document.fontFamily, fonts);
+  const rules = [`body, table, td, a { font-family: ${bodyFallback} !important; }`];
+  if (findCustomFontIds(document).length > 0) {
+    const headingFallback = getFallbackStack(
+      (document.themeHeadingFont as FontFamily | undefined) || document.fontFamily,
+      fonts
+    );
+    rules.push(`p, li, span, div, blockquote { font-family: ${bodyFallback} !important; }`);
+    rules.push(`h1, h2, h3, h4, h5, h6 { font-family: ${headingFallback} !important; }`);
+  }
+  return rules.join("\n    ");
+}
+
 // ============================================================================
 // Main Renderer Function
 // ============================================================================
 
+export interface StaticMarkupOptions {
+  /**
+   * Send-time variables used to evaluate block visibility rules.
+   * When omitted, every block is rendered (editor preview / export).
+   */
+  variables?: Record<string, any>;
+  /**
+   * Emit VML fallbacks for desktop Outlook (bulletproof buttons and
+   * background images). Enabled by default.
+   */
+  outlookCompatibility?: boolean;
+  /**
+   * Outline colors keyed by block id. Used by the version history diff
+   * view; never set for sent email.
+   */
+  highlightBlocks?: Record<string, string>;
+  /**
+   * Language of the email (e.g. the template language being sent). Takes
+   * precedence over the document's own lang.
+   */
+  lang?: string;
+  /**
+   * IANA time zone for date filters in Repeat rows
+   */
+  timeZone?: string;
+  /**
+   * Organization web fonts the document may reference. Unknown custom
+   * fonts render with the default system stack.
+   */
+  fonts?: CustomFont[];
+}
+
+interface BlockRenderContext {
+  variables?: Record<string, any>; // Current variable scope (Repeat blocks add `item`)
+  darkModeRules: DarkModeRules;
+  responsiveRules: ResponsiveRules;
+  outlookCompatibility: boolean;
+  highlightBlocks?: Record<string, string>;
+  fontStacks: FontStacks;
+  format: FormatOptions; // Locale and time zone for variable filters
+}
+
 /**
- * Renders EmailBuilderDocument to email-safe HTML
+ * Creates a recursive block renderer bound to a render context.
+ * Repeat blocks create child renderers with `item` added to the scope.
  */
-export function renderToStaticMarkup(document: EmailBuilderDocument): string {
-  const backdropColor = formatColor(document.backdropColor || "#F8F8F8");
-  const canvasColor = formatColor(document.canvasColor || "#FFFFFF");
-  const textColor = formatColor(document.textColor || "#242424");
-  const fontFamily = FONT_FAMILIES[document.fontFamily || "MODERN_SANS"];
+function createBlockRenderer(
+  document: EmailBuilderDocument,
+  context: BlockRenderContext
+): (blockId: string) => string {
+  const { variables: scope, darkModeRules, responsiveRules, outlookCompatibility, highlightBlocks, fontStacks } = context;
   
-  // Recursive block renderer
   const renderBlock = (blockId: string): string => {
+    const highlight = highlightBlocks?.[blockId];
+    const html = renderStyledBlock(blockId);
+    if (!html || !highlight) return html;
+    return `<div style="outline: 3px solid ${highlight}; outline-offset: -3px;">${html}</div>`;
+  };
+  
+  const renderStyledBlock = (blockId: string): string => {
     const block = document[blockId] as EmailBlock | undefined;
     if (!block) return "";
+    if (scope && !isBlockVisible(block, scope)) return "";
+    
+    let html = renderBlockContent(block);
+    if (!html) return html;
     
+    const style = block.data.style;
+    if (style.darkBackgroundColor || style.darkColor) {
+      const className = getDarkModeClass(blockId);
+      darkModeRules.set(className, {
+        backgroundColor: style.darkBackgroundColor || undefined,
+        color: style.darkColor || undefined,
+      });
+      html = addCellClass(html, className);
+    }
+    
+    if (style.mobilePadding || style.mobileFontSize || style.mobileTextAlign) {
+      const className = getResponsiveClass(blockId);
+      responsiveRules.set(className, {
+        mobilePadding: style.mobilePadding,
+        mobileFontSize: style.mobileFontSize,
+        mobileTextAlign: style.mobileTextAlign,
+      });
+      html = addCellClass(html, className);
+    }
+    
+    return applyDeviceVisibility(html, style);
+  };
+  
+  const renderBlockContent = (block: EmailBlock): string => {
     switch (block.type) {
       case "Text":
-        return renderTextBlock(block, document);
+        return renderTextBlock(block, document, fontStacks);
       case "Heading":
-        return renderHeadingBlock(block, document);
+        return renderHeadingBlock(block, document, fontStacks);
       case "Image":
         return renderImageBlock(block);
       case "Button":
-        return renderButtonBlock(block, document);
+        return renderButtonBlock(block, document, outlookCompatibility, fontStacks);
       case "Divider":
         return renderDividerBlock(block);
       case "Spacer":
         return renderSpacerBlock(block);
       case "Container":
-        return renderContainerBlock(block, document, renderBlock);
+        return renderContainerBlock(block, document, renderBlock, outlookCompatibility);
       case "Columns":
         return renderColumnsBlock(block, document, renderBlock);
       case "Avatar":
@@ -640,32 +1091,114 @@ export function renderToStaticMarkup(document: EmailBuilderDocument): string {
       case "SocialLinks":
         return renderSocialLinksBlock(block);
       case "List":
-        return renderListBlock(block, document);
+        return renderListBlock(block, document, fontStacks);
       case "Hero":
-        return renderHeroBlock(block, document);
+        return renderHeroBlock(block, document, outlookCompatibility, fontStacks);
       case "Quote":
-        return renderQuoteBlock(block, document);
+        return renderQuoteBlock(block, document, fontStacks);
+      case "Repeat":
+        return renderRepeatBlock(
+          block,
+          scope,
+          (itemScope) => createBlockRenderer(document, { ...context, variables: itemScope }),
+          context.format
+        );
+      case "Partial":
+        // Partials are inlined by renderEmailTemplate; unresolved ones render nothing
+        return "";
       default:
         return "";
     }
   };
   
+  return renderBlock;
+}
+
+/**
+ * Renders a single block (and its children) to an HTML fragment
+ */
+export function renderBlockMarkup(
+  document: EmailBuilderDocument,
+  blockId: string,
+  options: StaticMarkupOptions = {}
+): string {
+  const resolved = resolveThemeTokens(document);
+  return createBlockRenderer(resolved, {
+    variables: options.variables,
+    darkModeRules: new Map(),
+    responsiveRules: new Map(),
+    outlookCompatibility: options.outlookCompatibility ?? true,
+    highlightBlocks: options.highlightBlocks,
+    fontStacks: getFontStacks(resolved, options.fonts),
+    format: { language: options.lang || (resolved.lang as string | undefined), timeZone: options.timeZone },
+  })(blockId);
+}
+
+/**
+ * Renders EmailBuilderDocument to email-safe HTML
+ */
+export function renderToStaticMarkup(
+  source: EmailBuilderDocument,
+  options: StaticMarkupOptions = {}
+): string {
+  const { variables } = options;
+  const document = resolveThemeTokens(source);
+  const backdropColor = formatColor(document.backdropColor || "#F8F8F8");
+  const canvasColor = formatColor(document.canvasColor || "#FFFFFF");
+  const textColor = formatColor(document.textColor || "#242424");
+  const fonts = options.fonts || [];
+  const fontStacks = getFontStacks(document, fonts);
+  const fontFamily = fontStacks.body;
+  
+  const darkModeRules: DarkModeRules = new Map();
+  const responsiveRules: ResponsiveRules = new Map();
+  const renderBlock = createBlockRenderer(document, {
+    variables,
+    darkModeRules,
+    responsiveRules,
+    outlookCompatibility: options.outlookCompatibility ?? true,
+    highlightBlocks: options.highlightBlocks,
+    fontStacks,
+    format: { language: options.lang || (document.lang as string | undefined), timeZone: options.timeZone },
+  });
+  
   // Render all root children
-  const bodyContent = document.childrenIds
+  const renderedBlocks = document.childrenIds
     .map((blockId) => renderBlock(blockId))
     .join("");
+  const linkColor = document.themeLinkColor as string | undefined;
+  const bodyContent = linkColor ? applyLinkColor(renderedBlocks, formatColor(linkColor)) : renderedBlocks;
+  
+  const darkMode = hasDarkModeSettings(document, darkModeRules, bodyContent);
+  const darkModeMeta = darkMode
+    ? `
+  <meta name="color-scheme" content="light dark">
+  <meta name="supported-color-schemes" content="light dark">`
+    : "";
+  const darkModeStyles = darkMode ? buildDarkModeStyles(document, darkModeRules) : "";
+  const responsiveStyles = buildResponsiveStyles(responsiveRules, bodyContent);
+  const lang = options.lang || (document.lang as string | undefined);
+  const dir = (document.dir as string | undefined) || getTextDirection(lang);
+  const langAttributes = `${lang ? ` lang="${lang}"` : ""} dir="${dir}"`;
+  const preheaderMarkup = renderPreheader(document.preheader as string | undefined);
+  const preheader = preheaderMarkup ? `
+  ${preheaderMarkup}` : "";
+  const usedFontIds = findCustomFontIds(document);
+  const fontFaces = renderFontFaces(fonts.filter((font) => usedFontIds.includes(font.id)));
+  const msoFontStyles = buildMsoFontStyles(document, fonts);
   
   // Build full HTML document
   return `<!DOCTYPE html>
-<html xmlns="http://www.w3.org/1999/xhtml" xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office">
+<html${langAttributes} xmlns="http://www.w3.org/1999/xhtml" xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office">
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <meta http-equiv="X-UA-Compatible" content="IE=edge">
-  <title>Email Template</title>
+  <meta http-equiv="X-UA-Compatible" content="IE=edge">${darkModeMeta}
+  <title>Email Template</title>${fontFaces ? `
+  ${fontFaces}` : ""}
   <!--[if mso]>
   <style type="text/css">
-    body, table, td, a { font-family: ${fontFamily} !important; }
+    ${msoFontStyles}
   </style>
   <![endif]-->
   <style type="text/css">
@@ -698,13 +1231,13 @@ export function renderToStaticMarkup(document: EmailBuilderDocument): string {
         display: block !important;
         width: 100% !important;
         max-width: 100% !important;
-      }
-    }
+      }${responsiveStyles}
+    }${darkModeStyles}
   </style>
 </head>
-<body style="margin: 0; padding: 0; background-color: ${backdropColor}; font-family: ${fontFamily}; color: ${textColor};">
+<body style="margin: 0; padding: 0; background-color: ${backdropColor}; font-family: ${fontFamily}; color: ${textColor};">${preheader}
   <!-- Outer table for backdrop -->
-  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" bgcolor="${backdropColor}">
+  <table role="presentation" class="email-backdrop" width="100%" cellpadding="0" cellspacing="0" border="0" bgcolor="${backdropColor}">
     <tr>
       <td align="center" style="padding: 20px 0;">
         <!-- Email body container (600px max width) -->
@@ -0,0 +1,100 @@
+/**
+ * Email Builder Snippets
+ * Saves a block subtree as a reusable snippet and clones it back with fresh ids
+ */
+
+import { z } from "zod";
+import type { EmailBuilderDocument, EmailBlock } from "./types";
+import { generateBlockId } from "./blocks";
+
+// ============================================================================
+// Snippet Structure
+// ============================================================================
+
+/**
+ * Stored in Snippet.structure: the root block id plus every block in its subtree
+ */
+export interface SnippetStructure {
+  rootId: string;
+  blocks: Record<string, EmailBlock>;
+}
+
+export const SnippetStructureSchema = z
+  .object({
+    rootId: z.string().min(1),
+    blocks: z.record(z.string(), z.any()),
+  })
+  .refine((structure) => structure.rootId in structure.blocks, {
+    message: "Snippet root block is missing",
+  });
+
+/**
+ * Get the direct child ids of a layout block (Container, Repeat, Columns)
+ */
+export function getChildBlockIds(block: EmailBlock): string[] {
+  if (block.type === "Container" || block.type === "Repeat") {
+    return block.data.props.childrenIds || [];
+  }
+  if (block.type === "Columns") {
+    return (block.data.props.columns || []).flatMap((column) => column.childrenIds || []);
+  }
+  return [];
+}
+
+/**
+ * Collect a block and all of its descendants into a snippet structure
+ */
+export function extractSnippetStructure(
+  document: EmailBuilderDocument,
+  blockId: string
+): SnippetStructure | null {
+  const root = document[blockId] as EmailBlock | undefined;
+  if (!root || typeof root !== "object" || !("type" in root)) return null;
+
+  const blocks: Record<string, EmailBlock> = {};
+  const collect = (id: string) => {
+    const block = document[id] as EmailBlock | undefined;
+    if (!block || blocks[id]) return;
+    blocks[id] = JSON.parse(JSON.stringify(block));
+    getChildBlockIds(block).forEach(collect);
+  };
+  collect(blockId);
+
+  return { rootId: blockId, blocks };
+}
+
+/**
+ * Clone a snippet's blocks with fresh ids so it can be inserted more than once.
+ * Child references pointing outside the snippet are dropped.
+ */
+export function instantiateSnippet(structure: SnippetStructure): SnippetStructure {
+  const blocks: Record<string, EmailBlock> = {};
+
+  const cloneWithChildren = (oldId: string): string | null => {
+    const source = structure.blocks[oldId];
+    if (!source) return null;
+
+    const newId = generateBlockId();
+    const cloned = JSON.parse(JSON.stringify(source)) as EmailBlock;
+    const remap = (ids: string[] = []) =>
+      ids.map(cloneWithChildren).filter((id): id is string => id !== null);
+
+    if (cloned.type === "Container" || cloned.type === "Repeat") {
+      cloned.data.props.childrenIds = remap(cloned.data.props.childrenIds);
+    } else if (cloned.type === "Columns") {
+      cloned.data.props.columns = cloned.data.props.columns.map((column) => ({
+        childrenIds: remap(column.childrenIds),
+      }));
+    }
+
+    blocks[newId] = cloned;
+    return newId;
+  };
+
+  const rootId = cloneWithChildren(structure.rootId);
+  if (!rootId) {
+    throw new Error("Snippet root block is missing");
+  }
+
+  return { rootId, blocks };
+}
@@ -7,8 +7,12 @@ import type {
   EmailBuilderDocument,
   EmailBlock,
   BlockType,
+  BlockStyle,
+  FontFamily,
 } from "./types";
 import { createBlock, generateBlockId } from "./blocks";
+import { instantiateSnippet, type SnippetStructure } from "./snippets";
+import { applyBrandKit, type BrandKitSettings } from "./theme";
 
 // ============================================================================
 // State Interface
@@ -16,12 +20,37 @@ import { createBlock, generateBlockId } from "./blocks";
 
 export interface EditorState {
   document: EmailBuilderDocument;
-  selectedBlockId: string | null;
+  selectedBlockId: string | null; // Primary selection (shown in the properties panel)
+  selectedBlockIds: string[]; // Every selected block, including the primary one
   history: EmailBuilderDocument[];
   historyIndex: number;
   isDirty: boolean;
 }
 
+// Root-level document settings (everything except the blocks)
+export interface DocumentSettings {
+  backdropColor?: string;
+  canvasColor?: string;
+  textColor?: string;
+  fontFamily?: FontFamily;
+  darkBackdropColor?: string;
+  darkCanvasColor?: string;
+  darkTextColor?: string;
+  preheader?: string;
+  lang?: string;
+  dir?: "ltr" | "rtl";
+  themePrimaryColor?: string;
+  themeSecondaryColor?: string;
+  themeLinkColor?: string;
+  themeHeadingFont?: FontFamily;
+  themeBodyFont?: FontFamily;
+}
+
+// Style changes applied to a group of blocks; padding sides merge per block
+export type BlockStyleUpdates = Omit<Partial<BlockStyle>, "padding"> & {
+  padding?: Partial<NonNullable<BlockStyle["padding"]>>;
+};
+
 // ============================================================================
 // Action Types
 // ============================================================================
@@ -32,12 +61,23 @@ export type EditorAction =
   | { type: "DELETE_BLOCK"; payload: { blockId: string } }
   | { type: "MOVE_BLOCK"; payload: { blockId: string; newPosition: number; newParentId?: string; columnIndex?: number } }
   | { type: "SELECT_BLOCK"; payload: { blockId: string | null } }
+  | { type: "TOGGLE_BLOCK_SELECTION"; payload: { blockId: string } }
+  | { type: "SELECT_BLOCK_RANGE"; payload: { blockId: string } }
   | { type: "DUPLICATE_BLOCK"; payload: { blockId: string } }
   | { type: "COPY_BLOCK"; payload: { blockId: string } }
   | { type: "PASTE_BLOCK"; payload: { position: number; parentId?: string; columnIndex?: number } }
+  | { type: "DELETE_BLOCKS"; payload: { blockIds: string[] } }
+  | { type: "DUPLICATE_BLOCKS"; payload: { blockIds: string[] } }
+  | { type: "MOVE_BLOCKS"; payload: { blockIds: string[]; newPosition: number; newParentId?: string; columnIndex?: number } }
+  | { type: "WRAP_IN_CONTAINER"; payload: { blockIds: string[] } }
+  | { type: "PASTE_BLOCKS"; payload: { structures: SnippetStructure[]; position: number; parentId?: string; columnIndex?: number } }
+  | { type: "UPDATE_BLOCKS_STYLE"; payload: { blockIds: string[]; style: BlockStyleUpdates } }
+  | { type: "INSERT_SNIPPET"; payload: { structure: SnippetStructure; position: number; parentId?: string; columnIndex?: number } }
   | { type: "UNDO" }
   | { type: "REDO" }
   | { type: "SET_DOCUMENT"; payload: { document: EmailBuilderDocument } }
+  | { type: "UPDATE_DOCUMENT_SETTINGS"; payload: { settings: DocumentSettings } }
+  | { type: "APPLY_BRAND_KIT"; payload: { brandKit: BrandKitSettings } }
   | { type: "MARK_SAVED" };
 
 // ============================================================================
@@ -67,7 +107,7 @@ function getParentChildrenIds(
     return document.childrenIds;
   }
 
-  if (parent.type === "Container") {
+  if (parent.type === "Container" || parent.type === "Repeat") {
     return parent.data.props.childrenIds;
   }
 
@@ -153,7 +193,7 @@ function deleteBlockRecursive(
   if (!block) return;
 
   // Handle nested children
-  if (block.type === "Container") {
+  if (block.type === "Container" || block.type === "Repeat") {
     const childrenIds = block.data.props.childrenIds;
     childrenIds.forEach((childId) => {
       deleteBlockRecursive(document, childId);
@@ -192,7 +232,7 @@ function findParent(
     }
 
     const emailBlock = block as EmailBlock;
-    if (emailBlock.type === "Container") {
+    if (emailBlock.type === "Container" || emailBlock.type === "Repeat") {
       const index = emailBlock.data.props.childrenIds.indexOf(blockId);
       if (index !== -1) {
         return { parentId: id, index };
@@ -231,7 +271,7 @@ function findParentWithColumn(
     }
 
     const emailBlock = block as EmailBlock;
-    if (emailBlock.type === "Container") {
+    if (emailBlock.type === "Container" || emailBlock.type === "Repeat") {
       const index = emailBlock.data.props.childrenIds.indexOf(blockId);
       if (index !== -1) {
         return { parentId: id, index };
@@ -250,6 +290,94 @@ function findParentWithColumn(
   return { parentId: undefined, index: -1 };
 }
 
+/**
+ * Get the children lists a block owns (one per column for Columns blocks)
+ */
+function getChildLists(block: EmailBlock): string[][] {
+  if (block.type === "Container" || block.type === "Repeat") {
+    return [block.data.props.childrenIds];
+  }
+  if (block.type === "Columns") {
+    return block.data.props.columns.map((column) => column.childrenIds);
+  }
+  return [];
+}
+
+/**
+ * Order block ids as they appear in the document and drop blocks whose
+ * ancestor is also listed, so group operations handle each subtree once
+ */
+export function orderSelectedBlocks(
+  document: EmailBuilderDocument,
+  blockIds: string[]
+): string[] {
+  const selected = new Set(blockIds);
+  const ordered: string[] = [];
+
+  const walk = (ids: string[], insideSelection: boolean) => {
+    ids.forEach((id) => {
+      const block = document[id] as EmailBlock | undefined;
+      if (!block) return;
+      const isSelected = selected.has(id);
+      if (isSelected && !insideSelection) ordered.push(id);
+      getChildLists(block).forEach((list) => walk(list, insideSelection || isSelected));
+    });
+  };
+  walk(document.childrenIds, false);
+
+  return ordered;
+}
+
+/**
+ * Check whether a block is, or is nested inside, one of the given blocks
+ */
+function isWithinBlocks(
+  document: EmailBuilderDocument,
+  blockId: string,
+  ancestorIds: string[]
+): boolean {
+  let current: string | undefined = blockId;
+  while (current) {
+    if (ancestorIds.includes(current)) return true;
+    current = findParent(document, current).parentId;
+  }
+  return false;
+}
+
+/**
+ * Clone a block and all of its children with fresh ids
+ */
+function duplicateSubtree(document: EmailBuilderDocument, blockId: string): string {
+  const block = document[blockId] as EmailBlock;
+  const newId = generateBlockId();
+  const clonedBlock = JSON.parse(JSON.stringify(block)) as EmailBlock;
+
+  if (clonedBlock.type === "Container" || clonedBlock.type === "Repeat") {
+    clonedBlock.data.props.childrenIds = clonedBlock.data.props.childrenIds.map(
+      (childId) => duplicateSubtree(document, childId)
+    );
+  } else if (clonedBlock.type === "Columns") {
+    clonedBlock.data.props.columns = clonedBlock.data.props.columns.map((column) => ({
+      childrenIds: column.childrenIds.map((childId) => duplicateSubtree(document, childId)),
+    }));
+  }
+
+  document[newId] = clonedBlock;
+  return newId;
+}
+
+/**
+ * Drop selected ids that no longer exist in the document
+ */
+function pruneSelection(state: EditorState, document: EmailBuilderDocument) {
+  const selectedBlockIds = state.selectedBlockIds.filter((id) => !!document[id]);
+  const selectedBlockId =
+    state.selectedBlockId && document[state.selectedBlockId]
+      ? state.selectedBlockId
+      : selectedBlockIds[selectedBlockIds.length - 1] ?? null;
+  return { selectedBlockId, selectedBlockIds };
+}
+
 // ============================================================================
 // State Reducer
 // ============================================================================
@@ -291,6 +419,7 @@ export function editorReducer(state: EditorState, action: EditorAction): EditorS
         ...state,
         document: newDocument,
         selectedBlockId: newBlockId,
+        selectedBlockIds: [newBlockId],
       };
 
       return addToHistory(newState);
@@ -347,7 +476,7 @@ export function editorReducer(state: EditorState, action: EditorAction): EditorS
       const newState = {
         ...state,
         document: newDocument,
-        selectedBlockId: state.selectedBlockId === blockId ? null : state.selectedBlockId,
+        ...pruneSelection(state, newDocument),
       };
 
       return addToHistory(newState);
@@ -376,51 +505,234 @@ export function editorReducer(state: EditorState, action: EditorAction): EditorS
       return {
         ...state,
         selectedBlockId: action.payload.blockId,
+        selectedBlockIds: action.payload.blockId ? [action.payload.blockId] : [],
       };
     }
 
-    case "DUPLICATE_BLOCK": {
+    case "TOGGLE_BLOCK_SELECTION": {
       const { blockId } = action.payload;
-      const { parentId, index } = findParent(state.document, blockId);
+      if (state.selectedBlockIds.includes(blockId)) {
+        const selectedBlockIds = state.selectedBlockIds.filter((id) => id !== blockId);
+        return {
+          ...state,
+          selectedBlockIds,
+          selectedBlockId:
+            state.selectedBlockId === blockId
+              ? selectedBlockIds[selectedBlockIds.length - 1] ?? null
+              : state.selectedBlockId,
+        };
+      }
 
-      const idMap = new Map<string, string>();
-      const newDocument = cloneDocument(state.document);
+      return {
+        ...state,
+        selectedBlockId: blockId,
+        selectedBlockIds: [...state.selectedBlockIds, blockId],
+      };
+    }
 
-      // Function to recursively duplicate block and all children
-      const duplicateWithChildren = (blockIdToClone: string): string => {
-        const block = newDocument[blockIdToClone] as EmailBlock;
-        const newId = generateBlockId();
-        idMap.set(blockIdToClone, newId);
-
-        const clonedBlock = JSON.parse(JSON.stringify(block)) as EmailBlock;
-
-        // Handle nested children
-        if (clonedBlock.type === "Container") {
-          clonedBlock.data.props.childrenIds = clonedBlock.data.props.childrenIds.map(
-            (childId) => duplicateWithChildren(childId)
-          );
-        } else if (clonedBlock.type === "Columns") {
-          clonedBlock.data.props.columns = clonedBlock.data.props.columns.map((column) => ({
-            childrenIds: column.childrenIds.map((childId) => duplicateWithChildren(childId)),
-          }));
-        }
+    case "SELECT_BLOCK_RANGE": {
+      const { blockId } = action.payload;
+      const anchorId = state.selectedBlockId;
+      if (!anchorId || anchorId === blockId) {
+        return { ...state, selectedBlockId: blockId, selectedBlockIds: [blockId] };
+      }
 
-        newDocument[newId] = clonedBlock;
-        return newId;
+      // Ranges only span siblings; otherwise extend the selection with the block
+      const anchor = findParentWithColumn(state.document, anchorId);
+      const target = findParentWithColumn(state.document, blockId);
+      if (anchor.parentId !== target.parentId || anchor.columnIndex !== target.columnIndex) {
+        return {
+          ...state,
+          selectedBlockIds: state.selectedBlockIds.includes(blockId)
+            ? state.selectedBlockIds
+            : [...state.selectedBlockIds, blockId],
+        };
+      }
+
+      const anchorParent = anchor.parentId ? (state.document[anchor.parentId] as EmailBlock | undefined) : undefined;
+      const siblings =
+        anchor.columnIndex !== undefined && anchorParent?.type === "Columns"
+          ? anchorParent.data.props.columns[anchor.columnIndex]?.childrenIds || []
+          : getParentChildrenIds(state.document, anchor.parentId);
+      const start = Math.min(anchor.index, target.index);
+      const end = Math.max(anchor.index, target.index);
+
+      return {
+        ...state,
+        selectedBlockIds: siblings.slice(start, end + 1),
       };
+    }
 
-      const newBlockId = duplicateWithChildren(blockId);
+    case "DUPLICATE_BLOCK": {
+      const { blockId } = action.payload;
+      const { parentId, index } = findParent(state.document, blockId);
+
+      const newDocument = cloneDocument(state.document);
+      const newBlockId = duplicateSubtree(newDocument, blockId);
       addToParent(newDocument, newBlockId, index + 1, parentId);
 
       const newState = {
         ...state,
         document: newDocument,
         selectedBlockId: newBlockId,
+        selectedBlockIds: [newBlockId],
       };
 
       return addToHistory(newState);
     }
 
+    case "DELETE_BLOCKS": {
+      const blockIds = orderSelectedBlocks(state.document, action.payload.blockIds);
+      if (blockIds.length === 0) return state;
+
+      const newDocument = cloneDocument(state.document);
+      blockIds.forEach((blockId) => {
+        const { parentId, columnIndex } = findParentWithColumn(newDocument, blockId);
+        removeFromParent(newDocument, blockId, parentId, columnIndex);
+        deleteBlockRecursive(newDocument, blockId);
+      });
+
+      return addToHistory({
+        ...state,
+        document: newDocument,
+        ...pruneSelection(state, newDocument),
+      });
+    }
+
+    case "DUPLICATE_BLOCKS": {
+      const blockIds = orderSelectedBlocks(state.document, action.payload.blockIds);
+      if (blockIds.length === 0) return state;
+
+      const newDocument = cloneDocument(state.document);
+      const newIds = blockIds.map((blockId) => {
+        const newId = duplicateSubtree(newDocument, blockId);
+        const { parentId, index, columnIndex } = findParentWithColumn(newDocument, blockId);
+        addToParent(newDocument, newId, index + 1, parentId, columnIndex);
+        return newId;
+      });
+
+      return addToHistory({
+        ...state,
+        document: newDocument,
+        selectedBlockId: newIds[newIds.length - 1],
+        selectedBlockIds: newIds,
+      });
+    }
+
+    case "MOVE_BLOCKS": {
+      const { newPosition, newParentId, columnIndex } = action.payload;
+      const blockIds = orderSelectedBlocks(state.document, action.payload.blockIds);
+      if (blockIds.length === 0) return state;
+
+      // A group cannot be moved into itself
+      if (newParentId && isWithinBlocks(state.document, newParentId, blockIds)) {
+        return state;
+      }
+
+      const newDocument = cloneDocument(state.document);
+
+      // Blocks taken out of the target list before the drop point shift it up
+      let position = newPosition;
+      blockIds.forEach((blockId) => {
+        const from = findParentWithColumn(state.document, blockId);
+        const sameList = from.parentId === newParentId && from.columnIndex === columnIndex;
+        if (sameList && from.index < newPosition) position--;
+        removeFromParent(newDocument, blockId, from.parentId, from.columnIndex);
+      });
+
+      blockIds.forEach((blockId, offset) => {
+        addToParent(newDocument, blockId, Math.max(0, position) + offset, newParentId, columnIndex);
+      });
+
+      return addToHistory({
+        ...state,
+        document: newDocument,
+      });
+    }
+
+    case "WRAP_IN_CONTAINER": {
+      const blockIds = orderSelectedBlocks(state.document, action.payload.blockIds);
+      if (blockIds.length === 0) return state;
+
+      const newDocument = cloneDocument(state.document);
+
+      // The container takes the place of the first block
+      const target = findParentWithColumn(newDocument, blockIds[0]);
+      blockIds.forEach((blockId) => {
+        const { parentId, columnIndex } = findParentWithColumn(newDocument, blockId);
+        removeFromParent(newDocument, blockId, parentId, columnIndex);
+      });
+
+      const containerId = generateBlockId();
+      const container = createBlock("Container");
+      if (container.type === "Container") {
+        container.data.props.childrenIds = blockIds;
+      }
+      newDocument[containerId] = container;
+      addToParent(newDocument, containerId, target.index, target.parentId, target.columnIndex);
+
+      return addToHistory({
+        ...state,
+        document: newDocument,
+        selectedBlockId: containerId,
+        selectedBlockIds: [containerId],
+      });
+    }
+
+    case "PASTE_BLOCKS": {
+      const { structures, position, parentId, columnIndex } = action.payload;
+      if (structures.length === 0) return state;
+
+      const newDocument = cloneDocument(state.document);
+      const newIds = structures.map((structure, offset) => {
+        const { rootId, blocks } = instantiateSnippet(structure);
+        Object.assign(newDocument, blocks);
+        addToParent(newDocument, rootId, position + offset, parentId, columnIndex);
+        return rootId;
+      });
+
+      return addToHistory({
+        ...state,
+        document: newDocument,
+        selectedBlockId: newIds[newIds.length - 1],
+        selectedBlockIds: newIds,
+      });
+    }
+
+    case "UPDATE_BLOCKS_STYLE": {
+      const { blockIds, style } = action.payload;
+      const newDocument = cloneDocument(state.document);
+      const { padding, ...rest }: BlockStyleUpdates = JSON.parse(JSON.stringify(style));
+
+      let updated = 0;
+      blockIds.forEach((blockId) => {
+        const block = newDocument[blockId] as EmailBlock | undefined;
+        if (!block || typeof block !== "object" || !("data" in block)) return;
+        block.data.style = {
+          ...block.data.style,
+          ...rest,
+          ...(padding && {
+            padding: {
+              top: 0,
+              right: 0,
+              bottom: 0,
+              left: 0,
+              ...block.data.style.padding,
+              ...padding,
+            },
+          }),
+        } as BlockStyle;
+        updated++;
+      });
+
+      if (updated === 0) return state;
+
+      return addToHistory({
+        ...state,
+        document: newDocument,
+      });
+    }
+
     case "COPY_BLOCK": {
       // Copy action doesn't modify state, but we store it in a way that can be accessed
       // The actual clipboard storage will be handled in the context
@@ -433,15 +745,35 @@ export function editorReducer(state: EditorState, action: EditorAction): EditorS
       return state;
     }
 
+    case "INSERT_SNIPPET": {
+      const { structure, position, parentId, columnIndex } = action.payload;
+      const { rootId, blocks } = instantiateSnippet(structure);
+
+      const newDocument = cloneDocument(state.document);
+      Object.assign(newDocument, blocks);
+      addToParent(newDocument, rootId, position, parentId, columnIndex);
+
+      const newState = {
+        ...state,
+        document: newDocument,
+        selectedBlockId: rootId,
+        selectedBlockIds: [rootId],
+      };
+
+      return addToHistory(newState);
+    }
+
     case "UNDO": {
       if (state.historyIndex <= 0) {
         return state;
       }
 
       const newIndex = state.historyIndex - 1;
+      const document = cloneDocument(state.history[newIndex]);
       return {
         ...state,
-        document: cloneDocument(state.history[newIndex]),
+        document,
+        ...pruneSelection(state, document),
         historyIndex: newIndex,
         isDirty: true,
       };
@@ -453,9 +785,11 @@ export function editorReducer(state: EditorState, action: EditorAction): EditorS
       }
 
       const newIndex = state.historyIndex + 1;
+      const document = cloneDocument(state.history[newIndex]);
       return {
         ...state,
-        document: cloneDocument(state.history[newIndex]),
+        document,
+        ...pruneSelection(state, document),
         historyIndex: newIndex,
         isDirty: true,
       };
@@ -525,12 +859,38 @@ export function editorReducer(state: EditorState, action: EditorAction): EditorS
       return {
         ...state,
         document: newDocument,
+        ...pruneSelection(state, newDocument),
         history: [newDocument],
         historyIndex: 0,
         isDirty: false,
       };
     }
 
+    case "UPDATE_DOCUMENT_SETTINGS": {
+      const newDocument = cloneDocument(state.document);
+
+      // Empty values remove optional settings (e.g. clearing a dark mode color)
+      Object.entries(action.payload.settings).forEach(([key, value]) => {
+        if (value === undefined || value === "") {
+          delete newDocument[key];
+        } else {
+          newDocument[key] = value;
+        }
+      });
+
+      return addToHistory({
+        ...state,
+        document: newDocument,
+      });
+    }
+
+    case "APPLY_BRAND_KIT": {
+      return addToHistory({
+        ...state,
+        document: applyBrandKit(state.document, action.payload.brandKit),
+      });
+    }
+
     case "MARK_SAVED": {
       return {
         ...state,
@@ -564,6 +924,7 @@ export function createInitialState(
   return {
     document: cloned,
     selectedBlockId: null,
+    selectedBlockIds: [],
     history: [cloned],
     historyIndex: 0,
     isDirty: false,
@@ -0,0 +1,169 @@
+/**
+ * Theme Tokens
+ * Document-level brand colors and fonts that blocks reference instead of literal values
+ */
+
+import { z } from "zod";
+import { FontFamilySchema, SocialLinkSchema } from "./types";
+import type { EmailBlock, EmailBuilderDocument, FontFamily } from "./types";
+
+export type ThemeColorToken = "primary" | "secondary" | "link";
+
+export const THEME_COLOR_TOKENS: Array<{
+  token: ThemeColorToken;
+  key: "themePrimaryColor" | "themeSecondaryColor" | "themeLinkColor";
+  label: string;
+  fallback: string;
+}> = [
+  { token: "primary", key: "themePrimaryColor", label: "Primary", fallback: "#2563EB" },
+  { token: "secondary", key: "themeSecondaryColor", label: "Secondary", fallback: "#64748B" },
+  { token: "link", key: "themeLinkColor", label: "Link", fallback: "#2563EB" },
+];
+
+// Blocks store token references as CSS variables, so the editor canvas can
+// resolve them natively; the renderer swaps them for literal values
+const THEME_REFERENCE_PATTERN = /var\(--theme-(primary|secondary|link)\)/g;
+
+export const BrandKitSchema = z.object({
+  logoUrl: z.string().nullable().optional(),
+  colors: z
+    .object({
+      primary: z.string().optional(),
+      secondary: z.string().optional(),
+      link: z.string().optional(),
+    })
+    .nullable()
+    .optional(),
+  fonts: z
+    .object({
+      heading: FontFamilySchema.optional(),
+      body: FontFamilySchema.optional(),
+    })
+    .nullable()
+    .optional(),
+  socialLinks: z.array(SocialLinkSchema).nullable().optional(),
+  companyInfo: z
+    .object({
+      name: z.string().optional(),
+      address: z.string().optional(),
+      website: z.string().optional(),
+    })
+    .nullable()
+    .optional(),
+});
+
+export type BrandKitSettings = z.infer<typeof BrandKitSchema>;
+
+/**
+ * Reference to a theme color, for use as a block color value
+ */
+export function themeColorRef(token: ThemeColorToken): string {
+  return `var(--theme-${token})`;
+}
+
+/**
+ * The token a color value refers to, or null for literal colors
+ */
+export function getThemeColorToken(value: string | null | undefined): ThemeColorToken | null {
+  const match = value?.match(/^var\(--theme-(primary|secondary|link)\)$/);
+  return match ? (match[1] as ThemeColorToken) : null;
+}
+
+/**
+ * Current value of every theme color, falling back to the defaults
+ */
+export function getThemeColors(document: EmailBuilderDocument): Record<ThemeColorToken, string> {
+  return Object.fromEntries(
+    THEME_COLOR_TOKENS.map(({ token, key, fallback }) => [token, (document[key] as string | undefined) || fallback])
+  ) as Record<ThemeColorToken, string>;
+}
+
+/**
+ * Literal color for a value that may be a theme reference
+ */
+export function resolveThemeColor(document: EmailBuilderDocument, value: string | null | undefined): string | null | undefined {
+  const token = getThemeColorToken(value);
+  return token ? getThemeColors(document)[token] : value;
+}
+
+/**
+ * CSS custom properties that let the editor canvas display theme references
+ */
+export function getThemeCssVariables(document: EmailBuilderDocument): Record<string, string> {
+  const colors = getThemeColors(document);
+  return Object.fromEntries(
+    Object.entries(colors).map(([token, color]) => [`--theme-${token}`, color])
+  );
+}
+
+/**
+ * Replace theme references with literal values for email output.
+ * The body font token takes the place of the document font.
+ */
+export function resolveThemeTokens(document: EmailBuilderDocument): EmailBuilderDocument {
+  const serialized = JSON.stringify(document);
+  const bodyFont = document.themeBodyFont as FontFamily | undefined;
+  if (!serialized.includes("var(--theme-") && !bodyFont) return document;
+
+  const colors = getThemeColors(document);
+  const resolved = JSON.parse(
+    serialized.replace(THEME_REFERENCE_PATTERN, (_match, token: ThemeColorToken) => colors[token])
+  ) as EmailBuilderDocument;
+  if (bodyFont) resolved.fontFamily = bodyFont;
+  return resolved;
+}
+
+function isBlock(value: unknown): value is EmailBlock {
+  return Boolean(value && typeof value === "object" && "type" in value && "data" in value);
+}
+
+/**
+ * Logo images are Image blocks whose alt text mentions "logo"
+ */
+function isLogoImage(block: EmailBlock): boolean {
+  return block.type === "Image" && /logo/i.test(block.data.props.alt || "");
+}
+
+/**
+ * Fill theme tokens, logo images and social links from an organization's
+ * brand kit. Settings missing from the brand kit are left unchanged.
+ */
+export function applyBrandKit(
+  document: EmailBuilderDocument,
+  brandKit: BrandKitSettings
+): EmailBuilderDocument {
+  const next = JSON.parse(JSON.stringify(document)) as EmailBuilderDocument;
+  const { colors, fonts, logoUrl, socialLinks } = brandKit;
+
+  THEME_COLOR_TOKENS.forEach(({ token, key }) => {
+    if (colors?.[token]) next[key] = colors[token];
+  });
+  if (fonts?.heading) next.themeHeadingFont = fonts.heading;
+  if (fonts?.body) next.themeBodyFont = fonts.body;
+
+  Object.values(next).forEach((block) => {
+    if (!isBlock(block)) return;
+    if (logoUrl && block.type === "Image" && isLogoImage(block)) {
+      block.data.props.url = logoUrl;
+    }
+    if (socialLinks?.length && block.type === "SocialLinks") {
+      block.data.props.socialLinks = socialLinks.map((link) => ({ ...link }));
+    }
+  });
+
+  return next;
+}
+
+/**
+ * Color links that do not set their own color (buttons keep theirs)
+ */
+export function applyLinkColor(html: string, color: string): string {
+  return html.replace(/<a\b([^>]*)>/gi, (tag, attributes: string) => {
+    const style = attributes.match(/\sstyle="([^"]*)"/i);
+    if (!style) return `<a${attributes} style="color: ${color};">`;
+    if (/(^|;)\s*color\s*:/i.test(style[1])) return tag;
+    const existing = style[1].trim();
+    const merged = existing ? `${existing.replace(/;?$/, ";")} color: ${color};` : `color: ${color};`;
+    return `<a${attributes.replace(style[0], ` style="${merged}"`)}>`;
+  });
+}
@@ -24,6 +24,22 @@ export const BlockStyleSchema = z.object({
   fontSize: z.number().optional(),
   fontWeight: z.enum(["normal", "bold"]).default("normal"),
   textAlign: z.enum(["left", "center", "right"]).default("left"),
+  // Dark mode overrides (prefers-color-scheme / Outlook.com [data-ogsc])
+  darkBackgroundColor: z.string().nullable().optional(),
+  darkColor: z.string().nullable().optional(),
+  // Responsive overrides (below the 600px breakpoint)
+  hideOnMobile: z.boolean().optional(),
+  hideOnDesktop: z.boolean().optional(),
+  mobilePadding: z
+    .object({
+      top: z.number().default(0),
+      bottom: z.number().default(0),
+      left: z.number().default(0),
+      right: z.number().default(0),
+    })
+    .optional(),
+  mobileFontSize: z.number().optional(),
+  mobileTextAlign: z.enum(["left", "center", "right"]).optional(),
 });
 
 // BlockStyle type - fields with defaults are made optional for easier object creation
@@ -34,31 +50,100 @@ export type BlockStyle = {
   fontSize?: number;
   fontWeight?: "normal" | "bold";
   textAlign?: "left" | "center" | "right";
+  darkBackgroundColor?: string | null;
+  darkColor?: string | null;
+  hideOnMobile?: boolean;
+  hideOnDesktop?: boolean;
+  mobilePadding?: { top: number; bottom: number; left: number; right: number };
+  mobileFontSize?: number;
+  mobileTextAlign?: "left" | "center" | "right";
+};
+
+// ============================================================================
+// Visibility Rules (Conditional block display)
+// ============================================================================
+
+export const VisibilityOperatorSchema = z.enum([
+  "equals",
+  "notEquals",
+  "contains",
+  "notContains",
+  "greaterThan",
+  "lessThan",
+  "exists",
+  "notExists",
+]);
+
+export type VisibilityOperator = z.infer<typeof VisibilityOperatorSchema>;
+
+export const VisibilityConditionSchema = z.object({
+  path: z.string().min(1), // Variable path, e.g. "customer.tier"
+  operator: VisibilityOperatorSchema.default("equals"),
+  value: z.string().optional(), // Ignored by exists / notExists
+});
+
+export type VisibilityCondition = z.infer<typeof VisibilityConditionSchema>;
+
+export const VisibilityRuleSchema = z.object({
+  match: z.enum(["all", "any"]).default("all"),
+  conditions: z.array(VisibilityConditionSchema).default([]),
+});
+
+// VisibilityRule type - block is shown only when its conditions match
+export type VisibilityRule = {
+  match?: "all" | "any";
+  conditions: VisibilityCondition[];
 };
 
 // ============================================================================
 // Font Family Options
 // ============================================================================
 
-export type FontFamily =
+export type SystemFontFamily =
   | "MODERN_SANS" // Arial, Helvetica, sans-serif
   | "BOOK_SERIF" // Georgia, Times, serif
   | "MONOSPACE" // Courier, monospace
   | "CLASSIC_SANS" // Verdana, Geneva, sans-serif
   | "ELEGANT_SERIF"; // "Times New Roman", Times, serif
 
+// An organization's custom web font, by id - see fonts.ts
+export type CustomFontRef = `custom:${string}`;
+
+export type FontFamily = SystemFontFamily | CustomFontRef;
+
+export const SystemFontFamilySchema = z.enum(["MODERN_SANS", "BOOK_SERIF", "MONOSPACE", "CLASSIC_SANS", "ELEGANT_SERIF"]);
+
+export const FontFamilySchema = z.union([
+  SystemFontFamilySchema,
+  z.custom<CustomFontRef>((value) => typeof value === "string" && /^custom:.+/.test(value), "Invalid custom font"),
+]);
+
 // ============================================================================
 // Root Email Layout
 // ============================================================================
 
 export const EmailLayoutSchema = z.object({
+  // Document shape version - see migrations.ts
+  schemaVersion: z.number().int().positive().optional(),
   backdropColor: z.string().default("#F8F8F8"),
   canvasColor: z.string().default("#FFFFFF"),
   textColor: z.string().default("#242424"),
-  fontFamily: z
-    .enum(["MODERN_SANS", "BOOK_SERIF", "MONOSPACE", "CLASSIC_SANS", "ELEGANT_SERIF"])
-    .default("MODERN_SANS"),
+  fontFamily: FontFamilySchema.default("MODERN_SANS"),
   childrenIds: z.array(z.string()).default([]),
+  darkBackdropColor: z.string().optional(),
+  darkCanvasColor: z.string().optional(),
+  darkTextColor: z.string().optional(),
+  // Hidden preview text shown after the subject in inbox lists
+  preheader: z.string().optional(),
+  // Language (e.g. "en", "ar") and text direction emitted on <html>
+  lang: z.string().optional(),
+  dir: z.enum(["ltr", "rtl"]).optional(),
+  // Theme tokens referenced by blocks as var(--theme-primary) etc. - see theme.ts
+  themePrimaryColor: z.string().optional(),
+  themeSecondaryColor: z.string().optional(),
+  themeLinkColor: z.string().optional(),
+  themeHeadingFont: FontFamilySchema.optional(),
+  themeBodyFont: FontFamilySchema.optional(),
 });
 
 export type EmailLayout = z.infer<typeof EmailLayoutSchema>;
@@ -90,6 +175,7 @@ export const ImageBlockPropsSchema = z.object({
   width: z.number().optional(),
   height: z.number().optional(),
   contentAlignment: z.enum(["left", "center", "right"]).default("center"),
+  darkUrl: z.string().nullable().optional(), // Alternate source shown in dark mode
 });
 
 // ImageBlockProps type - fields with defaults are made optional for easier object creation
@@ -100,6 +186,7 @@ export type ImageBlockProps = {
   width?: number;
   height?: number;
   contentAlignment?: "left" | "center" | "right";
+  darkUrl?: string | null;
 };
 
 // Block 4: Button
@@ -135,6 +222,8 @@ export const ColumnsBlockPropsSchema = z.object({
       childrenIds: z.array(z.string()).default([]),
     })
   ),
+  // Stack columns last-to-first on mobile
+  reverseOnMobile: z.boolean().optional(),
 });
 
 export type ColumnsBlockProps = z.infer<typeof ColumnsBlockPropsSchema>;
@@ -142,6 +231,7 @@ export type ColumnsBlockProps = z.infer<typeof ColumnsBlockPropsSchema>;
 // Block 8: Container
 export const ContainerBlockPropsSchema = z.object({
   childrenIds: z.array(z.string()).default([]),
+  backgroundImage: z.string().nullable().optional(),
 });
 
 export type ContainerBlockProps = z.infer<typeof ContainerBlockPropsSchema>;
@@ -222,6 +312,22 @@ export const QuoteBlockPropsSchema = z.object({
 
 export type QuoteBlockProps = z.infer<typeof QuoteBlockPropsSchema>;
 
+// Block 15: Repeat
+export const RepeatBlockPropsSchema = z.object({
+  itemsPath: z.string().default("order.items"), // Array variable to loop over
+  childrenIds: z.array(z.string()).default([]),
+});
+
+export type RepeatBlockProps = z.infer<typeof RepeatBlockPropsSchema>;
+
+// Block 16: Partial (linked global header/footer, resolved at render time)
+export const PartialBlockPropsSchema = z.object({
+  partialId: z.string().nullable().default(null),
+  partialName: z.string().nullable().default(null), // Cached label for the builder
+});
+
+export type PartialBlockProps = z.infer<typeof PartialBlockPropsSchema>;
+
 // ============================================================================
 // Block Union Types
 // ============================================================================
@@ -240,10 +346,13 @@ export type BlockType =
   | "SocialLinks"
   | "List"
   | "Hero"
-  | "Quote";
+  | "Quote"
+  | "Repeat"
+  | "Partial";
 
 export interface BaseBlock {
   type: BlockType;
+  visibility?: VisibilityRule; // Evaluated against send-time variables
   data: {
     style: BlockStyle;
     props: unknown; // Will be narrowed by block type
@@ -362,6 +471,22 @@ export interface QuoteBlock extends BaseBlock {
   };
 }
 
+export interface RepeatBlock extends BaseBlock {
+  type: "Repeat";
+  data: {
+    style: BlockStyle;
+    props: RepeatBlockProps;
+  };
+}
+
+export interface PartialBlock extends BaseBlock {
+  type: "Partial";
+  data: {
+    style: BlockStyle;
+    props: PartialBlockProps;
+  };
+}
+
 export type EmailBlock =
   | TextBlock
   | HeadingBlock
@@ -376,7 +501,9 @@ export type EmailBlock =
   | SocialLinksBlock
   | ListBlock
   | HeroBlock
-  | QuoteBlock;
+  | QuoteBlock
+  | RepeatBlock
+  | PartialBlock;
 
 // ============================================================================
 // Document Structure (Flat - blocks stored as object with blockId as key)
@@ -388,7 +515,11 @@ export interface EmailBuilderDocument {
   textColor: string;
   fontFamily: FontFamily;
   childrenIds: string[]; // Top-level block IDs
-  [blockId: string]: EmailBlock | string | FontFamily | string[]; // Allow blockId keys
+  // Optional dark mode overrides (darkBackdropColor, darkCanvasColor, darkTextColor),
+  // the preheader, lang/dir and theme tokens (themePrimaryColor, themeHeadingFont, ...)
+  // are stored as string keys alongside the blocks - see EmailLayoutSchema.
+  // schemaVersion is the one numeric key - see migrations.ts
+  [blockId: string]: EmailBlock | string | FontFamily | string[] | number; // Allow blockId keys
 }
 
 // ============================================================================
@@ -399,6 +530,7 @@ export interface EmailBuilderDocument {
 export const createBlockSchema = (type: BlockType) => {
   const baseBlockSchema = z.object({
     type: z.literal(type),
+    visibility: VisibilityRuleSchema.optional(),
     data: z.object({
       style: BlockStyleSchema,
       props: z.unknown(),
@@ -504,16 +636,42 @@ export const createBlockSchema = (type: BlockType) => {
           props: QuoteBlockPropsSchema,
         }),
       });
+    case "Repeat":
+      return baseBlockSchema.extend({
+        data: z.object({
+          style: BlockStyleSchema,
+          props: RepeatBlockPropsSchema,
+        }),
+      });
+    case "Partial":
+      return baseBlockSchema.extend({
+        data: z.object({
+          style: BlockStyleSchema,
+          props: PartialBlockPropsSchema,
+        }),
+      });
     default:
       return baseBlockSchema;
   }
 };
 
 export const EmailBuilderDocumentSchema = z.object({
+  schemaVersion: z.number().int().positive().optional(),
   backdropColor: z.string(),
   canvasColor: z.string(),
   textColor: z.string(),
-  fontFamily: z.enum(["MODERN_SANS", "BOOK_SERIF", "MONOSPACE", "CLASSIC_SANS", "ELEGANT_SERIF"]),
+  fontFamily: FontFamilySchema,
   childrenIds: z.array(z.string()),
+  darkBackdropColor: z.string().optional(),
+  darkCanvasColor: z.string().optional(),
+  darkTextColor: z.string().optional(),
+  preheader: z.string().optional(),
+  lang: z.string().optional(),
+  dir: z.enum(["ltr", "rtl"]).optional(),
+  themePrimaryColor: z.string().optional(),
+  themeSecondaryColor: z.string().optional(),
+  themeLinkColor: z.string().optional(),
+  themeHeadingFont: FontFamilySchema.optional(),
+  themeBodyFont: FontFamilySchema.optional(),
 }).passthrough(); // Allow additional blockId keys
 
@@ -0,0 +1,167 @@
+/**
+ * Version Diff
+ * Block-level comparison of two template versions for the version history browser
+ */
+
+import type { EmailBlock, EmailBuilderDocument } from "./types";
+
+export type BlockChangeType = "added" | "removed" | "modified";
+
+export interface BlockChange {
+  blockId: string;
+  blockType: string;
+  change: BlockChangeType;
+  /**
+   * Changed fields of modified blocks, e.g. "props.text", "style.padding",
+   * "visibility", "type" or "location" (moved to another parent)
+   */
+  fields: string[];
+}
+
+export interface DocumentDiff {
+  blocks: BlockChange[];
+  /** Root settings that differ, e.g. "backdropColor" */
+  settings: string[];
+}
+
+export const DIFF_HIGHLIGHT_COLORS: Record<BlockChangeType, string> = {
+  added: "#16a34a",
+  removed: "#dc2626",
+  modified: "#d97706",
+};
+
+interface BlockEntry {
+  block: EmailBlock;
+  location: string;
+}
+
+function isBlock(value: unknown): value is EmailBlock {
+  return Boolean(value && typeof value === "object" && "type" in value && "data" in value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord).filter((key) => aRecord[key] !== undefined);
+  const bKeys = Object.keys(bRecord).filter((key) => bRecord[key] !== undefined);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every((key) => isEqual(aRecord[key], bRecord[key]));
+}
+
+/**
+ * Collect the blocks reachable from the root in document order,
+ * keyed by id with the parent slot each one sits in
+ */
+function collectBlocks(document: EmailBuilderDocument): Map<string, BlockEntry> {
+  const entries = new Map<string, BlockEntry>();
+
+  const visit = (ids: string[], location: string) => {
+    ids.forEach((id) => {
+      const block = document[id];
+      if (!isBlock(block) || entries.has(id)) return;
+      entries.set(id, { block, location });
+
+      if (block.type === "Container" || block.type === "Repeat") {
+        visit(block.data.props.childrenIds || [], id);
+      } else if (block.type === "Columns") {
+        block.data.props.columns.forEach((column, index) => visit(column.childrenIds || [], `${id}:${index}`));
+      }
+    });
+  };
+
+  visit(document.childrenIds || [], "root");
+  return entries;
+}
+
+/**
+ * Props without the child id lists, so adding a block inside a container
+ * does not also mark the container as modified
+ */
+function contentProps(block: EmailBlock): Record<string, unknown> {
+  const props: Record<string, unknown> = { ...(block.data.props || {}) };
+  if (block.type === "Container" || block.type === "Repeat") {
+    delete props.childrenIds;
+  } else if (block.type === "Columns") {
+    // isEqual skips undefined keys
+    props.columns = (block.data.props.columns || []).map((column) => ({ ...column, childrenIds: undefined }));
+  }
+  return props;
+}
+
+function changedKeys(prefix: string, before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys)
+    .filter((key) => !isEqual(before[key], after[key]))
+    .map((key) => `${prefix}.${key}`);
+}
+
+function diffBlock(before: BlockEntry, after: BlockEntry): string[] {
+  const fields: string[] = [];
+  if (before.block.type !== after.block.type) fields.push("type");
+  fields.push(...changedKeys("props", contentProps(before.block), contentProps(after.block)));
+  fields.push(...changedKeys("style", before.block.data.style || {}, after.block.data.style || {}));
+  if (!isEqual(before.block.visibility, after.block.visibility)) fields.push("visibility");
+  if (before.location !== after.location) fields.push("location");
+  return fields;
+}
+
+/**
+ * Compare two documents block by block. Blocks are matched by id, which
+ * stays stable across saves. Added and modified blocks follow the order of
+ * the newer document; removed blocks follow at the end.
+ */
+export function diffDocuments(
+  before: EmailBuilderDocument,
+  after: EmailBuilderDocument
+): DocumentDiff {
+  const beforeBlocks = collectBlocks(before);
+  const afterBlocks = collectBlocks(after);
+  const blocks: BlockChange[] = [];
+
+  afterBlocks.forEach((entry, blockId) => {
+    const previous = beforeBlocks.get(blockId);
+    if (!previous) {
+      blocks.push({ blockId, blockType: entry.block.type, change: "added", fields: [] });
+      return;
+    }
+    const fields = diffBlock(previous, entry);
+    if (fields.length > 0) {
+      blocks.push({ blockId, blockType: entry.block.type, change: "modified", fields });
+    }
+  });
+
+  beforeBlocks.forEach((entry, blockId) => {
+    if (!afterBlocks.has(blockId)) {
+      blocks.push({ blockId, blockType: entry.block.type, change: "removed", fields: [] });
+    }
+  });
+
+  const settingKeys = new Set(
+    [...Object.keys(before), ...Object.keys(after)].filter(
+      (key) => key !== "childrenIds" && !isBlock(before[key]) && !isBlock(after[key])
+    )
+  );
+  const settings = Array.from(settingKeys).filter((key) => !isEqual(before[key], after[key]));
+
+  return { blocks, settings };
+}
+
+/**
+ * Highlight colors for one side of a diff: the older side shows removed
+ * blocks, the newer side shows added ones, both show modified blocks
+ */
+export function getDiffHighlights(
+  diff: DocumentDiff,
+  side: "before" | "after"
+): Record<string, string> {
+  const hidden: BlockChangeType = side === "before" ? "added" : "removed";
+  return Object.fromEntries(
+    diff.blocks
+      .filter((change) => change.change !== hidden)
+      .map((change) => [change.blockId, DIFF_HIGHLIGHT_COLORS[change.change]])
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Block Visibility Evaluation
+ * Decides whether a block is rendered for a given set of send-time variables
+ */
+
+import type { EmailBlock, VisibilityCondition, VisibilityRule } from "./types";
+
+/**
+ * Resolve a dot-notation path (e.g. "customer.tier") against the variables
+ */
+export function resolveVariablePath(variables: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>((current, key) => {
+    if (current === null || current === undefined) return undefined;
+    return (current as Record<string, unknown>)[key];
+  }, variables);
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+/**
+ * Evaluate a single condition. Values are compared as strings, except for
+ * greaterThan / lessThan which require both sides to be numeric.
+ */
+export function evaluateCondition(
+  condition: VisibilityCondition,
+  variables: Record<string, unknown>
+): boolean {
+  const actual = resolveVariablePath(variables, condition.path.trim());
+  const expected = condition.value ?? "";
+
+  switch (condition.operator) {
+    case "exists":
+      return !isEmpty(actual);
+    case "notExists":
+      return isEmpty(actual);
+    case "equals":
+      return !isEmpty(actual) && String(actual) === expected;
+    case "notEquals":
+      return isEmpty(actual) || String(actual) !== expected;
+    case "contains":
+      if (Array.isArray(actual)) return actual.map(String).includes(expected);
+      return !isEmpty(actual) && String(actual).includes(expected);
+    case "notContains":
+      if (Array.isArray(actual)) return !actual.map(String).includes(expected);
+      return isEmpty(actual) || !String(actual).includes(expected);
+    case "greaterThan":
+    case "lessThan": {
+      const left = Number(actual);
+      const right = Number(expected);
+      if (isEmpty(actual) || isNaN(left) || isNaN(right)) return false;
+      return condition.operator === "greaterThan" ? left > right : left < right;
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Evaluate a visibility rule. A rule without conditions always passes.
+ */
+export function evaluateVisibilityRule(
+  rule: VisibilityRule | undefined,
+  variables: Record<string, unknown>
+): boolean {
+  if (!rule || !rule.conditions || rule.conditions.length === 0) return true;
+
+  const results = rule.conditions.map((condition) => evaluateCondition(condition, variables));
+  return rule.match === "any" ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * Check whether a block should be rendered for the given variables
+ */
+export function isBlockVisible(block: EmailBlock, variables: Record<string, unknown>): boolean {
+  return evaluateVisibilityRule(block.visibility, variables);
+}
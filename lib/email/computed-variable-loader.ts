@@ -0,0 +1,85 @@
+/**
+ * Computed Variable Loader
+ * Loads and caches an organization's computed variables and applies them to recipient data
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import {
+  evaluateComputedVariables,
+  type ComputedVariable,
+  type ComputedVariableError,
+} from "./computed-variables";
+import type { VariableDefinition } from "./variable-definitions";
+
+interface ComputedVariableCache {
+  [organizationId: string]: {
+    variables: ComputedVariable[];
+    timestamp: number;
+  };
+}
+
+const computedVariableCache: ComputedVariableCache = {};
+const CACHE_TTL = 60 * 1000; // 1 minute
+
+/**
+ * Load the organization's computed variables (custom variables with an expression)
+ */
+export async function loadComputedVariables(organizationId: string): Promise<ComputedVariable[]> {
+  const cached = computedVariableCache[organizationId];
+  if (cached && Date.now() - cached.timestamp <= CACHE_TTL) {
+    return cached.variables;
+  }
+
+  const rows = await prisma.customVariable.findMany({
+    where: { organizationId, expression: { not: null } },
+    select: { path: true, expression: true, type: true },
+  });
+
+  const variables = rows
+    .filter((row) => row.expression && row.expression.trim() !== "")
+    .map((row) => ({
+      path: row.path,
+      expression: row.expression as string,
+      type: row.type as VariableDefinition["type"],
+    }));
+
+  computedVariableCache[organizationId] = { variables, timestamp: Date.now() };
+  return variables;
+}
+
+export function invalidateComputedVariableCache(organizationId: string) {
+  delete computedVariableCache[organizationId];
+}
+
+/**
+ * Evaluate the organization's computed variables for one recipient. The
+ * recipient's contact record, when there is one, supplies `contact` fields.
+ */
+export async function resolveComputedVariables(
+  organizationId: string,
+  recipient: { email: string; name?: string | null },
+  variables: Record<string, any> | null | undefined
+): Promise<{ variables: Record<string, any>; errors: ComputedVariableError[] }> {
+  const computed = await loadComputedVariables(organizationId);
+  if (computed.length === 0) {
+    return { variables: variables || {}, errors: [] };
+  }
+
+  const contact = await prisma.contact.findFirst({
+    where: { email: recipient.email, list: { organizationId } },
+    select: { firstName: true, lastName: true, customFields: true },
+  });
+
+  // Custom fields sit next to the standard ones, which win on a name clash
+  const customFields = (contact?.customFields as Record<string, any> | null) || {};
+  const fields: Record<string, any> = {
+    ...customFields,
+    email: recipient.email,
+    name: recipient.name || [contact?.firstName, contact?.lastName].filter(Boolean).join(" ") || undefined,
+    firstName: contact?.firstName ?? undefined,
+    lastName: contact?.lastName ?? undefined,
+  };
+
+  const result = evaluateComputedVariables(computed, variables, { contact: fields });
+  return { variables: result.data, errors: result.errors };
+}
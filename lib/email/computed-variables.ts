@@ -0,0 +1,155 @@
+/**
+ * Computed Variables
+ * Custom variables whose value is an expression over a recipient's
+ * variables and contact fields, evaluated before the email is rendered
+ */
+
+import { evaluateExpression, parseExpression, type ParsedExpression } from "./expressions";
+import type { VariableDefinition } from "./variable-definitions";
+
+export interface ComputedVariable {
+  path: string; // Where the value is stored, e.g. "custom.fullName"
+  expression: string;
+  type?: VariableDefinition["type"];
+}
+
+export interface ComputedVariableError {
+  path: string;
+  message: string;
+}
+
+export interface ComputedVariableOptions {
+  contact?: Record<string, unknown> | null; // Contact fields, read as contact.*
+  now?: Date;
+}
+
+interface OrderedVariable {
+  variable: ComputedVariable;
+  parsed: ParsedExpression;
+}
+
+/**
+ * Variables an expression can read: the recipient's own variables, the
+ * matching contact's fields under `contact`, and the current time as `now`
+ */
+export function buildExpressionContext(
+  variables: Record<string, unknown>,
+  options: ComputedVariableOptions = {}
+): Record<string, unknown> {
+  return {
+    ...variables,
+    contact: options.contact || {},
+    now: options.now || new Date(),
+  };
+}
+
+function dependsOn(references: string[], path: string): boolean {
+  return references.some(
+    (reference) => reference === path || reference.startsWith(`${path}.`) || path.startsWith(`${reference}.`)
+  );
+}
+
+/**
+ * Parse computed variables and order them so each runs after the computed
+ * variables it reads. Invalid expressions and cycles are reported and left out.
+ */
+export function orderComputedVariables(variables: ComputedVariable[]): {
+  ordered: OrderedVariable[];
+  errors: ComputedVariableError[];
+} {
+  const errors: ComputedVariableError[] = [];
+  const parsed = new Map<string, OrderedVariable>();
+
+  variables.forEach((variable) => {
+    const result = parseExpression(variable.expression);
+    if (result.error) {
+      errors.push({ path: variable.path, message: result.error.message });
+    } else {
+      parsed.set(variable.path, { variable, parsed: result });
+    }
+  });
+
+  const ordered: OrderedVariable[] = [];
+  const state = new Map<string, "visiting" | "done" | "cyclic">();
+
+  const visit = (path: string, trail: string[]): boolean => {
+    const status = state.get(path);
+    if (status === "done") return true;
+    if (status === "cyclic") return false;
+    if (status === "visiting") {
+      const cycle = [...trail.slice(trail.indexOf(path)), path];
+      cycle.slice(0, -1).forEach((member) => {
+        if (state.get(member) === "cyclic") return;
+        state.set(member, "cyclic");
+        errors.push({ path: member, message: `Circular reference: ${cycle.join(" → ")}` });
+      });
+      return false;
+    }
+
+    state.set(path, "visiting");
+    const entry = parsed.get(path)!;
+    const dependencies = Array.from(parsed.keys()).filter(
+      (other) => other !== path && dependsOn(entry.parsed.references, other)
+    );
+    const resolved = dependencies.every((dependency) => visit(dependency, [...trail, path]));
+
+    if (state.get(path) === "cyclic") return false;
+    if (!resolved) {
+      state.set(path, "cyclic");
+      errors.push({ path, message: "Depends on a variable that can't be computed" });
+      return false;
+    }
+    state.set(path, "done");
+    ordered.push(entry);
+    return true;
+  };
+
+  parsed.forEach((_, path) => visit(path, []));
+  return { ordered, errors };
+}
+
+function coerce(value: unknown, type: ComputedVariable["type"]): unknown {
+  if (type === "string" && (typeof value === "number" || typeof value === "boolean")) return String(value);
+  if (type === "number" && typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown) {
+  const parts = path.split(".");
+  let current = target;
+  parts.slice(0, -1).forEach((part) => {
+    const next = current[part];
+    // Copy on the way down so the caller's data is never modified
+    const copy: Record<string, unknown> = next && typeof next === "object" && !Array.isArray(next) ? { ...next } : {};
+    current[part] = copy;
+    current = copy;
+  });
+  current[parts[parts.length - 1]] = value;
+}
+
+/**
+ * Evaluate computed variables into a copy of a recipient's variables.
+ * Empty results are left unset so template defaults still apply.
+ */
+export function evaluateComputedVariables(
+  variables: ComputedVariable[],
+  data: Record<string, unknown> | null | undefined,
+  options: ComputedVariableOptions = {}
+): { data: Record<string, unknown>; errors: ComputedVariableError[] } {
+  const result: Record<string, unknown> = { ...(data || {}) };
+  const { ordered, errors } = orderComputedVariables(variables);
+  const now = options.now || new Date();
+
+  ordered.forEach(({ variable, parsed }) => {
+    const { value, error } = evaluateExpression(parsed, buildExpressionContext(result, { ...options, now }));
+    if (error) {
+      errors.push({ path: variable.path, message: error.message });
+    } else if (value !== null && value !== "") {
+      setPath(result, variable.path, coerce(value, variable.type));
+    }
+  });
+
+  return { data: result, errors };
+}
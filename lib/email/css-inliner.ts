@@ -0,0 +1,167 @@
+/**
+ * CSS Inliner
+ * Moves <style> rules onto the elements they match, for clients that strip <style>
+ */
+
+export interface InlineCssResult {
+  html: string;
+  inlinedRules: number; // Rules moved onto elements and removed from <style>
+  remainingRules: number; // Rules left in <style> (media queries, pseudo-classes, complex selectors)
+}
+
+interface SimpleSelector {
+  tag: string | null;
+  id: string | null;
+  classes: string[];
+  specificity: number;
+}
+
+interface CssRule {
+  selectors: string;
+  declarations: string;
+}
+
+interface Declaration {
+  css: string;
+  specificity: number;
+  order: number;
+}
+
+// Conditional comments (Outlook-only markup and styles) are left untouched
+const COMMENT_PATTERN = /(<!--[\s\S]*?-->)/;
+
+/**
+ * Parse a compound selector like "td", ".column" or "a.button#cta".
+ * Descendant, child, attribute and pseudo selectors return null.
+ */
+function parseSelector(selector: string): SimpleSelector | null {
+  const match = selector.trim().match(/^([a-z][a-z0-9]*|\*)?((?:[.#][\w-]+)*)$/i);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const parts = match[2].match(/[.#][\w-]+/g) || [];
+  const id = parts.find((part) => part.startsWith("#"))?.slice(1) ?? null;
+  const classes = parts.filter((part) => part.startsWith(".")).map((part) => part.slice(1));
+  const tag = match[1] && match[1] !== "*" ? match[1].toLowerCase() : null;
+
+  return { tag, id, classes, specificity: (id ? 100 : 0) + classes.length * 10 + (tag ? 1 : 0) };
+}
+
+/**
+ * Split a stylesheet into top-level rules; at-rules are kept whole
+ */
+function splitRules(css: string): Array<CssRule | string> {
+  const rules: Array<CssRule | string> = [];
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, "");
+  let index = 0;
+
+  while (index < source.length) {
+    const open = source.indexOf("{", index);
+    if (open === -1) break;
+    const prelude = source.slice(index, open).trim();
+
+    // Find the matching close brace (at-rules nest)
+    let depth = 1;
+    let close = open + 1;
+    while (close < source.length && depth > 0) {
+      if (source[close] === "{") depth++;
+      if (source[close] === "}") depth--;
+      close++;
+    }
+
+    const body = source.slice(open + 1, close - 1).trim();
+    rules.push(prelude.startsWith("@") ? `${prelude} {${source.slice(open + 1, close - 1)}}` : { selectors: prelude, declarations: body });
+    index = close;
+  }
+
+  return rules;
+}
+
+function matches(selector: SimpleSelector, tag: string, attributes: string): boolean {
+  if (selector.tag && selector.tag !== tag) return false;
+  if (selector.id && attributes.match(/\sid="([^"]*)"/i)?.[1] !== selector.id) return false;
+  if (selector.classes.length > 0) {
+    const classes = (attributes.match(/\sclass="([^"]*)"/i)?.[1] || "").split(/\s+/);
+    if (!selector.classes.every((name) => classes.includes(name))) return false;
+  }
+  return true;
+}
+
+// Double quotes (e.g. in font names) would end the style attribute
+function normalizeDeclarations(css: string): string {
+  return css
+    .replace(/"/g, "'")
+    .split(";")
+    .map((declaration) => declaration.trim())
+    .filter(Boolean)
+    .join("; ");
+}
+
+/**
+ * Inline the rules of every <style> element into matching elements.
+ * Existing inline styles keep priority, and rules that can't be inlined
+ * stay in place.
+ */
+export function inlineCss(html: string): InlineCssResult {
+  const segments = html.split(COMMENT_PATTERN);
+  const inlinable: Array<{ selector: SimpleSelector; declarations: string; order: number }> = [];
+  let inlinedRules = 0;
+  let remainingRules = 0;
+  let order = 0;
+
+  // 1. Collect inlinable rules and strip them from the style elements
+  const withoutRules = segments.map((segment, i) => {
+    if (i % 2 === 1) return segment;
+    return segment.replace(/<style([^>]*)>([\s\S]*?)<\/style>/gi, (_match, attributes: string, css: string) => {
+      const kept: string[] = [];
+      splitRules(css).forEach((rule) => {
+        if (typeof rule === "string") {
+          kept.push(rule);
+          remainingRules++;
+          return;
+        }
+        const selectors = rule.selectors.split(",").map(parseSelector);
+        if (selectors.some((selector) => selector === null) || !rule.declarations) {
+          kept.push(`${rule.selectors} { ${rule.declarations} }`);
+          remainingRules++;
+          return;
+        }
+        selectors.forEach((selector) => {
+          inlinable.push({ selector: selector!, declarations: normalizeDeclarations(rule.declarations), order: order++ });
+        });
+        inlinedRules++;
+      });
+      return kept.length > 0 ? `<style${attributes}>\n    ${kept.join("\n    ")}\n  </style>` : "";
+    });
+  });
+
+  if (inlinable.length === 0) {
+    return { html, inlinedRules: 0, remainingRules };
+  }
+
+  // 2. Apply them to the opening tags of the markup
+  const inlined = withoutRules.map((segment, i) => {
+    if (i % 2 === 1) return segment;
+    return segment.replace(/<([a-z][a-z0-9]*)(\s[^<>]*?)?(\/?)>/gi, (tag, name: string, rawAttributes = "", selfClosing: string) => {
+      const tagName = name.toLowerCase();
+      if (["html", "head", "meta", "title", "style", "script"].includes(tagName)) return tag;
+
+      const declarations: Declaration[] = inlinable
+        .filter(({ selector }) => matches(selector, tagName, rawAttributes))
+        .map(({ selector, declarations, order }) => ({ css: declarations, specificity: selector.specificity, order }));
+      if (declarations.length === 0) return tag;
+
+      const css = declarations
+        .sort((a, b) => a.specificity - b.specificity || a.order - b.order)
+        .map((declaration) => declaration.css)
+        .join("; ");
+      const trimmed = rawAttributes.replace(/\s+$/, "");
+      const existing = trimmed.match(/\sstyle="([^"]*)"/i);
+      const attributes = existing
+        ? trimmed.replace(existing[0], ` style="${css}; ${existing[1].trim()}"`)
+        : `${trimmed} style="${css};"`;
+      return `<${name}${attributes}${selfClosing ? ` ${selfClosing}` : ""}>`;
+    });
+  });
+
+  return { html: inlined.join(""), inlinedRules, remainingRules };
+}
@@ -0,0 +1,50 @@
+/**
+ * Delivery Markup
+ * What every sent email gets on top of the rendered template: open and
+ * click tracking, and the unsubscribe footer
+ */
+
+import { injectTracking } from "./tracking";
+
+export interface DeliveryOptions {
+  emailLogId: string;
+  unsubscribeUrl: string;
+  preferenceUrl: string;
+  trackOpens?: boolean;
+  trackClicks?: boolean;
+}
+
+/**
+ * Add tracking and the unsubscribe footer to a rendered email. The footer
+ * goes in after click tracking so its links are left unwrapped.
+ */
+export function prepareForDelivery(
+  html: string,
+  text: string,
+  options: DeliveryOptions
+): { html: string; text: string } {
+  const { emailLogId, unsubscribeUrl, preferenceUrl, trackOpens = true, trackClicks = true } = options;
+
+  let deliveredHtml = injectTracking(html, emailLogId, { trackOpens, trackClicks });
+
+  const unsubscribeFooter = `
+      <div style="margin-top: 20px; padding-top: 20px; border-top: 1px solid #e5e7eb; text-align: center; font-size: 12px; color: #6b7280;">
+        <p>
+          <a href="${unsubscribeUrl}" style="color: #6b7280; text-decoration: underline;">Unsubscribe</a>
+          |
+          <a href="${preferenceUrl}" style="color: #6b7280; text-decoration: underline;">Manage Preferences</a>
+        </p>
+      </div>
+    `;
+  // Insert before </body> or append if no body tag
+  if (deliveredHtml.includes("</body>")) {
+    deliveredHtml = deliveredHtml.replace("</body>", `${unsubscribeFooter}</body>`);
+  } else {
+    deliveredHtml = deliveredHtml + unsubscribeFooter;
+  }
+
+  return {
+    html: deliveredHtml,
+    text: `${text}\n\nUnsubscribe: ${unsubscribeUrl}\nManage preferences: ${preferenceUrl}`,
+  };
+}
@@ -0,0 +1,614 @@
+/**
+ * Variable Expressions
+ * A small expression language for computed variables, e.g.
+ * `firstName + ' ' + lastName` or `dateDiff(renewalDate, now)`.
+ *
+ * Expressions are parsed into a tree and interpreted, never run as
+ * JavaScript: only own data properties can be read, only the functions
+ * below can be called, and expression size and evaluation work are capped.
+ */
+
+export type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "==" | "!=" | "<" | "<=" | ">" | ">=" | "&&" | "||";
+
+export type ExpressionNode =
+  | { type: "literal"; value: string | number | boolean | null }
+  | { type: "identifier"; name: string }
+  | { type: "member"; object: ExpressionNode; property: ExpressionNode }
+  | { type: "unary"; operator: "!" | "-"; argument: ExpressionNode }
+  | { type: "binary"; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: "conditional"; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: "call"; name: string; args: ExpressionNode[] };
+
+export interface ExpressionError {
+  message: string;
+  index: number; // Offset in the source, or -1 for evaluation errors
+}
+
+export interface ParsedExpression {
+  ast: ExpressionNode | null;
+  error: ExpressionError | null;
+  references: string[]; // Variable paths read, e.g. "firstName" or "contact.email"
+}
+
+export interface ExpressionResult {
+  value: unknown; // Dates come back as ISO strings
+  error: ExpressionError | null;
+}
+
+interface ExpressionFunction {
+  syntax: string;
+  description: string;
+  args: [number, number]; // Minimum and maximum argument count
+  call: (args: unknown[]) => unknown;
+}
+
+interface Token {
+  type: "number" | "string" | "identifier" | "operator" | "end";
+  value: string;
+  index: number;
+}
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_DEPTH = 32;
+const MAX_STEPS = 5000;
+const MAX_STRING_LENGTH = 10000;
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "+", "-", "*", "/", "%", "<", ">", "!", "?", ":", "(", ")", "[", "]", ",", "."];
+const BLOCKED_PROPERTIES = new Set(["__proto__", "prototype", "constructor"]);
+const KEYWORDS: Record<string, boolean | null> = { true: true, false: false, null: null };
+
+const MS_PER_UNIT: Record<string, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+function hasOwn(target: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+function fail(message: string, index = -1): never {
+  throw { message, index } as ExpressionError;
+}
+
+function isExpressionError(error: unknown): error is ExpressionError {
+  return typeof error === "object" && error !== null && "message" in error && "index" in error;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "number") return value !== 0 && !isNaN(value);
+  return Boolean(value);
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return isNaN(value.getTime()) ? "" : value.toISOString();
+  if (Array.isArray(value)) return value.map(toText).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "") return Number(value);
+  if (value instanceof Date) return value.getTime();
+  return NaN;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === "number" || (typeof value === "string" && value.trim() !== "")) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function finite(value: number): number | null {
+  return Number.isFinite(value) ? value : null;
+}
+
+function limitText(text: string): string {
+  if (text.length > MAX_STRING_LENGTH) fail(`Text is longer than ${MAX_STRING_LENGTH} characters`);
+  return text;
+}
+
+function isNumeric(value: unknown): boolean {
+  return (typeof value === "number" || typeof value === "string" || value instanceof Date) && !isNaN(toNumber(value));
+}
+
+function looseEquals(left: unknown, right: unknown): boolean {
+  if (left == null || right == null) return left == null && right == null;
+  if (isNumeric(left) && isNumeric(right)) return toNumber(left) === toNumber(right);
+  return toText(left) === toText(right);
+}
+
+function compare(left: unknown, right: unknown): number {
+  if (isNumeric(left) && isNumeric(right)) return toNumber(left) - toNumber(right);
+  const a = toText(left);
+  const b = toText(right);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Own data properties of plain objects and arrays, and the length of text
+ */
+function readProperty(target: unknown, key: unknown): unknown {
+  if (target === undefined || target === null) return undefined;
+  if (typeof key !== "string" && typeof key !== "number") return undefined;
+  if (BLOCKED_PROPERTIES.has(String(key))) fail(`Cannot read "${key}"`);
+  if (typeof target === "string") return key === "length" ? target.length : undefined;
+  if (typeof target !== "object" || target instanceof Date) return undefined;
+
+  const prototype = Object.getPrototypeOf(target);
+  if (!Array.isArray(target) && prototype !== Object.prototype && prototype !== null) return undefined;
+  return hasOwn(target, String(key)) ? (target as Record<string, unknown>)[key] : undefined;
+}
+
+function addToDate(value: unknown, amount: unknown, unit: unknown = "days"): Date | null {
+  const date = toDate(value);
+  const count = toNumber(amount);
+  if (!date || isNaN(count)) return null;
+
+  const result = new Date(date.getTime());
+  if (unit === "months" || unit === "years") {
+    result.setUTCMonth(result.getUTCMonth() + Math.trunc(count) * (unit === "years" ? 12 : 1));
+    return result;
+  }
+  if (!hasOwn(MS_PER_UNIT, String(unit))) fail(`Unknown date unit "${unit}"`);
+  const ms = MS_PER_UNIT[String(unit)];
+  return new Date(date.getTime() + count * ms);
+}
+
+function diffDates(left: unknown, right: unknown, unit: unknown = "days"): number | null {
+  const a = toDate(left);
+  const b = toDate(right);
+  if (!a || !b) return null;
+
+  if (unit === "months" || unit === "years") {
+    let months = (a.getUTCFullYear() - b.getUTCFullYear()) * 12 + (a.getUTCMonth() - b.getUTCMonth());
+    const shifted = addToDate(b, months, "months")!.getTime();
+    if (months > 0 && shifted > a.getTime()) months--;
+    if (months < 0 && shifted < a.getTime()) months++;
+    return unit === "years" ? Math.trunc(months / 12) : months;
+  }
+  if (!hasOwn(MS_PER_UNIT, String(unit))) fail(`Unknown date unit "${unit}"`);
+  const ms = MS_PER_UNIT[String(unit)];
+  return Math.trunc((a.getTime() - b.getTime()) / ms);
+}
+
+function numbers(args: unknown[]): number[] {
+  return args.flatMap((arg) => (Array.isArray(arg) ? arg : [arg])).map(toNumber).filter((n) => !isNaN(n));
+}
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  upper: { syntax: "upper(text)", description: "Text in upper case", args: [1, 1], call: ([v]) => toText(v).toUpperCase() },
+  lower: { syntax: "lower(text)", description: "Text in lower case", args: [1, 1], call: ([v]) => toText(v).toLowerCase() },
+  trim: { syntax: "trim(text)", description: "Text without surrounding spaces", args: [1, 1], call: ([v]) => toText(v).trim() },
+  capitalize: {
+    syntax: "capitalize(text)",
+    description: "First letter in upper case",
+    args: [1, 1],
+    call: ([v]) => {
+      const text = toText(v);
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    },
+  },
+  concat: {
+    syntax: "concat(a, b, ...)",
+    description: "Join values as text",
+    args: [1, 20],
+    call: (args) => limitText(args.map(toText).join("")),
+  },
+  coalesce: {
+    syntax: "coalesce(a, b, ...)",
+    description: "First value that isn't empty",
+    args: [1, 20],
+    call: (args) => args.find((arg) => !isEmpty(arg)) ?? null,
+  },
+  replace: {
+    syntax: "replace(text, find, with)",
+    description: "Replace every occurrence of some text",
+    args: [3, 3],
+    call: ([v, find, replacement]) => {
+      const search = toText(find);
+      return search ? limitText(toText(v).split(search).join(toText(replacement))) : toText(v);
+    },
+  },
+  slice: {
+    syntax: "slice(text, start, end?)",
+    description: "Part of some text or a list",
+    args: [2, 3],
+    call: ([v, start, end]) => {
+      const from = toNumber(start) || 0;
+      const to = end === undefined ? undefined : toNumber(end);
+      return Array.isArray(v) ? v.slice(from, to) : toText(v).slice(from, to);
+    },
+  },
+  length: {
+    syntax: "length(value)",
+    description: "Characters in text or items in a list",
+    args: [1, 1],
+    call: ([v]) => (Array.isArray(v) ? v.length : toText(v).length),
+  },
+  contains: {
+    syntax: "contains(textOrList, value)",
+    description: "Whether text or a list contains a value",
+    args: [2, 2],
+    call: ([v, search]) =>
+      Array.isArray(v) ? v.some((item) => looseEquals(item, search)) : toText(v).includes(toText(search)),
+  },
+  number: {
+    syntax: "number(value)",
+    description: "Value as a number (CSV columns are text)",
+    args: [1, 1],
+    call: ([v]) => finite(toNumber(v)),
+  },
+  text: { syntax: "text(value)", description: "Value as text", args: [1, 1], call: ([v]) => toText(v) },
+  round: {
+    syntax: "round(number, decimals?)",
+    description: "Round to a number of decimals",
+    args: [1, 2],
+    call: ([v, decimals]) => {
+      const factor = Math.pow(10, decimals === undefined ? 0 : toNumber(decimals));
+      return finite(Math.round(toNumber(v) * factor) / factor);
+    },
+  },
+  floor: { syntax: "floor(number)", description: "Round down", args: [1, 1], call: ([v]) => finite(Math.floor(toNumber(v))) },
+  ceil: { syntax: "ceil(number)", description: "Round up", args: [1, 1], call: ([v]) => finite(Math.ceil(toNumber(v))) },
+  abs: { syntax: "abs(number)", description: "Absolute value", args: [1, 1], call: ([v]) => finite(Math.abs(toNumber(v))) },
+  min: {
+    syntax: "min(a, b, ...)",
+    description: "Smallest number",
+    args: [1, 20],
+    call: (args) => {
+      const values = numbers(args);
+      return values.length > 0 ? Math.min(...values) : null;
+    },
+  },
+  max: {
+    syntax: "max(a, b, ...)",
+    description: "Largest number",
+    args: [1, 20],
+    call: (args) => {
+      const values = numbers(args);
+      return values.length > 0 ? Math.max(...values) : null;
+    },
+  },
+  date: { syntax: "date(value)", description: "Value as a date", args: [1, 1], call: ([v]) => toDate(v) },
+  dateAdd: {
+    syntax: "dateAdd(date, amount, unit?)",
+    description: "Date moved by an amount of days (or seconds, minutes, hours, weeks, months, years)",
+    args: [2, 3],
+    call: ([v, amount, unit]) => addToDate(v, amount, unit),
+  },
+  dateDiff: {
+    syntax: "dateDiff(a, b, unit?)",
+    description: "Whole days (or another unit) from b to a",
+    args: [2, 3],
+    call: ([a, b, unit]) => diffDates(a, b, unit),
+  },
+};
+
+/**
+ * Functions available in expressions, for editor hints
+ */
+export const EXPRESSION_FUNCTIONS = Object.entries(FUNCTIONS).map(([name, fn]) => ({
+  name,
+  syntax: fn.syntax,
+  description: fn.description,
+}));
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(source.slice(index));
+    if (number) {
+      tokens.push({ type: "number", value: number[0], index });
+      index += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index));
+    if (identifier) {
+      tokens.push({ type: "identifier", value: identifier[0], index });
+      index += identifier[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      let end = index + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === "\\" && end + 1 < source.length) {
+          const escaped = source[end + 1];
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          end += 2;
+        } else {
+          value += source[end++];
+        }
+      }
+      if (end >= source.length) fail("Text is missing its closing quote", index);
+      tokens.push({ type: "string", value, index });
+      index = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, index));
+    if (!operator) fail(`Unexpected "${char}"`, index);
+    tokens.push({ type: "operator", value: operator, index });
+    index += operator.length;
+  }
+
+  tokens.push({ type: "end", value: "", index: source.length });
+  return tokens;
+}
+
+function parseTokens(tokens: Token[]): ExpressionNode {
+  let position = 0;
+  let depth = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (...values: string[]) => peek().type === "operator" && values.includes(peek().value);
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      const token = peek();
+      fail(token.type === "end" ? `Expected "${value}" at the end` : `Expected "${value}" but found "${token.value}"`, token.index);
+    }
+    return tokens[position++];
+  };
+
+  const nested = <T,>(parse: () => T): T => {
+    if (++depth > MAX_DEPTH) fail("Expression is nested too deeply", peek().index);
+    const result = parse();
+    depth--;
+    return result;
+  };
+
+  const binary = (next: () => ExpressionNode, operators: BinaryOperator[]) => (): ExpressionNode => {
+    let left = next();
+    while (isOperator(...operators)) {
+      const operator = tokens[position++].value as BinaryOperator;
+      left = { type: "binary", operator, left, right: next() };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = tokens[position++];
+    if (token.type === "number") return { type: "literal", value: Number(token.value) };
+    if (token.type === "string") return { type: "literal", value: token.value };
+    if (token.type === "identifier") {
+      if (hasOwn(KEYWORDS, token.value)) return { type: "literal", value: KEYWORDS[token.value] };
+      if (!isOperator("(")) return { type: "identifier", name: token.value };
+
+      if (!hasOwn(FUNCTIONS, token.value)) fail(`Unknown function ${token.value}()`, token.index);
+      const fn = FUNCTIONS[token.value];
+      position++;
+      const args: ExpressionNode[] = [];
+      if (!isOperator(")")) {
+        args.push(parseConditional());
+        while (isOperator(",")) {
+          position++;
+          args.push(parseConditional());
+        }
+      }
+      expect(")");
+      const [min, max] = fn.args;
+      if (args.length < min || args.length > max) {
+        const count = min === max ? String(min) : `${min} to ${max}`;
+        fail(`${token.value}() expects ${count} argument${count === "1" ? "" : "s"}`, token.index);
+      }
+      return { type: "call", name: token.value, args };
+    }
+    if (token.type === "operator" && token.value === "(") {
+      const expression = parseConditional();
+      expect(")");
+      return expression;
+    }
+    fail(token.type === "end" ? "Expression ends unexpectedly" : `Unexpected "${token.value}"`, token.index);
+  };
+
+  const parsePostfix = (): ExpressionNode => {
+    let node = parsePrimary();
+    while (isOperator(".", "[")) {
+      if (tokens[position++].value === ".") {
+        const property = tokens[position++];
+        if (property.type !== "identifier") fail("Expected a property name after \".\"", property.index);
+        node = { type: "member", object: node, property: { type: "literal", value: property.value } };
+      } else {
+        const property = parseConditional();
+        expect("]");
+        node = { type: "member", object: node, property };
+      }
+    }
+    return node;
+  };
+
+  const parseUnary = (): ExpressionNode =>
+    nested(() => {
+      if (isOperator("!", "-")) {
+        const operator = tokens[position++].value as "!" | "-";
+        return { type: "unary", operator, argument: parseUnary() };
+      }
+      return parsePostfix();
+    });
+
+  const parseMultiplicative = binary(parseUnary, ["*", "/", "%"]);
+  const parseAdditive = binary(parseMultiplicative, ["+", "-"]);
+  const parseComparison = binary(parseAdditive, ["<", "<=", ">", ">="]);
+  const parseEquality = binary(parseComparison, ["==", "!="]);
+  const parseAnd = binary(parseEquality, ["&&"]);
+  const parseOr = binary(parseAnd, ["||"]);
+
+  function parseConditional(): ExpressionNode {
+    return nested(() => {
+      const test = parseOr();
+      if (!isOperator("?")) return test;
+      position++;
+      const consequent = parseConditional();
+      expect(":");
+      return { type: "conditional", test, consequent, alternate: parseConditional() };
+    });
+  }
+
+  const expression = parseConditional();
+  const rest = peek();
+  if (rest.type !== "end") fail(`Unexpected "${rest.value}"`, rest.index);
+  return expression;
+}
+
+/**
+ * Static path of an identifier or member chain, e.g. contact.firstName
+ */
+function staticPath(node: ExpressionNode): string | null {
+  if (node.type === "identifier") return node.name;
+  if (node.type === "member" && node.property.type === "literal") {
+    const base = staticPath(node.object);
+    return base === null ? null : `${base}.${node.property.value}`;
+  }
+  return null;
+}
+
+function collectReferences(node: ExpressionNode, references: Set<string>) {
+  const path = staticPath(node);
+  if (path !== null) {
+    references.add(path);
+    return;
+  }
+  switch (node.type) {
+    case "member":
+      collectReferences(node.object, references);
+      collectReferences(node.property, references);
+      break;
+    case "unary":
+      collectReferences(node.argument, references);
+      break;
+    case "binary":
+      collectReferences(node.left, references);
+      collectReferences(node.right, references);
+      break;
+    case "conditional":
+      collectReferences(node.test, references);
+      collectReferences(node.consequent, references);
+      collectReferences(node.alternate, references);
+      break;
+    case "call":
+      node.args.forEach((arg) => collectReferences(arg, references));
+      break;
+  }
+}
+
+/**
+ * Parse an expression. Never throws: problems come back in `error`.
+ */
+export function parseExpression(source: string): ParsedExpression {
+  try {
+    if (source.length > MAX_EXPRESSION_LENGTH) fail(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, 0);
+    if (source.trim() === "") fail("Expression is empty", 0);
+
+    const ast = parseTokens(tokenize(source));
+    const references = new Set<string>();
+    collectReferences(ast, references);
+    return { ast, error: null, references: Array.from(references) };
+  } catch (error) {
+    if (isExpressionError(error)) return { ast: null, error, references: [] };
+    throw error;
+  }
+}
+
+function evaluateNode(node: ExpressionNode, context: Record<string, unknown>, state: { steps: number }): unknown {
+  if (++state.steps > MAX_STEPS) fail("Expression takes too long to evaluate");
+
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "identifier":
+      return readProperty(context, node.name);
+    case "member":
+      return readProperty(evaluateNode(node.object, context, state), evaluateNode(node.property, context, state));
+    case "unary": {
+      const value = evaluateNode(node.argument, context, state);
+      return node.operator === "!" ? !isTruthy(value) : finite(-toNumber(value));
+    }
+    case "conditional":
+      return isTruthy(evaluateNode(node.test, context, state))
+        ? evaluateNode(node.consequent, context, state)
+        : evaluateNode(node.alternate, context, state);
+    case "call": {
+      const args = node.args.map((arg) => evaluateNode(arg, context, state));
+      return FUNCTIONS[node.name].call(args);
+    }
+    case "binary": {
+      const left = evaluateNode(node.left, context, state);
+      if (node.operator === "&&") return isTruthy(left) ? evaluateNode(node.right, context, state) : left;
+      if (node.operator === "||") return isTruthy(left) ? left : evaluateNode(node.right, context, state);
+
+      const right = evaluateNode(node.right, context, state);
+      switch (node.operator) {
+        case "+":
+          return typeof left === "number" && typeof right === "number"
+            ? finite(left + right)
+            : limitText(toText(left) + toText(right));
+        case "-":
+          return finite(toNumber(left) - toNumber(right));
+        case "*":
+          return finite(toNumber(left) * toNumber(right));
+        case "/":
+          return finite(toNumber(left) / toNumber(right));
+        case "%":
+          return finite(toNumber(left) % toNumber(right));
+        case "==":
+          return looseEquals(left, right);
+        case "!=":
+          return !looseEquals(left, right);
+        case "<":
+          return compare(left, right) < 0;
+        case "<=":
+          return compare(left, right) <= 0;
+        case ">":
+          return compare(left, right) > 0;
+        case ">=":
+          return compare(left, right) >= 0;
+      }
+    }
+  }
+}
+
+/**
+ * Evaluate an expression (source or already parsed) against a context of
+ * variables. Missing variables read as empty; errors come back in `error`.
+ */
+export function evaluateExpression(
+  expression: string | ParsedExpression,
+  context: Record<string, unknown>
+): ExpressionResult {
+  const parsed = typeof expression === "string" ? parseExpression(expression) : expression;
+  if (!parsed.ast) return { value: null, error: parsed.error };
+
+  try {
+    const value = evaluateNode(parsed.ast, context, { steps: 0 });
+    if (value instanceof Date) return { value: value.toISOString(), error: null };
+    return { value: value === undefined ? null : value, error: null };
+  } catch (error) {
+    if (isExpressionError(error)) return { value: null, error };
+    return { value: null, error: { message: error instanceof Error ? error.message : "Evaluation failed", index: -1 } };
+  }
+}
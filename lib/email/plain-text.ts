@@ -0,0 +1,133 @@
+/**
+ * Plain Text Converter
+ * Generates the text/plain part of an email from its rendered HTML
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  zwnj: "",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Combining and invisible characters used as preheader padding
+      if (value === 847 || value === 8203 || value === 8204) return "";
+      // Out-of-range, surrogate and null references become U+FFFD, as browsers render them
+      if (value === 0 || value > 0x10ffff || (value >= 0xd800 && value <= 0xdfff)) return "\uFFFD";
+      return String.fromCodePoint(value);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, "");
+}
+
+function getAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}=(["'])(.*?)\\1`, "i"));
+  return match ? match[2] : null;
+}
+
+/**
+ * Convert email HTML to readable plain text:
+ * - links become footnotes ("Shop now [1]" with the URLs listed at the end)
+ * - table cells and columns are laid out one after another
+ * - list items keep their bullets or numbers
+ * - hidden content (head, preheader, Outlook-only markup) is dropped
+ */
+export function htmlToPlainText(html: string): string {
+  let text = html
+    // Conditional comments duplicate content for Outlook
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<head[^>]*>[\s\S]*?<\/head>/gi, "")
+    .replace(/<(script|style|title)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    // The hidden preheader is for inbox lists only
+    .replace(/<span class="preheader"[^>]*>[\s\S]*?<\/span>/gi, "")
+    // Source whitespace is not significant
+    .replace(/\s+/g, " ");
+
+  // Images are represented by their alt text
+  text = text.replace(/<img\s([^>]*)>/gi, (_match, attributes: string) => {
+    const alt = getAttribute(attributes, "alt")?.trim();
+    return alt ? `[${alt}]` : "";
+  });
+
+  // Links become footnotes; each URL gets one number
+  const footnotes: string[] = [];
+  text = text.replace(/<a\s([^>]*)>([\s\S]*?)<\/a>/gi, (_match, attributes: string, inner: string) => {
+    // Entities in the label are decoded with the rest of the text
+    const label = stripTags(inner).trim();
+    const href = decodeEntities(getAttribute(attributes, "href") || "").trim();
+    if (!href || href.startsWith("#")) return label;
+    const url = href.replace(/^mailto:/i, "");
+    if (!label || [url, href].includes(decodeEntities(label))) return url;
+
+    let index = footnotes.indexOf(href);
+    if (index === -1) {
+      footnotes.push(href);
+      index = footnotes.length - 1;
+    }
+    return `${label} [${index + 1}]`;
+  });
+
+  // Lists, innermost first, keep bullets or numbers
+  const listPattern = /<(ul|ol)[^>]*>((?:(?!<(?:ul|ol)[\s>])[\s\S])*?)<\/\1>/i;
+  while (listPattern.test(text)) {
+    text = text.replace(listPattern, (_match, tag: string, items: string) => {
+      let number = 0;
+      const lines = items
+        .split(/<li[^>]*>/i)
+        .slice(1)
+        .map((item) => stripTags(item.replace(/<\/li>/gi, "")).trim())
+        .filter((item) => item && item !== "&nbsp;")
+        .map((item) => (tag.toLowerCase() === "ol" ? `${++number}. ${item}` : `- ${item}`));
+      return `\n${lines.join("\n")}\n\n`;
+    });
+  }
+
+  // Headings stand out with an underline
+  text = text.replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, inner: string) => {
+    const heading = stripTags(inner).trim();
+    if (!heading) return "";
+    return level === "1" || level === "2"
+      ? `\n\n${heading}\n${(level === "1" ? "=" : "-").repeat(decodeEntities(heading).length)}\n\n`
+      : `\n\n${heading}\n\n`;
+  });
+
+  text = text
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<hr[^>]*>/gi, "\n\n----------\n\n")
+    .replace(/<\/(p|blockquote|table)>/gi, "\n\n")
+    .replace(/<\/(div|tr|td|th)>/gi, "\n");
+
+  text = decodeEntities(stripTags(text))
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  if (footnotes.length > 0) {
+    text += `\n\nLinks:\n${footnotes.map((url, index) => `[${index + 1}] ${url}`).join("\n")}`;
+  }
+
+  return text;
+}
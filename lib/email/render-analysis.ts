@@ -0,0 +1,105 @@
+/**
+ * Render Analysis
+ * Size budget and Gmail clipping report for rendered email HTML
+ */
+
+import type { EmailBlock, EmailBuilderDocument } from "@/lib/email-builder/types";
+
+// Gmail hides everything past ~102KB behind a "View entire message" link
+export const GMAIL_CLIP_BYTES = 102 * 1024;
+
+// Share of the clipping threshold at which the size is flagged as a warning
+export const SIZE_WARNING_RATIO = 0.8;
+
+export type SizeStatus = "ok" | "warning" | "clipped";
+
+export interface BlockSize {
+  blockId: string;
+  blockType: string;
+  bytes: number; // Includes nested blocks
+  depth: number; // 0 for top-level blocks
+}
+
+export interface RenderAnalysis {
+  bytes: number;
+  clipThreshold: number;
+  status: SizeStatus;
+  blocks: BlockSize[];
+  styleBytes: number; // Bytes inside <style> elements, which some Gmail contexts strip
+  inlining?: {
+    bytesBefore: number;
+    inlinedRules: number;
+    remainingRules: number;
+  };
+}
+
+/**
+ * UTF-8 byte length of a string
+ */
+export function getByteSize(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+export function getSizeStatus(bytes: number, threshold = GMAIL_CLIP_BYTES): SizeStatus {
+  if (bytes > threshold) return "clipped";
+  if (bytes > threshold * SIZE_WARNING_RATIO) return "warning";
+  return "ok";
+}
+
+/**
+ * Human readable byte size, e.g. "12.4 KB"
+ */
+export function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function getChildIds(block: EmailBlock): string[] {
+  switch (block.type) {
+    case "Container":
+    case "Repeat":
+      return block.data.props.childrenIds;
+    case "Columns":
+      return block.data.props.columns.flatMap((column) => column.childrenIds);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Size of every block's rendered markup, in document order
+ */
+export function getBlockSizes(
+  document: EmailBuilderDocument,
+  renderBlock: (blockId: string) => string
+): BlockSize[] {
+  const sizes: BlockSize[] = [];
+
+  const visit = (blockId: string, depth: number) => {
+    const block = document[blockId] as EmailBlock | undefined;
+    if (!block || typeof block !== "object") return;
+    sizes.push({ blockId, blockType: block.type, bytes: getByteSize(renderBlock(blockId)), depth });
+    getChildIds(block).forEach((childId) => visit(childId, depth + 1));
+  };
+
+  document.childrenIds.forEach((blockId) => visit(blockId, 0));
+  return sizes;
+}
+
+/**
+ * Analyze final email HTML against the Gmail clipping threshold
+ */
+export function analyzeRenderedHtml(html: string, blocks: BlockSize[]): RenderAnalysis {
+  const bytes = getByteSize(html);
+  const styleBytes = Array.from(html.matchAll(/<style[^>]*>([\s\S]*?)<\/style>/gi)).reduce(
+    (total, match) => total + getByteSize(match[1]),
+    0
+  );
+
+  return {
+    bytes,
+    clipThreshold: GMAIL_CLIP_BYTES,
+    status: getSizeStatus(bytes),
+    blocks,
+    styleBytes,
+  };
+}
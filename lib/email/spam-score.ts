@@ -0,0 +1,287 @@
+/**
+ * Spam Score
+ * Offline, SpamAssassin-style content checks for rendered emails
+ */
+
+export type SpamRule =
+  | "subject-trigger-phrases"
+  | "body-trigger-phrases"
+  | "image-text-ratio"
+  | "all-caps"
+  | "exclamation-marks"
+  | "url-shortener"
+  | "link-text-mismatch"
+  | "missing-text-part"
+  | "missing-unsubscribe";
+
+export type SpamStatus = "pass" | "warning" | "fail";
+
+export interface SpamRuleResult {
+  rule: SpamRule;
+  label: string;
+  score: number; // 0 when the rule did not match
+  details: string[];
+}
+
+export interface SpamReport {
+  score: number;
+  threshold: number;
+  status: SpamStatus;
+  rules: SpamRuleResult[];
+}
+
+export interface SpamCheckOptions {
+  subject?: string;
+  // The sender appends an unsubscribe footer at send time (campaign sends)
+  unsubscribeAppended?: boolean;
+}
+
+// SpamAssassin's default required score
+export const SPAM_THRESHOLD = 5;
+
+const RULE_LABELS: Record<SpamRule, string> = {
+  "subject-trigger-phrases": "Trigger phrases in subject",
+  "body-trigger-phrases": "Trigger phrases in body",
+  "image-text-ratio": "Image-to-text ratio",
+  "all-caps": "ALL CAPS text",
+  "exclamation-marks": "Excessive exclamation marks",
+  "url-shortener": "URL shorteners",
+  "link-text-mismatch": "Link text does not match its URL",
+  "missing-text-part": "Missing plain-text part",
+  "missing-unsubscribe": "Missing unsubscribe link",
+};
+
+const TRIGGER_PHRASES = [
+  "100% free",
+  "act now",
+  "apply now",
+  "as seen on",
+  "buy now",
+  "cash bonus",
+  "click here",
+  "congratulations",
+  "dear friend",
+  "double your",
+  "earn money",
+  "extra income",
+  "free gift",
+  "free money",
+  "guaranteed",
+  "increase sales",
+  "limited time",
+  "lowest price",
+  "make money",
+  "million dollars",
+  "no credit check",
+  "no obligation",
+  "once in a lifetime",
+  "order now",
+  "risk-free",
+  "special promotion",
+  "this is not spam",
+  "urgent",
+  "winner",
+  "you have been selected",
+  "$$$",
+];
+
+const URL_SHORTENERS = [
+  "bit.ly",
+  "buff.ly",
+  "cutt.ly",
+  "goo.gl",
+  "is.gd",
+  "ow.ly",
+  "rebrand.ly",
+  "shorturl.at",
+  "t.co",
+  "tiny.cc",
+  "tinyurl.com",
+];
+
+// Scores, loosely modelled on the equivalent SpamAssassin rules
+const SCORES = {
+  subjectPhrase: 0.8,
+  bodyPhrase: 0.4,
+  bodyPhraseMax: 2,
+  imageOnly: 2.5,
+  lowTextPerImage: 1.2,
+  subjectCaps: 1.5,
+  bodyCaps: 1,
+  subjectExclamation: 1,
+  bodyExclamation: 0.5,
+  urlShortener: 1.5,
+  linkMismatch: 2,
+  missingTextPart: 1,
+  missingUnsubscribe: 1.5,
+};
+
+// Visible characters per image below which the email reads as image-heavy
+const MIN_TEXT_PER_IMAGE = 100;
+const MIN_TEXT_LENGTH = 200;
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Text a reader actually sees: no head, styles, hidden preheader or comments
+ */
+function getVisibleText(html: string): string {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<head[^>]*>[\s\S]*?<\/head>/gi, "")
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<span class="preheader"[^>]*>[\s\S]*?<\/span>/gi, "")
+    .replace(/<[^>]+>/g, " ");
+  return decodeEntities(body).replace(/\s+/g, " ").trim();
+}
+
+function findPhrases(text: string): string[] {
+  const lower = text.toLowerCase();
+  return TRIGGER_PHRASES.filter((phrase) => lower.includes(phrase));
+}
+
+function getLinks(html: string): Array<{ href: string; text: string }> {
+  return Array.from(html.matchAll(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi)).map((match) => ({
+    href: decodeEntities(match[1]).trim(),
+    text: decodeEntities(match[2].replace(/<[^>]+>/g, "")).trim(),
+  }));
+}
+
+function getHost(url: string): string | null {
+  try {
+    return new URL(url.includes("://") ? url : `http://${url}`).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+function isShouting(text: string): boolean {
+  const letters = text.replace(/[^a-z]/gi, "");
+  return letters.length >= 5 && letters.replace(/[^A-Z]/g, "").length / letters.length > 0.8;
+}
+
+/**
+ * Score a rendered email (the html and text from renderEmailTemplate).
+ * Every rule is reported; rules that did not match score 0.
+ */
+export function analyzeSpamScore(
+  email: { html: string; text?: string },
+  options: SpamCheckOptions = {}
+): SpamReport {
+  const subject = options.subject || "";
+  const visibleText = getVisibleText(email.html);
+  const links = getLinks(email.html);
+  const results: SpamRuleResult[] = [];
+
+  const add = (rule: SpamRule, score: number, details: string[] = []) => {
+    results.push({ rule, label: RULE_LABELS[rule], score: Math.round(score * 10) / 10, details });
+  };
+
+  // Trigger phrases
+  const subjectPhrases = findPhrases(subject);
+  add(
+    "subject-trigger-phrases",
+    subjectPhrases.length * SCORES.subjectPhrase,
+    subjectPhrases.map((phrase) => `"${phrase}"`)
+  );
+  const bodyPhrases = findPhrases(visibleText);
+  add(
+    "body-trigger-phrases",
+    Math.min(bodyPhrases.length * SCORES.bodyPhrase, SCORES.bodyPhraseMax),
+    bodyPhrases.map((phrase) => `"${phrase}"`)
+  );
+
+  // Image-to-text ratio
+  const imageCount = (email.html.match(/<img\s/gi) || []).length;
+  if (imageCount > 0 && visibleText.length < MIN_TEXT_LENGTH) {
+    add("image-text-ratio", SCORES.imageOnly, [
+      `${imageCount} image${imageCount === 1 ? "" : "s"} with only ${visibleText.length} characters of text`,
+    ]);
+  } else if (imageCount > 0 && visibleText.length / imageCount < MIN_TEXT_PER_IMAGE) {
+    add("image-text-ratio", SCORES.lowTextPerImage, [
+      `${Math.round(visibleText.length / imageCount)} characters of text per image`,
+    ]);
+  } else {
+    add("image-text-ratio", 0);
+  }
+
+  // ALL CAPS
+  const capsDetails: string[] = [];
+  let capsScore = 0;
+  if (isShouting(subject)) {
+    capsScore += SCORES.subjectCaps;
+    capsDetails.push("Subject is in capitals");
+  }
+  const words = visibleText.split(" ").filter((word) => /[a-z]{2,}/i.test(word));
+  const shoutedWords = words.filter((word) => word.replace(/[^a-z]/gi, "").length >= 4 && word === word.toUpperCase());
+  if (words.length > 0 && shoutedWords.length / words.length > 0.2) {
+    capsScore += SCORES.bodyCaps;
+    capsDetails.push(`${shoutedWords.length} of ${words.length} words in the body are in capitals`);
+  }
+  add("all-caps", capsScore, capsDetails);
+
+  // Exclamation marks
+  const exclamationDetails: string[] = [];
+  let exclamationScore = 0;
+  if ((subject.match(/!/g) || []).length >= 2) {
+    exclamationScore += SCORES.subjectExclamation;
+    exclamationDetails.push("Subject has more than one exclamation mark");
+  }
+  const bodyExclamations = (visibleText.match(/!/g) || []).length;
+  if (/!{2,}/.test(visibleText) || bodyExclamations > 5) {
+    exclamationScore += SCORES.bodyExclamation;
+    exclamationDetails.push(`${bodyExclamations} exclamation marks in the body`);
+  }
+  add("exclamation-marks", exclamationScore, exclamationDetails);
+
+  // URL shorteners
+  const shortened = links
+    .map((link) => getHost(link.href))
+    .filter((host): host is string => !!host && URL_SHORTENERS.includes(host));
+  add("url-shortener", shortened.length > 0 ? SCORES.urlShortener : 0, Array.from(new Set(shortened)));
+
+  // Link text that looks like a URL but points somewhere else
+  const mismatched = links.filter((link) => {
+    if (!/^https?:\/\//i.test(link.href)) return false;
+    if (!/^(https?:\/\/)?(www\.)?[a-z0-9-]+(\.[a-z0-9-]+)+(\/\S*)?$/i.test(link.text)) return false;
+    return getHost(link.text) !== getHost(link.href);
+  });
+  add(
+    "link-text-mismatch",
+    mismatched.length > 0 ? SCORES.linkMismatch : 0,
+    mismatched.map((link) => `"${link.text}" links to ${getHost(link.href)}`)
+  );
+
+  // Plain-text alternative
+  add(
+    "missing-text-part",
+    email.text?.trim() ? 0 : SCORES.missingTextPart,
+    email.text?.trim() ? [] : ["The email only has an HTML part"]
+  );
+
+  // Unsubscribe link
+  const hasUnsubscribe =
+    options.unsubscribeAppended ||
+    links.some((link) => /unsubscribe|opt[-\s]?out/i.test(`${link.href} ${link.text}`));
+  add(
+    "missing-unsubscribe",
+    hasUnsubscribe ? 0 : SCORES.missingUnsubscribe,
+    hasUnsubscribe ? [] : ["No link with \"unsubscribe\" in its text or URL"]
+  );
+
+  const score = Math.round(results.reduce((total, result) => total + result.score, 0) * 10) / 10;
+  return {
+    score,
+    threshold: SPAM_THRESHOLD,
+    status: score >= SPAM_THRESHOLD ? "fail" : score >= SPAM_THRESHOLD / 2 ? "warning" : "pass",
+    rules: results,
+  };
+}
@@ -4,19 +4,35 @@
  */
 
 import { renderTemplate } from "./variable-renderer";
-import { extractVariables } from "./variable-parser";
+import { extractVariables, type VariableInfo } from "./variable-parser";
 import type { EmailBuilderDocument } from "@/lib/email-builder/types";
-import { renderToStaticMarkup } from "@/lib/email-builder/renderer";
+import { renderBlockMarkup, renderToStaticMarkup } from "@/lib/email-builder/renderer";
 import { loadTranslations } from "@/lib/translations/loader";
 import { replaceTextWithTranslations } from "@/lib/translations/replacer";
 import { logMissingTranslation } from "@/lib/translations/logger";
+import { findPartialIds, inlinePartials, type PartialDocuments } from "@/lib/email-builder/partials";
+import { loadPartials } from "@/lib/partials/loader";
+import { findCustomFontIds, type CustomFont } from "@/lib/email-builder/fonts";
+import { loadCustomFonts } from "@/lib/fonts/loader";
+import { inlineCss } from "./css-inliner";
+import { htmlToPlainText } from "./plain-text";
+import { analyzeRenderedHtml, getBlockSizes, getByteSize, type RenderAnalysis } from "./render-analysis";
 
 export interface RenderOptions {
   sampleData?: Record<string, any>;
-  language?: string;
+  language?: string; // Also the locale for number and date filters
+  timeZone?: string; // IANA time zone for date filters
   replaceVariables?: boolean;
   templateId?: string;
   defaultLanguage?: string;
+  outlookCompatibility?: boolean; // VML fallbacks for desktop Outlook (default: true)
+  partials?: PartialDocuments; // Pre-fetched global partials (loaded from the database when omitted)
+  preheader?: string; // Overrides the document preheader (e.g. per campaign)
+  inlineCss?: boolean; // Move <style> rules onto elements for clients that strip <style>
+  analyze?: boolean; // Report final size against the Gmail clipping threshold
+  plainText?: string | null; // Hand-edited text part; generated from the HTML when empty
+  fonts?: CustomFont[]; // Pre-fetched custom web fonts (loaded from the database when omitted)
+  organizationId?: string; // Owner of the template; partials and fonts are only loaded from this organization
 }
 
 /**
@@ -25,13 +41,22 @@ export interface RenderOptions {
 export async function renderEmailTemplate(
   document: EmailBuilderDocument,
   options: RenderOptions = {}
-): Promise<{ html: string; text: string; missingTranslations?: string[] }> {
+): Promise<{ html: string; text: string; missingTranslations?: string[]; analysis?: RenderAnalysis }> {
   const {
     sampleData = {},
     replaceVariables = true,
     language,
+    timeZone,
     templateId,
     defaultLanguage = "en",
+    outlookCompatibility = true,
+    partials,
+    preheader,
+    inlineCss: shouldInlineCss = false,
+    analyze = false,
+    plainText,
+    fonts,
+    organizationId,
   } = options;
 
   let documentToRender = document;
@@ -72,77 +97,139 @@ export async function renderEmailTemplate(
     }
   }
 
+  // A campaign preheader replaces the template's (translated) one
+  if (preheader?.trim()) {
+    documentToRender = { ...documentToRender, preheader };
+  }
+
+  // Inline global partials so header/footer edits reach every template
+  const partialIds = findPartialIds(documentToRender);
+  if (partialIds.length > 0) {
+    try {
+      const partialDocuments = partials ?? (organizationId ? await loadPartials(partialIds, organizationId) : {});
+      documentToRender = inlinePartials(documentToRender, partialDocuments);
+    } catch (error) {
+      console.error("Error loading partials:", error);
+    }
+  }
+
+  // Custom web fonts referenced by the document
+  let customFonts: CustomFont[] = fonts ?? [];
+  const fontIds = findCustomFontIds(documentToRender);
+  if (!fonts && organizationId && fontIds.length > 0) {
+    try {
+      customFonts = await loadCustomFonts(fontIds, organizationId);
+    } catch (error) {
+      console.error("Error loading custom fonts:", error);
+    }
+  }
+
+  // The language being sent wins over the document's own, for both the
+  // <html lang> attribute and filter formatting
+  const emailLanguage = language || (documentToRender.lang as string | undefined);
+  const format = { language: emailLanguage, timeZone };
+
   // First, render the document structure to HTML
-  let html = renderToStaticMarkup(documentToRender);
+  // (blocks hidden by their visibility rules are left out)
+  let html = renderToStaticMarkup(documentToRender, {
+    variables: replaceVariables ? sampleData : undefined,
+    outlookCompatibility,
+    lang: emailLanguage,
+    timeZone,
+    fonts: customFonts,
+  });
 
   // If we have sample data and variables should be replaced
   if (replaceVariables && Object.keys(sampleData).length > 0) {
     // Process conditionals, loops, and variables
-    html = renderTemplate(html, sampleData);
+    html = renderTemplate(html, sampleData, format);
   }
 
-  // Generate plain text version (simple HTML to text conversion)
-  const text = htmlToPlainText(html);
+  const bytesBefore = getByteSize(html);
+  const inlined = shouldInlineCss ? inlineCss(html) : null;
+  if (inlined) {
+    html = inlined.html;
+  }
+
+  // Use the hand-edited text part when there is one, otherwise generate it
+  let text: string;
+  if (plainText?.trim()) {
+    text = replaceVariables && Object.keys(sampleData).length > 0
+      ? renderTemplate(plainText, sampleData, format)
+      : plainText;
+  } else {
+    text = htmlToPlainText(html);
+  }
+
+  // Post-render analysis: final size plus what each block contributes
+  let analysis: RenderAnalysis | undefined;
+  if (analyze) {
+    const renderBlock = (blockId: string) => {
+      const markup = renderBlockMarkup(documentToRender, blockId, {
+        variables: replaceVariables ? sampleData : undefined,
+        outlookCompatibility,
+        lang: format.language,
+        timeZone,
+        fonts: customFonts,
+      });
+      return replaceVariables && Object.keys(sampleData).length > 0
+        ? renderTemplate(markup, sampleData, format)
+        : markup;
+    };
+    analysis = {
+      ...analyzeRenderedHtml(html, getBlockSizes(documentToRender, renderBlock)),
+      ...(inlined && {
+        inlining: {
+          bytesBefore,
+          inlinedRules: inlined.inlinedRules,
+          remainingRules: inlined.remainingRules,
+        },
+      }),
+    };
+  }
 
   return {
     html,
     text,
     ...(missingTranslations.length > 0 && { missingTranslations }),
+    ...(analysis && { analysis }),
   };
 }
 
 /**
- * Convert HTML to plain text
- */
-function htmlToPlainText(html: string): string {
-  // Remove script and style elements
-  let text = html.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "");
-  text = text.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "");
-  
-  // Replace HTML entities
-  text = text.replace(/&nbsp;/g, " ");
-  text = text.replace(/&amp;/g, "&");
-  text = text.replace(/&lt;/g, "<");
-  text = text.replace(/&gt;/g, ">");
-  text = text.replace(/&quot;/g, '"');
-  text = text.replace(/&#39;/g, "'");
-  
-  // Replace line breaks
-  text = text.replace(/<br\s*\/?>/gi, "\n");
-  text = text.replace(/<\/p>/gi, "\n\n");
-  text = text.replace(/<\/div>/gi, "\n");
-  text = text.replace(/<\/h[1-6]>/gi, "\n\n");
-  
-  // Remove all HTML tags
-  text = text.replace(/<[^>]+>/g, "");
-  
-  // Clean up whitespace
-  text = text.replace(/\n\s*\n\s*\n/g, "\n\n");
-  text = text.trim();
-  
-  return text;
-}
-
-/**
- * Extract all variables from a template document
+ * Visit every variable a document reads, in block order. Content uses are
+ * substituted into the email; rule uses (Repeat sources, visibility
+ * conditions) only decide what renders.
  */
-export function extractTemplateVariables(
-  document: EmailBuilderDocument
-): string[] {
-  const variables: string[] = [];
-  
-  // Recursively extract variables from all blocks
-  const extractFromBlock = (blockId: string) => {
+function visitTemplateVariables(
+  document: EmailBuilderDocument,
+  visit: (variable: VariableInfo, use: "content" | "rule") => void
+) {
+  // (item.* variables inside a Repeat block are scoped to the loop, not the data)
+  const visitBlock = (blockId: string, inRepeat = false) => {
     const block = document[blockId] as any;
     if (!block || typeof block !== "object") return;
     
-    // Extract from block props
+    const childInRepeat = inRepeat || block.type === "Repeat";
+    if (block.type === "Repeat" && block.data?.props?.itemsPath) {
+      visit({ name: block.data.props.itemsPath, fullMatch: block.data.props.itemsPath }, "rule");
+    }
+    
+    // Extract from block props ({{this}} and {{#each … as alias}} fields are scoped to the loop)
     if (block.data?.props) {
-      const propsJson = JSON.stringify(block.data.props);
-      const extracted = extractVariables(propsJson);
-      extracted.forEach(v => {
-        if (!variables.includes(v.name)) {
-          variables.push(v.name);
+      extractVariables(block.data.props).forEach(v => {
+        if (v.loopItem) return;
+        if (inRepeat && /^item(\.|$)/.test(v.name)) return;
+        visit(v, "content");
+      });
+    }
+    
+    // Visibility rules reference variables by path
+    if (block.visibility?.conditions) {
+      block.visibility.conditions.forEach((condition: { path: string }) => {
+        if (inRepeat && /^item(\.|$)/.test(condition.path)) return;
+        if (condition.path) {
+          visit({ name: condition.path, fullMatch: condition.path }, "rule");
         }
       });
     }
@@ -150,7 +237,7 @@ export function extractTemplateVariables(
     // Recursively process children
     if (block.data?.props?.childrenIds) {
       block.data.props.childrenIds.forEach((childId: string) => {
-        extractFromBlock(childId);
+        visitBlock(childId, childInRepeat);
       });
     }
     
@@ -159,7 +246,7 @@ export function extractTemplateVariables(
       block.data.props.columns.forEach((column: any) => {
         if (column.childrenIds) {
           column.childrenIds.forEach((childId: string) => {
-            extractFromBlock(childId);
+            visitBlock(childId, childInRepeat);
           });
         }
       });
@@ -169,13 +256,43 @@ export function extractTemplateVariables(
   // Process all root children
   if (document.childrenIds) {
     document.childrenIds.forEach(blockId => {
-      extractFromBlock(blockId);
+      visitBlock(blockId);
     });
   }
   
+  // The preheader can reference variables too
+  if (typeof document.preheader === "string") {
+    extractVariables(document.preheader).forEach(v => visit(v, "content"));
+  }
+}
+
+/**
+ * Extract all variables from a template document
+ */
+export function extractTemplateVariables(
+  document: EmailBuilderDocument
+): string[] {
+  const variables: string[] = [];
+  visitTemplateVariables(document, (variable) => {
+    if (!variables.includes(variable.name)) {
+      variables.push(variable.name);
+    }
+  });
   return variables;
 }
 
+/**
+ * Every substitution of a variable into the document's content, with
+ * its default and filters. Variables only used by rules are left out.
+ */
+export function extractTemplateVariableUses(document: EmailBuilderDocument): VariableInfo[] {
+  const uses: VariableInfo[] = [];
+  visitTemplateVariables(document, (variable, use) => {
+    if (use === "content") uses.push(variable);
+  });
+  return uses;
+}
+
 /**
  * Validate template variables against available data
  */
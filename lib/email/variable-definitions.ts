@@ -244,3 +244,123 @@ export function isValidVariablePath(path: string): boolean {
   return STANDARD_VARIABLES.some(v => v.path === path);
 }
 
+
+/**
+ * Get array variables (usable as Repeat block sources)
+ */
+export function getArrayVariables(): VariableDefinition[] {
+  return STANDARD_VARIABLES.filter(v => v.type === "array");
+}
+
+export interface FilterDefinition {
+  name: string;
+  syntax: string; // What to insert after the pipe, e.g. currency:EUR
+  description: string;
+  example: string;
+  types: VariableDefinition["type"][]; // Variable types the filter applies to
+}
+
+/**
+ * Filters available in {{variable | filter}}. Number and date filters
+ * format for the language the email is rendered in.
+ */
+export const VARIABLE_FILTERS: FilterDefinition[] = [
+  {
+    name: "Default",
+    syntax: 'default:"there"',
+    description: "Text to use when the value is missing or empty",
+    example: '{{user.firstName | default:"there"}} → there',
+    types: ["string", "number"],
+  },
+  {
+    name: "Uppercase",
+    syntax: "upper",
+    description: "Convert to upper case",
+    example: "{{user.name | upper}} → JOHN DOE",
+    types: ["string"],
+  },
+  {
+    name: "Lowercase",
+    syntax: "lower",
+    description: "Convert to lower case",
+    example: "{{user.email | lower}} → john.doe@example.com",
+    types: ["string"],
+  },
+  {
+    name: "Capitalize",
+    syntax: "capitalize",
+    description: "Upper-case the first letter, lower-case the rest",
+    example: "{{user.firstName | capitalize}} → John",
+    types: ["string"],
+  },
+  {
+    name: "Trim",
+    syntax: "trim",
+    description: "Remove leading and trailing spaces",
+    example: "{{user.name | trim}}",
+    types: ["string"],
+  },
+  {
+    name: "Truncate",
+    syntax: "truncate:40",
+    description: "Shorten to a maximum length, ending with … (or a custom suffix: truncate:40:\"...\")",
+    example: "{{product.description | truncate:20}} → A high-quality…",
+    types: ["string"],
+  },
+  {
+    name: "Length",
+    syntax: "length",
+    description: "Number of characters",
+    example: "{{user.name | length}} → 8",
+    types: ["string"],
+  },
+  {
+    name: "Number",
+    syntax: "number",
+    description: "Format with the language's separators; number:2 fixes the decimals",
+    example: "{{order.total | number}} → 1,199.99 (en) / 1.199,99 (de)",
+    types: ["number"],
+  },
+  {
+    name: "Percent",
+    syntax: "percent",
+    description: "Format a fraction as a percentage; percent:1 adds a decimal",
+    example: "{{discount | percent}} → 25% (0.25)",
+    types: ["number"],
+  },
+  {
+    name: "Currency",
+    syntax: "currency:USD",
+    description: "Format as money in an ISO currency (USD when omitted)",
+    example: "{{order.total | currency:EUR}} → €199.99 (en) / 199,99 € (de)",
+    types: ["number"],
+  },
+  {
+    name: "Pluralize",
+    syntax: "pluralize:item:items",
+    description: "Pick the singular or plural word for a count",
+    example: "{{count}} {{count | pluralize:item:items}} → 3 items",
+    types: ["number"],
+  },
+  {
+    name: "Date",
+    syntax: "date:long",
+    description: "Format a date: short, medium, long, full, time, datetime or a pattern like date:\"dd.MM.yyyy\"",
+    example: "{{order.date | date:long}} → January 15, 2024 (en) / 15. Januar 2024 (de)",
+    types: ["string", "number"],
+  },
+  {
+    name: "Relative Time",
+    syntax: "relativeTime",
+    description: "Time from now in words",
+    example: "{{order.date | relativeTime}} → 3 days ago",
+    types: ["string", "number"],
+  },
+];
+
+/**
+ * Filters that apply to a variable type
+ */
+export function getFiltersForType(type: VariableDefinition["type"]): FilterDefinition[] {
+  return VARIABLE_FILTERS.filter(filter => filter.types.includes(type));
+}
@@ -1,6 +1,10 @@
 /**
  * Variable Parser
- * Extracts, validates, and replaces variables in email templates
+ * Parses, extracts, validates, and renders variables and logic tags in email templates
+ *
+ * Supports {{variable}}, {{variable|default:"value"|filter}}, {{! comments}},
+ * {{#if cond}}…{{else if cond}}…{{else}}…{{/if}} and
+ * {{#each path [as alias]}}…{{else}}…{{/each}}
  */
 
 export interface VariableInfo {
@@ -8,61 +12,604 @@ export interface VariableInfo {
   fullMatch: string;
   defaultValue?: string;
   filters?: string[];
+  scope?: string; // Array path of the enclosing {{#each}} the name may resolve against
+  loopItem?: boolean; // Read through {{this}} or an {{#each … as alias}}, so never from the root data
+}
+
+export type CompareOperator = "==" | "!=" | ">" | ">=" | "<" | "<=";
+
+export type TemplateExpression =
+  | { type: "path"; path: string }
+  | { type: "literal"; value: string | number | boolean | null }
+  | { type: "compare"; operator: CompareOperator; left: TemplateExpression; right: TemplateExpression }
+  | { type: "and" | "or"; operands: TemplateExpression[] }
+  | { type: "not"; operand: TemplateExpression };
+
+export type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "variable"; variable: VariableInfo }
+  | {
+      type: "if";
+      raw: string;
+      condition: TemplateExpression;
+      consequent: TemplateNode[];
+      alternate: TemplateNode[];
+    }
+  | {
+      type: "each";
+      raw: string;
+      path: string;
+      alias?: string;
+      body: TemplateNode[];
+      inverse: TemplateNode[]; // Rendered when the list is missing or empty
+    };
+
+type IfNode = Extract<TemplateNode, { type: "if" }>;
+type EachNode = Extract<TemplateNode, { type: "each" }>;
+
+export interface TemplateSyntaxError {
+  message: string;
+  index: number;
+  line: number;
+  column: number;
+}
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  errors: TemplateSyntaxError[];
+}
+
+const COMPARE_HELPERS: Record<string, CompareOperator> = {
+  eq: "==",
+  ne: "!=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+const LOGIC_HELPERS = ["and", "or", "not"];
+
+// Rich text stores operators and quotes inside tags as entities
+const TAG_ENTITIES: Record<string, string> = {
+  "&quot;": '"',
+  "&#34;": '"',
+  "&#39;": "'",
+  "&apos;": "'",
+  "&gt;": ">",
+  "&lt;": "<",
+  "&amp;": "&",
+  "&nbsp;": " ",
+  "&#160;": " ",
+};
+
+function decodeTagContent(content: string): string {
+  return content.replace(/&(?:quot|apos|gt|lt|amp|nbsp|#34|#39|#160);/g, (entity) => TAG_ENTITIES[entity]);
+}
+
+function createError(text: string, index: number, message: string): TemplateSyntaxError {
+  const before = text.slice(0, index).split("\n");
+  return {
+    message,
+    index,
+    line: before.length,
+    column: before[before.length - 1].length + 1,
+  };
 }
 
 /**
- * Extract all variables from a string or structure
- * Supports: {{variable}}, {{variable|default:"value"}}, {{variable|filter1|filter2}}
+ * Split "name|default:\"x\"|upper" into a VariableInfo
  */
-export function extractVariables(input: string | object): VariableInfo[] {
-  const text = typeof input === "string" ? input : JSON.stringify(input);
-  const variables: VariableInfo[] = [];
-  const variableRegex = /\{\{([^}]+)\}\}/g;
-  
-  let match;
-  while ((match = variableRegex.exec(text)) !== null) {
-    const fullMatch = match[0]; // {{variable|default:"value"|filter}}
-    const content = match[1].trim(); // variable|default:"value"|filter
-    
-    // Parse variable name, default value, and filters
-    const parts = content.split("|").map(p => p.trim());
-    const variableName = parts[0];
-    
-    let defaultValue: string | undefined;
-    const filters: string[] = [];
-    
-    for (let i = 1; i < parts.length; i++) {
-      const part = parts[i];
-      if (part.startsWith('default:')) {
-        // Extract default value (remove quotes if present)
-        defaultValue = part.substring(8).trim().replace(/^["']|["']$/g, "");
+function parseVariableTag(content: string, fullMatch: string): VariableInfo {
+  const parts = content.split("|").map((p) => p.trim());
+  let defaultValue: string | undefined;
+  const filters: string[] = [];
+
+  for (let i = 1; i < parts.length; i++) {
+    const part = parts[i];
+    if (part.startsWith("default:")) {
+      // Extract default value (remove quotes if present)
+      defaultValue = part.substring(8).trim().replace(/^["']|["']$/g, "");
+    } else if (part) {
+      filters.push(part);
+    }
+  }
+
+  return {
+    name: parts[0],
+    fullMatch,
+    defaultValue,
+    filters: filters.length > 0 ? filters : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Condition expressions
+// ---------------------------------------------------------------------------
+
+type ExpressionToken =
+  | { type: "word"; value: string }
+  | { type: "string"; value: string }
+  | { type: "op"; value: string }
+  | { type: "paren"; value: "(" | ")" };
+
+function tokenizeExpression(source: string): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: "paren", value: char });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw new Error("Unterminated string");
+      tokens.push({ type: "string", value: source.slice(i + 1, end) });
+      i = end + 1;
+    } else {
+      const op = source.slice(i).match(/^(===|!==|==|!=|>=|<=|&&|\|\||>|<|!)/);
+      if (op) {
+        tokens.push({ type: "op", value: op[1] });
+        i += op[1].length;
       } else {
-        filters.push(part);
+        const word = source.slice(i).match(/^[^\s()"'=!<>&|]+/);
+        if (!word) throw new Error(`Unexpected "${char}"`);
+        tokens.push({ type: "word", value: word[0] });
+        i += word[0].length;
       }
     }
-    
-    variables.push({
-      name: variableName,
-      fullMatch,
-      defaultValue,
-      filters: filters.length > 0 ? filters : undefined,
-    });
   }
-  
+
+  return tokens;
+}
+
+function toCompareOperator(op: string): CompareOperator | null {
+  if (op === "===") return "==";
+  if (op === "!==") return "!=";
+  return ["==", "!=", ">", ">=", "<", "<="].includes(op) ? (op as CompareOperator) : null;
+}
+
+function wordToExpression(word: string): TemplateExpression {
+  if (/^-?\d+(\.\d+)?$/.test(word)) return { type: "literal", value: Number(word) };
+  if (word === "true" || word === "false") return { type: "literal", value: word === "true" };
+  if (word === "null" || word === "undefined") return { type: "literal", value: null };
+  return { type: "path", path: word };
+}
+
+/**
+ * Parse an {{#if}} condition. Accepts infix comparisons (a > 1, a == "x"),
+ * &&, ||, ! and the helpers (eq a b), (ne a b), (gt a b), (gte a b),
+ * (lt a b), (lte a b), (and a b …), (or a b …) and (not a).
+ */
+export function parseCondition(source: string): TemplateExpression {
+  const tokens = tokenizeExpression(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOp = (value: string) => peek()?.type === "op" && peek()!.value === value;
+  const isWord = (value: string) => peek()?.type === "word" && peek()!.value === value;
+
+  const parseOr = (): TemplateExpression => {
+    const operands = [parseAnd()];
+    while (isOp("||") || isWord("or")) {
+      position++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: "or", operands };
+  };
+
+  const parseAnd = (): TemplateExpression => {
+    const operands = [parseUnary()];
+    while (isOp("&&") || isWord("and")) {
+      position++;
+      operands.push(parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { type: "and", operands };
+  };
+
+  const parseUnary = (): TemplateExpression => {
+    if (isOp("!")) {
+      position++;
+      return { type: "not", operand: parseUnary() };
+    }
+    const left = parsePrimary();
+    const token = peek();
+    const operator = token?.type === "op" ? toCompareOperator(token.value) : null;
+    if (!operator) return left;
+    position++;
+    return { type: "compare", operator, left, right: parsePrimary() };
+  };
+
+  const isArgumentStart = () => {
+    const token = peek();
+    if (!token) return false;
+    if (token.type === "word") return token.value !== "and" && token.value !== "or";
+    return token.type === "string" || (token.type === "paren" && token.value === "(") || isOp("!");
+  };
+
+  const parseArgument = (): TemplateExpression => {
+    if (isOp("!")) {
+      position++;
+      return { type: "not", operand: parseArgument() };
+    }
+    return parsePrimary();
+  };
+
+  const parseHelper = (name: string): TemplateExpression => {
+    const args: TemplateExpression[] = [];
+    while (isArgumentStart()) args.push(parseArgument());
+
+    if (COMPARE_HELPERS[name]) {
+      if (args.length !== 2) throw new Error(`"${name}" expects 2 arguments`);
+      return { type: "compare", operator: COMPARE_HELPERS[name], left: args[0], right: args[1] };
+    }
+    if (name === "not") {
+      if (args.length !== 1) throw new Error(`"not" expects 1 argument`);
+      return { type: "not", operand: args[0] };
+    }
+    if (args.length === 0) throw new Error(`"${name}" expects at least 1 argument`);
+    return { type: name as "and" | "or", operands: args };
+  };
+
+  const parsePrimary = (): TemplateExpression => {
+    const token = peek();
+    if (!token) throw new Error("Expected a value");
+    position++;
+
+    if (token.type === "paren") {
+      if (token.value === ")") throw new Error('Unexpected ")"');
+      const expression = parseOr();
+      const close = peek();
+      if (close?.type !== "paren" || close.value !== ")") throw new Error('Missing ")"');
+      position++;
+      return expression;
+    }
+    if (token.type === "string") return { type: "literal", value: token.value };
+    if (token.type === "op") throw new Error(`Unexpected "${token.value}"`);
+
+    const isHelper = Boolean(COMPARE_HELPERS[token.value]) || LOGIC_HELPERS.includes(token.value);
+    if (isHelper && isArgumentStart()) return parseHelper(token.value);
+    return wordToExpression(token.value);
+  };
+
+  if (tokens.length === 0) throw new Error("Missing condition");
+  const expression = parseOr();
+  if (position < tokens.length) {
+    const token = tokens[position];
+    throw new Error(`Unexpected "${token.value}"`);
+  }
+  return expression;
+}
+
+// ---------------------------------------------------------------------------
+// Template parsing
+// ---------------------------------------------------------------------------
+
+interface BlockFrame {
+  tag: "if" | "each";
+  node: IfNode | EachNode; // The {{#if}}/{{#each}} that opened the block
+  branch: IfNode | EachNode; // Current link of an {{else if}} chain
+  target: TemplateNode[];
+  index: number;
+  hasElse: boolean;
+}
+
+/**
+ * Parse a template into a syntax tree. Never throws: problems are
+ * collected in `errors` and the tree is recovered as best it can be
+ * (unclosed blocks close at the end, stray tags render nothing and
+ * invalid conditions are false).
+ */
+export function parseTemplate(text: string): ParsedTemplate {
+  const root: TemplateNode[] = [];
+  const errors: TemplateSyntaxError[] = [];
+  const stack: BlockFrame[] = [];
+  let position = 0;
+
+  const output = () => (stack.length > 0 ? stack[stack.length - 1].target : root);
+  const pushText = (value: string) => {
+    if (!value) return;
+    const nodes = output();
+    const last = nodes[nodes.length - 1];
+    if (last?.type === "text") {
+      last.value += value;
+    } else {
+      nodes.push({ type: "text", value });
+    }
+  };
+  const report = (index: number, message: string) => errors.push(createError(text, index, message));
+
+  const parseConditionAt = (source: string, index: number): TemplateExpression => {
+    try {
+      return parseCondition(source);
+    } catch (error) {
+      report(index, `Invalid condition "${source}": ${error instanceof Error ? error.message : error}`);
+      return { type: "literal", value: false };
+    }
+  };
+
+  const openBlock = (tag: "if" | "each", node: IfNode | EachNode, index: number) => {
+    output().push(node);
+    const target = node.type === "if" ? node.consequent : node.body;
+    stack.push({ tag, node, branch: node, target, index, hasElse: false });
+  };
+
+  const closeBlock = (tag: string, index: number) => {
+    const depth = stack.map((frame) => frame.tag).lastIndexOf(tag as BlockFrame["tag"]);
+    if (depth === -1) {
+      report(index, `Unexpected {{/${tag}}} without a matching {{#${tag}}}`);
+      return;
+    }
+    // Blocks opened inside this one but never closed are closed here
+    while (stack.length - 1 > depth) {
+      const frame = stack.pop()!;
+      report(frame.index, `{{#${frame.tag}}} is not closed before {{/${tag}}}`);
+    }
+    stack.pop();
+  };
+
+  while (position < text.length) {
+    const start = text.indexOf("{{", position);
+    if (start === -1) {
+      pushText(text.slice(position));
+      break;
+    }
+    pushText(text.slice(position, start));
+
+    const end = text.indexOf("}}", start + 2);
+    if (end === -1) {
+      report(start, "Unclosed {{ tag");
+      pushText(text.slice(start));
+      break;
+    }
+
+    const raw = text.slice(start, end + 2);
+    const content = decodeTagContent(text.slice(start + 2, end)).trim();
+    position = end + 2;
+
+    if (!content) {
+      report(start, "Empty {{}} tag");
+      pushText(raw);
+      continue;
+    }
+
+    if (content.startsWith("!")) continue; // Comment
+
+    if (content.startsWith("#")) {
+      const [, helper = "", rest = ""] = content.match(/^#(\S*)\s*([\s\S]*)$/) || [];
+      if (helper === "if") {
+        openBlock("if", {
+          type: "if",
+          raw,
+          condition: parseConditionAt(rest, start),
+          consequent: [],
+          alternate: [],
+        }, start);
+      } else if (helper === "each") {
+        const match = rest.match(/^(\S+)(?:\s+as\s+([A-Za-z_$][\w$]*))?$/);
+        if (!match) {
+          report(start, rest ? `Invalid {{#each}} "${rest}", expected {{#each path}} or {{#each path as name}}` : "{{#each}} needs a list path");
+        }
+        openBlock("each", {
+          type: "each",
+          raw,
+          path: match?.[1] || "",
+          alias: match?.[2],
+          body: [],
+          inverse: [],
+        }, start);
+      } else {
+        report(start, `Unknown block helper {{#${helper}}}`);
+      }
+      continue;
+    }
+
+    if (content.startsWith("/")) {
+      closeBlock(content.slice(1).trim(), start);
+      continue;
+    }
+
+    if (content === "else" || /^else\s/.test(content)) {
+      const frame = stack[stack.length - 1];
+      const condition = content.slice(4).trim();
+      const elseIf = condition.match(/^if\s+([\s\S]+)$/);
+
+      if (!frame) {
+        report(start, "{{else}} outside of an {{#if}} or {{#each}} block");
+      } else if (frame.hasElse) {
+        report(start, `{{${content}}} after {{else}} in the same {{#${frame.tag}}} block`);
+      } else if (condition && !elseIf) {
+        report(start, `Invalid {{${content}}}, expected {{else}} or {{else if condition}}`);
+      } else if (elseIf) {
+        if (frame.tag !== "if") {
+          report(start, "{{else if}} can only be used inside {{#if}}");
+          continue;
+        }
+        const branch: IfNode = {
+          type: "if",
+          raw,
+          condition: parseConditionAt(elseIf[1], start),
+          consequent: [],
+          alternate: [],
+        };
+        (frame.branch as IfNode).alternate.push(branch);
+        frame.branch = branch;
+        frame.target = branch.consequent;
+      } else {
+        frame.target = frame.branch.type === "if" ? frame.branch.alternate : frame.branch.inverse;
+        frame.hasElse = true;
+      }
+      continue;
+    }
+
+    output().push({ type: "variable", variable: parseVariableTag(content, raw) });
+  }
+
+  while (stack.length > 0) {
+    const frame = stack.pop()!;
+    report(frame.index, `{{#${frame.tag}}} is never closed, expected {{/${frame.tag}}}`);
+  }
+
+  errors.sort((a, b) => a.index - b.index);
+  return { nodes: root, errors };
+}
+
+/**
+ * Syntax errors in a template, for inline display in the builder
+ */
+export function validateTemplateSyntax(text: string): TemplateSyntaxError[] {
+  return parseTemplate(text).errors;
+}
+
+// ---------------------------------------------------------------------------
+// Extraction and validation
+// ---------------------------------------------------------------------------
+
+interface ExtractContext {
+  scope?: string; // List bare names may resolve against ({{#each}} without an alias)
+  current?: string; // Innermost {{#each}} list, for {{this.name}}
+  locals: Record<string, string>; // {{#each … as alias}} names and their lists
+}
+
+/**
+ * Map a path used inside the tree to the data it reads. Returns null for
+ * loop locals ({{this}}, {{@index}}, a bare alias) that are not data.
+ */
+function toDataPath(
+  path: string,
+  context: ExtractContext
+): { name: string; scope?: string; loopItem?: boolean } | null {
+  if (path.startsWith("@root.")) return { name: path.slice(6) };
+
+  const head = path.split(/[.[]/)[0];
+  const rest = path.slice(head.length).replace(/^\./, "");
+
+  if (head === "this") {
+    return rest && context.current ? { name: rest, scope: context.current, loopItem: true } : null;
+  }
+  if (head.startsWith("@")) return null;
+  if (head in context.locals) {
+    return rest ? { name: rest, scope: context.locals[head], loopItem: true } : null;
+  }
+  return { name: path, scope: context.scope };
+}
+
+function collectExpressionPaths(expression: TemplateExpression, paths: string[]) {
+  switch (expression.type) {
+    case "path":
+      paths.push(expression.path);
+      break;
+    case "compare":
+      collectExpressionPaths(expression.left, paths);
+      collectExpressionPaths(expression.right, paths);
+      break;
+    case "and":
+    case "or":
+      expression.operands.forEach((operand) => collectExpressionPaths(operand, paths));
+      break;
+    case "not":
+      collectExpressionPaths(expression.operand, paths);
+      break;
+  }
+}
+
+function collectVariables(nodes: TemplateNode[], context: ExtractContext, variables: VariableInfo[]) {
+  const add = (path: string, variable: Omit<VariableInfo, "name">) => {
+    const dataPath = toDataPath(path, context);
+    if (dataPath) variables.push({ ...variable, ...dataPath });
+  };
+
+  nodes.forEach((node) => {
+    switch (node.type) {
+      case "variable":
+        add(node.variable.name, node.variable);
+        break;
+
+      case "if": {
+        const paths: string[] = [];
+        collectExpressionPaths(node.condition, paths);
+        paths.forEach((path) => add(path, { fullMatch: node.raw }));
+        collectVariables(node.consequent, context, variables);
+        collectVariables(node.alternate, context, variables);
+        break;
+      }
+
+      case "each": {
+        const list = node.path ? toDataPath(node.path, context) : null;
+        if (list) variables.push({ ...list, fullMatch: node.raw });
+
+        const listPath = list ? (list.scope ? `${list.scope}.${list.name}` : list.name) : undefined;
+        const bodyContext: ExtractContext = node.alias
+          ? { ...context, current: listPath, locals: { ...context.locals, ...(listPath ? { [node.alias]: listPath } : {}) } }
+          : { ...context, scope: listPath, current: listPath };
+        collectVariables(node.body, bodyContext, variables);
+        collectVariables(node.inverse, context, variables);
+        break;
+      }
+    }
+  });
+}
+
+function collectStrings(value: unknown, strings: string[]): string[] {
+  if (typeof value === "string") {
+    strings.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectStrings(item, strings));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectStrings(item, strings));
+  }
+  return strings;
+}
+
+/**
+ * Extract all variables from a string or from every string in a structure.
+ * Variables read through {{#each}} items carry the list path as `scope`
+ * (and `loopItem` when they can't come from the root data); loop locals
+ * such as {{this}} and {{@index}} are skipped.
+ */
+export function extractVariables(input: string | object): VariableInfo[] {
+  const texts = typeof input === "string" ? [input] : collectStrings(input, []);
+  const variables: VariableInfo[] = [];
+  texts.forEach((text) => collectVariables(parseTemplate(text).nodes, { locals: {} }, variables));
+
   // Remove duplicates
   const unique = new Map<string, VariableInfo>();
   variables.forEach(v => {
-    const key = v.name + (v.defaultValue ? `|default:${v.defaultValue}` : "");
+    const key = v.name + (v.defaultValue ? `|default:${v.defaultValue}` : "") + (v.scope ? `@${v.scope}` : "") + (v.loopItem ? "!" : "");
     if (!unique.has(key)) {
       unique.set(key, v);
     }
   });
-  
+
   return Array.from(unique.values());
 }
 
+function splitPath(path: string): string[] {
+  return path.replace(/\[(\d+)\]/g, ".$1").split(".").filter(Boolean);
+}
+
 /**
- * Validate that all variables exist in available variables
+ * Whether a path exists in sample data. Arrays without an index are
+ * looked into: the path exists if any item has it (or the list is empty).
+ */
+function hasPath(value: any, parts: string[]): boolean {
+  if (parts.length === 0) return true;
+  if (Array.isArray(value)) {
+    if (/^\d+$/.test(parts[0])) {
+      return Number(parts[0]) < value.length && hasPath(value[Number(parts[0])], parts.slice(1));
+    }
+    return value.length === 0 || value.some((item) => hasPath(item, parts));
+  }
+  if (!value || typeof value !== "object" || !(parts[0] in value)) return false;
+  return hasPath(value[parts[0]], parts.slice(1));
+}
+
+/**
+ * Validate that all variables exist in available variables. Scoped
+ * variables may also resolve against the items of their list.
  */
 export function validateVariables(
   variables: VariableInfo[],
@@ -70,74 +617,172 @@ export function validateVariables(
 ): { valid: VariableInfo[]; invalid: VariableInfo[] } {
   const valid: VariableInfo[] = [];
   const invalid: VariableInfo[] = [];
-  
+
   variables.forEach(variable => {
-    const pathParts = variable.name.split(".");
-    let current = availableVars;
-    
-    for (const part of pathParts) {
-      if (current && typeof current === "object" && part in current) {
-        current = current[part];
-      } else {
-        invalid.push(variable);
-        return;
-      }
+    const exists =
+      hasPath(availableVars, splitPath(variable.name)) ||
+      (variable.scope !== undefined && hasPath(availableVars, splitPath(`${variable.scope}.${variable.name}`)));
+
+    if (exists) {
+      valid.push(variable);
+    } else {
+      invalid.push(variable);
     }
-    
-    valid.push(variable);
   });
-  
+
   return { valid, invalid };
 }
 
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+export interface FormatOptions {
+  language?: string; // Locale for number, currency and date filters (default en-US)
+  timeZone?: string; // IANA time zone for date filters (default: the server's)
+}
+
+interface RenderOptions extends FormatOptions {
+  defaultEmpty?: boolean;
+  handleMissing?: (variable: string) => string;
+}
+
+interface RenderScope {
+  data: Record<string, any>;
+  root: Record<string, any>;
+}
+
+function resolvePath(path: string, scope: RenderScope): any {
+  if (path.startsWith("@root.")) return getNestedValue(scope.root, path.slice(6));
+  return getNestedValue(scope.data, path);
+}
+
 /**
- * Replace variables in text with actual values
+ * Empty strings, empty lists, null, undefined and false are falsy; 0 is not
+ */
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== "";
+}
+
+function isNumeric(value: unknown): boolean {
+  if (typeof value === "number") return Number.isFinite(value);
+  return typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value));
+}
+
+function compareValues(operator: CompareOperator, left: unknown, right: unknown): boolean {
+  const numeric = isNumeric(left) && isNumeric(right);
+  const a = numeric ? Number(left) : String(left ?? "");
+  const b = numeric ? Number(right) : String(right ?? "");
+
+  switch (operator) {
+    case "==":
+      return a === b;
+    case "!=":
+      return a !== b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+  }
+}
+
+function evaluateExpression(expression: TemplateExpression, scope: RenderScope): unknown {
+  switch (expression.type) {
+    case "path":
+      return resolvePath(expression.path, scope);
+    case "literal":
+      return expression.value;
+    case "compare":
+      return compareValues(
+        expression.operator,
+        evaluateExpression(expression.left, scope),
+        evaluateExpression(expression.right, scope)
+      );
+    case "and":
+      return expression.operands.every((operand) => isTruthy(evaluateExpression(operand, scope)));
+    case "or":
+      return expression.operands.some((operand) => isTruthy(evaluateExpression(operand, scope)));
+    case "not":
+      return !isTruthy(evaluateExpression(expression.operand, scope));
+  }
+}
+
+function renderVariable(variable: VariableInfo, scope: RenderScope, options?: RenderOptions): string {
+  let value = resolvePath(variable.name, scope);
+
+  // Use default if value is missing or empty
+  if (value === undefined || value === null || (value === "" && variable.defaultValue !== undefined)) {
+    value = variable.defaultValue !== undefined ? variable.defaultValue : (options?.handleMissing?.(variable.name) || "");
+  }
+
+  // Convert to string
+  let result = value === null || value === undefined ? "" : String(value);
+
+  // Apply filters
+  if (variable.filters) {
+    result = applyFilters(result, variable.filters, options);
+  }
+
+  return result;
+}
+
+function renderNodes(nodes: TemplateNode[], scope: RenderScope, options?: RenderOptions): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "variable":
+          return renderVariable(node.variable, scope, options);
+        case "if":
+          return renderNodes(
+            isTruthy(evaluateExpression(node.condition, scope)) ? node.consequent : node.alternate,
+            scope,
+            options
+          );
+        case "each": {
+          const list = node.path ? resolvePath(node.path, scope) : undefined;
+          if (!Array.isArray(list) || list.length === 0) {
+            return renderNodes(node.inverse, scope, options);
+          }
+          return list
+            .map((item, index) => {
+              const isObject = item !== null && typeof item === "object" && !Array.isArray(item);
+              const data: Record<string, any> = {
+                ...scope.data,
+                ...(isObject && !node.alias ? item : {}),
+                this: item,
+                ...(node.alias ? { [node.alias]: item } : {}),
+                "@index": index,
+                "@first": index === 0,
+                "@last": index === list.length - 1,
+                "@length": list.length,
+              };
+              return renderNodes(node.body, { data, root: scope.root }, options);
+            })
+            .join("");
+        }
+      }
+    })
+    .join("");
+}
+
+/**
+ * Render a template with actual values: variables, conditionals and loops.
+ * Syntax errors do not throw; see validateTemplateSyntax.
  */
 export function replaceVariables(
   text: string,
   data: Record<string, any>,
-  options?: {
-    defaultEmpty?: boolean;
-    handleMissing?: (variable: string) => string;
-  }
+  options?: RenderOptions
 ): string {
-  const variableRegex = /\{\{([^}]+)\}\}/g;
-  
-  return text.replace(variableRegex, (match, content) => {
-    const parts = content.trim().split("|").map((p: string) => p.trim());
-    const variableName = parts[0];
-    
-    // Get value from data
-    let value = getNestedValue(data, variableName);
-    
-    // Handle default value
-    let defaultValue: string | undefined;
-    const filters: string[] = [];
-    
-    for (let i = 1; i < parts.length; i++) {
-      const part = parts[i];
-      if (part.startsWith('default:')) {
-        defaultValue = part.substring(8).trim().replace(/^["']|["']$/g, "");
-      } else {
-        filters.push(part);
-      }
-    }
-    
-    // Use default if value is missing
-    if (value === undefined || value === null) {
-      value = defaultValue !== undefined ? defaultValue : (options?.handleMissing?.(variableName) || "");
-    }
-    
-    // Convert to string
-    let result = value === null || value === undefined ? "" : String(value);
-    
-    // Apply filters
-    if (filters.length > 0) {
-      result = applyFilters(result, filters);
-    }
-    
-    return result;
-  });
+  if (!text.includes("{{")) return text;
+  return renderNodes(parseTemplate(text).nodes, { data, root: data }, options);
 }
 
 /**
@@ -166,74 +811,242 @@ function getNestedValue(obj: any, path: string): any {
 }
 
 /**
- * Apply filters to a value
+ * Split "truncate:20:\"…\"" into the filter name and its arguments
  */
-function applyFilters(value: string, filters: string[]): string {
-  let result = value;
-  
-  for (const filter of filters) {
-    switch (filter.toLowerCase()) {
-      case "uppercase":
-      case "upper":
-        result = result.toUpperCase();
-        break;
-      
-      case "lowercase":
-      case "lower":
-        result = result.toLowerCase();
-        break;
-      
-      case "capitalize":
-        result = result.charAt(0).toUpperCase() + result.slice(1).toLowerCase();
-        break;
-      
-      case "trim":
-        result = result.trim();
-        break;
-      
+function parseFilter(filter: string): { name: string; args: string[] } {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  let quoted = false;
+
+  for (const char of filter) {
+    if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      quoted = true;
+    } else if (char === ":") {
+      parts.push(quoted ? current : current.trim());
+      current = "";
+      quoted = false;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(quoted ? current : current.trim());
+
+  return { name: parts[0].toLowerCase(), args: parts.slice(1) };
+}
+
+function resolveLocale(language?: string): string {
+  if (!language) return "en-US";
+  try {
+    return Intl.getCanonicalLocales(language)[0] || "en-US";
+  } catch {
+    return "en-US";
+  }
+}
+
+function parseDate(value: string): Date | null {
+  const date = /^-?\d+(\.\d+)?$/.test(value.trim()) ? new Date(Number(value)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const DATE_PRESETS: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { dateStyle: "short" },
+  medium: { dateStyle: "medium" },
+  long: { dateStyle: "long" },
+  full: { dateStyle: "full" },
+  time: { timeStyle: "short" },
+  datetime: { dateStyle: "medium", timeStyle: "short" },
+};
+
+const DATE_TOKENS = /yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|ss|a|'[^']*'/g;
+
+/**
+ * Format a date with a pattern such as "dd.MM.yyyy HH:mm" or "EEEE, d MMMM".
+ * Month and weekday names come from the locale; text in single quotes is literal.
+ */
+function formatDatePattern(date: Date, pattern: string, locale: string, timeZone?: string): string {
+  const format = (options: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat(locale, { timeZone, ...options }).format(date);
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    hourCycle: "h23",
+  })
+    .formatToParts(date)
+    .forEach((part) => {
+      parts[part.type] = part.value;
+    });
+
+  const hour = Number(parts.hour) % 24;
+  const pad = (value: number | string) => String(value).padStart(2, "0");
+
+  return pattern.replace(DATE_TOKENS, (token) => {
+    switch (token) {
+      case "yyyy":
+        return parts.year;
+      case "yy":
+        return parts.year.slice(-2);
+      case "MMMM":
+        return format({ month: "long" });
+      case "MMM":
+        return format({ month: "short" });
+      case "MM":
+        return pad(parts.month);
+      case "M":
+        return String(Number(parts.month));
+      case "dd":
+        return pad(parts.day);
+      case "d":
+        return String(Number(parts.day));
+      case "EEEE":
+        return format({ weekday: "long" });
+      case "EEE":
+        return format({ weekday: "short" });
+      case "HH":
+        return pad(hour);
+      case "H":
+        return String(hour);
+      case "hh":
+        return pad(hour % 12 || 12);
+      case "h":
+        return String(hour % 12 || 12);
+      case "mm":
+        return pad(parts.minute);
+      case "ss":
+        return pad(parts.second);
+      case "a":
+        return (
+          new Intl.DateTimeFormat(locale, { timeZone, hour: "numeric", hour12: true })
+            .formatToParts(date)
+            .find((part) => part.type === "dayPeriod")?.value || (hour < 12 ? "AM" : "PM")
+        );
       default:
-        if (filter.startsWith("currency")) {
-          // currency:USD or currency
-          const currency = filter.includes(":") ? filter.split(":")[1] : "USD";
-          const num = parseFloat(result);
-          if (!isNaN(num)) {
-            result = new Intl.NumberFormat("en-US", {
-              style: "currency",
-              currency: currency,
-            }).format(num);
-          }
-        } else if (filter.startsWith("date")) {
-          // date:format or date
-          const format = filter.includes(":") ? filter.split(":")[1] : "short";
-          const date = new Date(result);
-          if (!isNaN(date.getTime())) {
-            switch (format) {
-              case "short":
-                result = date.toLocaleDateString();
-                break;
-              case "long":
-                result = date.toLocaleDateString("en-US", {
-                  year: "numeric",
-                  month: "long",
-                  day: "numeric",
-                });
-                break;
-              case "time":
-                result = date.toLocaleTimeString();
-                break;
-              default:
-                result = date.toLocaleString();
-            }
-          }
-        } else if (filter.startsWith("length")) {
-          // length or length:max
-          result = String(result.length);
-        }
-        break;
+        return token.slice(1, -1);
+    }
+  });
+}
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+  ["second", 1],
+];
+
+function formatRelativeTime(date: Date, locale: string): string {
+  const seconds = (date.getTime() - Date.now()) / 1000;
+  const [unit, size] = RELATIVE_UNITS.find(([, size]) => Math.abs(seconds) >= size) || ["second", 1];
+  return new Intl.RelativeTimeFormat(locale, { numeric: "auto" }).format(Math.round(seconds / size), unit);
+}
+
+function fractionDigits(arg: string | undefined, fallback?: number): Intl.NumberFormatOptions {
+  const digits = arg !== undefined && arg !== "" ? Number(arg) : fallback;
+  return digits === undefined || isNaN(digits)
+    ? {}
+    : { minimumFractionDigits: digits, maximumFractionDigits: digits };
+}
+
+/**
+ * Apply one filter. Values it can't format (e.g. text passed to
+ * `number`) are returned unchanged.
+ */
+function applyFilter(value: string, filter: string, locale: string, timeZone?: string): string {
+  const { name, args } = parseFilter(filter);
+
+  switch (name) {
+    case "uppercase":
+    case "upper":
+      return value.toUpperCase();
+
+    case "lowercase":
+    case "lower":
+      return value.toLowerCase();
+
+    case "capitalize":
+      return value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+
+    case "trim":
+      return value.trim();
+
+    case "length":
+      return String(value.length);
+
+    case "truncate": {
+      const max = Number(args[0]);
+      const suffix = args[1] ?? "…";
+      if (!max || value.length <= max) return value;
+      return value.slice(0, Math.max(0, max - suffix.length)).trimEnd() + suffix;
     }
+
+    case "number":
+    case "percent":
+    case "currency":
+    case "pluralize": {
+      const num = parseFloat(value);
+      if (isNaN(num)) return value;
+
+      if (name === "number") {
+        return new Intl.NumberFormat(locale, fractionDigits(args[0])).format(num);
+      }
+      if (name === "percent") {
+        return new Intl.NumberFormat(locale, { style: "percent", ...fractionDigits(args[0], 0) }).format(num);
+      }
+      if (name === "currency") {
+        return new Intl.NumberFormat(locale, { style: "currency", currency: args[0] || "USD" }).format(num);
+      }
+      const singular = args[0] ?? "";
+      const plural = args[1] ?? `${singular}s`;
+      return new Intl.PluralRules(locale).select(num) === "one" ? singular : plural;
+    }
+
+    case "date": {
+      const date = parseDate(value);
+      if (!date) return value;
+      const format = args.length > 0 ? args.join(":") : "short";
+      const preset = DATE_PRESETS[format];
+      return preset
+        ? new Intl.DateTimeFormat(locale, { timeZone, ...preset }).format(date)
+        : formatDatePattern(date, format, locale, timeZone);
+    }
+
+    case "relativetime": {
+      const date = parseDate(value);
+      return date ? formatRelativeTime(date, locale) : value;
+    }
+
+    default:
+      return value;
   }
-  
-  return result;
+}
+
+/**
+ * Apply filters to a value, formatting numbers and dates for the
+ * email's language
+ */
+function applyFilters(value: string, filters: string[], format: FormatOptions = {}): string {
+  const locale = resolveLocale(format.language);
+
+  return filters.reduce((result, filter) => {
+    try {
+      return applyFilter(result, filter, locale, format.timeZone);
+    } catch {
+      // Unknown currency codes or time zones leave the value as it was
+      return result;
+    }
+  }, value);
 }
 
 /**
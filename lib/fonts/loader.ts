@@ -0,0 +1,78 @@
+/**
+ * Custom Font Loader
+ * Loads and caches organization web fonts from database
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import { SystemFontFamilySchema } from "@/lib/email-builder/types";
+import type { CustomFont } from "@/lib/email-builder/fonts";
+
+// Keyed by organization and font id
+interface FontCache {
+  [cacheKey: string]: {
+    font: CustomFont;
+    timestamp: number;
+  };
+}
+
+const fontCache: FontCache = {};
+const CACHE_TTL = 60 * 1000; // 1 minute
+
+const cacheKey = (organizationId: string, fontId: string) => `${organizationId}:${fontId}`;
+
+export function toCustomFont(row: {
+  id: string;
+  name: string;
+  cssUrl: string | null;
+  fileUrl: string | null;
+  fallback: string;
+}): CustomFont {
+  const fallback = SystemFontFamilySchema.safeParse(row.fallback);
+  return {
+    id: row.id,
+    name: row.name,
+    cssUrl: row.cssUrl,
+    fileUrl: row.fileUrl,
+    fallback: fallback.success ? fallback.data : "MODERN_SANS",
+  };
+}
+
+/**
+ * Load an organization's custom fonts by id. Unknown ids and other
+ * organizations' fonts are left out of the result.
+ */
+export async function loadCustomFonts(fontIds: string[], organizationId: string): Promise<CustomFont[]> {
+  const fonts: CustomFont[] = [];
+  const missing: string[] = [];
+  const now = Date.now();
+
+  fontIds.forEach((id) => {
+    const cached = fontCache[cacheKey(organizationId, id)];
+    if (cached && now - cached.timestamp <= CACHE_TTL) {
+      fonts.push(cached.font);
+    } else {
+      missing.push(id);
+    }
+  });
+
+  if (missing.length > 0) {
+    const rows = await prisma.customFont.findMany({
+      where: { id: { in: missing }, organizationId },
+    });
+
+    rows.forEach((row) => {
+      const font = toCustomFont(row);
+      fontCache[cacheKey(organizationId, row.id)] = { font, timestamp: now };
+      fonts.push(font);
+    });
+  }
+
+  return fonts;
+}
+
+/**
+ * Invalidate cache for a font
+ */
+export function invalidateFontCache(organizationId: string, fontId: string) {
+  delete fontCache[cacheKey(organizationId, fontId)];
+}
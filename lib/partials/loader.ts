@@ -0,0 +1,63 @@
+/**
+ * Partial Loader
+ * Loads and caches global partial documents from database
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import type { EmailBuilderDocument } from "@/lib/email-builder/types";
+import type { PartialDocuments } from "@/lib/email-builder/partials";
+
+// Keyed by organization and partial id
+interface PartialCache {
+  [cacheKey: string]: {
+    structure: EmailBuilderDocument;
+    timestamp: number;
+  };
+}
+
+// Kept short so edits reach long-running workers quickly
+const partialCache: PartialCache = {};
+const CACHE_TTL = 60 * 1000; // 1 minute
+
+const cacheKey = (organizationId: string, partialId: string) => `${organizationId}:${partialId}`;
+
+/**
+ * Load an organization's partial documents by id. Unknown ids and other
+ * organizations' partials are left out of the result.
+ */
+export async function loadPartials(partialIds: string[], organizationId: string): Promise<PartialDocuments> {
+  const partials: PartialDocuments = {};
+  const missing: string[] = [];
+  const now = Date.now();
+
+  partialIds.forEach((id) => {
+    const cached = partialCache[cacheKey(organizationId, id)];
+    if (cached && now - cached.timestamp <= CACHE_TTL) {
+      partials[id] = cached.structure;
+    } else {
+      missing.push(id);
+    }
+  });
+
+  if (missing.length > 0) {
+    const rows = await prisma.templatePartial.findMany({
+      where: { id: { in: missing }, organizationId },
+      select: { id: true, structure: true },
+    });
+
+    rows.forEach((row) => {
+      const structure = row.structure as unknown as EmailBuilderDocument;
+      partialCache[cacheKey(organizationId, row.id)] = { structure, timestamp: now };
+      partials[row.id] = structure;
+    });
+  }
+
+  return partials;
+}
+
+/**
+ * Invalidate cache for a partial
+ */
+export function invalidatePartialCache(organizationId: string, partialId: string) {
+  delete partialCache[cacheKey(organizationId, partialId)];
+}
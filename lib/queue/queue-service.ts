@@ -27,6 +27,7 @@ export interface EmailJob {
   emailLogId?: string; // Optional: if EmailLog already created
   priority?: number; // Higher number = higher priority
   subject?: string; // Optional: override template subject
+  preheader?: string; // Optional: override template preheader
   fromEmail?: string; // Optional: override profile fromEmail
   fromName?: string; // Optional: override profile fromName
 }
@@ -0,0 +1,140 @@
+/**
+ * Network Guards
+ * Keeps server-side requests to user-supplied URLs off private networks
+ */
+
+import { lookup } from "dns";
+import { isIP, type LookupFunction } from "net";
+
+// [first address, prefix length]
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, including cloud metadata endpoints
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // Documentation
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["198.51.100.0", 24], // Documentation
+  ["203.0.113.0", 24], // Documentation
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+];
+
+function parseIPv4(address: string): number | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isPrivateIPv4(value: number): boolean {
+  return PRIVATE_IPV4_RANGES.some(([base, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(parseIPv4(base)! / size);
+  });
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, or null if it doesn't parse
+ */
+function parseIPv6(address: string): number[] | null {
+  let text = address.split("%")[0]; // Drop the zone index
+
+  // A trailing dotted IPv4 address becomes the last two groups
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = parseIPv4(dotted[2]);
+    if (value === null) return null;
+    text = `${dotted[1]}${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const embeddedIPv4 = (high: number, low: number) => isPrivateIPv4(high * 65536 + low);
+  const zeros = (from: number, to: number) => groups.slice(from, to).every((group) => group === 0);
+
+  if (zeros(0, 8)) return true; // Unspecified
+  if (zeros(0, 7) && groups[7] === 1) return true; // Loopback
+  if (zeros(0, 5) && groups[5] === 0xffff) return embeddedIPv4(groups[6], groups[7]); // IPv4-mapped
+  if (zeros(0, 6)) return embeddedIPv4(groups[6], groups[7]); // IPv4-compatible
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && zeros(2, 6)) return embeddedIPv4(groups[6], groups[7]); // NAT64
+  if (groups[0] === 0x2002) return embeddedIPv4(groups[1], groups[2]); // 6to4
+  if ((groups[0] & 0xfe00) === 0xfc00) return true; // Unique local fc00::/7
+  if ((groups[0] & 0xffc0) === 0xfe80) return true; // Link-local
+  if ((groups[0] & 0xffc0) === 0xfec0) return true; // Site-local
+  if ((groups[0] & 0xff00) === 0xff00) return true; // Multicast
+  if (groups[0] === 0x2001 && groups[1] === 0x0db8) return true; // Documentation
+  if (groups[0] === 0x0100 && zeros(1, 4)) return true; // Discard-only
+  return false;
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * on the public internet. Anything that doesn't parse counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, "");
+  if (isIP(host) === 4) {
+    const value = parseIPv4(host);
+    return value === null || isPrivateIPv4(value);
+  }
+  if (isIP(host) === 6) {
+    const groups = parseIPv6(host);
+    return groups === null || isPrivateIPv6(groups);
+  }
+  return true;
+}
+
+/**
+ * Drop-in for dns.lookup on http(s) requests that refuses to connect when
+ * a hostname resolves to a private address. Checking at connect time means
+ * a second DNS answer can't swap in a different address.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(Object.assign(new Error("private addresses are not checked"), { code: "EPRIVATE" }), "");
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Rejects URLs a server-side request must not follow: anything but
+ * http(s), and hosts given as private IP literals. Hostnames are checked
+ * when they resolve, through publicLookup.
+ */
+export function assertPublicUrl(url: URL): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`${url.protocol} URLs are not checked`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && isPrivateAddress(host)) {
+    throw new Error("private addresses are not checked");
+  }
+}
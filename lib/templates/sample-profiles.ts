@@ -0,0 +1,94 @@
+/**
+ * Sample Data Profiles
+ * Named variable data for previewing a template and filling campaign gaps
+ */
+
+import { z } from "zod";
+import { matchesVariableType } from "@/lib/campaigns/variable-contract";
+import type { VariableDefinition } from "@/lib/email/variable-definitions";
+
+export interface SampleProfile {
+  id: string;
+  name: string;
+  data: Record<string, unknown>;
+  isCampaignDefault: boolean;
+}
+
+export const SampleProfileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  data: z.record(z.unknown()),
+  isCampaignDefault: z.boolean().default(false),
+});
+
+export type SampleProfileInput = z.input<typeof SampleProfileSchema>;
+
+export interface ProfileTypeIssue {
+  path: string;
+  expected: VariableDefinition["type"];
+  message: string;
+}
+
+function getValue(data: Record<string, unknown>, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>((current, part) => (current == null ? undefined : (current as Record<string, unknown>)[part]), data);
+}
+
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return "an array";
+  if (value === null) return "null";
+  return typeof value === "object" ? "an object" : `a ${typeof value}`;
+}
+
+/**
+ * Check a profile's values against the organization's custom variable
+ * types. Variables the profile leaves out are not issues.
+ */
+export function validateProfileTypes(
+  data: Record<string, unknown>,
+  definitions: Array<Pick<VariableDefinition, "path" | "type">>
+): ProfileTypeIssue[] {
+  const issues: ProfileTypeIssue[] = [];
+  definitions.forEach(({ path, type }) => {
+    const value = getValue(data, path);
+    if (value === undefined || matchesVariableType(value, type)) return;
+    issues.push({
+      path,
+      expected: type,
+      message: `${path} should be ${type === "array" || type === "object" ? "an" : "a"} ${type}, got ${describeValue(value)}`,
+    });
+  });
+  return issues;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+/**
+ * Fill the values a recipient lacks (missing or empty) from a profile.
+ * Recipient values always win; nested objects are merged key by key.
+ */
+export function applySampleDefaults(
+  defaults: Record<string, unknown> | null | undefined,
+  data: Record<string, unknown> | null | undefined
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...(data || {}) };
+  Object.entries(defaults || {}).forEach(([key, value]) => {
+    if (isEmpty(result[key])) {
+      result[key] = value;
+    } else if (isPlainObject(result[key]) && isPlainObject(value)) {
+      result[key] = applySampleDefaults(value, result[key]);
+    }
+  });
+  return result;
+}
+
+export function toSampleProfile(row: { id: string; name: string; data: unknown; isCampaignDefault: boolean }): SampleProfile {
+  const data = row.data && typeof row.data === "object" && !Array.isArray(row.data) ? row.data : {};
+  return { id: row.id, name: row.name, data: data as Record<string, unknown>, isCampaignDefault: row.isCampaignDefault };
+}
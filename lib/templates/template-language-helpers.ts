@@ -4,6 +4,7 @@
  */
 
 import { prisma } from "@/lib/db/prisma";
+import { migrateDocument, validateDocument } from "@/lib/email-builder/migrations";
 
 /**
  * Save template structure for a specific language
@@ -14,7 +15,12 @@ export async function saveTemplateLanguage(
   structure: any
 ): Promise<void> {
   const normalizedLangCode = languageCode.toLowerCase();
-  const structureCopy = JSON.parse(JSON.stringify(structure)); // Deep copy
+  if (!structure || typeof structure !== "object") {
+    throw new Error(`Template structure is missing for ${templateId}/${normalizedLangCode}`);
+  }
+  // Restored versions, imports and duplicates may still be in an older
+  // document shape, so upgrade before storing
+  const structureCopy = JSON.parse(JSON.stringify(migrateDocument(structure).document)); // Deep copy
   
   // Validate structure has content
   const hasContent = structureCopy && (
@@ -112,7 +118,8 @@ export async function saveTemplateLanguage(
 }
 
 /**
- * Get template structure for a specific language
+ * Get template structure for a specific language, upgraded to the current
+ * document schema version
  */
 export async function getTemplateLanguage(
   templateId: string,
@@ -127,7 +134,46 @@ export async function getTemplateLanguage(
     },
   });
 
-  return templateLanguage ? templateLanguage.structure : null;
+  return templateLanguage ? migrateDocument(templateLanguage.structure).document : null;
+}
+
+/**
+ * Get the hand-edited plain-text part for a language, if one is saved
+ */
+export async function getTemplatePlainText(
+  templateId: string,
+  languageCode: string
+): Promise<string | null> {
+  const templateLanguage = await prisma.templateLanguage.findUnique({
+    where: {
+      templateId_languageCode: {
+        templateId,
+        languageCode: languageCode.toLowerCase(),
+      },
+    },
+    select: { plainText: true },
+  });
+
+  return templateLanguage?.plainText ?? null;
+}
+
+/**
+ * Save (or clear, with null) the hand-edited plain-text part for a language
+ */
+export async function saveTemplatePlainText(
+  templateId: string,
+  languageCode: string,
+  plainText: string | null
+): Promise<void> {
+  await prisma.templateLanguage.update({
+    where: {
+      templateId_languageCode: {
+        templateId,
+        languageCode: languageCode.toLowerCase(),
+      },
+    },
+    data: { plainText },
+  });
 }
 
 /**
@@ -158,8 +204,8 @@ export async function getAllTemplateLanguages(
     // If language relationship exists, only include if active
     // If language relationship doesn't exist (null), include anyway (fallback)
     if (!tl.language || tl.language.isActive) {
-      // Deep copy the structure
-      const structureCopy = JSON.parse(JSON.stringify(tl.structure));
+      // Deep copy the structure, upgraded to the current schema version
+      const structureCopy = JSON.parse(JSON.stringify(migrateDocument(tl.structure).document));
       
       // Only include if structure is not null/undefined and has content
       // A valid EmailBuilderDocument should have childrenIds array (even if empty)
@@ -283,3 +329,56 @@ export async function templateLanguageExists(
 }
 
 
+
+export interface TemplateLanguageMigrationReport {
+  scanned: number;
+  migrated: number;
+  invalid: Array<{ templateId: string; languageCode: string; errors: string[] }>;
+}
+
+/**
+ * Upgrade every stored TemplateLanguage structure to the current schema
+ * version. Rows that fail validation after migrating are reported and left
+ * untouched; with dryRun nothing is written.
+ */
+export async function migrateAllTemplateLanguages(
+  options: { dryRun?: boolean; batchSize?: number; onProgress?: (report: TemplateLanguageMigrationReport) => void } = {}
+): Promise<TemplateLanguageMigrationReport> {
+  const { dryRun = false, batchSize = 100, onProgress } = options;
+  const report: TemplateLanguageMigrationReport = { scanned: 0, migrated: 0, invalid: [] };
+  let cursor: string | undefined;
+
+  while (true) {
+    const rows = await prisma.templateLanguage.findMany({
+      take: batchSize,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      orderBy: { id: "asc" },
+      select: { id: true, templateId: true, languageCode: true, structure: true },
+    });
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      report.scanned++;
+      const { document, applied } = migrateDocument(row.structure);
+      const errors = validateDocument(document);
+      if (errors.length > 0) {
+        report.invalid.push({ templateId: row.templateId, languageCode: row.languageCode, errors });
+        continue;
+      }
+      if (applied.length === 0) continue;
+
+      report.migrated++;
+      if (!dryRun) {
+        await prisma.templateLanguage.update({
+          where: { id: row.id },
+          data: { structure: document as any },
+        });
+      }
+    }
+
+    cursor = rows[rows.length - 1].id;
+    onProgress?.(report);
+  }
+
+  return report;
+}
@@ -5,6 +5,9 @@
 
 import type { EmailBuilderDocument, EmailBlock } from "@/lib/email-builder/types";
 
+// Document-level text (not tied to a block) is stored under this block ID
+export const DOCUMENT_BLOCK_ID = "document";
+
 export interface TranslatableItem {
   blockId: string;
   translationKey: string;
@@ -21,6 +24,17 @@ export function extractTranslatableText(
 ): TranslatableItem[] {
   const items: TranslatableItem[] = [];
 
+  const preheader = document.preheader as string | undefined;
+  if (preheader && !isOnlyVariable(preheader)) {
+    items.push({
+      blockId: DOCUMENT_BLOCK_ID,
+      translationKey: generateKey(DOCUMENT_BLOCK_ID, "preheader", 0),
+      blockType: "preheader",
+      originalText: preheader,
+      context: "Inbox preview text",
+    });
+  }
+
   // Helper to extract text from a block
   const extractFromBlock = (blockId: string, block: EmailBlock) => {
     const blockType = block.type;
@@ -149,6 +163,7 @@ export function extractTranslatableText(
         break;
 
       case "Container":
+      case "Repeat":
       case "Columns":
       case "Divider":
       case "Spacer":
@@ -4,6 +4,7 @@
  */
 
 import type { EmailBuilderDocument, EmailBlock } from "@/lib/email-builder/types";
+import { DOCUMENT_BLOCK_ID } from "./extractor";
 
 /**
  * Replace text in document with translations
@@ -15,6 +16,11 @@ export function replaceTextWithTranslations(
   // Clone document to avoid mutating original
   const translatedDocument = JSON.parse(JSON.stringify(document)) as EmailBuilderDocument;
 
+  const preheaderTranslation = translations.get(`${DOCUMENT_BLOCK_ID}_preheader_0`);
+  if (preheaderTranslation !== undefined && translatedDocument.preheader) {
+    translatedDocument.preheader = preheaderTranslation;
+  }
+
   // Helper to replace text in a block
   const replaceInBlock = (blockId: string, block: EmailBlock) => {
     const blockType = block.type;
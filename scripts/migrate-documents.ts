@@ -0,0 +1,40 @@
+/**
+ * Document Migration Command
+ * Upgrades every stored template language structure to the current schema version
+ *
+ * Usage: npm run migrate:documents [-- --dry-run]
+ */
+
+import { migrateAllTemplateLanguages } from "../lib/templates/template-language-helpers";
+import { CURRENT_SCHEMA_VERSION } from "../lib/email-builder/migrations";
+import { prisma } from "../lib/db/prisma";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  console.log(`Migrating template documents to schema version ${CURRENT_SCHEMA_VERSION}${dryRun ? " (dry run)" : ""}...`);
+
+  const report = await migrateAllTemplateLanguages({
+    dryRun,
+    onProgress: ({ scanned }) => console.log(`  scanned ${scanned} structures`),
+  });
+
+  report.invalid.forEach(({ templateId, languageCode, errors }) => {
+    console.warn(`✗ ${templateId}/${languageCode} failed validation and was left unchanged:`);
+    errors.slice(0, 10).forEach((error) => console.warn(`    ${error}`));
+    if (errors.length > 10) console.warn(`    ...and ${errors.length - 10} more`);
+  });
+
+  console.log(
+    `✓ ${report.scanned} scanned, ${report.migrated} ${dryRun ? "would be migrated" : "migrated"}, ${report.invalid.length} invalid`
+  );
+  if (report.invalid.length > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((e) => {
+    console.error("Error migrating documents:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { restoreTemplateVersion } from '@/app/actions/template-versions';
+import { getCurrentUser } from '@/lib/auth/session';
+import { prisma } from '@/lib/db/prisma';
+import { CURRENT_SCHEMA_VERSION, validateDocument } from '@/lib/email-builder/migrations';
+
+vi.mock('@/lib/auth/session');
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(() => {}),
+}));
+vi.mock('next/headers', () => ({
+  headers: vi.fn().mockResolvedValue({
+    get: vi.fn().mockReturnValue(null),
+  }),
+}));
+vi.mock('@/lib/auth/permissions', () => ({
+  requirePermission: vi.fn(), // Mock to allow all permissions in tests
+}));
+vi.mock('@/lib/audit/audit-logger', () => ({
+  logAuditAction: vi.fn(),
+}));
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    organizationMember: {
+      findFirst: vi.fn(),
+    },
+    template: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    templateVersion: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+    },
+    templateLanguage: {
+      upsert: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+describe('Template Version Actions', () => {
+  const legacyVersion = {
+    root: {
+      type: 'EmailLayout',
+      data: {
+        backdropColor: '#EEEEEE',
+        canvasColor: '#FFFFFF',
+        textColor: '#111111',
+        fontFamily: 'BOOK_SERIF',
+        childrenIds: ['block-heading'],
+      },
+    },
+    'block-heading': { type: 'Heading', style: { textColor: '#FF0000' }, props: { text: 'Hello', level: 1 } },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getCurrentUser).mockResolvedValue({ id: 'user-1' } as any);
+    vi.mocked(prisma.organizationMember.findFirst).mockResolvedValue({
+      role: 'OWNER',
+      organization: { id: 'org-1' },
+    } as any);
+    vi.mocked(prisma.template.findFirst).mockResolvedValue({ id: 'template-1', defaultLanguage: 'en' } as any);
+    vi.mocked(prisma.templateLanguage.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.templateVersion.create).mockResolvedValue({ versionNumber: 4 } as any);
+  });
+
+  it('should migrate a pre-v2 version before saving it', async () => {
+    vi.mocked(prisma.templateVersion.findFirst)
+      .mockResolvedValueOnce({ id: 'version-1', versionNumber: 1, structure: legacyVersion } as any)
+      .mockResolvedValueOnce({ versionNumber: 3 } as any);
+
+    const result = await restoreTemplateVersion('template-1', 'version-1');
+
+    expect(result).toMatchObject({ success: true, versionNumber: 4 });
+    expect(prisma.templateLanguage.upsert).toHaveBeenCalledTimes(1);
+
+    const saved = vi.mocked(prisma.templateLanguage.upsert).mock.calls[0][0].create.structure as any;
+    expect(vi.mocked(prisma.templateLanguage.upsert).mock.calls[0][0].create.languageCode).toBe('en');
+    expect(saved.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(saved.root).toBeUndefined();
+    expect(saved.childrenIds).toEqual(['block-heading']);
+    expect(saved['block-heading']).toMatchObject({
+      type: 'Heading',
+      data: { style: { color: '#FF0000' }, props: { text: 'Hello', level: '1' } },
+    });
+    expect(validateDocument(saved)).toEqual([]);
+  });
+
+  it('should fail without saving when a language has no structure', async () => {
+    vi.mocked(prisma.templateVersion.findFirst).mockResolvedValueOnce({
+      id: 'version-1',
+      versionNumber: 1,
+      structure: { en: null },
+    } as any);
+
+    const result = await restoreTemplateVersion('template-1', 'version-1');
+
+    expect(result).toEqual({ error: 'Failed to restore template version' });
+    expect(prisma.templateLanguage.upsert).not.toHaveBeenCalled();
+  });
+});
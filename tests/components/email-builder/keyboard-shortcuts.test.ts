@@ -16,6 +16,7 @@ const mockUndo = vi.fn();
 const mockRedo = vi.fn();
 const mockState = {
   selectedBlockId: 'block-1',
+  selectedBlockIds: ['block-1'],
   document: {
     childrenIds: ['block-1', 'block-2'],
   },
@@ -44,6 +45,7 @@ describe('Keyboard Shortcuts - Copy/Paste', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockState.selectedBlockId = 'block-1';
+    mockState.selectedBlockIds = ['block-1'];
     mockState.document = {
       childrenIds: ['block-1', 'block-2'],
     };
@@ -73,6 +75,7 @@ describe('Keyboard Shortcuts - Copy/Paste', () => {
 
     it('should not copy when no block is selected', () => {
       mockState.selectedBlockId = null;
+      mockState.selectedBlockIds = [];
 
       const event = new KeyboardEvent('keydown', {
         key: 'c',
@@ -169,6 +172,7 @@ describe('Keyboard Shortcuts - Copy/Paste', () => {
 
     it('should paste at end when no block is selected', () => {
       mockState.selectedBlockId = null;
+      mockState.selectedBlockIds = [];
 
       const event = new KeyboardEvent('keydown', {
         key: 'v',
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkVariableContract,
+  describeContractProblems,
+  evaluateVariablePolicy,
+  toVariablePolicy,
+} from '@/lib/campaigns/variable-contract';
+import { extractVariables } from '@/lib/email/variable-parser';
+
+describe('Variable Contract', () => {
+  const uses = [
+    { language: 'en', variables: extractVariables('Hi {{firstName}}, your code is {{code | default:"WELCOME"}}') },
+    { language: 'de', variables: extractVariables('Hallo {{firstName}}, {{points}} Punkte') },
+    { language: 'subject', variables: extractVariables('{{firstName}}, your points') },
+  ];
+  const recipients = [
+    { firstName: 'Ada', points: '120', code: 'A1' },
+    { firstName: '  ', points: 'lots' },
+    null,
+  ];
+
+  it('should count recipients missing each variable', () => {
+    const report = checkVariableContract(uses, recipients, [{ path: 'points', type: 'number' }]);
+
+    expect(report.recipientCount).toBe(3);
+    expect(report.variables).toEqual([
+      {
+        name: 'firstName',
+        languages: ['en', 'de', 'subject'],
+        missingCount: 2,
+        coveredByDefault: false,
+        type: undefined,
+        typeMismatchCount: 0,
+      },
+      {
+        name: 'code',
+        languages: ['en'],
+        missingCount: 2,
+        coveredByDefault: true,
+        type: undefined,
+        typeMismatchCount: 0,
+      },
+      {
+        name: 'points',
+        languages: ['de'],
+        missingCount: 1,
+        coveredByDefault: false,
+        type: 'number',
+        typeMismatchCount: 1,
+      },
+    ]);
+    expect(report.problems.map((entry) => entry.name)).toEqual(['firstName', 'points']);
+    expect(report.affectedRecipients).toBe(2);
+  });
+
+  it('should only count a default when every use has one', () => {
+    const report = checkVariableContract(
+      [
+        { language: 'en', variables: extractVariables('{{name | default:"there"}}') },
+        { language: 'fr', variables: extractVariables('{{name}}') },
+      ],
+      [{}]
+    );
+    expect(report.variables[0].coveredByDefault).toBe(false);
+  });
+
+  it('should describe problems', () => {
+    const report = checkVariableContract(uses, recipients, [{ path: 'points', type: 'number' }]);
+    expect(describeContractProblems(report)).toEqual([
+      '{{firstName}} is missing for 2 of 3 recipients with no default',
+      '{{points}} is missing for 1 of 3 recipients with no default and not a number for 1 recipients',
+    ]);
+  });
+
+  it('should block, warn or ignore by policy', () => {
+    const report = checkVariableContract(uses, recipients);
+    const clean = checkVariableContract(uses, [{ firstName: 'Ada', points: 1 }]);
+
+    expect(evaluateVariablePolicy(report, 'block').blocked).toBe(true);
+    expect(evaluateVariablePolicy(report, 'warn')).toMatchObject({ blocked: false });
+    expect(evaluateVariablePolicy(report, 'warn').warnings).toHaveLength(2);
+    expect(evaluateVariablePolicy(report, 'off')).toEqual({ blocked: false, warnings: [] });
+    expect(evaluateVariablePolicy(clean, 'block')).toEqual({ blocked: false, warnings: [] });
+    expect(toVariablePolicy('nonsense')).toBe('warn');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { auditAccessibility, getContrastRatio, getTextDirection } from '@/lib/email-builder/accessibility';
+import { renderToStaticMarkup } from '@/lib/email-builder/renderer';
+import { themeColorRef } from '@/lib/email-builder/theme';
+import { createBlock } from '@/lib/email-builder/blocks';
+import type { EmailBuilderDocument, EmailBlock } from '@/lib/email-builder/types';
+
+describe('Accessibility Audit', () => {
+  const createDocument = (blocks: Record<string, EmailBlock>, root: string[] = Object.keys(blocks)): EmailBuilderDocument => ({
+    backdropColor: '#F8F8F8',
+    canvasColor: '#FFFFFF',
+    textColor: '#242424',
+    fontFamily: 'MODERN_SANS',
+    lang: 'en',
+    childrenIds: root,
+    ...blocks,
+  });
+
+  const heading = (level: '1' | '2' | '3' | '4') => {
+    const block = createBlock('Heading');
+    if (block.type === 'Heading') block.data.props.level = level;
+    return block;
+  };
+
+  const rules = (document: EmailBuilderDocument) => auditAccessibility(document).map((issue) => issue.rule);
+
+  it('should compute WCAG contrast ratios', () => {
+    expect(getContrastRatio('#000000', '#FFFFFF')).toBeCloseTo(21, 0);
+    expect(getContrastRatio('#FFF', '#FFFFFF')).toBeCloseTo(1);
+    expect(getContrastRatio('transparent', '#FFFFFF')).toBeNull();
+  });
+
+  it('should pass a default document', () => {
+    const image = createBlock('Image');
+    if (image.type === 'Image') image.data.props.alt = 'Product photo';
+    expect(auditAccessibility(createDocument({ 'block-text': createBlock('Text'), 'block-image': image }))).toEqual([]);
+  });
+
+  it('should flag images without alt text', () => {
+    const issues = auditAccessibility(createDocument({ 'block-image': createBlock('Image') }));
+
+    expect(issues).toEqual([
+      expect.objectContaining({ rule: 'image-alt', severity: 'error', blockId: 'block-image' }),
+    ]);
+  });
+
+  it('should check contrast against inherited container and canvas colors', () => {
+    const text = createBlock('Text');
+    text.data.style.color = '#777777';
+    const container = createBlock('Container');
+    container.data.style.backgroundColor = '#333333';
+    if (container.type === 'Container') container.data.props.childrenIds = ['block-text'];
+
+    const onDark = auditAccessibility(createDocument({ 'block-container': container, 'block-text': text }, ['block-container']));
+    expect(onDark).toEqual([expect.objectContaining({ rule: 'contrast', blockId: 'block-text' })]);
+
+    const transparent = createBlock('Text');
+    transparent.data.style.backgroundColor = 'transparent';
+    transparent.data.style.color = '#EEEEEE';
+    expect(rules(createDocument({ 'block-text': transparent }))).toEqual(['contrast']);
+  });
+
+  it('should resolve theme colors before checking contrast', () => {
+    const button = createBlock('Button');
+    if (button.type === 'Button') {
+      button.data.props.buttonColor = themeColorRef('primary');
+      button.data.props.buttonTextColor = '#FFFFFF';
+    }
+
+    expect(rules({ ...createDocument({ 'block-button': button }), themePrimaryColor: '#FFEE00' })).toEqual(['contrast']);
+  });
+
+  it('should flag skipped heading levels', () => {
+    const issues = auditAccessibility(
+      createDocument({ 'block-h1': heading('1'), 'block-h3': heading('3'), 'block-h2': heading('2') })
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({ rule: 'heading-order', blockId: 'block-h3', message: 'Heading level 3 skips level 2' }),
+    ]);
+  });
+
+  it('should flag vague link and button text', () => {
+    const text = createBlock('Text');
+    if (text.type === 'Text') {
+      text.data.props.text = 'See the <a href="#">spring catalog</a> or <a href="#">click here</a>.';
+    }
+    const button = createBlock('Button');
+    if (button.type === 'Button') button.data.props.text = 'Read more »';
+
+    const issues = auditAccessibility(createDocument({ 'block-text': text, 'block-button': button }));
+    expect(issues.map((issue) => [issue.rule, issue.blockId])).toEqual([
+      ['link-text', 'block-text'],
+      ['link-text', 'block-button'],
+    ]);
+  });
+
+  it('should flag tiny font sizes', () => {
+    const text = createBlock('Text');
+    text.data.style.fontSize = 11;
+    text.data.style.mobileFontSize = 12;
+
+    expect(rules(createDocument({ 'block-text': text }))).toEqual(['font-size', 'font-size']);
+  });
+
+  it('should flag a missing language unless one is supplied', () => {
+    const { lang, ...document } = createDocument({});
+
+    expect(rules(document as EmailBuilderDocument)).toEqual(['lang']);
+    expect(auditAccessibility(document as EmailBuilderDocument, { lang: 'de' })).toEqual([]);
+  });
+
+  it('should emit lang and dir on the html element', () => {
+    expect(getTextDirection('he-IL')).toBe('rtl');
+    expect(getTextDirection(undefined)).toBe('ltr');
+
+    expect(renderToStaticMarkup(createDocument({}))).toContain('<html lang="en" dir="ltr"');
+    expect(renderToStaticMarkup({ ...createDocument({}), lang: 'ar' })).toContain('<html lang="ar" dir="rtl"');
+    expect(renderToStaticMarkup({ ...createDocument({}), lang: undefined } as any, { lang: 'fr' })).toContain(
+      '<html lang="fr" dir="ltr"'
+    );
+    expect(renderToStaticMarkup({ ...createDocument({}), lang: 'en' }, { lang: 'de' })).toContain('<html lang="de" dir="ltr"');
+  });
+});
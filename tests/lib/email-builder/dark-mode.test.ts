@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { renderToStaticMarkup, enableDarkModePreview } from '@/lib/email-builder/renderer';
+import { editorReducer, createInitialState } from '@/lib/email-builder/state';
+import { createTestDocument, createTextBlock } from '../../utils/document-fixtures';
+
+describe('Dark Mode Rendering', () => {
+  const createDocument = () =>
+    createTestDocument({
+      'block-text': createTextBlock('Hello', {
+        backgroundColor: '#FFFFFF',
+        darkBackgroundColor: '#111111',
+        darkColor: '#EEEEEE',
+      }),
+      'block-logo': {
+        type: 'Image',
+        data: {
+          style: {},
+          props: { url: 'https://example.com/logo.png', darkUrl: 'https://example.com/logo-dark.png', alt: 'Logo' },
+        },
+      },
+    });
+
+  it('should not emit dark mode styles when nothing is configured', () => {
+    const html = renderToStaticMarkup(createTestDocument({ 'block-1': createTextBlock('Plain') }));
+
+    expect(html).not.toContain('prefers-color-scheme');
+    expect(html).not.toContain('color-scheme');
+  });
+
+  it('should emit prefers-color-scheme and Outlook overrides for block colors', () => {
+    const html = renderToStaticMarkup(createDocument());
+
+    expect(html).toContain('<meta name="color-scheme" content="light dark">');
+    expect(html).toContain('@media (prefers-color-scheme: dark)');
+    expect(html).toContain('.dm-block-text { background-color: #111111 !important; }');
+    expect(html).toContain('[data-ogsb] .dm-block-text { background-color: #111111 !important; }');
+    expect(html).toContain('[data-ogsc] .dm-block-text');
+    expect(html).toMatch(/<td class="dm-block-text" style="[^"]*background-color: #FFFFFF/);
+  });
+
+  it('should apply document-level dark colors', () => {
+    const document = {
+      ...createDocument(),
+      darkBackdropColor: '#000000',
+      darkCanvasColor: '#222222',
+      darkTextColor: '#FAFAFA',
+    };
+    const html = renderToStaticMarkup(document);
+
+    expect(html).toContain('body, .email-backdrop { background-color: #000000 !important; }');
+    expect(html).toContain('.email-container { background-color: #222222 !important; }');
+    expect(html).toContain('body[data-ogsc], [data-ogsc] .email-container { color: #FAFAFA !important; }');
+  });
+
+  it('should render a hidden alternate image for dark mode', () => {
+    const html = renderToStaticMarkup(createDocument());
+
+    expect(html).toContain('class="dm-light-img"');
+    expect(html).toMatch(/<img src="https:\/\/example.com\/logo-dark.png"[^>]*class="dm-dark-img"[^>]*display: none/);
+    expect(html).toContain('.dm-dark-img { display: block !important;');
+  });
+
+  it('should switch the preview into dark mode', () => {
+    const html = enableDarkModePreview(renderToStaticMarkup(createDocument()));
+
+    expect(html).toContain('<body data-ogsc data-ogsb');
+  });
+
+  it('should update and clear document settings through the reducer', () => {
+    const state = createInitialState(createDocument());
+    const updated = editorReducer(state, {
+      type: 'UPDATE_DOCUMENT_SETTINGS',
+      payload: { settings: { darkCanvasColor: '#222222' } },
+    });
+
+    expect(updated.document.darkCanvasColor).toBe('#222222');
+    expect(updated.isDirty).toBe(true);
+
+    const cleared = editorReducer(updated, {
+      type: 'UPDATE_DOCUMENT_SETTINGS',
+      payload: { settings: { darkCanvasColor: '' } },
+    });
+
+    expect('darkCanvasColor' in cleared.document).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  customFontRef,
+  findCustomFontIds,
+  getFallbackStack,
+  getFontFaceCss,
+  getFontStack,
+  renderFontFaces,
+  type CustomFont,
+} from '@/lib/email-builder/fonts';
+import { renderToStaticMarkup } from '@/lib/email-builder/renderer';
+import { createBlock } from '@/lib/email-builder/blocks';
+import { EmailBuilderDocumentSchema, type EmailBuilderDocument } from '@/lib/email-builder/types';
+
+describe('Custom Fonts', () => {
+  const inter: CustomFont = {
+    id: 'font-inter',
+    name: 'Inter',
+    cssUrl: 'https://fonts.googleapis.com/css2?family=Inter&display=swap',
+    fallback: 'CLASSIC_SANS',
+  };
+  const brand: CustomFont = {
+    id: 'font-brand',
+    name: 'Brand Serif',
+    fileUrl: 'https://cdn.example.com/fonts/brand.woff2',
+    fallback: 'BOOK_SERIF',
+  };
+
+  const createDocument = (overrides: Partial<EmailBuilderDocument> = {}): EmailBuilderDocument => ({
+    backdropColor: '#F8F8F8',
+    canvasColor: '#FFFFFF',
+    textColor: '#242424',
+    fontFamily: customFontRef('font-inter'),
+    childrenIds: ['block-heading', 'block-text'],
+    'block-heading': createBlock('Heading'),
+    'block-text': createBlock('Text'),
+    ...overrides,
+  });
+
+  it('should put the custom font ahead of its fallback stack', () => {
+    expect(getFontStack(customFontRef('font-inter'), [inter])).toBe("'Inter', Verdana, Geneva, sans-serif");
+    expect(getFallbackStack(customFontRef('font-inter'), [inter])).toBe('Verdana, Geneva, sans-serif');
+    expect(getFontStack('BOOK_SERIF', [inter])).toBe('Georgia, Times, serif');
+  });
+
+  it('should use the default stack for unknown custom fonts', () => {
+    expect(getFontStack(customFontRef('deleted'), [inter])).toBe('Arial, Helvetica, sans-serif');
+  });
+
+  it('should find the custom fonts a document uses', () => {
+    const document = createDocument({ themeHeadingFont: customFontRef('font-brand'), themeBodyFont: 'MONOSPACE' });
+    expect(findCustomFontIds(document)).toEqual(['font-inter', 'font-brand']);
+    expect(findCustomFontIds(createDocument({ fontFamily: 'MODERN_SANS' }))).toEqual([]);
+  });
+
+  it('should accept custom font references in documents', () => {
+    expect(EmailBuilderDocumentSchema.safeParse(createDocument()).success).toBe(true);
+    expect(EmailBuilderDocumentSchema.safeParse(createDocument({ fontFamily: 'COMIC_SANS' as never })).success).toBe(false);
+  });
+
+  it('should link stylesheets and declare uploaded fonts outside Outlook', () => {
+    const markup = renderFontFaces([inter, brand]);
+
+    expect(markup.startsWith('<!--[if !mso]><!-->')).toBe(true);
+    expect(markup).toContain('<link href="https://fonts.googleapis.com/css2?family=Inter&amp;display=swap" rel="stylesheet"');
+    expect(markup).toContain(
+      "@font-face { font-family: 'Brand Serif'; src: url('https://cdn.example.com/fonts/brand.woff2') format('woff2');"
+    );
+    expect(renderFontFaces([])).toBe('');
+    expect(getFontFaceCss([inter])).toBe('@import url("https://fonts.googleapis.com/css2?family=Inter&display=swap");');
+  });
+
+  it('should render custom fonts with MSO fallbacks', () => {
+    const html = renderToStaticMarkup(createDocument({ themeHeadingFont: customFontRef('font-brand') }), {
+      fonts: [inter, brand],
+    });
+
+    expect(html).toContain('fonts.googleapis.com/css2?family=Inter');
+    expect(html).toContain("font-family: 'Inter', Verdana, Geneva, sans-serif;");
+    expect(html).toContain("font-family: 'Brand Serif', Georgia, Times, serif;");
+    expect(html).toContain('body, table, td, a { font-family: Verdana, Geneva, sans-serif !important; }');
+    expect(html).toContain('h1, h2, h3, h4, h5, h6 { font-family: Georgia, Times, serif !important; }');
+  });
+
+  it('should only load fonts the document uses', () => {
+    const html = renderToStaticMarkup(createDocument({ fontFamily: 'MODERN_SANS' }), { fonts: [inter, brand] });
+
+    expect(html).not.toContain('@font-face');
+    expect(html).not.toContain('fonts.googleapis.com');
+    expect(html).not.toContain('h1, h2, h3');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { importHtmlEmail } from '@/lib/email-builder/html-importer';
+import { EmailBuilderDocumentSchema } from '@/lib/email-builder/types';
+import type { EmailBuilderDocument, EmailBlock } from '@/lib/email-builder/types';
+
+describe('HTML Email Importer', () => {
+  const newsletter = `
+    <!DOCTYPE html>
+    <html>
+      <head><style>.btn { color: red; }</style></head>
+      <body style="background-color: #eeeeee;">
+        <div style="display: none; max-height: 0;">Preheader text</div>
+        <center>
+          <table width="600" bgcolor="#ffffff" cellpadding="0" cellspacing="0">
+            <tr>
+              <td align="center"><img src="https://cdn.example.com/logo.png" alt="Logo" width="120"></td>
+            </tr>
+            <tr><td height="24" style="font-size: 24px; line-height: 24px;">&nbsp;</td></tr>
+            <tr>
+              <td style="padding: 16px 24px;">
+                <h1 style="color: #111111;">Hello {{user.firstName}}</h1>
+                <p style="font-size: 16px;">Thanks for joining. <strong>Welcome!</strong></p>
+                <hr style="border: 0; border-top: 2px solid #dddddd;">
+              </td>
+            </tr>
+            <tr>
+              <td><a href="https://example.com/news"><img src="https://cdn.example.com/left.png" alt="Left"></a></td>
+              <td><p>Right column copy</p></td>
+            </tr>
+            <tr>
+              <td align="center" bgcolor="#2563eb">
+                <a href="https://example.com/start" style="color: #ffffff; text-decoration: none;">Get started</a>
+              </td>
+            </tr>
+            <tr>
+              <td>
+                <form action="https://example.com/subscribe"><input type="email" name="email"></form>
+              </td>
+            </tr>
+          </table>
+        </center>
+        <script>alert('x')</script>
+      </body>
+    </html>
+  `;
+
+  const blocksOf = (document: EmailBuilderDocument) =>
+    document.childrenIds.map((id) => document[id] as EmailBlock);
+
+  it('should read root colors from the body and canvas table', () => {
+    const { document } = importHtmlEmail(newsletter);
+
+    expect(document.backdropColor).toBe('#eeeeee');
+    expect(document.canvasColor).toBe('#ffffff');
+  });
+
+  it('should map table-based markup to native blocks', () => {
+    const { document } = importHtmlEmail(newsletter);
+
+    expect(blocksOf(document).map((block) => block.type)).toEqual([
+      'Image',
+      'Spacer',
+      'Heading',
+      'Text',
+      'Divider',
+      'Columns',
+      'Button',
+      'HTML',
+    ]);
+
+    const [logo, spacer, heading, text, divider, columns, button] = blocksOf(document) as any[];
+    expect(logo.data.props).toMatchObject({ url: 'https://cdn.example.com/logo.png', alt: 'Logo', width: 120 });
+    expect(spacer.data.props.height).toBe(24);
+    expect(heading.data.props).toMatchObject({ text: 'Hello {{user.firstName}}', level: '1' });
+    expect(heading.data.style.color).toBe('#111111');
+    expect(text.data.props.text).toBe('Thanks for joining. <strong>Welcome!</strong>');
+    expect(text.data.style.fontSize).toBe(16);
+    expect(divider.data.props).toMatchObject({ lineColor: '#dddddd', lineHeight: 2 });
+    expect(button.data.props).toMatchObject({
+      text: 'Get started',
+      url: 'https://example.com/start',
+      buttonColor: '#2563eb',
+      buttonTextColor: '#ffffff',
+    });
+
+    const [left, right] = columns.data.props.columns.map((column: { childrenIds: string[] }) =>
+      column.childrenIds.map((id) => document[id] as any)
+    );
+    expect(left[0].type).toBe('Image');
+    expect(left[0].data.props.linkHref).toBe('https://example.com/news');
+    expect(right[0].data.props.text).toBe('Right column copy');
+  });
+
+  it('should fall back to HTML blocks and report them', () => {
+    const { document, report } = importHtmlEmail(newsletter);
+
+    expect(report.fallbacks).toHaveLength(1);
+    expect(report.fallbacks[0]).toMatchObject({ element: 'form' });
+    expect((document[report.fallbacks[0].blockId] as any).data.props.html).toContain('<form');
+    expect(report.blockCount).toBe(Object.keys(document).length - 5);
+  });
+
+  it('should skip scripts and hidden preheaders', () => {
+    const { document, report } = importHtmlEmail(newsletter);
+    const serialized = JSON.stringify(document);
+
+    expect(serialized).not.toContain('Preheader text');
+    expect(serialized).not.toContain('alert');
+    expect(report.skipped.some((entry) => entry.includes('Preheader text'))).toBe(true);
+  });
+
+  it('should wrap sections with their own background in a container', () => {
+    const { document } = importHtmlEmail(`
+      <table width="600" bgcolor="#ffffff">
+        <tr><td bgcolor="#fef3c7" style="padding: 12px;"><p>Limited offer</p></td></tr>
+      </table>
+    `);
+
+    const [container] = blocksOf(document) as any[];
+    expect(container.type).toBe('Container');
+    expect(container.data.style).toMatchObject({
+      backgroundColor: '#fef3c7',
+      padding: { top: 12, right: 12, bottom: 12, left: 12 },
+    });
+    expect((document[container.data.props.childrenIds[0]] as any).data.props.text).toBe('Limited offer');
+  });
+
+  it('should produce a document that passes schema validation', () => {
+    const { document } = importHtmlEmail(newsletter);
+
+    expect(EmailBuilderDocumentSchema.safeParse(document).success).toBe(true);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MAX_HTTP_CHECKS, checkLinks, extractLinks, validateLink } from '@/lib/email-builder/links';
+import { createBlock } from '@/lib/email-builder/blocks';
+import type { EmailBuilderDocument, EmailBlock } from '@/lib/email-builder/types';
+
+describe('Link Validation', () => {
+  const createDocument = (blocks: Record<string, EmailBlock>, root: string[] = Object.keys(blocks)): EmailBuilderDocument => ({
+    backdropColor: '#F8F8F8',
+    canvasColor: '#FFFFFF',
+    textColor: '#242424',
+    fontFamily: 'MODERN_SANS',
+    childrenIds: root,
+    ...blocks,
+  });
+
+  const button = (url: string) => {
+    const block = createBlock('Button');
+    if (block.type === 'Button') block.data.props.url = url;
+    return block;
+  };
+
+  const codes = (url: string, knownVariables?: string[], inRepeat = false) =>
+    validateLink({ url, inRepeat }, { knownVariables }).map((issue) => issue.code);
+
+  it('should extract links from every linkable block type', () => {
+    const image = createBlock('Image');
+    if (image.type === 'Image') image.data.props.linkHref = 'https://example.com/product';
+    const social = createBlock('SocialLinks');
+    if (social.type === 'SocialLinks') social.data.props.socialLinks = [{ platform: 'twitter', url: 'https://x.com/acme' }];
+    const hero = createBlock('Hero');
+    if (hero.type === 'Hero') Object.assign(hero.data.props, { buttonText: 'Shop', buttonUrl: 'https://shop.example.com' });
+    const text = createBlock('Text');
+    if (text.type === 'Text') text.data.props.text = '<p>See <a href="https://example.com/a?x=1&amp;y=2">the <b>docs</b></a></p>';
+    const html = createBlock('HTML');
+    if (html.type === 'HTML') html.data.props.html = "<a href='mailto:hi@example.com'>Mail us</a>";
+    const container = createBlock('Container');
+    if (container.type === 'Container') container.data.props.childrenIds = ['block-text'];
+
+    const links = extractLinks(
+      createDocument(
+        { 'block-button': button('https://example.com/go'), 'block-image': image, 'block-social': social, 'block-hero': hero, 'block-container': container, 'block-text': text, 'block-html': html },
+        ['block-button', 'block-image', 'block-social', 'block-hero', 'block-container', 'block-html']
+      )
+    );
+
+    expect(links.map((link) => [link.blockId, link.source, link.url, link.label])).toEqual([
+      ['block-button', 'button', 'https://example.com/go', 'Click me'],
+      ['block-image', 'image', 'https://example.com/product', ''],
+      ['block-social', 'social', 'https://x.com/acme', 'twitter'],
+      ['block-hero', 'hero', 'https://shop.example.com', 'Shop'],
+      ['block-text', 'anchor', 'https://example.com/a?x=1&y=2', 'the docs'],
+      ['block-html', 'anchor', 'mailto:hi@example.com', 'Mail us'],
+    ]);
+  });
+
+  it('should validate URL syntax and protocols', () => {
+    expect(codes('https://example.com/pricing')).toEqual([]);
+    expect(codes('')).toEqual(['empty']);
+    expect(codes('#')).toEqual(['placeholder']);
+    expect(codes('www.example.com')).toEqual(['invalid-url']);
+    expect(codes('https://localhost-typo')).toEqual(['invalid-url']);
+    expect(codes('javascript:alert(1)')).toEqual(['unsupported-protocol']);
+  });
+
+  it('should check mailto: and tel: formatting', () => {
+    expect(codes('mailto:hi@example.com?subject=Hello')).toEqual([]);
+    expect(codes('mailto:hi@example')).toEqual(['invalid-mailto']);
+    expect(codes('tel:+1 (555) 010-0199')).toEqual([]);
+    expect(codes('tel:call-us')).toEqual(['invalid-tel']);
+  });
+
+  it('should flag unresolved variables in hrefs', () => {
+    const known = ['user.id', 'company.website'];
+
+    expect(codes('https://example.com/u/{{user.id}}', known)).toEqual([]);
+    expect(codes('{{company.website}}/offers', known)).toEqual([]);
+    expect(codes('https://example.com/u/{{user.uuid}}', known)).toEqual(['unresolved-variable']);
+    expect(codes('https://example.com/{{ref|default:"home"}}', known)).toEqual([]);
+    expect(codes('https://example.com/p/{{item.slug}}', known)).toEqual(['unresolved-variable']);
+    expect(codes('https://example.com/p/{{item.slug}}', known, true)).toEqual([]);
+  });
+
+  it('should run HTTP checks through the fetcher once per URL', async () => {
+    const fetcher = vi.fn(async (url: string) => {
+      if (url.includes('down')) throw new Error('ECONNREFUSED');
+      return { status: url.includes('missing') ? 404 : 200 };
+    });
+    const document = createDocument({
+      'block-a': button('https://example.com/ok'),
+      'block-b': button('https://example.com/ok'),
+      'block-c': button('https://example.com/missing'),
+      'block-d': button('https://down.example.com'),
+      'block-e': button('https://example.com/u/{{user.id}}'),
+      'block-f': button('mailto:hi@example.com'),
+    });
+
+    const results = await checkLinks(document, { fetcher });
+
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    expect(results.map((result) => [result.status, result.issues.map((issue) => issue.code)])).toEqual([
+      [200, []],
+      [200, []],
+      [404, ['http-error']],
+      [undefined, ['unreachable']],
+      [undefined, []],
+      [undefined, []],
+    ]);
+  });
+
+  it('should cap HTTP checks and run a few at a time', async () => {
+    let active = 0;
+    let peak = 0;
+    const fetcher = vi.fn(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active--;
+      return { status: 200 };
+    });
+    const blocks = Object.fromEntries(
+      Array.from({ length: MAX_HTTP_CHECKS + 2 }, (_, index) => [`block-${index}`, button(`https://example.com/${index}`)])
+    );
+
+    const results = await checkLinks(createDocument(blocks), { fetcher });
+
+    expect(fetcher).toHaveBeenCalledTimes(MAX_HTTP_CHECKS);
+    expect(peak).toBeLessThanOrEqual(5);
+    expect(results.slice(-2).map((result) => result.issues.map((issue) => issue.code))).toEqual([
+      ['not-checked'],
+      ['not-checked'],
+    ]);
+  });
+
+  it('should skip HTTP checks without a fetcher', async () => {
+    const results = await checkLinks(createDocument({ 'block-a': button('https://example.com/ok') }));
+    expect(results[0].status).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION,
+  DOCUMENT_MIGRATIONS,
+  getDocumentVersion,
+  migrateDocument,
+  validateDocument,
+} from '@/lib/email-builder/migrations';
+import { createBlock } from '@/lib/email-builder/blocks';
+import { renderToStaticMarkup } from '@/lib/email-builder/renderer';
+import type { EmailBuilderDocument } from '@/lib/email-builder/types';
+
+describe('Document Migrations', () => {
+  const legacyDocument = {
+    root: {
+      type: 'EmailLayout',
+      data: {
+        backdropColor: '#EEEEEE',
+        canvasColor: '#FFFFFF',
+        textColor: '#111111',
+        fontFamily: 'BOOK_SERIF',
+        childrenIds: ['block-heading', 'block-html'],
+      },
+    },
+    'block-heading': { type: 'Heading', style: { textColor: '#FF0000' }, props: { text: 'Hello', level: 1 } },
+    'block-html': { type: 'Html', style: {}, props: { html: '<p>Hi</p>' } },
+  };
+
+  it('should keep the registry in version order', () => {
+    DOCUMENT_MIGRATIONS.forEach((migration, index) => {
+      expect(migration.version).toBe(index + 1);
+    });
+    expect(CURRENT_SCHEMA_VERSION).toBe(DOCUMENT_MIGRATIONS.length);
+  });
+
+  it('should detect the version of unversioned documents', () => {
+    expect(getDocumentVersion(legacyDocument)).toBe(0);
+    expect(getDocumentVersion({ childrenIds: [] })).toBe(1);
+    expect(getDocumentVersion({ childrenIds: [], schemaVersion: 2 })).toBe(2);
+  });
+
+  it('should upgrade legacy documents step by step', () => {
+    const { document, fromVersion, toVersion, applied } = migrateDocument(legacyDocument);
+
+    expect(fromVersion).toBe(0);
+    expect(toVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(applied).toHaveLength(CURRENT_SCHEMA_VERSION);
+    expect(document.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(document.fontFamily).toBe('BOOK_SERIF');
+    expect(document.childrenIds).toEqual(['block-heading', 'block-html']);
+    expect(document['block-heading']).toMatchObject({
+      type: 'Heading',
+      data: { style: { color: '#FF0000' }, props: { text: 'Hello', level: '1' } },
+    });
+    expect(document['block-html']).toMatchObject({ type: 'HTML', data: { props: { html: '<p>Hi</p>' } } });
+    expect(validateDocument(document)).toEqual([]);
+  });
+
+  it('should leave props the renderer falls back for unset', () => {
+    const button = createBlock('Button');
+    const { fullWidth: _fullWidth, ...oldProps } = button.data.props as Record<string, unknown>;
+    const stored = {
+      backdropColor: '#F8F8F8',
+      canvasColor: '#FFFFFF',
+      textColor: '#242424',
+      fontFamily: 'MODERN_SANS',
+      childrenIds: ['block-button'],
+      'block-button': { ...button, data: { ...button.data, props: { ...oldProps, text: 'Buy' } } },
+    };
+
+    const { document } = migrateDocument(stored);
+    const props = (document['block-button'] as { data: { props: Record<string, unknown> } }).data.props;
+
+    expect(props.text).toBe('Buy');
+    expect(props).not.toHaveProperty('fullWidth');
+    expect(validateDocument(document)).toEqual([]);
+  });
+
+  it('should render legacy documents the same after migrating', () => {
+    const stored = {
+      backdropColor: '#F8F8F8',
+      canvasColor: '#FFFFFF',
+      textColor: '#242424',
+      fontFamily: 'MODERN_SANS',
+      childrenIds: ['block-image', 'block-button', 'block-quote'],
+      'block-image': {
+        type: 'Image',
+        data: { style: { textAlign: 'right' }, props: { url: 'https://example.com/logo.png', alt: 'Logo' } },
+      },
+      'block-button': { type: 'Button', data: { style: {}, props: { text: 'Buy', url: 'https://example.com' } } },
+      'block-quote': { type: 'Quote', data: { style: {}, props: { quote: 'Great' } } },
+    };
+
+    const { document } = migrateDocument(stored);
+
+    expect(renderToStaticMarkup(document)).toBe(renderToStaticMarkup(stored as EmailBuilderDocument));
+  });
+
+  it('should give each migrated block its own copy of default props', () => {
+    const stored = {
+      childrenIds: ['block-a', 'block-b'],
+      'block-a': { type: 'Columns', style: {}, props: {} },
+      'block-b': { type: 'Columns', style: {}, props: {} },
+    };
+
+    const { document } = migrateDocument(stored);
+    const columns = (id: string) => (document[id] as { data: { props: { columns: unknown[] } } }).data.props.columns;
+
+    expect(columns('block-a')).toEqual([{ childrenIds: [] }, { childrenIds: [] }]);
+    expect(columns('block-a')).not.toBe(columns('block-b'));
+  });
+
+  it('should leave current documents untouched', () => {
+    const current = { ...migrateDocument(legacyDocument).document };
+    const result = migrateDocument(current);
+
+    expect(result.applied).toEqual([]);
+    expect(result.document).toBe(current);
+  });
+
+  it('should report schema problems', () => {
+    const document: EmailBuilderDocument = {
+      backdropColor: '#F8F8F8',
+      canvasColor: '#FFFFFF',
+      textColor: '#242424',
+      fontFamily: 'MODERN_SANS',
+      childrenIds: ['block-heading', 'block-missing'],
+      'block-heading': { ...createBlock('Heading'), data: { style: {}, props: { text: 'Hi', level: '7' } } } as any,
+      'block-widget': { type: 'Widget', data: { style: {}, props: {} } } as any,
+    };
+
+    expect(validateDocument(document)).toEqual([
+      expect.stringMatching(/^block-heading\.data\.props\.level: /),
+      'block-widget: unknown block type "Widget"',
+      'childrenIds: missing block "block-missing"',
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { documentToMjml, mjmlToDocument, parseMjml } from '@/lib/email-builder/mjml';
+import { BLOCK_DEFINITIONS, createBlock } from '@/lib/email-builder/blocks';
+import type { EmailBuilderDocument, EmailBlock } from '@/lib/email-builder/types';
+
+describe('MJML conversion', () => {
+  const createDocument = (blocks: Record<string, EmailBlock>, childrenIds = Object.keys(blocks)): EmailBuilderDocument => ({
+    backdropColor: '#EEEEEE',
+    canvasColor: '#FFFFFF',
+    textColor: '#333333',
+    fontFamily: 'BOOK_SERIF',
+    childrenIds,
+    ...blocks,
+  });
+
+  const rootBlocks = (document: EmailBuilderDocument) =>
+    document.childrenIds.map((id) => document[id] as EmailBlock);
+
+  describe('round trip', () => {
+    BLOCK_DEFINITIONS.forEach(({ type }) => {
+      it(`should preserve a ${type} block`, () => {
+        const original = createBlock(type);
+        const mjml = documentToMjml(createDocument({ 'block-1': original }));
+        const { document, warnings } = mjmlToDocument(mjml);
+
+        expect(warnings).toEqual([]);
+        const [imported] = rootBlocks(document);
+        expect(imported.type).toBe(type);
+        expect(imported.data.props).toEqual(original.data.props);
+      });
+    });
+
+    it('should preserve root settings', () => {
+      const { document } = mjmlToDocument(documentToMjml(createDocument({})));
+
+      expect(document).toMatchObject({
+        backdropColor: '#EEEEEE',
+        canvasColor: '#FFFFFF',
+        textColor: '#333333',
+        fontFamily: 'BOOK_SERIF',
+      });
+    });
+
+    it('should preserve columns with their content', () => {
+      const columns = createBlock('Columns');
+      if (columns.type === 'Columns') {
+        columns.data.props.columns = [{ childrenIds: ['block-left'] }, { childrenIds: ['block-right'] }];
+      }
+      const left = createBlock('Text');
+      const right = createBlock('Button');
+      const source = createDocument(
+        { 'block-columns': columns, 'block-left': left, 'block-right': right },
+        ['block-columns']
+      );
+
+      const { document } = mjmlToDocument(documentToMjml(source));
+      const [imported] = rootBlocks(document) as any[];
+      const [leftIds, rightIds] = imported.data.props.columns.map((column: any) => column.childrenIds);
+
+      expect(imported.type).toBe('Columns');
+      expect((document[leftIds[0]] as EmailBlock).data).toEqual(left.data);
+      expect((document[rightIds[0]] as EmailBlock).data.props).toEqual(right.data.props);
+    });
+
+    it('should keep visibility rules and nested layouts through raw blocks', () => {
+      const text = createBlock('Text');
+      text.visibility = { match: 'all', conditions: [{ path: 'user.vip', operator: 'exists' }] };
+      const { document } = mjmlToDocument(documentToMjml(createDocument({ 'block-vip': text })));
+
+      expect(rootBlocks(document)[0].visibility).toEqual(text.visibility);
+    });
+  });
+
+  describe('import', () => {
+    const designerMjml = `
+      <mjml>
+        <mj-head>
+          <mj-attributes>
+            <mj-all font-family="Verdana, Geneva, sans-serif" />
+          </mj-attributes>
+        </mj-head>
+        <mj-body background-color="#f4f4f4">
+          <!-- Header -->
+          <mj-section>
+            <mj-column>
+              <mj-image src="https://cdn.example.com/logo.png" alt="Logo" width="120px" href="https://example.com" />
+              <mj-text font-size="18px" color="#111"><h1>Hi {{user.firstName}}</h1></mj-text>
+              <mj-text>Welcome <b>aboard</b> &amp; thanks</mj-text>
+              <mj-button href="https://example.com/go" background-color="#ff6600" color="#fff">Go</mj-button>
+              <mj-divider border-color="#ccc" border-width="2px" />
+              <mj-spacer height="30px" />
+              <mj-social icon-size="24px" align="left">
+                <mj-social-element name="facebook" href="https://facebook.com/acme"></mj-social-element>
+                <mj-social-element name="twitter-noshare" href="https://twitter.com/acme"></mj-social-element>
+              </mj-social>
+              <mj-carousel><mj-carousel-image src="a.png" /></mj-carousel>
+            </mj-column>
+          </mj-section>
+          <mj-section background-color="#222222">
+            <mj-column><mj-text color="#ffffff">Footer</mj-text></mj-column>
+          </mj-section>
+        </mj-body>
+      </mjml>
+    `;
+
+    it('should map MJML elements to native blocks', () => {
+      const { document } = mjmlToDocument(designerMjml);
+      const blocks = rootBlocks(document) as any[];
+
+      expect(document.backdropColor).toBe('#f4f4f4');
+      expect(document.fontFamily).toBe('CLASSIC_SANS');
+      expect(blocks.map((block) => block.type)).toEqual([
+        'Image', 'Heading', 'Text', 'Button', 'Divider', 'Spacer', 'SocialLinks', 'Container',
+      ]);
+      expect(blocks[0].data.props).toMatchObject({ width: 120, linkHref: 'https://example.com' });
+      expect(blocks[1].data.props).toMatchObject({ text: 'Hi {{user.firstName}}', level: '1' });
+      expect(blocks[2].data.props.text).toBe('Welcome <b>aboard</b> &amp; thanks');
+      expect(blocks[3].data.props).toMatchObject({ text: 'Go', buttonColor: '#ff6600', buttonTextColor: '#fff' });
+      expect(blocks[4].data.props).toEqual({ lineColor: '#ccc', lineHeight: 2 });
+      expect(blocks[5].data.props.height).toBe(30);
+      expect(blocks[6].data.props.socialLinks.map((link: any) => link.platform)).toEqual(['facebook', 'twitter']);
+      expect(blocks[7].data.style.backgroundColor).toBe('#222222');
+    });
+
+    it('should report unsupported elements', () => {
+      const { warnings } = mjmlToDocument(designerMjml);
+
+      expect(warnings).toEqual(['<mj-carousel> is not supported and was skipped']);
+    });
+
+    it('should reject markup without an mj-body', () => {
+      expect(() => mjmlToDocument('<mjml></mjml>')).toThrow('Invalid MJML');
+    });
+
+    it('should keep ending tag content as raw markup', () => {
+      const tree = parseMjml('<mjml><mj-body><mj-text><p>a</p><mj-image /></mj-text></mj-body></mjml>');
+      const text = tree.children[0].children[0].children[0];
+
+      expect(text.content).toBe('<p>a</p><mj-image />');
+      expect(text.children).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import {
+  editorReducer,
+  createInitialState,
+  orderSelectedBlocks,
+  type EditorState,
+  type EditorAction,
+} from '@/lib/email-builder/state';
+import { extractSnippetStructure } from '@/lib/email-builder/snippets';
+import type { EmailBuilderDocument, EmailBlock } from '@/lib/email-builder/types';
+
+describe('Multi-select and group operations', () => {
+  const text = (value: string): EmailBlock => ({
+    type: 'Text',
+    data: { style: { padding: { top: 4, right: 4, bottom: 4, left: 4 } }, props: { text: value } },
+  });
+
+  const createDocument = (): EmailBuilderDocument => ({
+    backdropColor: '#F8F8F8',
+    canvasColor: '#FFFFFF',
+    textColor: '#242424',
+    fontFamily: 'MODERN_SANS',
+    childrenIds: ['block-a', 'block-b', 'block-c', 'block-box'],
+    'block-a': text('A'),
+    'block-b': text('B'),
+    'block-c': text('C'),
+    'block-box': {
+      type: 'Container',
+      data: { style: {}, props: { childrenIds: ['block-inner'] } },
+    },
+    'block-inner': text('Inner'),
+  });
+
+  const run = (state: EditorState, ...actions: EditorAction[]) =>
+    actions.reduce((current, action) => editorReducer(current, action), state);
+
+  const textOf = (state: EditorState, id: string) =>
+    ((state.document[id] as any).data.props.text as string);
+
+  it('should toggle blocks in and out of the selection', () => {
+    const state = run(
+      createInitialState(createDocument()),
+      { type: 'SELECT_BLOCK', payload: { blockId: 'block-a' } },
+      { type: 'TOGGLE_BLOCK_SELECTION', payload: { blockId: 'block-c' } },
+      { type: 'TOGGLE_BLOCK_SELECTION', payload: { blockId: 'block-b' } },
+      { type: 'TOGGLE_BLOCK_SELECTION', payload: { blockId: 'block-c' } }
+    );
+
+    expect(state.selectedBlockIds).toEqual(['block-a', 'block-b']);
+    expect(state.selectedBlockId).toBe('block-b');
+  });
+
+  it('should select a range of siblings from the anchor', () => {
+    const state = run(
+      createInitialState(createDocument()),
+      { type: 'SELECT_BLOCK', payload: { blockId: 'block-c' } },
+      { type: 'SELECT_BLOCK_RANGE', payload: { blockId: 'block-a' } }
+    );
+
+    expect(state.selectedBlockIds).toEqual(['block-a', 'block-b', 'block-c']);
+    expect(state.selectedBlockId).toBe('block-c');
+  });
+
+  it('should order selections by document position and skip nested duplicates', () => {
+    expect(
+      orderSelectedBlocks(createDocument(), ['block-inner', 'block-c', 'block-box', 'block-a'])
+    ).toEqual(['block-a', 'block-c', 'block-box']);
+  });
+
+  it('should delete a group as a single undo step', () => {
+    const initial = run(
+      createInitialState(createDocument()),
+      { type: 'SELECT_BLOCK', payload: { blockId: 'block-a' } },
+      { type: 'TOGGLE_BLOCK_SELECTION', payload: { blockId: 'block-box' } }
+    );
+    const deleted = run(initial, { type: 'DELETE_BLOCKS', payload: { blockIds: initial.selectedBlockIds } });
+
+    expect(deleted.document.childrenIds).toEqual(['block-b', 'block-c']);
+    expect(deleted.document['block-inner']).toBeUndefined();
+    expect(deleted.selectedBlockIds).toEqual([]);
+    expect(deleted.history).toHaveLength(initial.history.length + 1);
+
+    const undone = run(deleted, { type: 'UNDO' });
+    expect(undone.document.childrenIds).toEqual(['block-a', 'block-b', 'block-c', 'block-box']);
+  });
+
+  it('should duplicate each block after its original and select the copies', () => {
+    const state = run(createInitialState(createDocument()), {
+      type: 'DUPLICATE_BLOCKS',
+      payload: { blockIds: ['block-a', 'block-inner'] },
+    });
+
+    const [first, copyOfA] = state.document.childrenIds;
+    expect(first).toBe('block-a');
+    expect(textOf(state, copyOfA)).toBe('A');
+    expect((state.document['block-box'] as any).data.props.childrenIds).toHaveLength(2);
+    expect(state.selectedBlockIds).toHaveLength(2);
+    expect(state.history).toHaveLength(2);
+  });
+
+  it('should move a group and keep its order', () => {
+    const state = run(createInitialState(createDocument()), {
+      type: 'MOVE_BLOCKS',
+      payload: { blockIds: ['block-b', 'block-a'], newPosition: 3 },
+    });
+
+    expect(state.document.childrenIds).toEqual(['block-c', 'block-a', 'block-b', 'block-box']);
+  });
+
+  it('should not move a group into one of its own blocks', () => {
+    const initial = createInitialState(createDocument());
+    const state = run(initial, {
+      type: 'MOVE_BLOCKS',
+      payload: { blockIds: ['block-a', 'block-box'], newPosition: 0, newParentId: 'block-box' },
+    });
+
+    expect(state).toBe(initial);
+  });
+
+  it('should wrap blocks in a container at the first block position', () => {
+    const state = run(createInitialState(createDocument()), {
+      type: 'WRAP_IN_CONTAINER',
+      payload: { blockIds: ['block-c', 'block-b'] },
+    });
+
+    const [, containerId] = state.document.childrenIds;
+    expect(state.document.childrenIds).toEqual(['block-a', containerId, 'block-box']);
+    expect((state.document[containerId] as EmailBlock).type).toBe('Container');
+    expect((state.document[containerId] as any).data.props.childrenIds).toEqual(['block-b', 'block-c']);
+    expect(state.selectedBlockIds).toEqual([containerId]);
+    expect(state.history).toHaveLength(2);
+  });
+
+  it('should paste a copied group with fresh ids', () => {
+    const document = createDocument();
+    const structures = ['block-a', 'block-box'].map((id) => extractSnippetStructure(document, id)!);
+    const state = run(createInitialState(document), {
+      type: 'PASTE_BLOCKS',
+      payload: { structures, position: 1 },
+    });
+
+    const pasted = state.document.childrenIds.slice(1, 3);
+    expect(state.document.childrenIds).toHaveLength(6);
+    expect(pasted).not.toContain('block-a');
+    expect(textOf(state, pasted[0])).toBe('A');
+    const pastedInner = (state.document[pasted[1]] as any).data.props.childrenIds[0];
+    expect(textOf(state, pastedInner)).toBe('Inner');
+    expect(state.selectedBlockIds).toEqual(pasted);
+  });
+
+  it('should apply shared style to every selected block in one step', () => {
+    const state = run(createInitialState(createDocument()), {
+      type: 'UPDATE_BLOCKS_STYLE',
+      payload: { blockIds: ['block-a', 'block-b', 'block-box'], style: { color: '#ff0000', padding: { top: 20 } } },
+    });
+
+    expect((state.document['block-a'] as EmailBlock).data.style.color).toBe('#ff0000');
+    expect((state.document['block-b'] as EmailBlock).data.style.padding).toEqual({
+      top: 20,
+      right: 4,
+      bottom: 4,
+      left: 4,
+    });
+    expect((state.document['block-box'] as EmailBlock).data.style.padding).toEqual({
+      top: 20,
+      right: 0,
+      bottom: 0,
+      left: 0,
+    });
+    expect((state.document['block-c'] as EmailBlock).data.style.color).toBeUndefined();
+    expect(state.history).toHaveLength(2);
+  });
+});
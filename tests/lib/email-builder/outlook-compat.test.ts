@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { renderToStaticMarkup } from '@/lib/email-builder/renderer';
+import type { EmailBlock } from '@/lib/email-builder/types';
+import { createTestDocument, createTextBlock } from '../../utils/document-fixtures';
+
+describe('Outlook Compatibility Mode', () => {
+  const createDocument = (block: EmailBlock, extra: Record<string, EmailBlock> = {}) =>
+    createTestDocument({ 'block-1': block, ...extra }, { childrenIds: ['block-1'] });
+
+  const button: EmailBlock = {
+    type: 'Button',
+    data: {
+      style: {},
+      props: {
+        text: 'Shop now',
+        url: 'https://example.com/shop',
+        buttonColor: '#2563EB',
+        buttonTextColor: '#FFFFFF',
+        fullWidth: false,
+      },
+    },
+  };
+
+  const hero: EmailBlock = {
+    type: 'Hero',
+    data: {
+      style: { backgroundColor: '#112233' },
+      props: {
+        backgroundImage: 'https://example.com/hero.jpg',
+        heading: 'Welcome',
+        subheading: 'Hello there',
+        buttonText: 'Start',
+        buttonUrl: 'https://example.com/start',
+        overlayOpacity: 0.3,
+        buttonColor: '#FF0000',
+        buttonTextColor: '#FFFFFF',
+        textColor: null,
+      },
+    },
+  };
+
+  const container: EmailBlock = {
+    type: 'Container',
+    data: {
+      style: { backgroundColor: '#EEEEEE' },
+      props: { childrenIds: ['block-2'], backgroundImage: 'https://example.com/bg.png' },
+    },
+  };
+
+  const text = createTextBlock('Inside container');
+
+  describe('Button', () => {
+    it('should emit a sized VML roundrect inside an mso conditional', () => {
+      const html = renderToStaticMarkup(createDocument(button));
+
+      expect(html).toContain('<!--[if mso]>');
+      expect(html).toMatch(
+        /<v:roundrect [^>]*href="https:\/\/example.com\/shop" style="height:44px;v-text-anchor:middle;width:\d+px;" arcsize="14%" strokecolor="#2563EB" fillcolor="#2563EB">/
+      );
+      expect(html).toContain('<w:anchorlock/>');
+      expect(html).toContain('font-size:16px;font-weight:bold;">Shop now</center>');
+    });
+
+    it('should hide the HTML button from Outlook', () => {
+      const html = renderToStaticMarkup(createDocument(button));
+
+      expect(html).toMatch(/<!--\[if !mso\]><!-->\s*<a href="https:\/\/example.com\/shop"[^>]*padding: 12px 24px;[^>]*border-radius: 6px;/);
+    });
+
+    it('should use the canvas width for full-width buttons', () => {
+      const fullWidth = { ...button, data: { ...button.data, props: { ...(button.data.props as any), fullWidth: true } } } as EmailBlock;
+      const html = renderToStaticMarkup(createDocument(fullWidth));
+
+      expect(html).toContain('width:560px;');
+    });
+
+    it('should omit VML when compatibility mode is off', () => {
+      const html = renderToStaticMarkup(createDocument(button), { outlookCompatibility: false });
+
+      expect(html).not.toContain('v:roundrect');
+      expect(html).toContain('href="https://example.com/shop"');
+    });
+  });
+
+  describe('Hero', () => {
+    it('should paint the background image with v:rect and v:fill', () => {
+      const html = renderToStaticMarkup(createDocument(hero));
+
+      expect(html).toContain('<v:rect xmlns:v="urn:schemas-microsoft-com:vml" fill="true" stroke="false" style="width:600px;">');
+      expect(html).toContain('<v:fill type="frame" src="https://example.com/hero.jpg" color="#112233" />');
+      expect(html).toContain('<v:textbox inset="0,0,0,0" style="mso-fit-shape-to-text:true">');
+      expect(html).toMatch(/<\/v:textbox>\s*<\/v:rect>\s*<!\[endif\]-->/);
+    });
+
+    it('should keep the CSS background and bgcolor fallback', () => {
+      const html = renderToStaticMarkup(createDocument(hero));
+
+      expect(html).toContain('background-image: url(https://example.com/hero.jpg)');
+      expect(html).toContain('bgcolor="#112233" background="https://example.com/hero.jpg"');
+    });
+
+    it('should render the hero button as a VML roundrect', () => {
+      const html = renderToStaticMarkup(createDocument(hero));
+
+      expect(html).toMatch(/<v:roundrect [^>]*href="https:\/\/example.com\/start"[^>]*fillcolor="#FF0000">/);
+    });
+
+    it('should omit VML when compatibility mode is off', () => {
+      const html = renderToStaticMarkup(createDocument(hero), { outlookCompatibility: false });
+
+      expect(html).not.toContain('v:rect');
+      expect(html).not.toContain('v:roundrect');
+    });
+  });
+
+  describe('Container', () => {
+    it('should wrap children in a VML background when an image is set', () => {
+      const html = renderToStaticMarkup(createDocument(container, { 'block-2': text }));
+
+      expect(html).toContain('<v:fill type="frame" src="https://example.com/bg.png" color="#EEEEEE" />');
+      expect(html).toMatch(/<v:textbox[^>]*>\s*<!\[endif\]-->\s*<div>\s*[\s\S]*Inside container[\s\S]*<\/div>\s*<!--\[if mso\]>\s*<\/v:textbox>/);
+      expect(html).toContain('background-image: url(https://example.com/bg.png)');
+    });
+
+    it('should not emit VML for containers without a background image', () => {
+      const plain = { ...container, data: { ...container.data, props: { childrenIds: ['block-2'] } } } as EmailBlock;
+      const html = renderToStaticMarkup(createDocument(plain, { 'block-2': text }));
+
+      expect(html).not.toContain('v:rect');
+      expect(html).toContain('bgcolor="#EEEEEE"');
+    });
+  });
+});
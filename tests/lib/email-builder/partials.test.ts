@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { findPartialIds, inlinePartials, documentUsesPartial } from '@/lib/email-builder/partials';
+import { renderToStaticMarkup } from '@/lib/email-builder/renderer';
+import { renderEmailTemplate } from '@/lib/email/template-renderer';
+import { prisma } from '@/lib/db/prisma';
+import type { EmailBuilderDocument, EmailBlock } from '@/lib/email-builder/types';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    templatePartial: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+describe('Global Partials', () => {
+  const partialBlock = (partialId: string | null): EmailBlock => ({
+    type: 'Partial',
+    data: {
+      style: { padding: { top: 8, right: 0, bottom: 8, left: 0 } },
+      props: { partialId, partialName: 'Footer' },
+    },
+  });
+
+  const createDocument = (): EmailBuilderDocument => ({
+    backdropColor: '#F8F8F8',
+    canvasColor: '#FFFFFF',
+    textColor: '#242424',
+    fontFamily: 'MODERN_SANS',
+    childrenIds: ['block-body', 'block-footer'],
+    'block-body': {
+      type: 'Text',
+      data: { style: {}, props: { text: 'Body copy' } },
+    },
+    'block-footer': partialBlock('partial-footer'),
+  });
+
+  const footerPartial: EmailBuilderDocument = {
+    backdropColor: '#F8F8F8',
+    canvasColor: '#FFFFFF',
+    textColor: '#242424',
+    fontFamily: 'MODERN_SANS',
+    childrenIds: ['block-legal', 'block-wrapper'],
+    'block-legal': {
+      type: 'Text',
+      data: { style: {}, props: { text: 'Legal notice v2' } },
+    },
+    'block-wrapper': {
+      type: 'Container',
+      data: { style: {}, props: { childrenIds: ['block-address', 'block-nested'] } },
+    },
+    'block-address': {
+      type: 'Text',
+      data: { style: {}, props: { text: '1 Main Street' } },
+    },
+    'block-nested': partialBlock('partial-other'),
+  };
+
+  it('should find referenced partial ids', () => {
+    const document = {
+      ...createDocument(),
+      'block-header': partialBlock('partial-header'),
+      'block-empty': partialBlock(null),
+    };
+
+    expect(findPartialIds(document).sort()).toEqual(['partial-footer', 'partial-header']);
+    expect(documentUsesPartial(document, 'partial-header')).toBe(true);
+    expect(documentUsesPartial(document, 'partial-missing')).toBe(false);
+  });
+
+  it('should inline the partial as a container with prefixed ids', () => {
+    const result = inlinePartials(createDocument(), { 'partial-footer': footerPartial });
+    const footer = result['block-footer'] as any;
+
+    expect(footer.type).toBe('Container');
+    expect(footer.data.style.padding.top).toBe(8);
+    expect(footer.data.props.childrenIds).toEqual([
+      'block-footer--block-legal',
+      'block-footer--block-wrapper',
+    ]);
+    expect((result['block-footer--block-wrapper'] as any).data.props.childrenIds).toEqual([
+      'block-footer--block-address',
+    ]);
+  });
+
+  it('should not resolve partials nested inside a partial', () => {
+    const result = inlinePartials(createDocument(), { 'partial-footer': footerPartial });
+
+    expect(result['block-footer--block-nested']).toBeUndefined();
+  });
+
+  it('should leave unknown partials in place and render them as nothing', () => {
+    const result = inlinePartials(createDocument(), {});
+
+    expect((result['block-footer'] as EmailBlock).type).toBe('Partial');
+    expect(renderToStaticMarkup(result)).toContain('Body copy');
+  });
+
+  it('should render the latest partial content through renderEmailTemplate', async () => {
+    const { html } = await renderEmailTemplate(createDocument(), {
+      partials: { 'partial-footer': footerPartial },
+    });
+
+    expect(html).toContain('Body copy');
+    expect(html).toContain('Legal notice v2');
+    expect(html).toContain('1 Main Street');
+  });
+
+  it('should apply the partial block visibility rule', async () => {
+    const document = createDocument();
+    (document['block-footer'] as EmailBlock).visibility = {
+      match: 'all',
+      conditions: [{ path: 'user.showFooter', operator: 'exists' }],
+    };
+
+    const { html } = await renderEmailTemplate(document, {
+      sampleData: { user: {} },
+      partials: { 'partial-footer': footerPartial },
+    });
+
+    expect(html).not.toContain('Legal notice v2');
+  });
+
+  it('should only load partials owned by the template organization', async () => {
+    vi.mocked(prisma.templatePartial.findMany).mockResolvedValue([
+      { id: 'partial-footer', structure: footerPartial },
+    ] as any);
+
+    const { html } = await renderEmailTemplate(createDocument(), { organizationId: 'org-a' });
+    await renderEmailTemplate(createDocument(), { organizationId: 'org-a' });
+    vi.mocked(prisma.templatePartial.findMany).mockResolvedValue([]);
+    const other = await renderEmailTemplate(createDocument(), { organizationId: 'org-b' });
+    const unscoped = await renderEmailTemplate(createDocument());
+
+    expect(html).toContain('Legal notice v2');
+    expect(other.html).not.toContain('Legal notice v2');
+    expect(unscoped.html).not.toContain('Legal notice v2');
+    expect(vi.mocked(prisma.templatePartial.findMany).mock.calls.map(([args]) => args?.where)).toEqual([
+      { id: { in: ['partial-footer'] }, organizationId: 'org-a' },
+      { id: { in: ['partial-footer'] }, organizationId: 'org-b' },
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db/prisma', () => ({ prisma: {} }));
+
+import { getInboxPreview, renderPreheader, truncateForInbox } from '@/lib/email-builder/preheader';
+import { renderToStaticMarkup } from '@/lib/email-builder/renderer';
+import { documentToMjml, mjmlToDocument } from '@/lib/email-builder/mjml';
+import { extractTranslatableText } from '@/lib/translations/extractor';
+import { replaceTextWithTranslations } from '@/lib/translations/replacer';
+import { extractTemplateVariables, renderEmailTemplate } from '@/lib/email/template-renderer';
+import { createTestDocument, createTextBlock } from '../../utils/document-fixtures';
+
+describe('Preheader', () => {
+  const createDocument = (preheader?: string) =>
+    createTestDocument({ 'block-text': createTextBlock('Body copy') }, preheader !== undefined ? { preheader } : {});
+
+  it('should render a hidden, padded span at the start of the body', () => {
+    const html = renderToStaticMarkup(createDocument('Big news inside'));
+    const body = html.slice(html.indexOf('<body'));
+
+    expect(body).toMatch(/^<body[^>]*>\s*<span class="preheader" style="display: none !important;[^"]*mso-hide: all;/);
+    expect(body).toContain('Big news inside&#847;&zwnj;&nbsp;');
+    expect(body.indexOf('preheader')).toBeLessThan(body.indexOf('Body copy'));
+  });
+
+  it('should omit the span and escape markup', () => {
+    expect(renderToStaticMarkup(createDocument())).not.toContain('class="preheader"');
+    expect(renderPreheader('   ')).toBe('');
+    expect(renderPreheader('Save <50%> & more')).toContain('Save &lt;50%&gt; &amp; more');
+  });
+
+  it('should truncate sender, subject and preheader per client', () => {
+    expect(truncateForInbox('Short', 10)).toBe('Short');
+    expect(truncateForInbox('A rather long sentence', 10)).toBe('A rather…');
+
+    const message = {
+      sender: 'The Very Long Company Name Newsletter',
+      subject: 'Your weekly summary of everything that happened',
+      preheader: 'Three new features, a webinar invite and the latest tips from our team',
+    };
+    const gmail = getInboxPreview('gmail', message);
+    const outlook = getInboxPreview('outlook', message);
+
+    expect(gmail.sender).toBe('The Very Long Compa…');
+    expect(gmail.subject).toBe(message.subject);
+    expect(gmail.subject.length + gmail.preheader.length).toBeLessThanOrEqual(100);
+    expect(gmail.preheader.endsWith('…')).toBe(true);
+    expect(outlook.sender).toBe('The Very Long Company Name Ne…');
+    expect(outlook.preheader.length).toBeLessThanOrEqual(50);
+  });
+
+  it('should extract and replace the preheader for translation', () => {
+    const document = createDocument('Hello {{user.firstName}}, big news');
+    const item = extractTranslatableText(document).find((i) => i.blockType === 'preheader');
+
+    expect(item).toMatchObject({ blockId: 'document', translationKey: 'document_preheader_0' });
+    expect(extractTranslatableText(createDocument('{{user.firstName}}')).some((i) => i.blockType === 'preheader')).toBe(false);
+
+    const translated = replaceTextWithTranslations(
+      document,
+      new Map([['document_preheader_0', 'Hola {{user.firstName}}, grandes noticias']])
+    );
+    expect(translated.preheader).toBe('Hola {{user.firstName}}, grandes noticias');
+    expect(document.preheader).toBe('Hello {{user.firstName}}, big news');
+  });
+
+  it('should replace variables, honour overrides and stay out of plain text', async () => {
+    const document = createDocument('Hi {{user.firstName}}');
+    expect(extractTemplateVariables(document)).toContain('user.firstName');
+
+    const result = await renderEmailTemplate(document, { sampleData: { user: { firstName: 'Ada' } } });
+    expect(result.html).toContain('Hi Ada&#847;');
+    expect(result.text).toContain('Body copy');
+    expect(result.text).not.toContain('Hi Ada');
+    expect(result.text).not.toContain('&#847;');
+
+    const campaign = await renderEmailTemplate(document, { preheader: 'Campaign preview' });
+    expect(campaign.html).toContain('Campaign preview&#847;');
+    expect(campaign.html).not.toContain('Hi {{user.firstName}}');
+  });
+
+  it('should round-trip through mj-preview', () => {
+    const mjml = documentToMjml(createDocument('Inbox teaser'));
+
+    expect(mjml).toContain('<mj-preview>Inbox teaser</mj-preview>');
+    expect(mjmlToDocument(mjml).document.preheader).toBe('Inbox teaser');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderToStaticMarkup } from '@/lib/email-builder/renderer';
+import { extractTemplateVariables } from '@/lib/email/template-renderer';
+import { createTestDocument, createTextBlock } from '../../utils/document-fixtures';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {},
+}));
+
+describe('Repeat Block', () => {
+  const createDocument = () =>
+    createTestDocument(
+      {
+        'block-repeat': {
+          type: 'Repeat',
+          data: {
+            style: {},
+            props: { itemsPath: 'order.items', childrenIds: ['block-row', 'block-sale'] },
+          },
+        },
+        'block-row': createTextBlock('{{item.name | upper}} x {{item.quantity}} for {{user.firstName}}'),
+        'block-sale': {
+          ...createTextBlock('On sale: {{item.name}}'),
+          visibility: {
+            conditions: [{ path: 'item.onSale', operator: 'equals', value: 'true' }],
+          },
+        },
+      },
+      { childrenIds: ['block-repeat'] }
+    );
+
+  const variables = {
+    user: { firstName: 'Ada' },
+    order: {
+      items: [
+        { name: 'Lamp', quantity: 2, onSale: true },
+        { name: 'Desk', quantity: 1, onSale: false },
+      ],
+    },
+  };
+
+  it('should render child blocks once per array element', () => {
+    const html = renderToStaticMarkup(createDocument(), { variables });
+
+    expect(html).toContain('LAMP x 2');
+    expect(html).toContain('DESK x 1');
+  });
+
+  it('should leave non-item variables for the template renderer', () => {
+    const html = renderToStaticMarkup(createDocument(), { variables });
+
+    expect(html).toContain('for {{user.firstName}}');
+  });
+
+  it('should evaluate child visibility rules against the current item', () => {
+    const html = renderToStaticMarkup(createDocument(), { variables });
+
+    expect(html).toContain('On sale: Lamp');
+    expect(html).not.toContain('On sale: Desk');
+  });
+
+  it('should render nothing when the array is missing or empty', () => {
+    const html = renderToStaticMarkup(createDocument(), { variables: { order: { items: [] } } });
+
+    expect(html).not.toContain('item.name');
+    expect(html).not.toContain('x 2');
+  });
+
+  it('should keep the item template when no variables are given', () => {
+    const html = renderToStaticMarkup(createDocument());
+
+    expect(html).toContain('{{item.name | upper}}');
+  });
+
+  it('should report the array path instead of item-scoped variables', () => {
+    const paths = extractTemplateVariables(createDocument());
+
+    expect(paths).toContain('order.items');
+    expect(paths).toContain('user.firstName');
+    expect(paths).not.toContain('item.name');
+    expect(paths).not.toContain('item.onSale');
+  });
+
+  it('should report non-loop variables used inside each blocks', () => {
+    const document = createDocument();
+    document['block-row'] = createTextBlock(
+      '{{#each order.items as line}}{{line.name}} for {{customer.firstName}}{{/each}}' +
+        '{{#each order.items}}{{this.sku}} {{@root.store.name}}{{/each}}'
+    );
+    const paths = extractTemplateVariables(document);
+
+    expect(paths).toContain('customer.firstName');
+    expect(paths).toContain('store.name');
+    expect(paths).not.toContain('name');
+    expect(paths).not.toContain('sku');
+  });
+});
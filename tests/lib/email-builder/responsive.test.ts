@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { renderToStaticMarkup } from '@/lib/email-builder/renderer';
+import { EmailBuilderDocumentSchema } from '@/lib/email-builder/types';
+import { createTestDocument, createTextBlock } from '../../utils/document-fixtures';
+
+describe('Responsive Rendering', () => {
+  const mobileStyles = (html: string) => {
+    const start = html.indexOf('@media only screen and (max-width: 600px)');
+    return html.slice(start, html.indexOf('</style>', start));
+  };
+
+  it('should not emit responsive rules when nothing is configured', () => {
+    const html = renderToStaticMarkup(
+      createTestDocument({ 'block-1': createTextBlock('Plain') })
+    );
+
+    expect(html).not.toContain('rs-');
+  });
+
+  it('should emit mobile padding, font size and alignment rules for the block cell', () => {
+    const html = renderToStaticMarkup(
+      createTestDocument({
+        'block-title': {
+          type: 'Heading',
+          data: {
+            style: {
+              padding: { top: 32, right: 48, bottom: 32, left: 48 },
+              mobilePadding: { top: 16, right: 12, bottom: 16, left: 12 },
+              mobileFontSize: 22,
+              mobileTextAlign: 'center',
+            },
+            props: { text: 'Big news', level: '1' },
+          },
+        },
+      })
+    );
+    const styles = mobileStyles(html);
+
+    expect(html).toContain('<td class="rs-block-title" style="padding: 32px 48px');
+    expect(styles).toContain('.rs-block-title { padding: 16px 12px 16px 12px !important; }');
+    expect(styles).toContain('.rs-block-title > h1');
+    expect(styles).toMatch(/\.rs-block-title a \{ font-size: 22px !important; \}/);
+    expect(styles).toContain('{ text-align: center !important; }');
+  });
+
+  it('should combine responsive and dark mode classes on the same cell', () => {
+    const html = renderToStaticMarkup(
+      createTestDocument({
+        'block-1': createTextBlock('Hi', { darkColor: '#EEEEEE', mobileFontSize: 14 }),
+      })
+    );
+
+    expect(html).toContain('<td class="dm-block-1 rs-block-1" ');
+  });
+
+  it('should hide blocks per device', () => {
+    const html = renderToStaticMarkup(
+      createTestDocument({
+        'block-desktop': createTextBlock('Desktop only', { hideOnMobile: true }),
+        'block-mobile': createTextBlock('Mobile only', { hideOnDesktop: true }),
+      })
+    );
+    const styles = mobileStyles(html);
+
+    expect(html).toMatch(/<div class="rs-hide-mobile">\s*<table[\s\S]*Desktop only/);
+    expect(html).toContain('<!--[if !mso]><!--><div class="rs-show-mobile" style="display: none; max-height: 0; overflow: hidden;">');
+    expect(styles).toContain('.rs-hide-mobile { display: none !important; }');
+    expect(styles).toContain('.rs-show-mobile { display: block !important;');
+  });
+
+  it('should reverse column source order for mobile stacking', () => {
+    const document = createTestDocument(
+      {
+        'block-columns': {
+          type: 'Columns',
+          data: {
+            style: {},
+            props: { columns: [{ childrenIds: ['block-left'] }, { childrenIds: ['block-right'] }], reverseOnMobile: true },
+          },
+        },
+        'block-left': createTextBlock('Left'),
+        'block-right': createTextBlock('Right'),
+      },
+      { childrenIds: ['block-columns'] }
+    );
+
+    const html = renderToStaticMarkup(document);
+
+    expect(html).toContain('dir="rtl"');
+    expect(html).toContain('<td class="column" width="50%" valign="top" dir="ltr"');
+    expect(html.indexOf('Right')).toBeLessThan(html.indexOf('Left'));
+  });
+
+  it('should accept responsive settings in the document schema', () => {
+    const document = createTestDocument({
+      'block-1': createTextBlock('Hi', {
+        hideOnMobile: true,
+        mobilePadding: { top: 4, right: 4, bottom: 4, left: 4 },
+        mobileTextAlign: 'right',
+      }),
+    });
+
+    expect(EmailBuilderDocumentSchema.safeParse(document).success).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractSnippetStructure,
+  instantiateSnippet,
+  SnippetStructureSchema,
+} from '@/lib/email-builder/snippets';
+import { editorReducer, createInitialState } from '@/lib/email-builder/state';
+import type { EmailBuilderDocument, EmailBlock } from '@/lib/email-builder/types';
+
+describe('Snippets', () => {
+  const createDocument = (): EmailBuilderDocument => ({
+    backdropColor: '#F8F8F8',
+    canvasColor: '#FFFFFF',
+    textColor: '#242424',
+    fontFamily: 'MODERN_SANS',
+    childrenIds: ['block-intro', 'block-footer'],
+    'block-intro': {
+      type: 'Text',
+      data: { style: {}, props: { text: 'Intro' } },
+    },
+    'block-footer': {
+      type: 'Container',
+      data: { style: {}, props: { childrenIds: ['block-columns', 'block-legal'] } },
+    },
+    'block-columns': {
+      type: 'Columns',
+      data: {
+        style: {},
+        props: {
+          columnsCount: 2,
+          columns: [{ childrenIds: ['block-left'] }, { childrenIds: [] }],
+        },
+      },
+    } as EmailBlock,
+    'block-left': {
+      type: 'Text',
+      data: { style: {}, props: { text: 'Left' } },
+    },
+    'block-legal': {
+      type: 'Text',
+      data: { style: {}, props: { text: 'Legal' } },
+    },
+  });
+
+  it('should collect a block and all of its descendants', () => {
+    const structure = extractSnippetStructure(createDocument(), 'block-footer');
+
+    expect(structure?.rootId).toBe('block-footer');
+    expect(Object.keys(structure!.blocks).sort()).toEqual(
+      ['block-columns', 'block-footer', 'block-left', 'block-legal']
+    );
+    expect(structure!.blocks['block-intro']).toBeUndefined();
+  });
+
+  it('should return null for unknown blocks', () => {
+    expect(extractSnippetStructure(createDocument(), 'block-missing')).toBeNull();
+  });
+
+  it('should clone blocks with fresh ids and remapped children', () => {
+    const structure = extractSnippetStructure(createDocument(), 'block-footer')!;
+    const instance = instantiateSnippet(structure);
+
+    expect(instance.rootId).not.toBe('block-footer');
+    expect(Object.keys(instance.blocks)).toHaveLength(4);
+    Object.keys(instance.blocks).forEach((id) => expect(structure.blocks[id]).toBeUndefined());
+
+    const root = instance.blocks[instance.rootId] as any;
+    const [columnsId, legalId] = root.data.props.childrenIds;
+    expect(instance.blocks[legalId].data.props).toEqual({ text: 'Legal' });
+
+    const leftId = (instance.blocks[columnsId] as any).data.props.columns[0].childrenIds[0];
+    expect(instance.blocks[leftId].data.props).toEqual({ text: 'Left' });
+  });
+
+  it('should produce distinct ids each time a snippet is inserted', () => {
+    const structure = extractSnippetStructure(createDocument(), 'block-footer')!;
+
+    expect(instantiateSnippet(structure).rootId).not.toBe(instantiateSnippet(structure).rootId);
+  });
+
+  it('should reject structures without their root block', () => {
+    expect(SnippetStructureSchema.safeParse({ rootId: 'block-x', blocks: {} }).success).toBe(false);
+    expect(
+      SnippetStructureSchema.safeParse(extractSnippetStructure(createDocument(), 'block-intro')).success
+    ).toBe(true);
+  });
+
+  it('should insert a snippet through the reducer as one history entry', () => {
+    const state = createInitialState(createDocument());
+    const structure = extractSnippetStructure(state.document, 'block-footer')!;
+
+    const updated = editorReducer(state, {
+      type: 'INSERT_SNIPPET',
+      payload: { structure, position: 0 },
+    });
+
+    const insertedId = updated.document.childrenIds[0];
+    expect(updated.document.childrenIds).toHaveLength(3);
+    expect(insertedId).not.toBe('block-footer');
+    expect((updated.document[insertedId] as EmailBlock).type).toBe('Container');
+    expect(updated.selectedBlockId).toBe(insertedId);
+    expect(updated.history).toHaveLength(2);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyBrandKit,
+  applyLinkColor,
+  getThemeColorToken,
+  resolveThemeTokens,
+  themeColorRef,
+} from '@/lib/email-builder/theme';
+import { renderToStaticMarkup } from '@/lib/email-builder/renderer';
+import { documentToMjml } from '@/lib/email-builder/mjml';
+import { editorReducer, createInitialState } from '@/lib/email-builder/state';
+import { createBlock } from '@/lib/email-builder/blocks';
+import type { EmailBuilderDocument, EmailBlock } from '@/lib/email-builder/types';
+import { createTestDocument } from '../../utils/document-fixtures';
+
+describe('Theme Tokens', () => {
+  const createDocument = (): EmailBuilderDocument => {
+    const button = createBlock('Button');
+    if (button.type === 'Button') button.data.props.buttonColor = themeColorRef('primary');
+    const heading = createBlock('Heading');
+    heading.data.style.color = themeColorRef('secondary');
+    const logo = createBlock('Image');
+    if (logo.type === 'Image') logo.data.props.alt = 'Company Logo';
+    const photo = createBlock('Image');
+    if (photo.type === 'Image') {
+      photo.data.props.alt = 'Team photo';
+      photo.data.props.url = 'https://example.com/team.png';
+    }
+
+    return createTestDocument(
+      {
+        'block-button': button,
+        'block-heading': heading,
+        'block-logo': logo,
+        'block-photo': photo,
+        'block-social': createBlock('SocialLinks'),
+      },
+      { themePrimaryColor: '#FF5500' }
+    );
+  };
+
+  it('should recognise token references', () => {
+    expect(getThemeColorToken('var(--theme-link)')).toBe('link');
+    expect(getThemeColorToken('#FFFFFF')).toBeNull();
+    expect(getThemeColorToken(null)).toBeNull();
+  });
+
+  it('should resolve references to token values with defaults for unset tokens', () => {
+    const resolved = resolveThemeTokens(createDocument());
+
+    expect((resolved['block-button'] as any).data.props.buttonColor).toBe('#FF5500');
+    expect((resolved['block-heading'] as EmailBlock).data.style.color).toBe('#64748B');
+  });
+
+  it('should restyle rendered output when a token changes', () => {
+    const document = createDocument();
+    const before = renderToStaticMarkup(document);
+    const after = renderToStaticMarkup({ ...document, themePrimaryColor: '#00AA00' });
+
+    expect(before).toContain('#FF5500');
+    expect(after).toContain('#00AA00');
+    expect(after).not.toContain('#FF5500');
+    expect(after).not.toContain('var(--theme-');
+  });
+
+  it('should resolve references in MJML exports', () => {
+    expect(documentToMjml(createDocument())).not.toContain('var(--theme-');
+  });
+
+  it('should apply theme fonts to headings and the body', () => {
+    const html = renderToStaticMarkup({
+      ...createDocument(),
+      themeHeadingFont: 'BOOK_SERIF',
+      themeBodyFont: 'MONOSPACE',
+    });
+
+    expect(html).toMatch(/<h\d style="[^"]*font-family: Georgia, Times, serif/);
+    expect(html).toContain('<body style="margin: 0; padding: 0; background-color: #F8F8F8; font-family: Courier, monospace;');
+  });
+
+  it('should color links without their own color', () => {
+    expect(applyLinkColor('<a href="#">A</a>', '#123456')).toBe('<a href="#" style="color: #123456;">A</a>');
+    expect(applyLinkColor('<a href="#" style="font-weight: bold">A</a>', '#123456')).toBe(
+      '<a href="#" style="font-weight: bold; color: #123456;">A</a>'
+    );
+    expect(applyLinkColor('<a style="color: #fff;">A</a>', '#123456')).toBe('<a style="color: #fff;">A</a>');
+  });
+
+  it('should fill tokens, logo images and social links from a brand kit', () => {
+    const document = applyBrandKit(createDocument(), {
+      logoUrl: 'https://cdn.example.com/brand-logo.png',
+      colors: { primary: '#111111', link: '#222222' },
+      fonts: { heading: 'ELEGANT_SERIF' },
+      socialLinks: [{ platform: 'LinkedIn', url: 'https://linkedin.com/company/acme', icon: 'linkedin' }],
+    });
+
+    expect(document.themePrimaryColor).toBe('#111111');
+    expect(document.themeLinkColor).toBe('#222222');
+    expect(document.themeSecondaryColor).toBeUndefined();
+    expect(document.themeHeadingFont).toBe('ELEGANT_SERIF');
+    expect((document['block-logo'] as any).data.props.url).toBe('https://cdn.example.com/brand-logo.png');
+    expect((document['block-photo'] as any).data.props.url).toBe('https://example.com/team.png');
+    expect((document['block-social'] as any).data.props.socialLinks).toEqual([
+      { platform: 'LinkedIn', url: 'https://linkedin.com/company/acme', icon: 'linkedin' },
+    ]);
+  });
+
+  it('should apply a brand kit as a single undoable change', () => {
+    const state = createInitialState(createDocument());
+    const applied = editorReducer(state, {
+      type: 'APPLY_BRAND_KIT',
+      payload: { brandKit: { colors: { primary: '#000000' } } },
+    });
+
+    expect(applied.document.themePrimaryColor).toBe('#000000');
+    expect(applied.isDirty).toBe(true);
+    expect(editorReducer(applied, { type: 'UNDO' }).document.themePrimaryColor).toBe('#FF5500');
+  });
+});
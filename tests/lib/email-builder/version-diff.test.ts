@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { diffDocuments, getDiffHighlights, DIFF_HIGHLIGHT_COLORS } from '@/lib/email-builder/version-diff';
+import { renderToStaticMarkup } from '@/lib/email-builder/renderer';
+import { createBlock } from '@/lib/email-builder/blocks';
+import type { EmailBuilderDocument, EmailBlock } from '@/lib/email-builder/types';
+
+describe('Version Diff', () => {
+  const createDocument = (blocks: Record<string, EmailBlock>, childrenIds = Object.keys(blocks)): EmailBuilderDocument => ({
+    backdropColor: '#F8F8F8',
+    canvasColor: '#FFFFFF',
+    textColor: '#242424',
+    fontFamily: 'MODERN_SANS',
+    childrenIds,
+    ...blocks,
+  });
+
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  const textBlock = (text: string): EmailBlock => {
+    const block = createBlock('Text');
+    if (block.type === 'Text') block.data.props.text = text;
+    return block;
+  };
+
+  it('should report no changes for identical documents', () => {
+    const document = createDocument({ 'block-1': textBlock('Hello') });
+
+    expect(diffDocuments(document, clone(document))).toEqual({ blocks: [], settings: [] });
+  });
+
+  it('should ignore key order differences from storage', () => {
+    const before = createDocument({ 'block-1': textBlock('Hello') });
+    const block = before['block-1'] as EmailBlock;
+    const after = createDocument({
+      'block-1': { data: { props: clone(block.data.props), style: clone(block.data.style) }, type: 'Text' } as EmailBlock,
+    });
+
+    expect(diffDocuments(before, after).blocks).toEqual([]);
+  });
+
+  it('should detect added, removed and modified blocks', () => {
+    const before = createDocument({
+      'block-keep': textBlock('Hello'),
+      'block-old': createBlock('Divider'),
+    });
+    const after = createDocument({
+      'block-keep': textBlock('Hello there'),
+      'block-new': createBlock('Button'),
+    });
+    (after['block-keep'] as EmailBlock).data.style.color = '#FF0000';
+
+    expect(diffDocuments(before, after).blocks).toEqual([
+      { blockId: 'block-keep', blockType: 'Text', change: 'modified', fields: ['props.text', 'style.color'] },
+      { blockId: 'block-new', blockType: 'Button', change: 'added', fields: [] },
+      { blockId: 'block-old', blockType: 'Divider', change: 'removed', fields: [] },
+    ]);
+  });
+
+  it('should not mark a container modified when only its children change', () => {
+    const container = createBlock('Container');
+    const before = createDocument({ 'block-box': container }, ['block-box']);
+    const after = clone(before);
+    (after['block-box'] as any).data.props.childrenIds = ['block-child'];
+    after['block-child'] = textBlock('Inside');
+
+    expect(diffDocuments(before, after).blocks).toEqual([
+      { blockId: 'block-child', blockType: 'Text', change: 'added', fields: [] },
+    ]);
+  });
+
+  it('should report blocks moved to another parent and root setting changes', () => {
+    const container = createBlock('Container');
+    const before = createDocument({ 'block-box': container, 'block-text': textBlock('Hi') });
+    const after = clone(before);
+    after.childrenIds = ['block-box'];
+    (after['block-box'] as any).data.props.childrenIds = ['block-text'];
+    after.backdropColor = '#000000';
+
+    const diff = diffDocuments(before, after);
+    expect(diff.blocks).toEqual([
+      { blockId: 'block-text', blockType: 'Text', change: 'modified', fields: ['location'] },
+    ]);
+    expect(diff.settings).toEqual(['backdropColor']);
+  });
+
+  it('should highlight removed blocks on the older side and added blocks on the newer side', () => {
+    const before = createDocument({ 'block-old': textBlock('Old') });
+    const after = createDocument({ 'block-new': textBlock('New') });
+    const diff = diffDocuments(before, after);
+
+    expect(getDiffHighlights(diff, 'before')).toEqual({ 'block-old': DIFF_HIGHLIGHT_COLORS.removed });
+    expect(getDiffHighlights(diff, 'after')).toEqual({ 'block-new': DIFF_HIGHLIGHT_COLORS.added });
+
+    const html = renderToStaticMarkup(after, { highlightBlocks: getDiffHighlights(diff, 'after') });
+    expect(html).toContain(`outline: 3px solid ${DIFF_HIGHLIGHT_COLORS.added}`);
+    expect(renderToStaticMarkup(after)).not.toContain('outline: 3px solid');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateCondition, evaluateVisibilityRule } from '@/lib/email-builder/visibility';
+import { renderToStaticMarkup } from '@/lib/email-builder/renderer';
+import { createTestDocument, createTextBlock } from '../../utils/document-fixtures';
+
+describe('Block Visibility', () => {
+  const variables = {
+    customer: { tier: 'gold', orders: 12, tags: ['vip', 'beta'] },
+    user: { firstName: 'Ada' },
+  };
+
+  describe('evaluateCondition', () => {
+    it('should compare values with equals and notEquals', () => {
+      expect(evaluateCondition({ path: 'customer.tier', operator: 'equals', value: 'gold' }, variables)).toBe(true);
+      expect(evaluateCondition({ path: 'customer.tier', operator: 'equals', value: 'silver' }, variables)).toBe(false);
+      expect(evaluateCondition({ path: 'customer.tier', operator: 'notEquals', value: 'silver' }, variables)).toBe(true);
+    });
+
+    it('should treat missing values as not equal', () => {
+      expect(evaluateCondition({ path: 'customer.plan', operator: 'equals', value: '' }, variables)).toBe(false);
+      expect(evaluateCondition({ path: 'customer.plan', operator: 'notEquals', value: 'pro' }, variables)).toBe(true);
+    });
+
+    it('should check strings and arrays with contains', () => {
+      expect(evaluateCondition({ path: 'customer.tags', operator: 'contains', value: 'vip' }, variables)).toBe(true);
+      expect(evaluateCondition({ path: 'user.firstName', operator: 'contains', value: 'Ad' }, variables)).toBe(true);
+      expect(evaluateCondition({ path: 'customer.tags', operator: 'notContains', value: 'vip' }, variables)).toBe(false);
+    });
+
+    it('should compare numbers with greaterThan and lessThan', () => {
+      expect(evaluateCondition({ path: 'customer.orders', operator: 'greaterThan', value: '10' }, variables)).toBe(true);
+      expect(evaluateCondition({ path: 'customer.orders', operator: 'lessThan', value: '10' }, variables)).toBe(false);
+      expect(evaluateCondition({ path: 'customer.tier', operator: 'greaterThan', value: '10' }, variables)).toBe(false);
+    });
+
+    it('should check presence with exists and notExists', () => {
+      expect(evaluateCondition({ path: 'user.firstName', operator: 'exists' }, variables)).toBe(true);
+      expect(evaluateCondition({ path: 'user.lastName', operator: 'exists' }, variables)).toBe(false);
+      expect(evaluateCondition({ path: 'user.lastName', operator: 'notExists' }, variables)).toBe(true);
+    });
+  });
+
+  describe('evaluateVisibilityRule', () => {
+    it('should pass when there is no rule or no conditions', () => {
+      expect(evaluateVisibilityRule(undefined, variables)).toBe(true);
+      expect(evaluateVisibilityRule({ conditions: [] }, variables)).toBe(true);
+    });
+
+    it('should require every condition for match "all"', () => {
+      const rule = {
+        match: 'all' as const,
+        conditions: [
+          { path: 'customer.tier', operator: 'equals' as const, value: 'gold' },
+          { path: 'customer.orders', operator: 'lessThan' as const, value: '5' },
+        ],
+      };
+      expect(evaluateVisibilityRule(rule, variables)).toBe(false);
+      expect(evaluateVisibilityRule({ ...rule, match: 'any' }, variables)).toBe(true);
+    });
+  });
+
+  describe('renderToStaticMarkup with visibility rules', () => {
+    const createDocument = () =>
+      createTestDocument(
+        {
+          'block-banner': {
+            ...createTextBlock('VIP banner'),
+            visibility: {
+              match: 'all',
+              conditions: [{ path: 'customer.tier', operator: 'equals', value: 'gold' }],
+            },
+          },
+          'block-container': {
+            type: 'Container',
+            visibility: {
+              conditions: [{ path: 'customer.orders', operator: 'greaterThan', value: '100' }],
+            },
+            data: { style: {}, props: { childrenIds: ['block-nested'] } },
+          },
+          'block-nested': createTextBlock('Loyalty perks'),
+        },
+        { childrenIds: ['block-banner', 'block-container'] }
+      );
+
+    it('should render every block when no variables are given', () => {
+      const html = renderToStaticMarkup(createDocument());
+
+      expect(html).toContain('VIP banner');
+      expect(html).toContain('Loyalty perks');
+    });
+
+    it('should leave out hidden blocks and their children', () => {
+      const html = renderToStaticMarkup(createDocument(), { variables });
+
+      expect(html).toContain('VIP banner');
+      expect(html).not.toContain('Loyalty perks');
+    });
+
+    it('should hide blocks whose rule fails for the recipient', () => {
+      const html = renderToStaticMarkup(createDocument(), {
+        variables: { customer: { tier: 'silver', orders: 150 } },
+      });
+
+      expect(html).not.toContain('VIP banner');
+      expect(html).toContain('Loyalty perks');
+    });
+  });
+});
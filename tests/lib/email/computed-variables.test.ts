@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateComputedVariables, orderComputedVariables } from '@/lib/email/computed-variables';
+
+describe('Computed Variables', () => {
+  const now = new Date('2024-01-18T18:30:00Z');
+
+  it('should evaluate variables in dependency order', () => {
+    const recipient = { firstName: 'Ada', lastName: 'Lovelace', renewalDate: '2024-02-01', custom: { code: 'A1' } };
+    const { data, errors } = evaluateComputedVariables(
+      [
+        { path: 'custom.greeting', expression: "'Hi ' + custom.fullName", type: 'string' },
+        { path: 'custom.fullName', expression: "firstName + ' ' + lastName", type: 'string' },
+        { path: 'custom.daysUntilRenewal', expression: 'dateDiff(renewalDate, now)', type: 'number' },
+      ],
+      recipient,
+      { now }
+    );
+
+    expect(errors).toEqual([]);
+    expect(data.custom).toEqual({
+      code: 'A1',
+      fullName: 'Ada Lovelace',
+      greeting: 'Hi Ada Lovelace',
+      daysUntilRenewal: 13,
+    });
+    expect(recipient.custom).toEqual({ code: 'A1' });
+  });
+
+  it('should read contact fields and leave empty results unset', () => {
+    const { data } = evaluateComputedVariables(
+      [
+        { path: 'custom.plan', expression: 'upper(contact.plan)' },
+        { path: 'custom.nickname', expression: 'contact.nickname' },
+      ],
+      {},
+      { contact: { plan: 'pro' }, now }
+    );
+
+    expect(data).toEqual({ custom: { plan: 'PRO' } });
+  });
+
+  it('should coerce results to the variable type', () => {
+    const { data } = evaluateComputedVariables(
+      [
+        { path: 'custom.points', expression: 'points', type: 'number' },
+        { path: 'custom.label', expression: 'number(points) * 2', type: 'string' },
+      ],
+      { points: '21' }
+    );
+
+    expect(data.custom).toEqual({ points: 21, label: '42' });
+  });
+
+  it('should report invalid expressions and cycles without stopping the rest', () => {
+    const { ordered, errors } = orderComputedVariables([
+      { path: 'custom.a', expression: 'custom.b + 1' },
+      { path: 'custom.b', expression: 'custom.a + 1' },
+      { path: 'custom.c', expression: 'custom.a' },
+      { path: 'custom.d', expression: 'firstName +' },
+      { path: 'custom.e', expression: 'firstName' },
+    ]);
+
+    expect(ordered.map((entry) => entry.variable.path)).toEqual(['custom.e']);
+    expect(errors).toEqual([
+      { path: 'custom.d', message: 'Expression ends unexpectedly' },
+      { path: 'custom.a', message: 'Circular reference: custom.a → custom.b → custom.a' },
+      { path: 'custom.b', message: 'Circular reference: custom.a → custom.b → custom.a' },
+      { path: 'custom.c', message: "Depends on a variable that can't be computed" },
+    ]);
+  });
+});
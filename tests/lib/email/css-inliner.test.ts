@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { inlineCss } from '@/lib/email/css-inliner';
+
+describe('CSS Inliner', () => {
+  const page = (css: string, body: string) =>
+    `<html><head><style type="text/css">${css}</style></head><body>${body}</body></html>`;
+
+  it('should inline tag, class and id rules and remove them from <style>', () => {
+    const result = inlineCss(
+      page('p { margin: 0; } .note { color: #333; } #cta { font-weight: bold; }', '<p class="note">Hi</p><a id="cta" href="#">Go</a>')
+    );
+
+    expect(result.html).toContain('<p class="note" style="margin: 0; color: #333;">');
+    expect(result.html).toContain('<a id="cta" href="#" style="font-weight: bold;">');
+    expect(result.html).not.toContain('<style');
+    expect(result).toMatchObject({ inlinedRules: 3, remainingRules: 0 });
+  });
+
+  it('should let existing inline styles and more specific rules win', () => {
+    const { html } = inlineCss(page('.a { color: red; } td { color: blue; }', '<td class="a" style="color: green;">x</td>'));
+
+    expect(html).toContain('style="color: blue; color: red; color: green;"');
+  });
+
+  it('should keep media queries, pseudo-classes and descendant selectors', () => {
+    const result = inlineCss(
+      page(
+        '@media only screen and (max-width: 600px) { .column { width: 100% !important; } } a:hover { color: red; } .wrap td { padding: 0; } img { border: 0; }',
+        '<div class="wrap"><img src="x.png" alt="" /></div>'
+      )
+    );
+
+    expect(result.html).toContain('@media only screen and (max-width: 600px)');
+    expect(result.html).toContain('a:hover { color: red; }');
+    expect(result.html).toContain('.wrap td { padding: 0; }');
+    expect(result.html).toContain('<img src="x.png" alt="" style="border: 0;" />');
+    expect(result).toMatchObject({ inlinedRules: 1, remainingRules: 3 });
+  });
+
+  it('should leave conditional comments untouched', () => {
+    const html = `<head><!--[if mso]><style>td { font-family: Arial; }</style><![endif]--><style>td { color: #000; }</style></head><body><!--[if mso]><td>mso</td><![endif]--><td>all</td></body>`;
+    const result = inlineCss(html);
+
+    expect(result.html).toContain('<!--[if mso]><style>td { font-family: Arial; }</style><![endif]-->');
+    expect(result.html).toContain('<!--[if mso]><td>mso</td><![endif]-->');
+    expect(result.html).toContain('<td style="color: #000;">all</td>');
+  });
+
+  it('should keep style attributes valid when values contain double quotes', () => {
+    const { html } = inlineCss(page('body { font-family: "Times New Roman", serif; }', ''));
+
+    expect(html).toContain(`<body style="font-family: 'Times New Roman', serif;">`);
+  });
+});
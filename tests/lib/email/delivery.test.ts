@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { prepareForDelivery } from '@/lib/email/delivery';
+
+describe('Delivery Markup', () => {
+  const options = {
+    emailLogId: 'log-1',
+    unsubscribeUrl: 'https://app.example.com/unsubscribe/token',
+    preferenceUrl: 'https://app.example.com/preferences/token',
+  };
+
+  it('should add the open pixel, tracked links and the unsubscribe footer', () => {
+    const { html, text } = prepareForDelivery(
+      '<html><body><a href="https://example.com">Shop</a></body></html>',
+      'Shop',
+      options
+    );
+
+    expect(html).toContain('/api/track/open/');
+    expect(html).toContain('/api/track/click/');
+    expect(html).not.toContain('href="https://example.com"');
+    expect(html).toContain(`<a href="${options.unsubscribeUrl}"`);
+    expect(html).toMatch(/Manage Preferences<\/a>[\s\S]*<\/div>\s*<\/body>/);
+    expect(text).toBe(`Shop\n\nUnsubscribe: ${options.unsubscribeUrl}\nManage preferences: ${options.preferenceUrl}`);
+  });
+
+  it('should append the footer when there is no body tag', () => {
+    const { html } = prepareForDelivery('<p>Hi</p>', 'Hi', { ...options, trackOpens: false, trackClicks: false });
+
+    expect(html.startsWith('<p>Hi</p>')).toBe(true);
+    expect(html).toContain('Unsubscribe</a>');
+    expect(html).not.toContain('/api/track/');
+  });
+});
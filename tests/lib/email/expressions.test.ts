@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateExpression, parseExpression } from '@/lib/email/expressions';
+
+describe('Variable Expressions', () => {
+  const context = {
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    points: '120',
+    renewalDate: '2024-02-01T00:00:00Z',
+    items: [{ name: 'Lamp' }, { name: 'Desk' }],
+    contact: { email: 'ada@example.com', plan: 'pro' },
+    now: new Date('2024-01-18T18:30:00Z'),
+  };
+  const value = (expression: string) => evaluateExpression(expression, context).value;
+
+  it('should join text and do arithmetic', () => {
+    expect(value("firstName + ' ' + lastName")).toBe('Ada Lovelace');
+    expect(value('number(points) + 30')).toBe(150);
+    expect(value('points * 2 - 40 / 4')).toBe(230);
+    expect(value('(1 + 2) * 3 % 4')).toBe(1);
+    expect(value('1 / 0')).toBeNull();
+  });
+
+  it('should compare and branch', () => {
+    expect(value("points >= 100 && contact.plan == 'pro' ? 'Gold' : 'Member'")).toBe('Gold');
+    expect(value('middleName || firstName')).toBe('Ada');
+    expect(value('!items')).toBe(false);
+    expect(value('points == 120.0')).toBe(true);
+  });
+
+  it('should read nested paths and call functions', () => {
+    expect(value('items[1].name')).toBe('Desk');
+    expect(value('items.length')).toBe(2);
+    expect(value('upper(contact.email)')).toBe('ADA@EXAMPLE.COM');
+    expect(value("coalesce(contact.nickname, firstName, 'there')")).toBe('Ada');
+    expect(value('round(number(points) / 7, 2)')).toBe(17.14);
+    expect(value('missing.deeply.nested')).toBeNull();
+  });
+
+  it('should work with dates', () => {
+    expect(value('dateDiff(renewalDate, now)')).toBe(13);
+    expect(value("dateDiff(renewalDate, now, 'hours')")).toBe(317);
+    expect(value("dateDiff('2024-05-15', '2024-01-20', 'months')")).toBe(3);
+    expect(value("dateAdd(renewalDate, 1, 'months')")).toBe('2024-03-01T00:00:00.000Z');
+    expect(value("dateDiff('not a date', now)")).toBeNull();
+  });
+
+  it('should report syntax errors with positions and list references', () => {
+    expect(parseExpression("firstName + ' ' + contact.lastName").references).toEqual([
+      'firstName',
+      'contact.lastName',
+    ]);
+    expect(parseExpression('firstName +').error).toMatchObject({ message: 'Expression ends unexpectedly' });
+    expect(parseExpression("'open").error).toMatchObject({ index: 0 });
+    expect(parseExpression('eval(firstName)').error?.message).toBe('Unknown function eval()');
+    expect(parseExpression('upper()').error?.message).toBe('upper() expects 1 argument');
+    expect(parseExpression('slice(firstName)').error?.message).toBe('slice() expects 2 to 3 arguments');
+    expect(parseExpression('a = 1').error).toMatchObject({ message: 'Unexpected "="', index: 2 });
+  });
+
+  it('should stay inside the sandbox', () => {
+    expect(evaluateExpression('firstName.constructor', context).error?.message).toBe('Cannot read "constructor"');
+    expect(evaluateExpression("contact['__proto__']", context).error).not.toBeNull();
+    expect(value('contact.toString')).toBeNull();
+    expect(value('now.getTime')).toBeNull();
+    expect(value('toString')).toBeNull();
+    expect(parseExpression('constructor(1)').error?.message).toBe('Unknown function constructor()');
+    expect(evaluateExpression("dateAdd(now, 1, 'constructor')", context).error?.message).toBe(
+      'Unknown date unit "constructor"'
+    );
+    expect(parseExpression('('.repeat(40) + '1' + ')'.repeat(40)).error?.message).toBe(
+      'Expression is nested too deeply'
+    );
+    expect(parseExpression('1+'.repeat(600) + '1').error?.message).toContain('longer than');
+  });
+});
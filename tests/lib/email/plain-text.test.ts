@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db/prisma', () => ({ prisma: {} }));
+
+import { htmlToPlainText } from '@/lib/email/plain-text';
+import { renderEmailTemplate } from '@/lib/email/template-renderer';
+import { createBlock } from '@/lib/email-builder/blocks';
+import type { EmailBuilderDocument } from '@/lib/email-builder/types';
+
+describe('Plain Text Converter', () => {
+  it('should put links in numbered footnotes', () => {
+    const text = htmlToPlainText(
+      '<p>Read the <a href="https://example.com/guide?a=1&amp;b=2">setup guide</a> or <a href="https://example.com">https://example.com</a>.</p>' +
+        '<p><a href="https://example.com/guide?a=1&amp;b=2">Guide again</a> <a href="mailto:help@example.com">help@example.com</a> <a href="#">Top</a></p>'
+    );
+
+    expect(text).toBe(
+      'Read the setup guide [1] or https://example.com.\n\nGuide again [1] help@example.com Top\n\nLinks:\n[1] https://example.com/guide?a=1&b=2'
+    );
+  });
+
+  it('should keep list bullets and numbers', () => {
+    expect(htmlToPlainText('<ul><li>One</li><li><b>Two</b></li></ul><ol><li>First</li><li>Second</li></ol>')).toBe(
+      '- One\n- Two\n\n1. First\n2. Second'
+    );
+  });
+
+  it('should lay out columns one after another without Outlook duplicates', () => {
+    const html = `<table><tr>
+      <!--[if mso]><td>Left</td><![endif]-->
+      <!--[if !mso]><!--><td class="column"><p>Left</p></td><!--<![endif]-->
+      <!--[if !mso]><!--><td class="column"><p>Right</p></td><!--<![endif]-->
+    </tr></table><p>After</p>`;
+
+    expect(htmlToPlainText(html)).toBe('Left\n\nRight\n\nAfter');
+  });
+
+  it('should underline top-level headings and drop hidden content', () => {
+    const html =
+      '<html><head><title>Email Template</title><style>p { color: red; }</style></head><body>' +
+      '<span class="preheader" style="display: none;">Preview&#847;&zwnj;&nbsp;</span>' +
+      '<h1>Welcome &amp; hello</h1><h3>Details</h3><img src="a.png" alt="Team photo" /><img src="spacer.gif" alt="" /></body></html>';
+
+    expect(htmlToPlainText(html)).toBe('Welcome & hello\n===============\n\nDetails\n\n[Team photo]');
+  });
+});
+
+describe('Custom plain text', () => {
+  const document: EmailBuilderDocument = {
+    backdropColor: '#F8F8F8',
+    canvasColor: '#FFFFFF',
+    textColor: '#242424',
+    fontFamily: 'MODERN_SANS',
+    childrenIds: ['block-text'],
+    'block-text': createBlock('Text'),
+  };
+
+  it('should replace invalid numeric entities instead of throwing', () => {
+    expect(htmlToPlainText('<p>a &#99999999; b &#xD800; c &#0; d &#x1F600;</p>')).toBe('a \uFFFD b \uFFFD c \uFFFD d 😀');
+  });
+
+  it('should use the hand-edited text with variables replaced', async () => {
+    const { text } = await renderEmailTemplate(document, {
+      sampleData: { user: { firstName: 'Ada' } },
+      plainText: 'Hi {{user.firstName}},\n\nThanks for signing up.',
+    });
+
+    expect(text).toBe('Hi Ada,\n\nThanks for signing up.');
+  });
+
+  it('should generate the text when no custom text is set', async () => {
+    const generated = await renderEmailTemplate(document);
+    const blank = await renderEmailTemplate(document, { plainText: '  ' });
+
+    expect(blank.text).toBe(generated.text);
+    expect(generated.text).not.toContain('Email Template');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db/prisma', () => ({ prisma: {} }));
+
+import { GMAIL_CLIP_BYTES, formatBytes, getByteSize, getSizeStatus } from '@/lib/email/render-analysis';
+import { renderEmailTemplate } from '@/lib/email/template-renderer';
+import { createBlock } from '@/lib/email-builder/blocks';
+import type { EmailBuilderDocument } from '@/lib/email-builder/types';
+
+describe('Render Analysis', () => {
+  const createDocument = (textLength = 10): EmailBuilderDocument => {
+    const text = createBlock('Text');
+    if (text.type === 'Text') text.data.props.text = `Hello {{name}} ${'x'.repeat(textLength)}`;
+    const container = createBlock('Container');
+    if (container.type === 'Container') container.data.props.childrenIds = ['block-text'];
+    return {
+      backdropColor: '#F8F8F8',
+      canvasColor: '#FFFFFF',
+      textColor: '#242424',
+      fontFamily: 'MODERN_SANS',
+      childrenIds: ['block-container', 'block-divider'],
+      'block-container': container,
+      'block-text': text,
+      'block-divider': createBlock('Divider'),
+    };
+  };
+
+  it('should measure UTF-8 bytes and classify sizes', () => {
+    expect(getByteSize('é')).toBe(2);
+    expect(getSizeStatus(10 * 1024)).toBe('ok');
+    expect(getSizeStatus(90 * 1024)).toBe('warning');
+    expect(getSizeStatus(GMAIL_CLIP_BYTES + 1)).toBe('clipped');
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(2048)).toBe('2.0 KB');
+  });
+
+  it('should only analyze when asked', async () => {
+    const result = await renderEmailTemplate(createDocument());
+    expect(result.analysis).toBeUndefined();
+  });
+
+  it('should report final size and a per-block breakdown', async () => {
+    const { html, analysis } = await renderEmailTemplate(createDocument(), {
+      sampleData: { name: 'Ada' },
+      analyze: true,
+    });
+
+    expect(analysis!.bytes).toBe(getByteSize(html));
+    expect(analysis!.status).toBe('ok');
+    expect(analysis!.styleBytes).toBeGreaterThan(0);
+    expect(analysis!.blocks.map((block) => [block.blockId, block.depth])).toEqual([
+      ['block-container', 0],
+      ['block-text', 1],
+      ['block-divider', 0],
+    ]);
+    const [container, text] = analysis!.blocks;
+    expect(container.bytes).toBeGreaterThan(text.bytes);
+    expect(analysis!.inlining).toBeUndefined();
+  });
+
+  it('should flag templates over the clipping threshold', async () => {
+    const { analysis } = await renderEmailTemplate(createDocument(GMAIL_CLIP_BYTES), { analyze: true });
+
+    expect(analysis!.status).toBe('clipped');
+  });
+
+  it('should report the effect of inlining CSS', async () => {
+    const { html, analysis } = await renderEmailTemplate(createDocument(), { analyze: true, inlineCss: true });
+
+    expect(analysis!.inlining!.inlinedRules).toBeGreaterThan(0);
+    expect(analysis!.inlining!.remainingRules).toBeGreaterThan(0); // media queries stay
+    expect(analysis!.inlining!.bytesBefore).toBeLessThan(analysis!.bytes);
+    expect(html).toContain('@media only screen and (max-width: 600px)');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSpamScore, SPAM_THRESHOLD } from '@/lib/email/spam-score';
+
+describe('Spam Score', () => {
+  const paragraph =
+    'Thanks for being part of our community. Here is a summary of what changed in the product this month, ' +
+    'along with a few tips from the team on getting the most out of the new reporting features.';
+  const email = (body: string) =>
+    `<html><head><style>p { color: #333; }</style></head><body><span class="preheader" style="display: none;">FREE MONEY</span>${body}<p><a href="https://example.com/unsubscribe">Unsubscribe</a></p></body></html>`;
+  const scoreOf = (report: ReturnType<typeof analyzeSpamScore>, rule: string) =>
+    report.rules.find((result) => result.rule === rule)!.score;
+
+  it('should pass a clean email and report every rule', () => {
+    const report = analyzeSpamScore(
+      { html: email(`<p>${paragraph}</p>`), text: paragraph },
+      { subject: 'Your monthly product update' }
+    );
+
+    expect(report.score).toBe(0);
+    expect(report.status).toBe('pass');
+    expect(report.threshold).toBe(SPAM_THRESHOLD);
+    expect(report.rules).toHaveLength(9);
+  });
+
+  it('should score trigger phrases, capitals and exclamation marks', () => {
+    const report = analyzeSpamScore(
+      { html: email(`<p>${paragraph} CLICK HERE to claim your FREE GIFT!!</p>`), text: paragraph },
+      { subject: 'ACT NOW: LIMITED TIME OFFER!!' }
+    );
+
+    expect(scoreOf(report, 'subject-trigger-phrases')).toBeCloseTo(1.6);
+    expect(report.rules.find((result) => result.rule === 'body-trigger-phrases')!.details).toEqual([
+      '"click here"',
+      '"free gift"',
+    ]);
+    expect(scoreOf(report, 'all-caps')).toBeGreaterThan(0);
+    expect(scoreOf(report, 'exclamation-marks')).toBe(1.5);
+  });
+
+  it('should ignore the hidden preheader and the head', () => {
+    const report = analyzeSpamScore({ html: email(`<p>${paragraph}</p>`), text: paragraph });
+
+    expect(scoreOf(report, 'body-trigger-phrases')).toBe(0);
+    expect(scoreOf(report, 'all-caps')).toBe(0);
+  });
+
+  it('should flag image-heavy emails', () => {
+    const report = analyzeSpamScore({ html: email('<img src="https://example.com/a.png" alt="" /><p>Hi</p>'), text: 'Hi' });
+
+    expect(scoreOf(report, 'image-text-ratio')).toBe(2.5);
+  });
+
+  it('should flag URL shorteners and link text that points elsewhere', () => {
+    const report = analyzeSpamScore({
+      html: email(
+        `<p>${paragraph} <a href="https://bit.ly/abc">Read more</a> <a href="https://evil.example.net/login">www.mybank.com</a> <a href="https://example.com/docs">example.com/docs</a></p>`
+      ),
+      text: paragraph,
+    });
+
+    expect(scoreOf(report, 'url-shortener')).toBe(1.5);
+    expect(report.rules.find((result) => result.rule === 'link-text-mismatch')!.details).toEqual([
+      '"www.mybank.com" links to evil.example.net',
+    ]);
+  });
+
+  it('should flag a missing plain-text part and unsubscribe link', () => {
+    const html = `<html><body><p>${paragraph}</p></body></html>`;
+
+    const report = analyzeSpamScore({ html, text: '' });
+    expect(scoreOf(report, 'missing-text-part')).toBe(1);
+    expect(scoreOf(report, 'missing-unsubscribe')).toBe(1.5);
+
+    const campaign = analyzeSpamScore({ html, text: paragraph }, { unsubscribeAppended: true });
+    expect(campaign.score).toBe(0);
+  });
+
+  it('should fail emails over the threshold', () => {
+    const report = analyzeSpamScore(
+      { html: `<html><body><img src="https://bit.ly/x.png" /><a href="https://bit.ly/x">WINNER!!!</a></body></html>` },
+      { subject: 'URGENT!! YOU ARE A WINNER' }
+    );
+
+    expect(report.score).toBeGreaterThanOrEqual(SPAM_THRESHOLD);
+    expect(report.status).toBe('fail');
+  });
+});
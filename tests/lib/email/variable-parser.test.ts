@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  extractVariables,
+  parseTemplate,
+  replaceVariables,
+  validateTemplateSyntax,
+  validateVariables,
+} from '@/lib/email/variable-parser';
+import { renderTemplate } from '@/lib/email/variable-renderer';
+
+describe('Variable Parser', () => {
+  const data = {
+    customer: { firstName: 'ada', vip: true, points: 120 },
+    order: {
+      total: '42.5',
+      items: [
+        { name: 'Lamp', qty: 2 },
+        { name: 'Desk', qty: 1 },
+      ],
+    },
+    tags: [],
+  };
+
+  it('should keep plain substitution, defaults and filters', () => {
+    expect(replaceVariables('Hi {{customer.firstName | capitalize}}', data)).toBe('Hi Ada');
+    expect(replaceVariables('Hi {{customer.lastName|default:"friend"}}', data)).toBe('Hi friend');
+    expect(replaceVariables('{{missing}}', data, { handleMissing: (name) => `[${name}]` })).toBe('[missing]');
+    expect(replaceVariables('{{order.items[1].name}}', data)).toBe('Desk');
+  });
+
+  it('should render if, else if and else branches', () => {
+    const template = '{{#if customer.points > 500}}Gold{{else if customer.vip}}VIP{{else}}Member{{/if}}';
+
+    expect(replaceVariables(template, data)).toBe('VIP');
+    expect(replaceVariables(template, { customer: { points: 900 } })).toBe('Gold');
+    expect(replaceVariables(template, { customer: {} })).toBe('Member');
+  });
+
+  it('should support comparison and logic helpers', () => {
+    expect(replaceVariables('{{#if (eq customer.firstName "ada")}}yes{{/if}}', data)).toBe('yes');
+    expect(replaceVariables('{{#if (and customer.vip (gte customer.points 100))}}yes{{/if}}', data)).toBe('yes');
+    expect(replaceVariables('{{#if (not customer.vip)}}yes{{else}}no{{/if}}', data)).toBe('no');
+    expect(replaceVariables('{{#if order.total == 42.50}}yes{{/if}}', data)).toBe('yes');
+    expect(replaceVariables('{{#if tags}}has tags{{else}}none{{/if}}', data)).toBe('none');
+    // Rich text stores operators as entities
+    expect(replaceVariables('{{#if customer.points &gt;= 100}}yes{{/if}}', data)).toBe('yes');
+  });
+
+  it('should loop with item scope, aliases and loop locals', () => {
+    expect(
+      replaceVariables('{{#each order.items}}{{@index}}:{{name}}x{{qty}}{{/each}}', data)
+    ).toBe('0:Lampx21:Deskx1');
+    expect(
+      replaceVariables(
+        '{{#each order.items as item}}{{item.name}} for {{customer.firstName}}{{#if @last}}.{{else}}, {{/if}}{{/each}}',
+        data
+      )
+    ).toBe('Lamp for ada, Desk for ada.');
+    expect(replaceVariables('{{#each tags}}{{this}}{{else}}No tags{{/each}}', data)).toBe('No tags');
+    expect(renderTemplate('{{#each order.items}}{{@root.customer.firstName}}{{/each}}', data)).toBe('adaada');
+  });
+
+  it('should report syntax errors with positions', () => {
+    expect(validateTemplateSyntax('{{#if a}}x{{else}}y{{/if}}')).toEqual([]);
+    expect(validateTemplateSyntax('{{! a comment }}{{name}}')).toEqual([]);
+
+    const [unclosed] = validateTemplateSyntax('Hello\n  {{#if customer.vip}}VIP');
+    expect(unclosed.message).toContain('{{#if}} is never closed');
+    expect(unclosed).toMatchObject({ line: 2, column: 3 });
+
+    expect(validateTemplateSyntax('{{/each}}')[0].message).toContain('without a matching {{#each}}');
+    expect(validateTemplateSyntax('{{else}}')[0].message).toContain('outside of an {{#if}}');
+    expect(validateTemplateSyntax('{{#if a}}{{else}}{{else}}{{/if}}')[0].message).toContain('after {{else}}');
+    expect(validateTemplateSyntax('{{#if (eq a)}}{{/if}}')[0].message).toContain('expects 2 arguments');
+    expect(validateTemplateSyntax('{{#each}}{{/each}}')[0].message).toContain('needs a list path');
+    expect(validateTemplateSyntax('Hi {{name')[0].message).toContain('Unclosed');
+  });
+
+  it('should recover from syntax errors when rendering', () => {
+    const { nodes, errors } = parseTemplate('{{#if customer.vip}}{{#each order.items}}{{name}}{{/if}}!');
+
+    expect(errors).toHaveLength(1);
+    expect(nodes[0].type).toBe('if');
+    expect(replaceVariables('{{#if customer.vip}}{{#each order.items}}{{name}}{{/if}}!', data)).toBe('LampDesk!');
+    expect(replaceVariables('a{{/if}}b', data)).toBe('ab');
+  });
+
+  it('should extract variables with their loop scope', () => {
+    const variables = extractVariables(
+      '{{#if customer.vip}}{{customer.firstName}}{{/if}}' +
+        '{{#each order.items}}{{name}} {{@index}} {{this.qty}} {{@root.store}}{{/each}}' +
+        '{{#each order.items as item}}{{item.sku}}{{item}}{{/each}}'
+    );
+
+    expect(variables.map((v) => [v.name, v.scope])).toEqual([
+      ['customer.vip', undefined],
+      ['customer.firstName', undefined],
+      ['order.items', undefined],
+      ['name', 'order.items'],
+      ['qty', 'order.items'],
+      ['store', undefined],
+      ['sku', 'order.items'],
+    ]);
+  });
+
+  it('should mark variables that can only come from the loop item', () => {
+    const variables = extractVariables(
+      '{{#each order.items}}{{name}}{{this.qty}}{{/each}}{{#each order.items as item}}{{item.sku}}{{/each}}'
+    );
+
+    expect(variables.map((v) => [v.name, Boolean(v.loopItem)])).toEqual([
+      ['order.items', false],
+      ['name', false],
+      ['qty', true],
+      ['sku', true],
+    ]);
+  });
+
+  it('should extract from every string in a structure', () => {
+    const variables = extractVariables({ text: 'Hi {{customer.firstName}}', links: [{ url: '{{site.url}}' }] });
+    expect(variables.map((v) => v.name)).toEqual(['customer.firstName', 'site.url']);
+  });
+
+  it('should validate scoped variables against list items', () => {
+    const variables = extractVariables(
+      '{{#each order.items}}{{name}}{{customer.vip}}{{color}}{{/each}}{{#each tags}}{{label}}{{/each}}'
+    );
+    const { valid, invalid } = validateVariables(variables, data);
+
+    expect(valid.map((v) => v.name)).toEqual(['order.items', 'name', 'customer.vip', 'tags', 'label']);
+    expect(invalid.map((v) => v.name)).toEqual(['color']);
+  });
+});
+
+describe('Variable Filters', () => {
+  const data = { total: 1234.5, rate: 0.256, count: 1, date: '2024-01-15T18:30:00Z', note: 'A high-quality widget' };
+  const render = (template: string, language?: string, timeZone?: string) =>
+    replaceVariables(template, data, { language, timeZone }).replace(/\u00a0|\u202f/g, ' ');
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should format numbers and currency for the language', () => {
+    expect(render('{{total | currency}}')).toBe('$1,234.50');
+    expect(render('{{total | currency:EUR}}', 'de')).toBe('1.234,50 €');
+    expect(render('{{total | number}}', 'fr')).toBe('1 234,5');
+    expect(render('{{total | number:2}}', 'de')).toBe('1.234,50');
+    expect(render('{{rate | percent:1}}', 'de')).toBe('25,6 %');
+  });
+
+  it('should format dates with presets, patterns and time zones', () => {
+    expect(render('{{date | date:long}}', 'de', 'UTC')).toBe('15. Januar 2024');
+    expect(render('{{date | date:"EEEE, d MMMM yyyy"}}', 'fr', 'UTC')).toBe('lundi, 15 janvier 2024');
+    expect(render('{{date | date:"dd.MM.yyyy HH:mm"}}', 'de', 'Europe/Berlin')).toBe('15.01.2024 19:30');
+    expect(render("{{date | date:\"h:mm a 'UTC'\"}}", 'en', 'UTC')).toBe('6:30 PM UTC');
+  });
+
+  it('should describe relative times', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-18T18:30:00Z'));
+
+    expect(render('{{date | relativeTime}}')).toBe('3 days ago');
+    expect(render('{{date | relativeTime}}', 'de')).toBe('vor 3 Tagen');
+  });
+
+  it('should pluralize, truncate and fall back to defaults', () => {
+    expect(render('{{count}} {{count | pluralize:item:items}}')).toBe('1 item');
+    expect(replaceVariables('{{count | pluralize:item:items}}', { count: 3 })).toBe('items');
+    expect(render('{{note | truncate:10}}')).toBe('A high-qu…');
+    expect(replaceVariables('Hi {{name | default:"there"}}', { name: '' })).toBe('Hi there');
+  });
+
+  it('should leave values it cannot format unchanged', () => {
+    expect(replaceVariables('{{name | number}}', { name: 'n/a' })).toBe('n/a');
+    expect(render('{{total | currency:NOPE}}')).toBe('1234.5');
+    expect(render('{{date | date:short}}', 'en', 'Not/AZone')).toBe('2024-01-15T18:30:00Z');
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@/lib/db/prisma';
+import { invalidateFontCache, loadCustomFonts } from '@/lib/fonts/loader';
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    customFont: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+describe('Custom Font Loader', () => {
+  const row = { id: 'font-1', name: 'Inter', cssUrl: 'https://fonts.example.com/inter.css', fileUrl: null, fallback: 'MODERN_SANS' };
+
+  it('should only load and cache fonts per organization', async () => {
+    vi.mocked(prisma.customFont.findMany).mockResolvedValue([row] as any);
+
+    expect(await loadCustomFonts(['font-1'], 'org-a')).toHaveLength(1);
+    expect(await loadCustomFonts(['font-1'], 'org-a')).toHaveLength(1);
+
+    vi.mocked(prisma.customFont.findMany).mockResolvedValue([]);
+    expect(await loadCustomFonts(['font-1'], 'org-b')).toEqual([]);
+
+    invalidateFontCache('org-a', 'font-1');
+    expect(await loadCustomFonts(['font-1'], 'org-a')).toEqual([]);
+
+    expect(vi.mocked(prisma.customFont.findMany).mock.calls.map(([args]) => args?.where)).toEqual([
+      { id: { in: ['font-1'] }, organizationId: 'org-a' },
+      { id: { in: ['font-1'] }, organizationId: 'org-b' },
+      { id: { in: ['font-1'] }, organizationId: 'org-a' },
+    ]);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { assertPublicUrl, isPrivateAddress } from '@/lib/security/network';
+
+describe('Network Guards', () => {
+  it('should flag private, loopback and link-local IPv4 addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0'].forEach(
+      (address) => expect(isPrivateAddress(address), address).toBe(true)
+    );
+    ['8.8.8.8', '172.32.0.1', '93.184.216.34'].forEach((address) => expect(isPrivateAddress(address), address).toBe(false));
+  });
+
+  it('should flag private IPv6 ranges and embedded IPv4 addresses', () => {
+    ['::1', '::', 'fc00::1', 'fd12:3456::1', 'fe80::1%eth0', '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '64:ff9b::10.0.0.1', '2002:c0a8:101::1', '[::1]'].forEach(
+      (address) => expect(isPrivateAddress(address), address).toBe(true)
+    );
+    ['2606:4700:4700::1111', '::ffff:8.8.8.8'].forEach((address) => expect(isPrivateAddress(address), address).toBe(false));
+  });
+
+  it('should treat anything that is not an IP address as private', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+    expect(isPrivateAddress('1::2::3')).toBe(true);
+  });
+
+  it('should reject non-http URLs and private IP literals', () => {
+    expect(() => assertPublicUrl(new URL('file:///etc/passwd'))).toThrow('file: URLs are not checked');
+    expect(() => assertPublicUrl(new URL('http://0x7f.1/'))).toThrow('private addresses are not checked');
+    expect(() => assertPublicUrl(new URL('http://[::ffff:169.254.169.254]/'))).toThrow('private addresses are not checked');
+    expect(() => assertPublicUrl(new URL('https://example.com/'))).not.toThrow();
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SampleProfileSchema,
+  applySampleDefaults,
+  toSampleProfile,
+  validateProfileTypes,
+} from '@/lib/templates/sample-profiles';
+
+describe('Sample Profiles', () => {
+  const definitions = [
+    { path: 'custom.points', type: 'number' as const },
+    { path: 'custom.vip', type: 'boolean' as const },
+    { path: 'order.items', type: 'array' as const },
+    { path: 'custom.nickname', type: 'string' as const },
+  ];
+
+  it('should check values against custom variable types', () => {
+    const issues = validateProfileTypes(
+      { custom: { points: 'lots', vip: 'true' }, order: { items: { name: 'Lamp' } } },
+      definitions
+    );
+
+    expect(issues.map((issue) => issue.path)).toEqual(['custom.points', 'order.items']);
+    expect(issues[0].message).toBe('custom.points should be a number, got a string');
+    expect(issues[1].message).toBe('order.items should be an array, got an object');
+  });
+
+  it('should accept profiles that leave variables out', () => {
+    expect(validateProfileTypes({ custom: { points: '12' } }, definitions)).toEqual([]);
+    expect(validateProfileTypes({}, definitions)).toEqual([]);
+  });
+
+  it('should fill missing and empty recipient values from defaults', () => {
+    const defaults = { firstName: 'there', custom: { code: 'WELCOME', points: 0 }, locale: 'de' };
+    const merged = applySampleDefaults(defaults, {
+      firstName: '  ',
+      custom: { code: 'VIP10' },
+      locale: null,
+      email: 'ada@example.com',
+    });
+
+    expect(merged).toEqual({
+      firstName: 'there',
+      custom: { code: 'VIP10', points: 0 },
+      locale: 'de',
+      email: 'ada@example.com',
+    });
+    expect(applySampleDefaults(defaults, null)).toEqual(defaults);
+    expect(applySampleDefaults(null, { firstName: 'Ada' })).toEqual({ firstName: 'Ada' });
+  });
+
+  it('should validate names and normalize stored rows', () => {
+    expect(SampleProfileSchema.safeParse({ name: '  ', data: {} }).success).toBe(false);
+    expect(SampleProfileSchema.parse({ name: ' German customer ', data: { locale: 'de' } })).toEqual({
+      name: 'German customer',
+      data: { locale: 'de' },
+      isCampaignDefault: false,
+    });
+    expect(toSampleProfile({ id: 'p1', name: 'Empty', data: null, isCampaignDefault: true }).data).toEqual({});
+  });
+});
@@ -0,0 +1,28 @@
+import type { BlockStyle, EmailBlock, EmailBuilderDocument } from '@/lib/email-builder/types';
+
+/**
+ * Create a test document with the default root settings. The blocks are
+ * placed at the root in order; pass `childrenIds` in settings when some of
+ * them are nested inside others.
+ */
+export function createTestDocument(
+  blocks: Record<string, EmailBlock>,
+  settings: Partial<EmailBuilderDocument> = {}
+): EmailBuilderDocument {
+  return {
+    backdropColor: '#F8F8F8',
+    canvasColor: '#FFFFFF',
+    textColor: '#242424',
+    fontFamily: 'MODERN_SANS',
+    childrenIds: Object.keys(blocks),
+    ...blocks,
+    ...settings,
+  };
+}
+
+/**
+ * Create a Text block
+ */
+export function createTextBlock(text: string, style: BlockStyle = {}): EmailBlock {
+  return { type: 'Text', data: { style, props: { text } } };
+}
@@ -15,8 +15,10 @@ import { CONCURRENCY, RETRY_DELAYS } from "../lib/queue/config";
 import { checkRateLimit } from "../lib/queue/rate-limiter";
 import { sendEmail } from "../lib/email/email-service";
 import { renderEmailTemplate } from "../lib/email/template-renderer";
-import { getTemplateLanguage } from "../lib/templates/template-language-helpers";
-import { injectTracking } from "../lib/email/tracking";
+import { renderTemplate } from "../lib/email/variable-renderer";
+import { resolveComputedVariables } from "../lib/email/computed-variable-loader";
+import { getTemplateLanguage, getTemplatePlainText } from "../lib/templates/template-language-helpers";
+import { prepareForDelivery } from "../lib/email/delivery";
 import { prisma } from "../lib/db/prisma";
 import type { EmailJob } from "../lib/queue/queue-service";
 
@@ -85,6 +87,7 @@ async function processEmailJob(job: any): Promise<void> {
     }
 
     // 3. Load template structure
+    // (stored documents are upgraded to the current schema version as they load)
     const templateStructure = await getTemplateLanguage(
       data.templateId,
       data.languageCode
@@ -96,12 +99,29 @@ async function processEmailJob(job: any): Promise<void> {
       );
     }
 
+    // 3a. Evaluate computed variables over the recipient's data and contact fields
+    const computed = await resolveComputedVariables(
+      data.organizationId,
+      { email: data.recipientEmail, name: data.recipientName },
+      data.variables
+    );
+    computed.errors.forEach((error) =>
+      console.warn(`[Worker] Computed variable ${error.path} skipped for job ${jobId}: ${error.message}`)
+    );
+    const variables = computed.variables;
+
     // 4. Render template with variables
+    // (a hand-edited text part replaces the one generated from the HTML)
+    const plainText = await getTemplatePlainText(data.templateId, data.languageCode);
     let { html, text } = await renderEmailTemplate(templateStructure, {
-      sampleData: data.variables || {},
+      sampleData: variables,
       replaceVariables: true,
       language: data.languageCode,
       templateId: data.templateId,
+      preheader: data.preheader,
+      plainText,
+      organizationId: data.organizationId,
+      inlineCss: true, // Some Gmail contexts strip <style>
     });
 
     // 4a. Check if email is suppressed (bounced) or unsubscribed
@@ -121,13 +141,7 @@ async function processEmailJob(job: any): Promise<void> {
       throw new Error("Email address has unsubscribed");
     }
 
-    // 4b. Inject tracking (open pixel and click tracking)
-    html = injectTracking(html, emailLogId, {
-      trackOpens: true,
-      trackClicks: true,
-    });
-
-    // 4c. Generate unsubscribe URLs
+    // 4b. Generate unsubscribe URLs
     const {
       generateUnsubscribeUrl,
       generatePreferenceCenterUrl,
@@ -138,22 +152,14 @@ async function processEmailJob(job: any): Promise<void> {
     );
     const preferenceUrl = generatePreferenceCenterUrl(data.recipientEmail);
 
-    // Add unsubscribe footer to HTML
-    const unsubscribeFooter = `
-      <div style="margin-top: 20px; padding-top: 20px; border-top: 1px solid #e5e7eb; text-align: center; font-size: 12px; color: #6b7280;">
-        <p>
-          <a href="${unsubscribeUrl}" style="color: #6b7280; text-decoration: underline;">Unsubscribe</a>
-          | 
-          <a href="${preferenceUrl}" style="color: #6b7280; text-decoration: underline;">Manage Preferences</a>
-        </p>
-      </div>
-    `;
-    // Insert before </body> or append if no body tag
-    if (html.includes("</body>")) {
-      html = html.replace("</body>", `${unsubscribeFooter}</body>`);
-    } else {
-      html = html + unsubscribeFooter;
-    }
+    // 4c. Inject tracking (open pixel and click tracking) and the unsubscribe footer
+    ({ html, text } = prepareForDelivery(html, text, {
+      emailLogId,
+      unsubscribeUrl,
+      preferenceUrl,
+      trackOpens: true,
+      trackClicks: true,
+    }));
 
     // 6. Get template for subject (if not provided)
     let subject = data.subject;
@@ -165,13 +171,8 @@ async function processEmailJob(job: any): Promise<void> {
       subject = template?.name || "Email";
     }
 
-    // Replace variables in subject
-    if (data.variables) {
-      Object.entries(data.variables).forEach(([key, value]) => {
-        const regex = new RegExp(`{{\\s*${key}\\s*}}`, "g");
-        subject = subject?.replace(regex, String(value)) || subject;
-      });
-    }
+    // Replace variables in subject (nested paths such as computed custom.* ones included)
+    subject = renderTemplate(subject, variables, { language: data.languageCode });
 
     // 6. Send email with unsubscribe headers
     const messageId = await sendEmail({